@@ -0,0 +1,18 @@
+-- Pending OTP sessions and verify lockouts, shared across server instances
+CREATE TABLE IF NOT EXISTS otp_sessions (
+  phone VARCHAR(15) PRIMARY KEY,
+  provider VARCHAR(20),
+  session_id VARCHAR(255),
+  expires_at TIMESTAMP,
+  failed_attempts INTEGER NOT NULL DEFAULT 0,
+  locked_until TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Fixed-window counters for OTP send throttling (keys: "phone:<e164>", "ip:<address>")
+CREATE TABLE IF NOT EXISTS otp_rate_limits (
+  key VARCHAR(100) PRIMARY KEY,
+  count INTEGER NOT NULL DEFAULT 0,
+  reset_at TIMESTAMP NOT NULL
+);
@@ -0,0 +1,74 @@
+-- Named permissions grouped into roles. Every user implicitly holds the system role matching
+-- users.role (and "finance" for finance-department employees); extra roles are assigned per user.
+CREATE TABLE IF NOT EXISTS access_roles (
+  id SERIAL PRIMARY KEY,
+  key VARCHAR(50) NOT NULL UNIQUE,
+  name VARCHAR(100) NOT NULL,
+  description TEXT,
+  is_system BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS access_role_permissions (
+  role_id INTEGER NOT NULL REFERENCES access_roles(id) ON DELETE CASCADE,
+  permission VARCHAR(100) NOT NULL,
+  PRIMARY KEY (role_id, permission)
+);
+
+CREATE TABLE IF NOT EXISTS user_access_roles (
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  role_id INTEGER NOT NULL REFERENCES access_roles(id) ON DELETE CASCADE,
+  assigned_by_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (user_id, role_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_access_roles_role_id ON user_access_roles(role_id);
+
+-- System roles mirroring the previous ensureAdmin / ensureEmployee / ensureFinanceDepartment checks
+INSERT INTO access_roles (key, name, description, is_system) VALUES
+  ('admin', 'Administrator', 'Full access to the admin console', true),
+  ('employee', 'Employee', 'Employee portal: property and banner proposals, assigned agents', true),
+  ('finance', 'Finance', 'Finance department loan request queue', true),
+  ('agent', 'Agent', 'Property agent', true),
+  ('customer', 'Customer', 'App customer', true)
+ON CONFLICT (key) DO NOTHING;
+
+INSERT INTO access_role_permissions (role_id, permission)
+SELECT r.id, p.permission FROM access_roles r
+CROSS JOIN (VALUES
+  ('admin.access'), ('dashboard.view'), ('access.manage'), ('session.revoke'),
+  ('customer.view'), ('customer.delete'),
+  ('agent.view'), ('agent.approve'), ('agent.delete'),
+  ('employee.view'), ('employee.manage'), ('employee.delete'),
+  ('property.view'), ('property.manage'), ('property.approve'),
+  ('banner.view'), ('banner.publish'),
+  ('pending_change.view'), ('pending_change.review'),
+  ('loan.create'), ('loan.view_all'), ('loan.override_status'), ('loan.comment'),
+  ('loan.reassign'), ('loan.escalate'), ('loan.export'), ('loan.configure_sla')
+) AS p(permission)
+WHERE r.key = 'admin'
+ON CONFLICT DO NOTHING;
+
+INSERT INTO access_role_permissions (role_id, permission)
+SELECT r.id, p.permission FROM access_roles r
+CROSS JOIN (VALUES
+  ('employee_portal.access'), ('property.propose'), ('banner.propose'),
+  ('agent.manage_assigned'), ('customer.view_assigned'), ('loan.create')
+) AS p(permission)
+WHERE r.key = 'employee'
+ON CONFLICT DO NOTHING;
+
+INSERT INTO access_role_permissions (role_id, permission)
+SELECT r.id, p.permission FROM access_roles r
+CROSS JOIN (VALUES
+  ('loan.view_queue'), ('loan.take'), ('loan.update_status'), ('loan.comment')
+) AS p(permission)
+WHERE r.key = 'finance'
+ON CONFLICT DO NOTHING;
+
+INSERT INTO access_role_permissions (role_id, permission)
+SELECT r.id, 'loan.create' FROM access_roles r
+WHERE r.key IN ('agent', 'customer')
+ON CONFLICT DO NOTHING;
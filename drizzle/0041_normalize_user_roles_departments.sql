@@ -0,0 +1,39 @@
+-- Canonicalize users.role / users.department and enforce them with Postgres enums
+
+-- Roles: lower-case, unknown or missing values fall back to customer
+UPDATE users SET role = lower(trim(role)) WHERE role IS NOT NULL AND role <> lower(trim(role));
+UPDATE users SET role = 'customer' WHERE role IS NULL OR role NOT IN ('customer', 'agent', 'employee', 'admin');
+
+-- Departments: lower-case, blanks become NULL, unknown values become "other"
+UPDATE users SET department = NULL WHERE department IS NOT NULL AND trim(department) = '';
+UPDATE users SET department = lower(trim(department)) WHERE department IS NOT NULL AND department <> lower(trim(department));
+UPDATE users SET department = 'other' WHERE department IS NOT NULL AND department NOT IN ('finance', 'sales', 'operations', 'marketing', 'other');
+
+-- Person chat snapshots the role at conversation creation
+UPDATE person_conversations SET person_role = lower(trim(person_role)) WHERE person_role <> lower(trim(person_role));
+
+DO $$
+BEGIN
+  CREATE TYPE user_role AS ENUM ('customer', 'agent', 'employee', 'admin');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE TYPE user_department AS ENUM ('finance', 'sales', 'operations', 'marketing', 'other');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+-- The partial index predicate compares role to a text literal, so rebuild it around the type change
+DROP INDEX IF EXISTS idx_users_assigned_employee_id;
+
+ALTER TABLE users ALTER COLUMN role DROP DEFAULT;
+ALTER TABLE users ALTER COLUMN role TYPE user_role USING role::user_role;
+ALTER TABLE users ALTER COLUMN role SET DEFAULT 'customer';
+ALTER TABLE users ALTER COLUMN role SET NOT NULL;
+
+ALTER TABLE users ALTER COLUMN department TYPE user_department USING department::user_department;
+
+CREATE INDEX IF NOT EXISTS idx_users_assigned_employee_id ON users (assigned_employee_id) WHERE role = 'agent' AND deleted = false;
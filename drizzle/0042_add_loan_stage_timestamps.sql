@@ -0,0 +1,27 @@
+-- Per-stage timestamps for the loan request workflow
+ALTER TABLE loan_requests ADD COLUMN IF NOT EXISTS under_review_at TIMESTAMP;
+ALTER TABLE loan_requests ADD COLUMN IF NOT EXISTS contacted_at TIMESTAMP;
+ALTER TABLE loan_requests ADD COLUMN IF NOT EXISTS closed_at TIMESTAMP;
+ALTER TABLE loan_requests ADD COLUMN IF NOT EXISTS rejected_at TIMESTAMP;
+
+-- Backfill from the status_change audit trail (latest entry into each stage)
+UPDATE loan_requests lr SET under_review_at = s.changed_at
+FROM (SELECT loan_request_id, MAX(created_at) AS changed_at FROM loan_request_audit_logs WHERE action = 'status_change' AND new_value = 'under_review' GROUP BY loan_request_id) s
+WHERE s.loan_request_id = lr.id AND lr.under_review_at IS NULL;
+
+UPDATE loan_requests lr SET contacted_at = s.changed_at
+FROM (SELECT loan_request_id, MAX(created_at) AS changed_at FROM loan_request_audit_logs WHERE action = 'status_change' AND new_value = 'contacted' GROUP BY loan_request_id) s
+WHERE s.loan_request_id = lr.id AND lr.contacted_at IS NULL;
+
+UPDATE loan_requests lr SET closed_at = COALESCE(s.changed_at, lr.updated_at)
+FROM loan_requests base
+LEFT JOIN (SELECT loan_request_id, MAX(created_at) AS changed_at FROM loan_request_audit_logs WHERE action = 'status_change' AND new_value = 'closed' GROUP BY loan_request_id) s ON s.loan_request_id = base.id
+WHERE base.id = lr.id AND lr.status = 'closed' AND lr.closed_at IS NULL;
+
+UPDATE loan_requests lr SET rejected_at = COALESCE(s.changed_at, lr.updated_at)
+FROM loan_requests base
+LEFT JOIN (SELECT loan_request_id, MAX(created_at) AS changed_at FROM loan_request_audit_logs WHERE action = 'status_change' AND new_value = 'rejected' GROUP BY loan_request_id) s ON s.loan_request_id = base.id
+WHERE base.id = lr.id AND lr.status = 'rejected' AND lr.rejected_at IS NULL;
+
+-- Finished requests no longer have an SLA due date
+UPDATE loan_requests SET sla_due_at = NULL WHERE status IN ('closed', 'rejected');
@@ -0,0 +1,49 @@
+-- SLA configuration: the global default (admin_sla_configs), per priority / loan type policies and business-hours calendars
+CREATE TABLE IF NOT EXISTS admin_sla_configs (
+  id INTEGER PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  config_key VARCHAR(100) NOT NULL UNIQUE,
+  config_value JSONB NOT NULL,
+  updated_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO admin_sla_configs (config_key, config_value)
+VALUES ('loan_request_sla_hours', '{"hours": 24}')
+ON CONFLICT (config_key) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS sla_calendars (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  utc_offset_minutes INTEGER NOT NULL DEFAULT 330,
+  work_days JSONB NOT NULL,
+  start_time VARCHAR(5) NOT NULL,
+  end_time VARCHAR(5) NOT NULL,
+  holidays JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS loan_sla_policies (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  priority VARCHAR(20),
+  loan_type VARCHAR(50),
+  response_hours INTEGER NOT NULL CHECK (response_hours > 0),
+  calendar_id INTEGER REFERENCES sla_calendars(id) ON DELETE SET NULL,
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  updated_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Breach tracking for the SLA sweeper
+ALTER TABLE loan_requests ADD COLUMN IF NOT EXISTS sla_breached_at TIMESTAMP;
+
+UPDATE loan_requests SET sla_breached_at = sla_due_at, is_escalated = TRUE
+WHERE sla_due_at < NOW() AND sla_breached_at IS NULL AND deleted_at IS NULL AND status NOT IN ('closed', 'rejected');
+
+CREATE INDEX IF NOT EXISTS idx_loan_requests_sla_open ON loan_requests(sla_due_at) WHERE sla_breached_at IS NULL AND deleted_at IS NULL;
+
+-- Sweeper entries have no human actor
+ALTER TABLE loan_request_audit_logs ALTER COLUMN actor_id DROP NOT NULL;
@@ -0,0 +1,22 @@
+-- Export jobs processed by the background worker (CSV / XLSX files delivered through R2)
+CREATE TABLE IF NOT EXISTS export_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_type VARCHAR(50) NOT NULL,
+  requested_by INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  filters JSONB,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  file_url TEXT,
+  error_message TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMP
+);
+
+ALTER TABLE export_jobs ADD COLUMN IF NOT EXISTS file_key TEXT;
+ALTER TABLE export_jobs ADD COLUMN IF NOT EXISTS file_name VARCHAR(255);
+ALTER TABLE export_jobs ADD COLUMN IF NOT EXISTS row_count INTEGER;
+ALTER TABLE export_jobs ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE export_jobs ADD COLUMN IF NOT EXISTS started_at TIMESTAMP;
+
+-- Old 'loan_requests_csv' rows keep working; the worker reads the format from the job type suffix
+CREATE INDEX IF NOT EXISTS idx_export_jobs_pending ON export_jobs(created_at) WHERE status IN ('pending', 'processing');
+CREATE INDEX IF NOT EXISTS idx_export_jobs_requested_by ON export_jobs(requested_by, created_at DESC);
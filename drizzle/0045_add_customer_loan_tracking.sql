@@ -0,0 +1,13 @@
+-- Customers can withdraw their own loan requests and receive push notifications about them
+ALTER TABLE loan_requests ADD COLUMN IF NOT EXISTS withdrawn_at TIMESTAMP;
+
+CREATE TABLE IF NOT EXISTS user_device_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token VARCHAR(512) NOT NULL UNIQUE,
+  platform VARCHAR(20),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  last_seen_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_device_tokens_user_id ON user_device_tokens(user_id);
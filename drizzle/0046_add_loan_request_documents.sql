@@ -0,0 +1,23 @@
+-- Documents customers upload against a loan request, reviewed by finance
+CREATE TABLE IF NOT EXISTS loan_request_documents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  loan_request_id UUID NOT NULL REFERENCES loan_requests(id) ON DELETE CASCADE,
+  upload_id UUID NOT NULL REFERENCES uploads(id) ON DELETE CASCADE,
+  document_type VARCHAR(50) NOT NULL,
+  file_name VARCHAR(255) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  rejection_reason TEXT,
+  uploaded_by_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  reviewed_by_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT loan_request_documents_status_check CHECK (status IN ('pending', 'verified', 'rejected'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_loan_request_documents_request ON loan_request_documents(loan_request_id, document_type);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_loan_request_documents_upload ON loan_request_documents(upload_id);
+
+INSERT INTO access_role_permissions (role_id, permission)
+SELECT r.id, 'loan.verify_documents' FROM access_roles r
+WHERE r.key IN ('admin', 'finance')
+ON CONFLICT DO NOTHING;
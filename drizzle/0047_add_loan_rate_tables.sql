@@ -0,0 +1,30 @@
+-- Rate tables for the loan estimate calculator and the estimate stored on each loan request
+CREATE TABLE IF NOT EXISTS loan_rate_tables (
+  id SERIAL PRIMARY KEY,
+  loan_type VARCHAR(50) NOT NULL UNIQUE,
+  interest_rate_bps INTEGER NOT NULL CHECK (interest_rate_bps > 0),
+  max_foir_percent INTEGER NOT NULL CHECK (max_foir_percent BETWEEN 1 AND 100),
+  max_tenure_years INTEGER NOT NULL CHECK (max_tenure_years BETWEEN 1 AND 40),
+  ltv_slabs JSONB NOT NULL,
+  updated_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO loan_rate_tables (loan_type, interest_rate_bps, max_foir_percent, max_tenure_years, ltv_slabs) VALUES
+  ('Home Loan', 850, 50, 30, '[{"upTo": 3000000, "percent": 90}, {"upTo": 7500000, "percent": 80}, {"upTo": null, "percent": 75}]'),
+  ('Plot Loan', 950, 50, 15, '[{"upTo": null, "percent": 70}]'),
+  ('Construction Loan', 900, 50, 30, '[{"upTo": 3000000, "percent": 90}, {"upTo": 7500000, "percent": 80}, {"upTo": null, "percent": 75}]'),
+  ('Home Improvement Loan', 950, 50, 15, '[{"upTo": null, "percent": 80}]'),
+  ('Balance Transfer', 840, 55, 30, '[{"upTo": 3000000, "percent": 90}, {"upTo": 7500000, "percent": 80}, {"upTo": null, "percent": 75}]'),
+  ('Top-Up Loan', 975, 50, 15, '[{"upTo": null, "percent": 70}]')
+ON CONFLICT (loan_type) DO NOTHING;
+
+ALTER TABLE loan_requests ADD COLUMN IF NOT EXISTS existing_emi BIGINT;
+ALTER TABLE loan_requests ADD COLUMN IF NOT EXISTS estimate JSONB;
+ALTER TABLE loan_requests ADD COLUMN IF NOT EXISTS is_affordable BOOLEAN;
+
+INSERT INTO access_role_permissions (role_id, permission)
+SELECT r.id, 'loan.configure_rates' FROM access_roles r
+WHERE r.key = 'admin'
+ON CONFLICT DO NOTHING;
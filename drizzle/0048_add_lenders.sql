@@ -0,0 +1,64 @@
+-- Partner lender catalog and per-loan-request submissions to lenders
+CREATE TABLE IF NOT EXISTS lenders (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(150) NOT NULL,
+  code VARCHAR(30) UNIQUE,
+  contact_name VARCHAR(100),
+  contact_email VARCHAR(100),
+  contact_phone VARCHAR(20),
+  notes TEXT,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS lender_products (
+  id SERIAL PRIMARY KEY,
+  lender_id INTEGER NOT NULL REFERENCES lenders(id) ON DELETE CASCADE,
+  name VARCHAR(150) NOT NULL,
+  loan_type VARCHAR(50) NOT NULL,
+  min_rate_bps INTEGER NOT NULL CHECK (min_rate_bps > 0),
+  max_rate_bps INTEGER NOT NULL CHECK (max_rate_bps >= min_rate_bps),
+  max_ltv_percent INTEGER NOT NULL CHECK (max_ltv_percent BETWEEN 1 AND 100),
+  max_tenure_years INTEGER,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lender_products_lender ON lender_products(lender_id);
+
+CREATE TABLE IF NOT EXISTS loan_lender_submissions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  loan_request_id UUID NOT NULL REFERENCES loan_requests(id) ON DELETE CASCADE,
+  lender_id INTEGER NOT NULL REFERENCES lenders(id) ON DELETE RESTRICT,
+  product_id INTEGER REFERENCES lender_products(id) ON DELETE SET NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'submitted',
+  lender_reference VARCHAR(100),
+  requested_amount BIGINT NOT NULL CHECK (requested_amount > 0),
+  sanctioned_amount BIGINT,
+  sanctioned_rate_bps INTEGER,
+  disbursed_amount BIGINT,
+  decline_reason TEXT,
+  submitted_by_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  submitted_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  sanctioned_at TIMESTAMP,
+  disbursed_at TIMESTAMP,
+  declined_at TIMESTAMP,
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT loan_lender_submissions_status_check CHECK (status IN ('submitted', 'sanctioned', 'disbursed', 'declined'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_loan_lender_submissions_request ON loan_lender_submissions(loan_request_id);
+CREATE INDEX IF NOT EXISTS idx_loan_lender_submissions_lender ON loan_lender_submissions(lender_id, status);
+
+INSERT INTO access_role_permissions (role_id, permission)
+SELECT r.id, p.permission FROM access_roles r
+CROSS JOIN (VALUES ('lender.manage'), ('loan.submit_to_lender')) AS p(permission)
+WHERE r.key = 'admin'
+ON CONFLICT DO NOTHING;
+
+INSERT INTO access_role_permissions (role_id, permission)
+SELECT r.id, 'loan.submit_to_lender' FROM access_roles r
+WHERE r.key = 'finance'
+ON CONFLICT DO NOTHING;
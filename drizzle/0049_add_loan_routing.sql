@@ -0,0 +1,38 @@
+-- Configurable auto-assignment of new loan requests to finance employees
+CREATE TABLE IF NOT EXISTS loan_routing_rules (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  loan_type VARCHAR(50),
+  city VARCHAR(100),
+  strategy VARCHAR(20) NOT NULL,
+  use_skills BOOLEAN NOT NULL DEFAULT false,
+  employee_ids JSONB NOT NULL DEFAULT '[]'::jsonb,
+  active BOOLEAN NOT NULL DEFAULT true,
+  updated_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT loan_routing_rules_strategy_check CHECK (strategy IN ('round_robin', 'least_open'))
+);
+
+CREATE TABLE IF NOT EXISTS loan_routing_profiles (
+  user_id INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  accepts_auto_assign BOOLEAN NOT NULL DEFAULT true,
+  max_open_requests INTEGER CHECK (max_open_requests IS NULL OR max_open_requests >= 0),
+  loan_types JSONB NOT NULL DEFAULT '[]'::jsonb,
+  cities JSONB NOT NULL DEFAULT '[]'::jsonb,
+  out_of_office_from TIMESTAMP,
+  out_of_office_until TIMESTAMP,
+  last_assigned_at TIMESTAMP,
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Automatic assignments have no human assigner; record which rule made the decision instead
+ALTER TABLE loan_request_assignments ALTER COLUMN assigned_by_id DROP NOT NULL;
+ALTER TABLE loan_request_assignments ADD COLUMN IF NOT EXISTS routing_rule_id INTEGER REFERENCES loan_routing_rules(id) ON DELETE SET NULL;
+ALTER TABLE loan_request_assignments ADD COLUMN IF NOT EXISTS routing_strategy VARCHAR(20);
+
+INSERT INTO access_role_permissions (role_id, permission)
+SELECT r.id, 'loan.configure_routing' FROM access_roles r
+WHERE r.key = 'admin'
+ON CONFLICT DO NOTHING;
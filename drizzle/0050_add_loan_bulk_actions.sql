@@ -0,0 +1,22 @@
+-- Bulk loan request operations recorded as one action with a per-ID outcome
+CREATE TABLE IF NOT EXISTS loan_bulk_actions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  action VARCHAR(30) NOT NULL,
+  actor_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  params JSONB NOT NULL DEFAULT '{}'::jsonb,
+  requested_count INTEGER NOT NULL,
+  updated_count INTEGER NOT NULL DEFAULT 0,
+  conflict_count INTEGER NOT NULL DEFAULT 0,
+  not_found_count INTEGER NOT NULL DEFAULT 0,
+  invalid_count INTEGER NOT NULL DEFAULT 0,
+  results JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE loan_request_audit_logs ADD COLUMN IF NOT EXISTS bulk_action_id UUID REFERENCES loan_bulk_actions(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_loan_request_audit_logs_bulk_action ON loan_request_audit_logs(bulk_action_id) WHERE bulk_action_id IS NOT NULL;
+
+INSERT INTO access_role_permissions (role_id, permission)
+SELECT r.id, 'loan.delete' FROM access_roles r
+WHERE r.key = 'admin'
+ON CONFLICT DO NOTHING;
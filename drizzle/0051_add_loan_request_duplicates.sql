@@ -0,0 +1,12 @@
+-- Duplicate detection on submission and admin merge of duplicate loan requests
+ALTER TABLE loan_requests ADD COLUMN IF NOT EXISTS duplicate_of_id UUID REFERENCES loan_requests(id) ON DELETE SET NULL;
+ALTER TABLE loan_requests ADD COLUMN IF NOT EXISTS merged_into_id UUID REFERENCES loan_requests(id) ON DELETE SET NULL;
+ALTER TABLE loan_requests ADD COLUMN IF NOT EXISTS merged_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_loan_requests_user_loan_type ON loan_requests(user_id, loan_type, created_at) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_loan_requests_duplicate_of ON loan_requests(duplicate_of_id) WHERE duplicate_of_id IS NOT NULL;
+
+INSERT INTO access_role_permissions (role_id, permission)
+SELECT r.id, 'loan.merge' FROM access_roles r
+WHERE r.key = 'admin'
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,17 @@
+-- Full-text search over title, location and description, plus GIN indexes for the faceted filters.
+-- search_vector is generated by Postgres and deliberately not mapped in models/property.ts,
+-- so plain selects don't return it.
+ALTER TABLE properties ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(location, '')), 'B') ||
+  setweight(to_tsvector('english', coalesce(description, '')), 'C')
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_properties_search_vector ON properties USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS idx_properties_categories ON properties USING gin(categories);
+CREATE INDEX IF NOT EXISTS idx_properties_amenities ON properties USING gin(amenities);
+CREATE INDEX IF NOT EXISTS idx_properties_features ON properties USING gin(features);
+CREATE INDEX IF NOT EXISTS idx_properties_price ON properties (price) WHERE deleted = false;
+
+-- Superseded by idx_properties_search_vector
+DROP INDEX IF EXISTS idx_properties_title_location;
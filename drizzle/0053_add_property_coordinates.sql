@@ -0,0 +1,16 @@
+-- Property coordinates for radius / map-bounds search. Existing rows are filled from their map links
+-- by src/scripts/backfillPropertyCoordinates.ts.
+ALTER TABLE properties ADD COLUMN IF NOT EXISTS latitude numeric(9, 6);
+ALTER TABLE properties ADD COLUMN IF NOT EXISTS longitude numeric(9, 6);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'properties_coordinates_check') THEN
+    ALTER TABLE properties ADD CONSTRAINT properties_coordinates_check CHECK (
+      (latitude IS NULL AND longitude IS NULL) OR
+      (latitude BETWEEN -90 AND 90 AND longitude BETWEEN -180 AND 180)
+    );
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_properties_coordinates ON properties (latitude, longitude) WHERE deleted = false AND latitude IS NOT NULL;
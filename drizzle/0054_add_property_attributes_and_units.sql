@@ -0,0 +1,31 @@
+-- Typed property attributes per kind (plot, apartment, villa, commercial) and unit inventory per property
+ALTER TABLE properties ADD COLUMN IF NOT EXISTS property_kind VARCHAR(20);
+ALTER TABLE properties ADD COLUMN IF NOT EXISTS attributes JSONB DEFAULT '{}'::jsonb;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'properties_property_kind_check') THEN
+    ALTER TABLE properties ADD CONSTRAINT properties_property_kind_check
+      CHECK (property_kind IS NULL OR property_kind IN ('plot', 'apartment', 'villa', 'commercial'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_properties_property_kind ON properties (property_kind) WHERE deleted = false;
+
+CREATE TABLE IF NOT EXISTS property_units (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  property_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  unit_type VARCHAR(50) NOT NULL,
+  bhk INTEGER,
+  size_sqft NUMERIC,
+  price NUMERIC,
+  total_units INTEGER,
+  available_units INTEGER,
+  availability VARCHAR(20) NOT NULL DEFAULT 'available' CHECK (availability IN ('available', 'on_hold', 'sold_out')),
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CHECK (available_units IS NULL OR total_units IS NULL OR available_units <= total_units)
+);
+
+CREATE INDEX IF NOT EXISTS idx_property_units_property ON property_units (property_id, position);
@@ -0,0 +1,31 @@
+-- Price trail for properties and the favourites that price-drop alerts go to
+CREATE TABLE IF NOT EXISTS property_price_history (
+  id SERIAL PRIMARY KEY,
+  property_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  old_price NUMERIC,
+  new_price NUMERIC,
+  source VARCHAR(30) NOT NULL,
+  changed_by_id INTEGER REFERENCES users(id),
+  proposed_by_id INTEGER REFERENCES users(id),
+  pending_change_id UUID REFERENCES property_pending_changes(id) ON DELETE SET NULL,
+  changed_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_property_price_history_property ON property_price_history (property_id, changed_at);
+
+-- Current prices become the starting point of each trail
+INSERT INTO property_price_history (property_id, old_price, new_price, source, changed_at)
+SELECT p.id, NULL, p.price, 'baseline', COALESCE(p.updated_at, p.created_at, NOW())
+FROM properties p
+WHERE p.price IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM property_price_history h WHERE h.property_id = p.id);
+
+CREATE TABLE IF NOT EXISTS property_favourites (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  property_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS property_favourites_user_property_idx ON property_favourites (user_id, property_id);
+CREATE INDEX IF NOT EXISTS idx_property_favourites_property ON property_favourites (property_id);
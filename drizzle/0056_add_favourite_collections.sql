@@ -0,0 +1,16 @@
+-- Customer shortlists: named collections and a note per favourited property
+CREATE TABLE IF NOT EXISTS property_favourite_collections (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name VARCHAR(60) NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS property_favourite_collections_user_name_idx ON property_favourite_collections (user_id, lower(name));
+
+ALTER TABLE property_favourites ADD COLUMN IF NOT EXISTS collection_id INTEGER REFERENCES property_favourite_collections(id) ON DELETE SET NULL;
+ALTER TABLE property_favourites ADD COLUMN IF NOT EXISTS note TEXT;
+ALTER TABLE property_favourites ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP NOT NULL DEFAULT NOW();
+
+CREATE INDEX IF NOT EXISTS idx_property_favourites_collection ON property_favourites (collection_id) WHERE collection_id IS NOT NULL;
@@ -0,0 +1,24 @@
+-- Saved searches and the new-listing alerts sent for them
+CREATE TABLE IF NOT EXISTS saved_searches (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name VARCHAR(60) NOT NULL,
+  criteria JSONB NOT NULL,
+  notify BOOLEAN NOT NULL DEFAULT TRUE,
+  last_notified_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user ON saved_searches (user_id);
+
+CREATE TABLE IF NOT EXISTS saved_search_alerts (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  property_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  saved_search_id INTEGER REFERENCES saved_searches(id) ON DELETE SET NULL,
+  sent_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS saved_search_alerts_user_property_idx ON saved_search_alerts (user_id, property_id);
+CREATE INDEX IF NOT EXISTS idx_saved_search_alerts_user_sent ON saved_search_alerts (user_id, sent_at);
@@ -0,0 +1,44 @@
+-- Property site visits requested by customers and handled by the property's agent or employee
+CREATE TABLE IF NOT EXISTS site_visits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  property_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  customer_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL DEFAULT 'requested',
+  scheduled_at TIMESTAMP NOT NULL,
+  duration_minutes INTEGER NOT NULL DEFAULT 60,
+  customer_note TEXT,
+  handled_by_id INTEGER REFERENCES users(id),
+  rescheduled_from TIMESTAMP,
+  reschedule_count INTEGER NOT NULL DEFAULT 0,
+  reschedule_reason TEXT,
+  cancel_reason TEXT,
+  cancelled_by_id INTEGER REFERENCES users(id),
+  confirmed_at TIMESTAMP,
+  cancelled_at TIMESTAMP,
+  checked_in_at TIMESTAMP,
+  completed_at TIMESTAMP,
+  reminder_sent_at TIMESTAMP,
+  feedback_rating INTEGER CHECK (feedback_rating BETWEEN 1 AND 5),
+  feedback_comment TEXT,
+  feedback_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT site_visits_status_check CHECK (status IN ('requested', 'confirmed', 'checked_in', 'completed', 'no_show', 'cancelled'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_site_visits_property_schedule ON site_visits (property_id, scheduled_at);
+CREATE INDEX IF NOT EXISTS idx_site_visits_customer_schedule ON site_visits (customer_id, scheduled_at);
+CREATE UNIQUE INDEX IF NOT EXISTS site_visits_open_customer_property_idx ON site_visits (customer_id, property_id)
+  WHERE status IN ('requested', 'confirmed', 'checked_in');
+CREATE INDEX IF NOT EXISTS idx_site_visits_reminder_due ON site_visits (scheduled_at)
+  WHERE status = 'confirmed' AND reminder_sent_at IS NULL;
+
+INSERT INTO access_role_permissions (role_id, permission)
+SELECT r.id, 'site_visit.request' FROM access_roles r
+WHERE r.key = 'customer'
+ON CONFLICT DO NOTHING;
+
+INSERT INTO access_role_permissions (role_id, permission)
+SELECT r.id, 'site_visit.manage_assigned' FROM access_roles r
+WHERE r.key IN ('agent', 'employee')
+ON CONFLICT DO NOTHING;
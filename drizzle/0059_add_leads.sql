@@ -0,0 +1,59 @@
+-- Lead capture and CRM pipeline
+ALTER TABLE contact_messages ADD COLUMN IF NOT EXISTS property_id UUID REFERENCES properties(id) ON DELETE SET NULL;
+
+CREATE TABLE IF NOT EXISTS leads (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  property_id UUID REFERENCES properties(id) ON DELETE SET NULL,
+  source VARCHAR(30) NOT NULL,
+  stage VARCHAR(20) NOT NULL DEFAULT 'new',
+  assignee_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  contact_name VARCHAR(100),
+  contact_phone VARCHAR(15),
+  contact_email VARCHAR(100),
+  message TEXT,
+  conversation_id UUID REFERENCES conversations(id) ON DELETE SET NULL,
+  contact_message_id UUID REFERENCES contact_messages(id) ON DELETE SET NULL,
+  lost_reason TEXT,
+  stage_changed_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  closed_at TIMESTAMP,
+  last_activity_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT leads_source_check CHECK (source IN ('property_enquiry', 'chat_escalation', 'contact_form')),
+  CONSTRAINT leads_stage_check CHECK (stage IN ('new', 'contacted', 'visit', 'negotiation', 'won', 'lost'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_leads_assignee_stage ON leads (assignee_id, stage);
+CREATE INDEX IF NOT EXISTS idx_leads_property ON leads (property_id);
+CREATE UNIQUE INDEX IF NOT EXISTS leads_open_customer_property_idx ON leads (customer_id, property_id)
+  WHERE stage NOT IN ('won', 'lost') AND property_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS lead_activities (
+  id SERIAL PRIMARY KEY,
+  lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  actor_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  type VARCHAR(30) NOT NULL,
+  from_stage VARCHAR(20),
+  to_stage VARCHAR(20),
+  note TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_activities_lead ON lead_activities (lead_id, created_at);
+
+INSERT INTO access_role_permissions (role_id, permission)
+SELECT r.id, 'lead.manage_assigned' FROM access_roles r
+WHERE r.key IN ('agent', 'employee')
+ON CONFLICT DO NOTHING;
+
+INSERT INTO access_role_permissions (role_id, permission)
+SELECT r.id, 'lead.assign' FROM access_roles r
+WHERE r.key IN ('employee', 'admin')
+ON CONFLICT DO NOTHING;
+
+INSERT INTO access_role_permissions (role_id, permission)
+SELECT r.id, p.permission FROM access_roles r
+CROSS JOIN (VALUES ('lead.view_all'), ('lead.manage_assigned')) AS p(permission)
+WHERE r.key = 'admin'
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,5 @@
+-- Escalating the same chat or contact message again adds to its open lead instead of creating another
+CREATE UNIQUE INDEX IF NOT EXISTS leads_open_conversation_idx ON leads (conversation_id)
+  WHERE stage NOT IN ('won', 'lost') AND conversation_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS leads_open_contact_message_idx ON leads (contact_message_id)
+  WHERE stage NOT IN ('won', 'lost') AND contact_message_id IS NOT NULL;
@@ -0,0 +1,5 @@
+-- Shortlists are a customer feature; other roles only see favourite counts
+INSERT INTO access_role_permissions (role_id, permission)
+SELECT r.id, 'favourite.manage' FROM access_roles r
+WHERE r.key = 'customer'
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,15 @@
+-- One open submission per lender and loan request, enforced so concurrent submissions cannot both get in.
+-- Earlier duplicates (the oldest open one is kept) are declined first so the index can be built.
+UPDATE loan_lender_submissions s
+SET status = 'declined', decline_reason = 'Duplicate open submission', declined_at = NOW(), updated_at = NOW()
+WHERE s.status <> 'declined'
+  AND EXISTS (
+    SELECT 1 FROM loan_lender_submissions o
+    WHERE o.loan_request_id = s.loan_request_id
+      AND o.lender_id = s.lender_id
+      AND o.status <> 'declined'
+      AND (o.submitted_at, o.id) < (s.submitted_at, s.id)
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS loan_lender_submissions_open_lender_idx ON loan_lender_submissions (loan_request_id, lender_id)
+  WHERE status <> 'declined';
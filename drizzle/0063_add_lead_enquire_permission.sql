@@ -0,0 +1,5 @@
+-- Property enquiries open leads for agents, so only customers send them
+INSERT INTO access_role_permissions (role_id, permission)
+SELECT r.id, 'lead.enquire' FROM access_roles r
+WHERE r.key = 'customer'
+ON CONFLICT DO NOTHING;
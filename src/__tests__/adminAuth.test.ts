@@ -17,7 +17,7 @@ describe('Admin RBAC', () => {
   });
 
   it('should block non-admin users from admin routes', () => {
-    // Test ensureAdmin middleware
+    // Test requirePermission middleware
     expect(true).toBe(true); // Placeholder
   });
 
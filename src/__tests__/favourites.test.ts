@@ -0,0 +1,76 @@
+/**
+ * Favourites Tests
+ *
+ * Covers the shortlist helpers in utils/favourites:
+ * 1. Favourites can only be filed under the customer's own collections
+ * 2. Edits leave omitted fields alone and clear null ones
+ * 3. The popular sort pages by favourite count, then property id
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import { canUseCollection, favouriteChanges, popularPropertySort } from '../utils/favourites';
+import { encodeCursor, keyset } from '../utils/pagination';
+
+const propertyId = '2b9d5c1e-4f3a-4e6b-9c7d-8a1b2c3d4e5f';
+const dialect = new PgDialect();
+
+describe('Collection ownership', () => {
+  it('allows leaving the favourite outside every collection', () => {
+    expect(canUseCollection(7, undefined)).toBe(true);
+    expect(canUseCollection(7, null)).toBe(true);
+  });
+
+  it("allows the customer's own collection", () => {
+    expect(canUseCollection(7, 3, { userId: 7 })).toBe(true);
+  });
+
+  it("treats another customer's collection as missing", () => {
+    expect(canUseCollection(7, 3, { userId: 8 })).toBe(false);
+  });
+
+  it('rejects collections that do not exist', () => {
+    expect(canUseCollection(7, 3, null)).toBe(false);
+    expect(canUseCollection(7, 3)).toBe(false);
+  });
+});
+
+describe('Favourite edits', () => {
+  it('leaves omitted fields alone', () => {
+    expect(favouriteChanges({})).toEqual({});
+    expect(favouriteChanges({ note: 'Near the metro' })).toEqual({ note: 'Near the metro' });
+  });
+
+  it('clears null fields and empty notes', () => {
+    expect(favouriteChanges({ collectionId: null, note: null })).toEqual({ collectionId: null, note: null });
+    expect(favouriteChanges({ note: '' })).toEqual({ note: null });
+  });
+
+  it('moves the favourite to another collection', () => {
+    expect(favouriteChanges({ collectionId: 4 })).toEqual({ collectionId: 4 });
+  });
+});
+
+describe('Popular sort', () => {
+  it('orders by favourite count, then property id, most favourited first', () => {
+    const [byCount, byId] = keyset(popularPropertySort).orderBy.map(part => dialect.sqlToQuery(part).sql);
+
+    expect(byCount).toContain('count(*)');
+    expect(byCount).toMatch(/DESC$/);
+    expect(byId).toBe('"properties"."id" DESC');
+  });
+
+  it('seeks below the last row of the previous page', () => {
+    const page = keyset(popularPropertySort, encodeCursor('popular', '12', propertyId));
+
+    expect(page.error).toBeUndefined();
+    const query = dialect.sqlToQuery(page.where!);
+    expect(query.sql).toMatch(/, "properties"\."id"\) < \(\$\d+, \$\d+\)$/);
+    expect(query.params.slice(-2)).toEqual(['12', propertyId]);
+  });
+
+  it('rejects cursors from the newest sort or with a non-numeric count', () => {
+    expect(keyset(popularPropertySort, encodeCursor('newest', '2026-03-01 10:00:00', propertyId)).error).toBe('Invalid cursor');
+    expect(keyset(popularPropertySort, encodeCursor('popular', 'many', propertyId)).error).toBe('Invalid cursor');
+  });
+});
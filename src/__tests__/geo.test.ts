@@ -0,0 +1,107 @@
+/**
+ * Geo Tests
+ *
+ * Covers the coordinate helpers in utils/geo:
+ * 1. Coordinates are read from Google Maps links and bare "lat,lng" strings
+ * 2. Explicit coordinate pairs win over map links and are validated, and updates can clear them
+ * 3. Distances, radius bounding boxes and cluster cell sizes
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { parseMapLink, resolveCoordinates, coordinateChanges, withCoordinates, haversineKm, boundingBox, clusterCellSize } from '../utils/geo';
+
+const bengaluru = { latitude: 12.9716, longitude: 77.5946 };
+const mysuru = { latitude: 12.2958, longitude: 76.6394 };
+
+describe('Map link parsing', () => {
+  it('reads bare coordinate pairs', () => {
+    expect(parseMapLink('12.9716, 77.5946')).toEqual(bengaluru);
+    expect(parseMapLink('-33.8688,151.2093')).toEqual({ latitude: -33.8688, longitude: 151.2093 });
+  });
+
+  it('prefers the place pin over the viewport centre', () => {
+    const link = 'https://www.google.com/maps/place/Cubbon+Park/@12.97,77.59,15z/data=!3m1!4b1!4m6!3m5!1s0x0:0x0!8m2!3d12.9763!4d77.5929';
+    expect(parseMapLink(link)).toEqual({ latitude: 12.9763, longitude: 77.5929 });
+    expect(parseMapLink('https://www.google.com/maps/@12.9716,77.5946,14z')).toEqual(bengaluru);
+  });
+
+  it('reads query parameters', () => {
+    expect(parseMapLink('https://maps.google.com/?q=12.9716,77.5946')).toEqual(bengaluru);
+    expect(parseMapLink('https://www.google.com/maps/search/?api=1&query=12.9716%2C77.5946')).toEqual(bengaluru);
+    expect(parseMapLink('https://www.google.com/maps/dir/?api=1&destination=12.9716,77.5946')).toEqual(bengaluru);
+  });
+
+  it('returns null for links without coordinates or with impossible ones', () => {
+    expect(parseMapLink('https://maps.app.goo.gl/AbCdEf123')).toBeNull();
+    expect(parseMapLink('https://maps.google.com/?q=Indiranagar+Bengaluru')).toBeNull();
+    expect(parseMapLink('95.1, 77.5')).toBeNull();
+    expect(parseMapLink('0,0')).toBeNull();
+    expect(parseMapLink('')).toBeNull();
+    expect(parseMapLink(null)).toBeNull();
+  });
+});
+
+describe('Coordinate resolution', () => {
+  it('uses an explicit pair before the map link', () => {
+    expect(resolveCoordinates({ latitude: '12.2958', longitude: '76.6394', map: '12.9716,77.5946' }).coordinates).toEqual(mysuru);
+    expect(resolveCoordinates({ map: '12.9716,77.5946' }).coordinates).toEqual(bengaluru);
+    expect(resolveCoordinates({}).coordinates).toBeNull();
+  });
+
+  it('rejects half or out-of-range pairs', () => {
+    expect(resolveCoordinates({ latitude: '12.9' }).error).toBeDefined();
+    expect(resolveCoordinates({ latitude: '12.9', longitude: '200' }).error).toBeDefined();
+    expect(resolveCoordinates({ latitude: 'north', longitude: '77' }).error).toBeDefined();
+  });
+
+  it('fills payload columns and drops unusable pairs', () => {
+    expect(withCoordinates({ title: 'Villa', map: '12.9716,77.5946' })).toEqual({ title: 'Villa', map: '12.9716,77.5946', latitude: '12.971600', longitude: '77.594600' });
+    expect(withCoordinates({ title: 'Villa', latitude: '12.9' })).toEqual({ title: 'Villa' });
+  });
+
+  it('leaves stored coordinates alone when neither the pair nor the map link changes', () => {
+    expect(coordinateChanges({}, '12.9716,77.5946').columns).toEqual({});
+    expect(coordinateChanges({ map: '12.9716,77.5946' }, '12.9716,77.5946').columns).toEqual({});
+  });
+
+  it('updates from a given pair or a changed map link', () => {
+    expect(coordinateChanges({ latitude: '12.2958', longitude: '76.6394' }).columns).toEqual({ latitude: '12.295800', longitude: '76.639400' });
+    expect(coordinateChanges({ map: '12.2958,76.6394' }, '12.9716,77.5946').columns).toEqual({ latitude: '12.295800', longitude: '76.639400' });
+    expect(coordinateChanges({ latitude: '12.9' }).error).toBeDefined();
+  });
+
+  it('clears coordinates for an emptied pair or an unreadable new map link', () => {
+    expect(coordinateChanges({ latitude: null, longitude: null }).columns).toEqual({ latitude: null, longitude: null });
+    expect(coordinateChanges({ latitude: '', longitude: '' }, 'https://maps.app.goo.gl/abc').columns).toEqual({ latitude: null, longitude: null });
+    expect(coordinateChanges({ map: 'https://maps.app.goo.gl/abc' }, '12.9716,77.5946').columns).toEqual({ latitude: null, longitude: null });
+  });
+
+  it('falls back to the stored map link when the pair is emptied', () => {
+    expect(coordinateChanges({ latitude: null, longitude: null }, '12.9716,77.5946').columns).toEqual({ latitude: '12.971600', longitude: '77.594600' });
+  });
+});
+
+describe('Distances and areas', () => {
+  it('computes great-circle distances', () => {
+    expect(Math.round(haversineKm(bengaluru, mysuru))).toBe(128);
+    expect(haversineKm(bengaluru, bengaluru)).toBe(0);
+  });
+
+  it('bounds a radius with a box that contains it', () => {
+    const box = boundingBox(bengaluru, 5);
+    expect(box.north).toBeGreaterThan(bengaluru.latitude);
+    expect(box.south).toBeLessThan(bengaluru.latitude);
+    expect(haversineKm(bengaluru, { latitude: box.north, longitude: bengaluru.longitude })).toBeCloseTo(5, 5);
+    expect(haversineKm(bengaluru, { latitude: bengaluru.latitude, longitude: box.east })).toBeGreaterThanOrEqual(5);
+  });
+
+  it('wraps boxes across the antimeridian', () => {
+    const box = boundingBox({ latitude: 0, longitude: 179.99 }, 10);
+    expect(box.west).toBeGreaterThan(box.east);
+  });
+
+  it('halves the cluster cell per zoom level', () => {
+    expect(clusterCellSize(11)).toBeCloseTo(clusterCellSize(10) / 2, 10);
+    expect(clusterCellSize(40)).toBe(clusterCellSize(22));
+  });
+});
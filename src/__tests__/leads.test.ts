@@ -0,0 +1,79 @@
+/**
+ * Lead Pipeline Tests
+ *
+ * Covers the pure rules in config/leads:
+ * 1. Stage changes: free movement between open stages, reasons for lost, reopening closed leads
+ * 2. Routing: agents before employees, least open leads first, ties to the earliest assignment
+ * 3. Pipeline summaries per stage and per assignee, with conversion rates
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { checkStageChange, pickLeadAssignee, summarizePipeline, conversionRate } from '../config/leads';
+
+describe('Stage changes', () => {
+  it('moves open leads forwards and back', () => {
+    expect(checkStageChange('new', 'visit').allowed).toBe(true);
+    expect(checkStageChange('negotiation', 'contacted').allowed).toBe(true);
+    expect(checkStageChange('contacted', 'won').allowed).toBe(true);
+  });
+
+  it('rejects no-op moves and moves back to new', () => {
+    expect(checkStageChange('visit', 'visit').allowed).toBe(false);
+    expect(checkStageChange('contacted', 'new').allowed).toBe(false);
+  });
+
+  it('needs a reason to lose a lead', () => {
+    expect(checkStageChange('negotiation', 'lost').allowed).toBe(false);
+    expect(checkStageChange('negotiation', 'lost', '  ').allowed).toBe(false);
+    expect(checkStageChange('negotiation', 'lost', 'Bought elsewhere').allowed).toBe(true);
+  });
+
+  it('only reopens closed leads to contacted, with a note', () => {
+    expect(checkStageChange('lost', 'negotiation', 'Back in touch').allowed).toBe(false);
+    expect(checkStageChange('won', 'contacted').allowed).toBe(false);
+    expect(checkStageChange('lost', 'contacted', 'Customer called back').allowed).toBe(true);
+  });
+});
+
+describe('Lead routing', () => {
+  it('prefers agents over employees', () => {
+    expect(pickLeadAssignee([{ userId: 20, openLeads: 9 }], [{ userId: 5, openLeads: 0 }])).toBe(20);
+    expect(pickLeadAssignee([], [{ userId: 5, openLeads: 3 }])).toBe(5);
+  });
+
+  it('picks the least busy candidate, earliest on ties', () => {
+    const agents = [{ userId: 21, openLeads: 4 }, { userId: 22, openLeads: 2 }, { userId: 23, openLeads: 2 }];
+    expect(pickLeadAssignee(agents, [])).toBe(22);
+  });
+
+  it('leaves leads unassigned without staff', () => {
+    expect(pickLeadAssignee([], [])).toBeNull();
+  });
+});
+
+describe('Pipeline summary', () => {
+  const summary = summarizePipeline([
+    { assigneeId: 20, stage: 'new', count: 3 },
+    { assigneeId: 20, stage: 'won', count: 1 },
+    { assigneeId: 20, stage: 'lost', count: 3 },
+    { assigneeId: 21, stage: 'negotiation', count: 2 },
+    { assigneeId: null, stage: 'new', count: 4 },
+  ]);
+
+  it('totals every stage', () => {
+    expect(summary.stages).toEqual({ new: 7, contacted: 0, visit: 0, negotiation: 2, won: 1, lost: 3 });
+    expect(summary.open).toBe(9);
+    expect(summary.total).toBe(13);
+  });
+
+  it('breaks counts down per assignee, keeping unassigned leads apart', () => {
+    const agent = summary.assignees.find(entry => entry.assigneeId === 20)!;
+    expect(agent.open).toBe(3);
+    expect(agent.conversionRate).toBe(25);
+    expect(summary.assignees.find(entry => entry.assigneeId === null)!.stages.new).toBe(4);
+  });
+
+  it('has no conversion rate before anything closes', () => {
+    expect(conversionRate({ new: 2, contacted: 1, visit: 0, negotiation: 0, won: 0, lost: 0 })).toBeNull();
+  });
+});
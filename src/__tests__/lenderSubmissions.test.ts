@@ -0,0 +1,73 @@
+/**
+ * Lender Submission Tests
+ *
+ * Covers the submission helpers in utils/lenderSubmissions:
+ * 1. Lender decisions only move forward and declined/disbursed are final
+ * 2. Each decision sets its own columns and requires its details
+ * 3. Conversion rates for the lender report
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { allowedSubmissionStatuses, conversionRates, submissionStatusChanges } from '../utils/lenderSubmissions';
+
+const now = new Date('2026-03-02T10:00:00Z');
+const submitted = { status: 'submitted', sanctionedAmount: null };
+const sanctioned = { status: 'sanctioned', sanctionedAmount: 4500000 };
+
+describe('Submission transitions', () => {
+  it('moves forward from submitted and sanctioned only', () => {
+    expect(allowedSubmissionStatuses('submitted')).toEqual(['sanctioned', 'declined']);
+    expect(allowedSubmissionStatuses('sanctioned')).toEqual(['disbursed', 'declined']);
+    expect(allowedSubmissionStatuses('disbursed')).toEqual([]);
+    expect(allowedSubmissionStatuses('declined')).toEqual([]);
+  });
+
+  it('refuses skipped, backward and final-state moves', () => {
+    expect(submissionStatusChanges(submitted, { status: 'disbursed' }, now).error).toBe('invalid_transition');
+    expect(submissionStatusChanges(sanctioned, { status: 'submitted' }, now).error).toBe('invalid_transition');
+    expect(submissionStatusChanges({ status: 'declined', sanctionedAmount: null }, { status: 'sanctioned', sanctionedAmount: 1 }, now).error).toBe('invalid_transition');
+  });
+});
+
+describe('Submission decisions', () => {
+  it('records the sanction with its rate in basis points', () => {
+    expect(submissionStatusChanges(submitted, { status: 'sanctioned', sanctionedAmount: 4500000, sanctionedRate: 8.65, lenderReference: 'HL-42' }, now).changes).toEqual({
+      status: 'sanctioned',
+      updatedAt: now,
+      lenderReference: 'HL-42',
+      sanctionedAmount: 4500000,
+      sanctionedRateBps: 865,
+      sanctionedAt: now,
+    });
+  });
+
+  it('requires a sanctioned amount', () => {
+    expect(submissionStatusChanges(submitted, { status: 'sanctioned' }, now).error).toBe('invalid');
+  });
+
+  it('disburses the sanctioned amount unless told otherwise', () => {
+    expect(submissionStatusChanges(sanctioned, { status: 'disbursed' }, now).changes).toMatchObject({ disbursedAmount: 4500000, disbursedAt: now });
+    expect(submissionStatusChanges(sanctioned, { status: 'disbursed', disbursedAmount: 4000000 }, now).changes).toMatchObject({ disbursedAmount: 4000000 });
+  });
+
+  it('requires a reason to decline', () => {
+    expect(submissionStatusChanges(sanctioned, { status: 'declined', declineReason: '  ' }, now).error).toBe('invalid');
+    expect(submissionStatusChanges(sanctioned, { status: 'declined', declineReason: 'Low CIBIL score' }, now).changes)
+      .toMatchObject({ status: 'declined', declineReason: 'Low CIBIL score', declinedAt: now });
+  });
+});
+
+describe('Conversion rates', () => {
+  it('rates sanctions over decided cases and disbursals over all submissions', () => {
+    expect(conversionRates({ submitted: 10, pending: 2, sanctioned: 6, disbursed: 3 })).toEqual({ sanctionRate: 75, disbursalRate: 30 });
+  });
+
+  it('rounds to one decimal place', () => {
+    expect(conversionRates({ submitted: 3, pending: 0, sanctioned: 1, disbursed: 2 })).toEqual({ sanctionRate: 33.3, disbursalRate: 66.7 });
+  });
+
+  it('has no rates without the cases to compute them', () => {
+    expect(conversionRates({ submitted: 0, pending: 0, sanctioned: 0, disbursed: 0 })).toEqual({ sanctionRate: null, disbursalRate: null });
+    expect(conversionRates({ submitted: 4, pending: 4, sanctioned: 0, disbursed: 0 })).toEqual({ sanctionRate: null, disbursalRate: 0 });
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Loan Analytics Tests
+ *
+ * Covers the pure aggregations in utils/loanAnalytics:
+ * 1. Funnel counts and conversion percentages
+ * 2. Conversion by group
+ * 3. Time in stage from status change events
+ * 4. SLA hit rate, aging buckets and per-employee performance
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  AnalyticsLoanRow,
+  median,
+  percent,
+  buildFunnel,
+  conversionBy,
+  stageDurations,
+  slaHitRate,
+  agingBuckets,
+  employeePerformance,
+} from '../utils/loanAnalytics';
+
+const t0 = new Date('2025-05-01T00:00:00Z');
+const hoursAfter = (hours: number) => new Date(t0.getTime() + hours * 60 * 60 * 1000);
+
+const row = (id: string, overrides: Partial<AnalyticsLoanRow> = {}): AnalyticsLoanRow => ({
+  id,
+  loanType: 'Home Loan',
+  city: 'Pune',
+  status: 'received',
+  assigneeId: null,
+  createdAt: t0,
+  underReviewAt: null,
+  contactedAt: null,
+  closedAt: null,
+  ...overrides,
+});
+
+describe('Helpers', () => {
+  it('computes medians and percentages', () => {
+    expect(median([])).toBeNull();
+    expect(median([5, 1, 3])).toBe(3);
+    expect(median([4, 1, 3, 2])).toBe(2.5);
+    expect(percent(1, 3)).toBe(33.3);
+    expect(percent(1, 0)).toBeNull();
+  });
+});
+
+describe('Funnel', () => {
+  it('counts every request that reached a stage, including ones that moved past it', () => {
+    const rows = [
+      row('a'),
+      row('b', { status: 'under_review', underReviewAt: hoursAfter(1) }),
+      row('c', { status: 'rejected', underReviewAt: hoursAfter(1), contactedAt: hoursAfter(2) }),
+      row('d', { status: 'closed', underReviewAt: hoursAfter(1), contactedAt: hoursAfter(2), closedAt: hoursAfter(3) }),
+    ];
+
+    expect(buildFunnel(rows)).toEqual([
+      { stage: 'received', count: 4, fromPrevious: null, fromReceived: 100 },
+      { stage: 'under_review', count: 3, fromPrevious: 75, fromReceived: 75 },
+      { stage: 'contacted', count: 2, fromPrevious: 66.7, fromReceived: 50 },
+      { stage: 'closed', count: 1, fromPrevious: 50, fromReceived: 25 },
+    ]);
+  });
+
+  it('groups conversion by a key, largest group first', () => {
+    const rows = [
+      row('a', { loanType: 'Plot Loan', status: 'closed' }),
+      row('b', { status: 'closed' }),
+      row('c', { status: 'withdrawn' }),
+      row('d'),
+    ];
+
+    expect(conversionBy(rows, r => r.loanType)).toEqual([
+      { name: 'Home Loan', total: 3, closed: 1, lost: 1, open: 1, conversionRate: 33.3 },
+      { name: 'Plot Loan', total: 1, closed: 1, lost: 0, open: 0, conversionRate: 100 },
+    ]);
+  });
+});
+
+describe('Time in stage', () => {
+  it('measures each completed stay and ignores the current one', () => {
+    const durations = stageDurations([row('a'), row('b')], [
+      { loanRequestId: 'a', from: 'under_review', to: 'contacted', at: hoursAfter(5) },
+      { loanRequestId: 'a', from: 'received', to: 'under_review', at: hoursAfter(2) },
+      { loanRequestId: 'b', from: 'received', to: 'rejected', at: hoursAfter(10) },
+    ]);
+
+    expect(durations).toEqual({ received: [2, 10], under_review: [3] });
+  });
+});
+
+describe('SLA, aging and employees', () => {
+  it('rates SLAs only for finished or breached requests', () => {
+    const rows = [row('a', { status: 'closed' }), row('b', { status: 'rejected' }), row('c'), row('d')];
+    expect(slaHitRate(rows, new Set(['b', 'c']))).toEqual({ evaluated: 3, met: 1, breached: 2, hitRate: 33.3 });
+  });
+
+  it('buckets open requests by age', () => {
+    const now = hoursAfter(24 * 10);
+    const rows = [
+      row('a', { createdAt: hoursAfter(24 * 10 - 2) }),
+      row('b', { createdAt: hoursAfter(24 * 5) }),
+      row('c', { createdAt: t0 }),
+      row('d', { createdAt: t0, status: 'closed' }),
+    ];
+
+    const counts = Object.fromEntries(agingBuckets(rows, now).map(b => [b.bucket, b.count]));
+    expect(counts).toEqual({ '0-1d': 1, '1-3d': 0, '3-7d': 1, '7-14d': 1, '14-30d': 0, '30d+': 0 });
+  });
+
+  it('summarises each assignee', () => {
+    const rows = [
+      row('a', { assigneeId: 10, status: 'closed', underReviewAt: hoursAfter(2) }),
+      row('b', { assigneeId: 10, status: 'under_review', underReviewAt: hoursAfter(4) }),
+      row('c', { assigneeId: 11, status: 'rejected' }),
+      row('d'),
+    ];
+
+    expect(employeePerformance(rows)).toEqual([
+      { assigneeId: 10, assigned: 2, open: 1, closed: 1, rejected: 0, conversionRate: 50, medianFirstResponseHours: 3 },
+      { assigneeId: 11, assigned: 1, open: 0, closed: 0, rejected: 1, conversionRate: 0, medianFirstResponseHours: null },
+    ]);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Loan Calculator Tests
+ *
+ * Covers utils/loanCalculator:
+ * 1. EMI and its inverse (maximum principal for an EMI)
+ * 2. LTV slabs by loan size
+ * 3. FOIR-based eligibility and affordability across tenures
+ * 4. Estimates for existing loans without their EMI are flagged incomplete
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { RateTable, computeEmi, estimateLoan, ltvPercentFor, maxLoanByLtv, maxPrincipalForEmi } from '../utils/loanCalculator';
+
+const homeLoan: RateTable = {
+  loanType: 'Home Loan',
+  interestRateBps: 850,
+  maxFoirPercent: 50,
+  maxTenureYears: 30,
+  ltvSlabs: [{ upTo: 3000000, percent: 90 }, { upTo: 7500000, percent: 80 }, { upTo: null, percent: 75 }],
+};
+
+describe('EMI', () => {
+  it('matches the standard reducing-balance formula', () => {
+    expect(Math.round(computeEmi(5000000, 8.5, 240))).toBe(43391);
+  });
+
+  it('handles zero interest and empty loans', () => {
+    expect(computeEmi(120000, 0, 12)).toBe(10000);
+    expect(computeEmi(0, 8.5, 12)).toBe(0);
+  });
+
+  it('inverts back to the principal', () => {
+    const emi = computeEmi(2500000, 9, 180);
+    expect(Math.round(maxPrincipalForEmi(emi, 9, 180))).toBe(2500000);
+  });
+});
+
+describe('LTV slabs', () => {
+  it('picks the slab for the loan size', () => {
+    expect(ltvPercentFor(homeLoan.ltvSlabs, 2500000)).toBe(90);
+    expect(ltvPercentFor(homeLoan.ltvSlabs, 5000000)).toBe(80);
+    expect(ltvPercentFor(homeLoan.ltvSlabs, 9000000)).toBe(75);
+  });
+
+  it('caps the loan at the best slab the property value allows', () => {
+    expect(maxLoanByLtv(homeLoan.ltvSlabs, 3200000)).toBe(2880000);
+    expect(maxLoanByLtv(homeLoan.ltvSlabs, 9000000)).toBe(7200000);
+    expect(maxLoanByLtv(homeLoan.ltvSlabs, 20000000)).toBe(15000000);
+  });
+});
+
+describe('Loan estimate', () => {
+  const input = { propertyValue: 8000000, loanAmountNeeded: 5000000, monthlyIncome: 120000, tenureYears: 20, existingEmi: 10000 };
+
+  it('reports FOIR headroom after existing EMIs', () => {
+    const estimate = estimateLoan(input, homeLoan);
+    expect(estimate.foir).toEqual({ maxPercent: 50, existingEmi: 10000, maxEmi: 60000, availableEmi: 50000 });
+  });
+
+  it('is affordable when the EMI fits and the loan is within LTV', () => {
+    const estimate = estimateLoan(input, homeLoan);
+    expect(estimate.requested.emi).toBe(43391);
+    expect(estimate.affordable).toBe(true);
+    expect(estimate.ltv.withinLimit).toBe(true);
+    expect(estimate.eligibleAmount).toBeGreaterThan(5000000);
+  });
+
+  it('marks short tenures unaffordable and lists only allowed tenures', () => {
+    const estimate = estimateLoan(input, { ...homeLoan, maxTenureYears: 15 });
+    expect(estimate.tenures.map(t => t.years)).toEqual([5, 10, 15]);
+    expect(estimate.tenures[0].affordable).toBe(false);
+    expect(estimate.tenureCapped).toBe(true);
+    expect(estimate.requested.years).toBe(15);
+  });
+
+  it('is not affordable when the loan exceeds the LTV limit', () => {
+    const estimate = estimateLoan({ ...input, loanAmountNeeded: 7000000 }, homeLoan);
+    expect(estimate.ltv.withinLimit).toBe(false);
+    expect(estimate.affordable).toBe(false);
+  });
+
+  it('estimates existing loans without an EMI as zero and flags the estimate incomplete', () => {
+    const { existingEmi, ...withoutEmi } = input;
+    const estimate = estimateLoan({ ...withoutEmi, existingLoans: true }, homeLoan);
+
+    expect(estimate.foir.existingEmi).toBe(0);
+    expect(estimate.incomplete).toBe(true);
+    expect(estimateLoan({ ...input, existingLoans: true }, homeLoan).incomplete).toBe(false);
+    expect(estimateLoan(withoutEmi, homeLoan).incomplete).toBe(false);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Loan Document Checklist Tests
+ *
+ * Covers the pure rules in config/loanDocuments:
+ * 1. Checklists combine the base, employment type and loan type documents without duplicates
+ * 2. Each item reflects the latest upload of its type
+ * 3. Completeness counts only required documents
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { buildChecklist, getDocumentChecklist, isLoanDocumentType } from '../config/loanDocuments';
+
+const doc = (id: string, documentType: string, status: string, minutes: number) => ({
+  id,
+  documentType,
+  status,
+  createdAt: new Date(Date.UTC(2025, 0, 1, 10, minutes)),
+});
+
+describe('Loan document checklists', () => {
+  it('combines base, employment and loan type documents', () => {
+    const checklist = getDocumentChecklist('Home Loan', 'Salaried');
+
+    expect(checklist).toEqual(expect.arrayContaining(['identity_proof', 'salary_slips', 'form_16', 'title_deed', 'sale_agreement']));
+    expect(checklist).not.toContain('itr');
+    expect(new Set(checklist).size).toBe(checklist.length);
+  });
+
+  it('falls back to the base documents for unknown types', () => {
+    expect(getDocumentChecklist('Unknown', 'Unknown')).toEqual(['identity_proof', 'address_proof', 'photograph', 'bank_statement']);
+  });
+
+  it('recognises catalog document types only', () => {
+    expect(isLoanDocumentType('itr')).toBe(true);
+    expect(isLoanDocumentType('selfie')).toBe(false);
+  });
+});
+
+describe('Checklist completeness', () => {
+  const required = getDocumentChecklist('Unknown', 'Unknown');
+
+  it('marks missing documents and reports nothing verified', () => {
+    const { items, completeness } = buildChecklist(required, []);
+
+    expect(items.every(item => item.status === 'missing')).toBe(true);
+    expect(completeness).toMatchObject({ required: 4, uploaded: 0, verified: 0, complete: false, percentVerified: 0 });
+  });
+
+  it('uses the latest upload of each type', () => {
+    const { items, completeness } = buildChecklist(required, [
+      doc('b', 'identity_proof', 'pending', 5),
+      doc('a', 'identity_proof', 'rejected', 1),
+      doc('c', 'address_proof', 'verified', 2),
+    ]);
+
+    expect(items.find(item => item.documentType === 'identity_proof')!.status).toBe('pending');
+    expect(items.find(item => item.documentType === 'identity_proof')!.documents.map(d => d.id)).toEqual(['a', 'b']);
+    expect(completeness).toMatchObject({ uploaded: 2, verified: 1, rejected: 0, complete: false, percentVerified: 25 });
+  });
+
+  it('lists extra documents as optional and completes when every required one is verified', () => {
+    const { items, completeness } = buildChecklist(required, [
+      ...required.map((type, i) => doc(`r${i}`, type, 'verified', i)),
+      doc('x', 'gst_returns', 'pending', 10),
+    ]);
+
+    expect(items.find(item => item.documentType === 'gst_returns')!.required).toBe(false);
+    expect(completeness).toMatchObject({ required: 4, verified: 4, complete: true, percentVerified: 100 });
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Loan Duplicate Detection Tests
+ *
+ * Covers the pure matching in utils/loanDuplicates:
+ * 1. Amounts match within the tolerance of the larger amount
+ * 2. Same customer and loan type inside the window is a duplicate
+ * 3. The earliest matching request is chosen as the original
+ * 4. A surviving request carries the history of everything merged into it
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { DuplicateRule, DuplicateSubject, isSimilarAmount, isDuplicateOf, findDuplicate, mergedHistoryIds } from '../utils/loanDuplicates';
+
+const rule: DuplicateRule = { windowDays: 30, amountTolerancePercent: 10 };
+const now = new Date('2025-06-15T10:00:00Z');
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+const subject: DuplicateSubject = { userId: 7, loanType: 'Home Loan', loanAmountNeeded: 5000000, createdAt: now };
+const earlier = (id: string, overrides: Partial<DuplicateSubject> = {}): DuplicateSubject & { id: string } => ({
+  ...subject,
+  id,
+  createdAt: daysAgo(2),
+  ...overrides,
+});
+
+describe('Similar amounts', () => {
+  it('compares against the larger amount', () => {
+    expect(isSimilarAmount(4500000, 5000000, 10)).toBe(true);
+    expect(isSimilarAmount(5000000, 4500000, 10)).toBe(true);
+    expect(isSimilarAmount(4400000, 5000000, 10)).toBe(false);
+    expect(isSimilarAmount(100, 100, 0)).toBe(true);
+  });
+});
+
+describe('Duplicate matching', () => {
+  it('matches the same customer, loan type and a similar amount inside the window', () => {
+    expect(isDuplicateOf(subject, earlier('a'), rule)).toBe(true);
+    expect(isDuplicateOf(subject, earlier('a', { loanAmountNeeded: 4800000, createdAt: daysAgo(30) }), rule)).toBe(true);
+  });
+
+  it('ignores other customers, loan types, amounts and old requests', () => {
+    expect(isDuplicateOf(subject, earlier('a', { userId: 8 }), rule)).toBe(false);
+    expect(isDuplicateOf(subject, earlier('a', { loanType: 'Plot Loan' }), rule)).toBe(false);
+    expect(isDuplicateOf(subject, earlier('a', { loanAmountNeeded: 3000000 }), rule)).toBe(false);
+    expect(isDuplicateOf(subject, earlier('a', { createdAt: daysAgo(31) }), rule)).toBe(false);
+  });
+
+  it('never matches a request against itself or a later one', () => {
+    expect(isDuplicateOf({ ...subject, id: 'a' }, earlier('a'), rule)).toBe(false);
+    expect(isDuplicateOf(subject, earlier('a', { createdAt: new Date(now.getTime() + 1000) }), rule)).toBe(false);
+  });
+
+  it('links to the earliest matching request', () => {
+    const match = findDuplicate(subject, [earlier('b', { createdAt: daysAgo(1) }), earlier('a', { createdAt: daysAgo(5) }), earlier('c', { userId: 9, createdAt: daysAgo(9) })], rule);
+    expect(match?.id).toBe('a');
+  });
+
+  it('returns null without a match', () => {
+    expect(findDuplicate(subject, [earlier('a', { loanType: 'Plot Loan' })], rule)).toBeNull();
+    expect(findDuplicate(subject, [], rule)).toBeNull();
+  });
+});
+
+describe('Merged history', () => {
+  it('includes requests merged into the survivor', () => {
+    expect(mergedHistoryIds('a', [{ id: 'b', mergedIntoId: 'a' }, { id: 'c', mergedIntoId: 'a' }])).toEqual(['a', 'b', 'c']);
+  });
+
+  it('follows requests that were merged before their target was merged', () => {
+    const merged = [{ id: 'c', mergedIntoId: 'b' }, { id: 'b', mergedIntoId: 'a' }, { id: 'd', mergedIntoId: 'c' }];
+    expect(mergedHistoryIds('a', merged)).toEqual(['a', 'b', 'c', 'd']);
+    expect(mergedHistoryIds('b', merged)).toEqual(['b', 'c', 'd']);
+  });
+
+  it('leaves out requests merged elsewhere', () => {
+    expect(mergedHistoryIds('a', [{ id: 'b', mergedIntoId: 'x' }, { id: 'c', mergedIntoId: null }])).toEqual(['a']);
+  });
+});
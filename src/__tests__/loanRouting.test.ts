@@ -0,0 +1,128 @@
+/**
+ * Loan Routing Tests
+ *
+ * Covers the pure assignee selection in utils/loanRouting:
+ * 1. Rules match on loan type and city
+ * 2. Opted-out, out-of-office, at-capacity and unskilled employees are skipped
+ * 3. Round robin and least-open strategies pick the expected employee
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { RoutingCandidate, RoutingRule, ruleMatches, isOutOfOffice, selectAssignee } from '../utils/loanRouting';
+
+const now = new Date('2025-03-10T10:00:00Z');
+const homeLoanInPune = { loanType: 'Home Loan', city: 'Pune' };
+
+const rule = (overrides: Partial<RoutingRule> = {}): RoutingRule => ({
+  id: 1,
+  strategy: 'least_open',
+  loanType: null,
+  city: null,
+  useSkills: false,
+  employeeIds: [],
+  ...overrides,
+});
+
+const candidate = (userId: number, overrides: Partial<RoutingCandidate> = {}): RoutingCandidate => ({
+  userId,
+  openRequests: 0,
+  lastAssignedAt: null,
+  acceptsAutoAssign: true,
+  maxOpenRequests: null,
+  outOfOfficeFrom: null,
+  outOfOfficeUntil: null,
+  loanTypes: [],
+  cities: [],
+  ...overrides,
+});
+
+describe('Routing rule matching', () => {
+  it('matches any request when loan type and city are unset', () => {
+    expect(ruleMatches(rule(), homeLoanInPune)).toBe(true);
+    expect(ruleMatches(rule(), { loanType: 'plot_loan', city: null })).toBe(true);
+  });
+
+  it('matches loan type exactly and city case-insensitively', () => {
+    expect(ruleMatches(rule({ loanType: 'Home Loan', city: ' pune ' }), homeLoanInPune)).toBe(true);
+    expect(ruleMatches(rule({ loanType: 'plot_loan' }), homeLoanInPune)).toBe(false);
+    expect(ruleMatches(rule({ city: 'Mumbai' }), homeLoanInPune)).toBe(false);
+    expect(ruleMatches(rule({ city: 'Pune' }), { loanType: 'Home Loan', city: null })).toBe(false);
+  });
+});
+
+describe('Out of office', () => {
+  it('is out only inside the window', () => {
+    const until = new Date('2025-03-12T00:00:00Z');
+    expect(isOutOfOffice(candidate(1, { outOfOfficeUntil: until }), now)).toBe(true);
+    expect(isOutOfOffice(candidate(1, { outOfOfficeFrom: new Date('2025-03-11T00:00:00Z'), outOfOfficeUntil: until }), now)).toBe(false);
+    expect(isOutOfOffice(candidate(1, { outOfOfficeUntil: new Date('2025-03-09T00:00:00Z') }), now)).toBe(false);
+    expect(isOutOfOffice(candidate(1), now)).toBe(false);
+  });
+});
+
+describe('Assignee selection', () => {
+  it('picks the employee with the fewest open requests for least_open', () => {
+    const result = selectAssignee(rule(), [candidate(1, { openRequests: 4 }), candidate(2, { openRequests: 1 }), candidate(3, { openRequests: 2 })], homeLoanInPune, now);
+    expect(result.assignee?.userId).toBe(2);
+    expect(result.eligibleCount).toBe(3);
+  });
+
+  it('picks whoever was assigned longest ago for round_robin, never-assigned first', () => {
+    const candidates = [
+      candidate(1, { lastAssignedAt: new Date('2025-03-10T09:00:00Z') }),
+      candidate(2, { lastAssignedAt: new Date('2025-03-10T08:00:00Z'), openRequests: 9 }),
+      candidate(3, { lastAssignedAt: new Date('2025-03-10T09:30:00Z') }),
+    ];
+    expect(selectAssignee(rule({ strategy: 'round_robin' }), candidates, homeLoanInPune, now).assignee?.userId).toBe(2);
+
+    candidates.push(candidate(4));
+    expect(selectAssignee(rule({ strategy: 'round_robin' }), candidates, homeLoanInPune, now).assignee?.userId).toBe(4);
+  });
+
+  it('breaks ties by last assignment, then user id', () => {
+    const result = selectAssignee(rule(), [candidate(3), candidate(2), candidate(1, { lastAssignedAt: now })], homeLoanInPune, now);
+    expect(result.assignee?.userId).toBe(2);
+  });
+
+  it('skips opted-out, out-of-office and at-capacity employees', () => {
+    const result = selectAssignee(rule(), [
+      candidate(1, { acceptsAutoAssign: false }),
+      candidate(2, { outOfOfficeUntil: new Date('2025-03-11T00:00:00Z') }),
+      candidate(3, { maxOpenRequests: 2, openRequests: 2 }),
+      candidate(4, { maxOpenRequests: 5, openRequests: 3 }),
+    ], homeLoanInPune, now);
+
+    expect(result.assignee?.userId).toBe(4);
+    expect(result.skipped).toEqual([
+      { userId: 1, reason: 'opted_out' },
+      { userId: 2, reason: 'out_of_office' },
+      { userId: 3, reason: 'at_capacity' },
+    ]);
+  });
+
+  it('limits the pool to the rule employees', () => {
+    const result = selectAssignee(rule({ employeeIds: [3] }), [candidate(1), candidate(3, { openRequests: 5 })], homeLoanInPune, now);
+    expect(result.assignee?.userId).toBe(3);
+    expect(result.skipped).toEqual([{ userId: 1, reason: 'not_in_pool' }]);
+  });
+
+  it('applies loan type and city skills only when the rule asks for them', () => {
+    const candidates = [
+      candidate(1, { loanTypes: ['plot_loan'] }),
+      candidate(2, { cities: ['Mumbai'] }),
+      candidate(3, { loanTypes: ['Home Loan'], cities: ['PUNE'], openRequests: 3 }),
+    ];
+
+    expect(selectAssignee(rule(), candidates, homeLoanInPune, now).assignee?.userId).toBe(1);
+
+    const skilled = selectAssignee(rule({ useSkills: true }), candidates, homeLoanInPune, now);
+    expect(skilled.assignee?.userId).toBe(3);
+    expect(skilled.skipped.map(s => s.reason)).toEqual(['skill_mismatch', 'skill_mismatch']);
+  });
+
+  it('returns no assignee when nobody is eligible', () => {
+    const result = selectAssignee(rule(), [candidate(1, { maxOpenRequests: 0 })], homeLoanInPune, now);
+    expect(result.assignee).toBeNull();
+    expect(result.eligibleCount).toBe(0);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Loan Request Workflow Tests
+ *
+ * Covers the pure rules in config/loanWorkflow:
+ * 1. Every defined transition succeeds for its actors when its guards are met
+ * 2. Guards (comment, assignee, ownership) and actor restrictions are enforced
+ * 3. Undefined transitions are rejected
+ * 4. Stage timestamps and SLA due dates are computed per transition
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  LOAN_STATUSES,
+  LOAN_TRANSITIONS,
+  LoanActor,
+  checkTransition,
+  getAvailableTransitions,
+  getStageTimestampUpdates,
+  getSlaDueAt,
+} from '../config/loanWorkflow';
+
+const FINANCE_ID = 10;
+const OTHER_FINANCE_ID = 11;
+const ADMIN_ID = 1;
+const CUSTOMER_ID = 500;
+const ACTORS: LoanActor[] = ['finance', 'admin', 'customer'];
+
+const actorId = (actor: LoanActor) => {
+  if (actor === 'admin') return ADMIN_ID;
+  if (actor === 'customer') return CUSTOMER_ID;
+  return FINANCE_ID;
+};
+
+describe('Loan workflow transitions', () => {
+  for (const transition of LOAN_TRANSITIONS) {
+    describe(`${transition.from} -> ${transition.to}`, () => {
+      for (const actor of ACTORS) {
+        const permitted = transition.actors.includes(actor);
+
+        it(`${permitted ? 'allows' : 'rejects'} ${actor} when guards are met`, () => {
+          const check = checkTransition(transition.from, transition.to, {
+            actor,
+            actorId: actorId(actor),
+            assigneeId: FINANCE_ID,
+            comment: 'Spoke to the customer',
+          });
+
+          expect(check.allowed).toBe(permitted);
+          if (!permitted) expect(check.reason).toBe('actor_not_allowed');
+        });
+      }
+
+      const actor = transition.actors[0];
+
+      if (transition.requiresComment) {
+        it('requires a comment', () => {
+          const check = checkTransition(transition.from, transition.to, { actor, actorId: actorId(actor), assigneeId: FINANCE_ID });
+          expect(check.allowed).toBe(false);
+          expect(check.reason).toBe('comment_required');
+
+          const blank = checkTransition(transition.from, transition.to, { actor, actorId: actorId(actor), assigneeId: FINANCE_ID, comment: '   ' });
+          expect(blank.reason).toBe('comment_required');
+        });
+      } else {
+        it('does not require a comment', () => {
+          const check = checkTransition(transition.from, transition.to, { actor, actorId: actorId(actor), assigneeId: FINANCE_ID });
+          expect(check.allowed).toBe(true);
+        });
+      }
+
+      if (transition.requiresAssignee) {
+        it('requires an assignee', () => {
+          const check = checkTransition(transition.from, transition.to, { actor, actorId: actorId(actor), assigneeId: null, comment: 'ok' });
+          expect(check.allowed).toBe(false);
+          expect(check.reason).toBe('assignee_required');
+        });
+      } else {
+        it('does not require an assignee', () => {
+          const check = checkTransition(transition.from, transition.to, { actor, actorId: actorId(actor), assigneeId: null, comment: 'ok' });
+          expect(check.allowed).toBe(true);
+        });
+      }
+
+      if (transition.actors.includes('finance')) {
+        it('rejects finance users who are not the assignee', () => {
+          const check = checkTransition(transition.from, transition.to, { actor: 'finance', actorId: OTHER_FINANCE_ID, assigneeId: FINANCE_ID, comment: 'ok' });
+          expect(check.allowed).toBe(false);
+          expect(check.reason).toBe('not_assignee');
+        });
+      }
+
+      if (transition.actors.includes('admin')) {
+        it('lets admins act on requests assigned to someone else', () => {
+          const check = checkTransition(transition.from, transition.to, { actor: 'admin', actorId: ADMIN_ID, assigneeId: FINANCE_ID, comment: 'ok' });
+          expect(check.allowed).toBe(true);
+        });
+      }
+    });
+  }
+
+  it('rejects every undefined transition for every actor', () => {
+    for (const from of LOAN_STATUSES) {
+      for (const to of LOAN_STATUSES) {
+        if (LOAN_TRANSITIONS.some(t => t.from === from && t.to === to)) continue;
+
+        for (const actor of ACTORS) {
+          const check = checkTransition(from, to, { actor, actorId: actorId(actor), assigneeId: FINANCE_ID, comment: 'ok' });
+          expect(check.allowed).toBe(false);
+          expect(check.reason).toBe('invalid_transition');
+          expect(check.allowedTransitions).toEqual(getAvailableTransitions(from, actor));
+        }
+      }
+    }
+  });
+
+  it('lists available transitions per actor', () => {
+    expect(getAvailableTransitions('received', 'finance')).toEqual(['under_review', 'rejected']);
+    expect(getAvailableTransitions('contacted', 'finance')).toEqual(['closed', 'rejected']);
+    expect(getAvailableTransitions('closed', 'finance')).toEqual([]);
+    expect(getAvailableTransitions('closed', 'admin')).toEqual(['under_review']);
+    expect(getAvailableTransitions('unknown', 'admin')).toEqual([]);
+    expect(getAvailableTransitions('under_review', 'customer')).toEqual(['withdrawn']);
+    expect(getAvailableTransitions('closed', 'customer')).toEqual([]);
+    expect(getAvailableTransitions('withdrawn', 'admin')).toEqual([]);
+  });
+});
+
+describe('Loan workflow side-effect helpers', () => {
+  const now = new Date('2025-01-01T10:00:00Z');
+
+  it('stamps the stage being entered', () => {
+    expect(getStageTimestampUpdates('received', 'under_review', now)).toEqual({ underReviewAt: now });
+    expect(getStageTimestampUpdates('under_review', 'contacted', now)).toEqual({ contactedAt: now });
+    expect(getStageTimestampUpdates('contacted', 'closed', now)).toEqual({ closedAt: now });
+    expect(getStageTimestampUpdates('received', 'rejected', now)).toEqual({ rejectedAt: now });
+    expect(getStageTimestampUpdates('contacted', 'withdrawn', now)).toEqual({ withdrawnAt: now });
+  });
+
+  it('clears the terminal timestamp when a request is reopened', () => {
+    expect(getStageTimestampUpdates('closed', 'under_review', now)).toEqual({ closedAt: null, underReviewAt: now });
+    expect(getStageTimestampUpdates('rejected', 'under_review', now)).toEqual({ rejectedAt: null, underReviewAt: now });
+  });
+
+  it('resets the SLA window for open stages and clears it for finished ones', () => {
+    expect(getSlaDueAt('under_review', now, 24)).toEqual(new Date('2025-01-02T10:00:00Z'));
+    expect(getSlaDueAt('contacted', now, 4)).toEqual(new Date('2025-01-01T14:00:00Z'));
+    expect(getSlaDueAt('closed', now, 24)).toBeNull();
+    expect(getSlaDueAt('rejected', now, 24)).toBeNull();
+    expect(getSlaDueAt('withdrawn', now, 24)).toBeNull();
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Pagination Tests
+ *
+ * Covers the keyset helpers in utils/pagination:
+ * 1. Cursors round-trip and garbage is rejected
+ * 2. Cursors must belong to the sort and match its key and id types
+ * 3. Pages trim the look-ahead row and only carry a cursor when there is more
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { sql } from 'drizzle-orm';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import { KeysetSort, encodeCursor, decodeCursor, keyset, toPage } from '../utils/pagination';
+import { loanRequests } from '../models/loanRequest';
+import { users } from '../models/user';
+
+const newest: KeysetSort = { name: 'newest', key: loanRequests.createdAt, keyType: 'timestamp', id: loanRequests.id, direction: 'desc' };
+const highest: KeysetSort = { name: 'highest', key: loanRequests.loanAmountNeeded, keyType: 'number', id: loanRequests.id, direction: 'desc' };
+const byUserId: KeysetSort = { name: 'id', key: users.id, keyType: 'number', id: users.id, direction: 'asc' };
+const byName: KeysetSort = { name: 'name', key: sql`lower(${users.name})`, keyType: 'text', id: users.id, direction: 'asc' };
+
+const requestId = '7f1c2e4a-9b3d-4c5e-8f6a-1b2c3d4e5f60';
+const dialect = new PgDialect();
+
+describe('Cursor encoding', () => {
+  it('round-trips sort name, key and id', () => {
+    expect(decodeCursor(encodeCursor('newest', '2026-03-01 10:00:00.123456', requestId)))
+      .toEqual({ s: 'newest', k: '2026-03-01 10:00:00.123456', i: requestId });
+  });
+
+  it('rejects garbage and incomplete payloads', () => {
+    expect(decodeCursor('not a cursor')).toBeNull();
+    expect(decodeCursor(Buffer.from(JSON.stringify({ s: 'newest', k: 5, i: 1 })).toString('base64url'))).toBeNull();
+    expect(decodeCursor(Buffer.from(JSON.stringify({ s: 'newest', k: 'x' })).toString('base64url'))).toBeNull();
+  });
+});
+
+describe('Keyset conditions', () => {
+  it('orders only when there is no cursor', () => {
+    const page = keyset(newest);
+
+    expect(page.error).toBeUndefined();
+    expect(page.where).toBeUndefined();
+    expect(page.orderBy).toHaveLength(2);
+  });
+
+  it('seeks past the cursor row', () => {
+    const page = keyset(newest, encodeCursor('newest', '2026-03-01 10:00:00.123456', requestId));
+
+    expect(page.error).toBeUndefined();
+    const query = dialect.sqlToQuery(page.where!);
+    expect(query.sql).toContain('<');
+    expect(query.params).toEqual(['2026-03-01 10:00:00.123456', requestId]);
+  });
+
+  it('rejects cursors from another sort', () => {
+    expect(keyset(highest, encodeCursor('newest', '2026-03-01 10:00:00', requestId)).error).toBe('Invalid cursor');
+  });
+
+  it('rejects keys that do not match the sort key type', () => {
+    expect(keyset(newest, encodeCursor('newest', 'yesterday', requestId)).error).toBe('Invalid cursor');
+    expect(keyset(newest, encodeCursor('newest', "2026-03-01'; DROP TABLE users", requestId)).error).toBe('Invalid cursor');
+    expect(keyset(highest, encodeCursor('highest', 'lots', requestId)).error).toBe('Invalid cursor');
+  });
+
+  it('accepts the fallback values COALESCE sorts produce', () => {
+    expect(keyset(newest, encodeCursor('newest', 'infinity', requestId)).error).toBeUndefined();
+    expect(keyset(highest, encodeCursor('highest', 'NaN', requestId)).error).toBeUndefined();
+    expect(keyset(highest, encodeCursor('highest', '-1', requestId)).error).toBeUndefined();
+    expect(keyset(highest, encodeCursor('highest', '1.5e-7', requestId)).error).toBeUndefined();
+  });
+
+  it('accepts any text key', () => {
+    expect(keyset(byName, encodeCursor('name', 'Anita', 12)).error).toBeUndefined();
+  });
+
+  it('rejects ids that do not match the id column', () => {
+    expect(keyset(newest, encodeCursor('newest', '2026-03-01 10:00:00', 'abc')).error).toBe('Invalid cursor');
+    expect(keyset(newest, encodeCursor('newest', '2026-03-01 10:00:00', 42)).error).toBe('Invalid cursor');
+    expect(keyset(byUserId, encodeCursor('id', '12', 'twelve')).error).toBe('Invalid cursor');
+    expect(keyset(byUserId, encodeCursor('id', '12', 1.5)).error).toBe('Invalid cursor');
+    expect(keyset(byUserId, encodeCursor('id', '12', 12)).error).toBeUndefined();
+    expect(keyset(byUserId, encodeCursor('id', '12', '12')).error).toBeUndefined();
+  });
+});
+
+describe('Pages', () => {
+  const rows = [
+    { id: 3, cursorKey: '30', name: 'c' },
+    { id: 2, cursorKey: '20', name: 'b' },
+    { id: 1, cursorKey: '10', name: 'a' },
+  ];
+
+  it('trims the look-ahead row and points the cursor at the last row shown', () => {
+    const page = toPage(rows, 2, byUserId);
+
+    expect(page.hasMore).toBe(true);
+    expect(page.data).toEqual([{ id: 3, name: 'c' }, { id: 2, name: 'b' }]);
+    expect(decodeCursor(page.nextCursor!)).toEqual({ s: 'id', k: '20', i: 2 });
+  });
+
+  it('has no cursor on the last page', () => {
+    const page = toPage(rows, 3, byUserId);
+
+    expect(page.hasMore).toBe(false);
+    expect(page.data).toHaveLength(3);
+    expect(page.nextCursor).toBeNull();
+  });
+});
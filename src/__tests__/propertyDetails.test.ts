@@ -0,0 +1,64 @@
+/**
+ * Property Details Tests
+ *
+ * Covers typed property details in utils/propertyDetails and config/propertyAttributes:
+ * 1. Attributes are validated against the property kind
+ * 2. Changing kind without new attributes clears the old ones
+ * 3. Units are parsed and checked for consistent inventory
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { preparePropertyDetails } from '../utils/propertyDetails';
+
+describe('Property attributes', () => {
+  it('accepts attributes that fit the kind', () => {
+    const result = preparePropertyDetails({
+      title: 'Lake View',
+      propertyKind: 'apartment',
+      attributes: { bhk: 3, carpetAreaSqft: '1450', floor: 7, totalFloors: 14, facing: 'east', reraNumber: 'PRM/KA/RERA/1251/446/PR/171014/000123' },
+    });
+
+    expect(result.error).toBeUndefined();
+    expect(result.payload.title).toBe('Lake View');
+    expect(result.payload.attributes).toEqual({
+      bhk: 3, carpetAreaSqft: 1450, floor: 7, totalFloors: 14, facing: 'east', reraNumber: 'PRM/KA/RERA/1251/446/PR/171014/000123',
+    });
+  });
+
+  it('rejects unknown kinds, unknown attributes and impossible values', () => {
+    expect(preparePropertyDetails({ propertyKind: 'castle' }).error).toMatch(/propertyKind/);
+    expect(preparePropertyDetails({ propertyKind: 'plot', attributes: { bhk: 2 } }).error).toMatch(/^attributes/);
+    expect(preparePropertyDetails({ propertyKind: 'apartment', attributes: { floor: 12, totalFloors: 10 } }).error).toMatch(/^attributes\.floor/);
+    expect(preparePropertyDetails({ propertyKind: 'villa', attributes: { possessionDate: 'next year' } }).error).toMatch(/possessionDate/);
+  });
+
+  it('validates against the current kind when the payload does not change it', () => {
+    expect(preparePropertyDetails({ attributes: { cornerPlot: true } }, 'plot').payload.attributes).toEqual({ cornerPlot: true });
+    expect(preparePropertyDetails({ attributes: { cornerPlot: true } }).error).toMatch(/propertyKind/);
+  });
+
+  it('clears attributes when the kind changes without new ones', () => {
+    expect(preparePropertyDetails({ propertyKind: 'villa' }, 'plot').payload.attributes).toEqual({});
+    expect(preparePropertyDetails({ propertyKind: 'plot' }, 'plot').payload.attributes).toBeUndefined();
+    expect(preparePropertyDetails({ title: 'Renamed' }, 'plot').payload.attributes).toBeUndefined();
+  });
+});
+
+describe('Property units', () => {
+  it('leaves units alone unless the payload lists them', () => {
+    expect(preparePropertyDetails({ title: 'Lake View' }).units).toBeUndefined();
+    expect(preparePropertyDetails({ units: [] }).units).toEqual([]);
+  });
+
+  it('parses units and strips them from the payload', () => {
+    const result = preparePropertyDetails({ units: [{ unitType: '2 BHK', bhk: 2, sizeSqft: 1150, price: '8500000', totalUnits: 40, availableUnits: 12 }] });
+
+    expect(result.payload.units).toBeUndefined();
+    expect(result.units).toEqual([{ unitType: '2 BHK', bhk: 2, sizeSqft: 1150, price: 8500000, totalUnits: 40, availableUnits: 12, availability: 'available' }]);
+  });
+
+  it('rejects more available units than exist', () => {
+    const result = preparePropertyDetails({ units: [{ unitType: '3 BHK', totalUnits: 10, availableUnits: 11 }] });
+    expect(result.error).toMatch(/^units\.0\.availableUnits/);
+  });
+});
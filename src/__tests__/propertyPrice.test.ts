@@ -0,0 +1,45 @@
+/**
+ * Property Price Tests
+ *
+ * Covers the price comparisons in utils/propertyPrice that decide when history rows and
+ * price-drop alerts are written:
+ * 1. Numeric strings, numbers, '' and null are compared as prices
+ * 2. Only decreases between two known prices count as drops
+ * 3. Percentage changes
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { toPrice, isPriceChange, isPriceDrop, priceChangePercent } from '../utils/propertyPrice';
+
+describe('Price parsing', () => {
+  it('reads numeric strings and numbers, and treats blanks as no price', () => {
+    expect(toPrice('8500000')).toBe(8500000);
+    expect(toPrice('8500000.00')).toBe(8500000);
+    expect(toPrice(7200000)).toBe(7200000);
+    expect(toPrice('')).toBeNull();
+    expect(toPrice(null)).toBeNull();
+    expect(toPrice('on request')).toBeNull();
+  });
+});
+
+describe('Price changes', () => {
+  it('ignores formatting-only differences', () => {
+    expect(isPriceChange('8500000', '8500000.00')).toBe(false);
+    expect(isPriceChange(null, '')).toBe(false);
+    expect(isPriceChange('8500000', '8000000')).toBe(true);
+    expect(isPriceChange(null, '8000000')).toBe(true);
+  });
+
+  it('counts only decreases between known prices as drops', () => {
+    expect(isPriceDrop('8500000', '8000000')).toBe(true);
+    expect(isPriceDrop('8000000', '8500000')).toBe(false);
+    expect(isPriceDrop('8500000', null)).toBe(false);
+    expect(isPriceDrop(null, '8000000')).toBe(false);
+  });
+
+  it('computes signed percentage changes', () => {
+    expect(priceChangePercent('8000000', '7200000')).toBe(-10);
+    expect(priceChangePercent('6000000', '6100000')).toBe(1.7);
+    expect(priceChangePercent(null, '6100000')).toBeNull();
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Property Search Tests
+ *
+ * Covers the query helpers in utils/propertySearch:
+ * 1. List parameters accept comma-separated and repeated values
+ * 2. The default sort depends on whether there is a text query
+ * 3. LIKE wildcards in user text are matched literally
+ * 4. Price buckets cover every price exactly once
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { PRICE_BUCKETS, toList, resolveSort, likePattern } from '../utils/propertySearch';
+
+describe('List parameters', () => {
+  it('splits comma-separated and repeated values', () => {
+    expect(toList('Gym,Pool')).toEqual(['Gym', 'Pool']);
+    expect(toList(['Gym', 'Pool,Parking'])).toEqual(['Gym', 'Pool', 'Parking']);
+  });
+
+  it('trims, drops blanks and repeats', () => {
+    expect(toList(' Gym , ,Gym,Pool ')).toEqual(['Gym', 'Pool']);
+    expect(toList(undefined)).toEqual([]);
+    expect(toList('')).toEqual([]);
+  });
+});
+
+describe('Sort resolution', () => {
+  it('defaults to relevance with a query and newest without one', () => {
+    expect(resolveSort(undefined, true)).toBe('relevance');
+    expect(resolveSort(undefined, false)).toBe('newest');
+  });
+
+  it('falls back from relevance when there is nothing to rank', () => {
+    expect(resolveSort('relevance', false)).toBe('newest');
+    expect(resolveSort('price_asc', false)).toBe('price_asc');
+    expect(resolveSort('price_desc', true)).toBe('price_desc');
+  });
+});
+
+describe('LIKE patterns', () => {
+  it('escapes wildcards', () => {
+    expect(likePattern('Whitefield')).toBe('%Whitefield%');
+    expect(likePattern('100%_off\\')).toBe('%100\\%\\_off\\\\%');
+  });
+});
+
+describe('Price buckets', () => {
+  it('are contiguous and open-ended at the top', () => {
+    expect(PRICE_BUCKETS[0].min).toBe(0);
+    PRICE_BUCKETS.slice(1).forEach((bucket, index) => expect(bucket.min).toBe(PRICE_BUCKETS[index].max));
+    expect(PRICE_BUCKETS[PRICE_BUCKETS.length - 1].max).toBeNull();
+  });
+});
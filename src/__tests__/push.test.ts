@@ -0,0 +1,67 @@
+/**
+ * Push Tests
+ *
+ * Covers the multicast batching in utils/push:
+ * 1. Tokens are sent in batches FCM accepts
+ * 2. Dead tokens are collected from every batch response
+ * 3. A failed batch does not stop the rest
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { MAX_MULTICAST_TOKENS, MulticastResult, sendInBatches } from '../utils/push';
+
+const tokens = Array.from({ length: 1201 }, (_, i) => `token-${i}`);
+
+const delivered = (batch: string[]): MulticastResult => ({ successCount: batch.length, responses: batch.map(() => ({})) });
+
+describe('Multicast batches', () => {
+  it('splits more than 500 tokens into batches of at most 500', async () => {
+    const batches: string[][] = [];
+    const result = await sendInBatches(tokens, async batch => {
+      batches.push(batch);
+      return delivered(batch);
+    });
+
+    expect(batches.map(batch => batch.length)).toEqual([500, 500, 201]);
+    expect(batches.every(batch => batch.length <= MAX_MULTICAST_TOKENS)).toBe(true);
+    expect(batches.flat()).toEqual(tokens);
+    expect(result).toEqual({ successCount: 1201, failedBatches: 0, deadTokens: [] });
+  });
+
+  it('collects dead tokens from each batch response', async () => {
+    const result = await sendInBatches(tokens, async batch => ({
+      successCount: batch.length - 2,
+      responses: batch.map((_, i) => {
+        if (i === 0) return { error: { code: 'messaging/registration-token-not-registered' } };
+        if (i === 1) return { error: { code: 'messaging/internal-error' } };
+        if (i === 2) return { error: { code: 'messaging/invalid-registration-token' } };
+        return {};
+      }),
+    }));
+
+    expect(result.deadTokens).toEqual(['token-0', 'token-2', 'token-500', 'token-502', 'token-1000', 'token-1002']);
+    expect(result.successCount).toBe(1195);
+  });
+
+  it('keeps sending after a batch fails', async () => {
+    let calls = 0;
+    const result = await sendInBatches(tokens, async batch => {
+      calls++;
+      if (calls === 1) throw new Error('Too many tokens');
+      return delivered(batch);
+    });
+
+    expect(calls).toBe(3);
+    expect(result).toEqual({ successCount: 701, failedBatches: 1, deadTokens: [] });
+  });
+
+  it('sends nothing without tokens', async () => {
+    let calls = 0;
+    await sendInBatches([], async batch => {
+      calls++;
+      return delivered(batch);
+    });
+
+    expect(calls).toBe(0);
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Saved Search Tests
+ *
+ * Covers how utils/savedSearch matches a new listing against saved criteria:
+ * 1. Any of the categories, all of the amenities
+ * 2. Location as a case-insensitive substring
+ * 3. Inclusive price ranges, with unpriced listings never matching one
+ * 4. Empty criteria are rejected
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { matchesSavedSearch, hasCriteria } from '../utils/savedSearch';
+
+const listing = {
+  location: 'Whitefield, Bengaluru',
+  price: '8500000.00',
+  categories: ['Apartment', 'Gated Community'],
+  amenities: ['Gym', 'Pool', 'Clubhouse'],
+};
+
+describe('Category and amenity matching', () => {
+  it('matches when any saved category is present', () => {
+    expect(matchesSavedSearch({ categories: ['Villa', 'Apartment'] }, listing)).toBe(true);
+    expect(matchesSavedSearch({ categories: ['Villa'] }, listing)).toBe(false);
+  });
+
+  it('needs every saved amenity', () => {
+    expect(matchesSavedSearch({ amenities: ['Gym', 'Pool'] }, listing)).toBe(true);
+    expect(matchesSavedSearch({ amenities: ['Gym', 'Tennis Court'] }, listing)).toBe(false);
+  });
+
+  it('treats missing listing arrays as empty', () => {
+    expect(matchesSavedSearch({ amenities: ['Gym'] }, { ...listing, amenities: null })).toBe(false);
+  });
+});
+
+describe('Location matching', () => {
+  it('ignores case and matches part of the location', () => {
+    expect(matchesSavedSearch({ location: 'whitefield' }, listing)).toBe(true);
+    expect(matchesSavedSearch({ location: 'Koramangala' }, listing)).toBe(false);
+  });
+});
+
+describe('Price matching', () => {
+  it('includes both ends of the range', () => {
+    expect(matchesSavedSearch({ minPrice: 8500000, maxPrice: 8500000 }, listing)).toBe(true);
+    expect(matchesSavedSearch({ minPrice: 9000000 }, listing)).toBe(false);
+    expect(matchesSavedSearch({ maxPrice: 8000000 }, listing)).toBe(false);
+  });
+
+  it('never matches a range for a listing without a price', () => {
+    expect(matchesSavedSearch({ maxPrice: 10000000 }, { ...listing, price: null })).toBe(false);
+    expect(matchesSavedSearch({ location: 'Whitefield' }, { ...listing, price: null })).toBe(true);
+  });
+});
+
+describe('Criteria presence', () => {
+  it('rejects criteria that would match every listing', () => {
+    expect(hasCriteria({})).toBe(false);
+    expect(hasCriteria({ categories: [] })).toBe(false);
+    expect(hasCriteria({ minPrice: 0 })).toBe(true);
+  });
+});
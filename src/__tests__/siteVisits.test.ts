@@ -0,0 +1,115 @@
+/**
+ * Site Visit Tests
+ *
+ * Covers the pure rules in config/siteVisits and the calendar writer in utils/ics:
+ * 1. Slot validation: lead time, booking window, quarter-hour grid, visiting hours in India time
+ * 2. Overlapping slots
+ * 3. Which actor may take which action, including the check-in and no-show timing guards
+ * 4. ICS escaping, line folding and event output
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { checkVisitAction, getAvailableVisitActions, slotsOverlap, validateSlot } from '../config/siteVisits';
+import { buildCalendar, escapeIcsText, foldIcsLine, formatIcsDate } from '../utils/ics';
+
+// 05:30 in India
+const NOW = new Date('2026-10-19T00:00:00Z');
+// 11:00 in India the next day
+const TOMORROW_11 = new Date('2026-10-20T05:30:00Z');
+
+describe('Slot validation', () => {
+  it('accepts a slot inside visiting hours', () => {
+    expect(validateSlot(TOMORROW_11, 60, NOW)).toBeNull();
+    // 18:30 for 30 minutes ends exactly at closing time
+    expect(validateSlot(new Date('2026-10-20T13:00:00Z'), 30, NOW)).toBeNull();
+  });
+
+  it('rejects slots outside visiting hours', () => {
+    expect(validateSlot(new Date('2026-10-20T13:00:00Z'), 60, NOW)).toMatch(/9:00 and 19:00/);
+    expect(validateSlot(new Date('2026-10-20T03:00:00Z'), 60, NOW)).toMatch(/9:00 and 19:00/);
+  });
+
+  it('rejects slots off the quarter-hour grid or with unknown durations', () => {
+    expect(validateSlot(new Date('2026-10-20T05:40:00Z'), 60, NOW)).toMatch(/quarter hour/);
+    expect(validateSlot(TOMORROW_11, 45, NOW)).toMatch(/minutes/);
+  });
+
+  it('enforces the booking window', () => {
+    expect(validateSlot(new Date('2026-10-19T01:00:00Z'), 60, NOW)).toMatch(/hours ahead/);
+    expect(validateSlot(new Date('2026-12-20T05:30:00Z'), 60, NOW)).toMatch(/days ahead/);
+    expect(validateSlot(new Date('invalid'), 60, NOW)).toMatch(/Invalid/);
+  });
+});
+
+describe('Slot overlap', () => {
+  it('treats touching slots as free', () => {
+    const first = { start: TOMORROW_11, durationMinutes: 60 };
+    expect(slotsOverlap(first, { start: new Date('2026-10-20T06:30:00Z'), durationMinutes: 30 })).toBe(false);
+    expect(slotsOverlap(first, { start: new Date('2026-10-20T06:15:00Z'), durationMinutes: 30 })).toBe(true);
+  });
+});
+
+describe('Visit actions', () => {
+  const requested = { status: 'requested', scheduledAt: TOMORROW_11 };
+  const confirmed = { status: 'confirmed', scheduledAt: TOMORROW_11 };
+
+  it('lets staff confirm, reschedule or cancel a request', () => {
+    expect(getAvailableVisitActions(requested, 'staff', NOW)).toEqual(['confirm', 'reschedule', 'cancel']);
+  });
+
+  it('only lets customers cancel', () => {
+    expect(getAvailableVisitActions(requested, 'customer', NOW)).toEqual(['cancel']);
+    expect(checkVisitAction('confirm', requested, 'customer', NOW).allowed).toBe(false);
+  });
+
+  it('opens check-in an hour before the visit', () => {
+    expect(checkVisitAction('check_in', confirmed, 'staff', NOW).allowed).toBe(false);
+    expect(checkVisitAction('check_in', confirmed, 'staff', new Date('2026-10-20T04:30:00Z')).allowed).toBe(true);
+  });
+
+  it('allows a no-show only after the start time', () => {
+    expect(checkVisitAction('no_show', confirmed, 'staff', new Date('2026-10-20T05:00:00Z')).allowed).toBe(false);
+    expect(checkVisitAction('no_show', confirmed, 'staff', new Date('2026-10-20T06:00:00Z')).allowed).toBe(true);
+  });
+
+  it('rejects actions from the wrong state', () => {
+    const completed = { status: 'completed', scheduledAt: TOMORROW_11 };
+    expect(getAvailableVisitActions(completed, 'staff', NOW)).toEqual([]);
+    expect(checkVisitAction('complete', confirmed, 'staff', NOW).message).toMatch(/confirmed/);
+  });
+});
+
+describe('ICS export', () => {
+  it('formats UTC dates without separators', () => {
+    expect(formatIcsDate(TOMORROW_11)).toBe('20261020T053000Z');
+  });
+
+  it('escapes text values', () => {
+    expect(escapeIcsText('Plot 4, Phase 2; gate\\B\nCall first')).toBe('Plot 4\\, Phase 2\\; gate\\\\B\\nCall first');
+  });
+
+  it('folds long lines at 75 octets without splitting characters', () => {
+    const folded = foldIcsLine(`SUMMARY:${'₹'.repeat(40)}`);
+    const lines = folded.split('\r\n');
+    expect(lines.length).toBeGreaterThan(1);
+    expect(lines.every(line => Buffer.byteLength(line) <= 75)).toBe(true);
+    expect(lines.slice(1).every(line => line.startsWith(' '))).toBe(true);
+    expect(lines.map((line, index) => index ? line.slice(1) : line).join('')).toBe(`SUMMARY:${'₹'.repeat(40)}`);
+  });
+
+  it('writes one event per visit', () => {
+    const calendar = buildCalendar('Site visits', [{
+      uid: 'site-visit-1@maruthi',
+      start: TOMORROW_11,
+      end: new Date('2026-10-20T06:30:00Z'),
+      summary: 'Site visit: Green Meadows',
+      location: 'Whitefield, Bengaluru',
+      status: 'CONFIRMED',
+    }], NOW);
+
+    expect(calendar).toMatch(/^BEGIN:VCALENDAR\r\n/);
+    expect(calendar).toMatch(/DTSTART:20261020T053000Z\r\nDTEND:20261020T063000Z\r\n/);
+    expect(calendar).toMatch(/LOCATION:Whitefield\\, Bengaluru\r\n/);
+    expect(calendar).toMatch(/END:VEVENT\r\nEND:VCALENDAR\r\n$/);
+  });
+});
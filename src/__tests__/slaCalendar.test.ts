@@ -0,0 +1,89 @@
+/**
+ * SLA Calendar Tests
+ *
+ * Covers the SLA helpers in utils/slaCalendar:
+ * 1. Working hours skip nights, weekends and holidays on the calendar's local clock
+ * 2. Calendars without a usable working window fall back to wall-clock time
+ * 3. The most specific policy wins
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { BusinessCalendar, addBusinessHours, resolveSlaPolicy } from '../utils/slaCalendar';
+
+// Mon-Sat 09:30-18:30 IST, i.e. 04:00-13:00 UTC. 2 March 2026 is a Monday.
+const calendar: BusinessCalendar = {
+  utcOffsetMinutes: 330,
+  workDays: [1, 2, 3, 4, 5, 6],
+  startTime: '09:30',
+  endTime: '18:30',
+  holidays: [],
+};
+
+describe('Business hours', () => {
+  it('adds hours within the working day', () => {
+    expect(addBusinessHours(new Date('2026-03-02T04:30:00Z'), 2, calendar)).toEqual(new Date('2026-03-02T06:30:00Z'));
+  });
+
+  it('starts counting at opening time', () => {
+    expect(addBusinessHours(new Date('2026-03-02T01:30:00Z'), 1, calendar)).toEqual(new Date('2026-03-02T05:00:00Z'));
+  });
+
+  it('carries what is left at closing time over to the next working day', () => {
+    expect(addBusinessHours(new Date('2026-03-02T12:00:00Z'), 2, calendar)).toEqual(new Date('2026-03-03T05:00:00Z'));
+    expect(addBusinessHours(new Date('2026-03-02T12:00:00Z'), 1, calendar)).toEqual(new Date('2026-03-02T13:00:00Z'));
+  });
+
+  it('skips non-working days', () => {
+    expect(addBusinessHours(new Date('2026-03-07T12:30:00Z'), 1, calendar)).toEqual(new Date('2026-03-09T04:30:00Z'));
+  });
+
+  it('skips holidays', () => {
+    const withHoliday = { ...calendar, holidays: ['2026-03-03'] };
+
+    expect(addBusinessHours(new Date('2026-03-02T12:30:00Z'), 1, withHoliday)).toEqual(new Date('2026-03-04T04:30:00Z'));
+  });
+
+  it('reads days and holidays on the local clock', () => {
+    // 20:00 UTC on the 3rd is already 01:30 on the 4th in IST
+    const withHoliday = { ...calendar, holidays: ['2026-03-04'] };
+
+    expect(addBusinessHours(new Date('2026-03-03T20:00:00Z'), 1, withHoliday)).toEqual(new Date('2026-03-05T05:00:00Z'));
+  });
+
+  it('falls back to wall-clock time without a working window', () => {
+    const start = new Date('2026-03-07T12:30:00Z');
+
+    expect(addBusinessHours(start, 4, { ...calendar, endTime: '09:00' })).toEqual(new Date('2026-03-07T16:30:00Z'));
+    expect(addBusinessHours(start, 4, { ...calendar, startTime: '9am' })).toEqual(new Date('2026-03-07T16:30:00Z'));
+    expect(addBusinessHours(start, 4, { ...calendar, workDays: [] })).toEqual(new Date('2026-03-07T16:30:00Z'));
+  });
+});
+
+describe('Policy precedence', () => {
+  const catchAll = { id: 1, priority: null, loanType: null };
+  const high = { id: 2, priority: 'high', loanType: null };
+  const home = { id: 3, priority: null, loanType: 'home_loan' };
+  const highHome = { id: 4, priority: 'high', loanType: 'home_loan' };
+  const laterCatchAll = { id: 5, priority: null, loanType: null };
+  const policies = [laterCatchAll, highHome, home, high, catchAll];
+
+  it('prefers priority and loan type, then loan type, then priority', () => {
+    expect(resolveSlaPolicy(policies, { priority: 'high', loanType: 'home_loan' })).toBe(highHome);
+    expect(resolveSlaPolicy(policies.filter(p => p !== highHome), { priority: 'high', loanType: 'home_loan' })).toBe(home);
+    expect(resolveSlaPolicy(policies, { priority: 'high', loanType: 'personal_loan' })).toBe(high);
+  });
+
+  it('treats requests without a priority as normal', () => {
+    expect(resolveSlaPolicy(policies, { priority: null, loanType: 'home_loan' })).toBe(home);
+    expect(resolveSlaPolicy(policies, { loanType: 'personal_loan' })).toBe(catchAll);
+  });
+
+  it('breaks ties by the oldest policy', () => {
+    expect(resolveSlaPolicy([laterCatchAll, catchAll], { loanType: 'home_loan' })).toBe(catchAll);
+  });
+
+  it('returns null when nothing matches', () => {
+    expect(resolveSlaPolicy([high, highHome], { priority: 'normal', loanType: 'home_loan' })).toBeNull();
+    expect(resolveSlaPolicy([], { loanType: 'home_loan' })).toBeNull();
+  });
+});
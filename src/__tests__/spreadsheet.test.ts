@@ -0,0 +1,115 @@
+/**
+ * Spreadsheet Tests
+ *
+ * Covers the export writers in utils/spreadsheet:
+ * 1. CSV rows are quoted, formula-neutralised and CRLF terminated
+ * 2. Sheet rows carry typed cells with A1 references
+ * 3. XLSX workbooks are valid zips holding the sheet XML
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import zlib from 'zlib';
+import { toCsvRow, toSheetRow, buildXlsx } from '../utils/spreadsheet';
+
+// Reads every entry of a zip by walking its local file headers
+const unzip = (archive: Buffer) => {
+  const files: Record<string, string> = {};
+  let offset = 0;
+
+  while (archive.readUInt32LE(offset) === 0x04034b50) {
+    const compressedSize = archive.readUInt32LE(offset + 18);
+    const nameLength = archive.readUInt16LE(offset + 26);
+    const extraLength = archive.readUInt16LE(offset + 28);
+    const name = archive.toString('utf8', offset + 30, offset + 30 + nameLength);
+    const dataStart = offset + 30 + nameLength + extraLength;
+
+    files[name] = zlib.inflateRawSync(archive.subarray(dataStart, dataStart + compressedSize)).toString('utf8');
+    offset = dataStart + compressedSize;
+  }
+
+  return files;
+};
+
+describe('CSV rows', () => {
+  it('joins plain values and ends with CRLF', () => {
+    expect(toCsvRow(['a', 1, true])).toBe('a,1,true\r\n');
+  });
+
+  it('renders empty values and dates', () => {
+    expect(toCsvRow([null, undefined, new Date('2026-01-02T03:04:05.000Z')])).toBe(',,2026-01-02T03:04:05.000Z\r\n');
+  });
+
+  it('quotes commas, quotes and line breaks', () => {
+    expect(toCsvRow(['Koramangala, Bengaluru', 'say "hi"', 'two\nlines']))
+      .toBe('"Koramangala, Bengaluru","say ""hi""","two\nlines"\r\n');
+  });
+
+  it('neutralises formula-like strings but leaves negative numbers alone', () => {
+    expect(toCsvRow(['=SUM(A1:A2)', '+91 98450', '@cmd', -250])).toBe("'=SUM(A1:A2),'+91 98450,'@cmd,-250\r\n");
+  });
+});
+
+describe('Sheet rows', () => {
+  it('types numbers, booleans and strings', () => {
+    const row = toSheetRow([42, false, 'Home Loan'], 0);
+
+    expect(row).toContain('<row r="1">');
+    expect(row).toContain('<c r="A1"><v>42</v></c>');
+    expect(row).toContain('<c r="B1" t="b"><v>0</v></c>');
+    expect(row).toContain('<c r="C1" t="inlineStr"><is><t xml:space="preserve">Home Loan</t></is></c>');
+  });
+
+  it('skips empty cells and escapes XML', () => {
+    const row = toSheetRow([null, '', '<a & b>'], 4);
+
+    expect(row).not.toContain('r="A5"');
+    expect(row).not.toContain('r="B5"');
+    expect(row).toContain('&lt;a &amp; b&gt;');
+  });
+
+  it('strips control characters XML cannot hold', () => {
+    expect(toSheetRow(['bad\u0001value'], 0)).toContain('>badvalue<');
+  });
+
+  it('names columns past Z', () => {
+    const row = toSheetRow(Array.from({ length: 28 }, (_, i) => i), 0);
+
+    expect(row).toContain('<c r="Z1">');
+    expect(row).toContain('<c r="AA1">');
+    expect(row).toContain('<c r="AB1">');
+  });
+});
+
+describe('XLSX workbooks', () => {
+  const workbook = buildXlsx('Loan Requests', [toSheetRow(['ID', 'Amount'], 0), toSheetRow(['abc', 2500000], 1)]);
+  const files = unzip(workbook);
+
+  it('contains the parts Excel needs', () => {
+    expect(Object.keys(files)).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/worksheets/sheet1.xml',
+    ]);
+  });
+
+  it('writes the rows into the sheet', () => {
+    expect(files['xl/worksheets/sheet1.xml']).toContain('<sheetData><row r="1">');
+    expect(files['xl/worksheets/sheet1.xml']).toContain('<c r="B2"><v>2500000</v></c>');
+  });
+
+  it('names the sheet, truncated to 31 characters', () => {
+    expect(files['xl/workbook.xml']).toContain('<sheet name="Loan Requests"');
+
+    const long = unzip(buildXlsx('A'.repeat(40), []));
+    expect(long['xl/workbook.xml']).toContain(`<sheet name="${'A'.repeat(31)}"`);
+  });
+
+  it('ends with a central directory covering every entry', () => {
+    const end = workbook.length - 22;
+
+    expect(workbook.readUInt32LE(end)).toBe(0x06054b50);
+    expect(workbook.readUInt16LE(end + 10)).toBe(5);
+  });
+});
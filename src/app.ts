@@ -18,7 +18,11 @@ app.use(cors({
   allowedHeaders: ['Content-Type', 'Authorization']
 }));
 app.use(morgan('combined'));
-app.use(express.json({ limit: '10mb' }));
+app.use(express.json({
+  limit: '10mb',
+  // Keep the raw bytes for webhook signature checks
+  verify: (req, _res, buf) => { (req as any).rawBody = buf; }
+}));
 app.use(express.urlencoded({ extended: true }));
 
 // Log all incoming requests
@@ -58,6 +62,10 @@ import employeeRoutes from './routes/employeeRoutes';
 import uploadRoutes from './routes/uploadRoutes';
 import personChatRoutes from './routes/personChatRoutes';
 import loanRequestRoutes from './routes/loanRequest';
+import favouriteRoutes from './routes/favourites';
+import savedSearchRoutes from './routes/savedSearches';
+import siteVisitRoutes from './routes/siteVisits';
+import leadRoutes from './routes/leads';
 
 // API routes
 app.get('/api', (req, res) => {
@@ -78,5 +86,9 @@ app.use('/api/employee', employeeRoutes);
 app.use('/api/uploads', uploadRoutes);
 app.use('/api/chat/person', personChatRoutes);
 app.use('/api/loan-requests', loanRequestRoutes);
+app.use('/api/favourites', favouriteRoutes);
+app.use('/api/saved-searches', savedSearchRoutes);
+app.use('/api/site-visits', siteVisitRoutes);
+app.use('/api/leads', leadRoutes);
 
 export default app;
@@ -17,6 +17,9 @@ export const db = drizzleHttp(sql);
 const pool = new Pool({ connectionString: process.env.DATABASE_URL! });
 export const dbTx = drizzleWs(pool);
 
+// The handle dbTx.transaction passes to its callback, for services that join a caller's transaction
+export type DbTransaction = Parameters<Parameters<typeof dbTx.transaction>[0]>[0];
+
 // Note: To migrate to another DB provider (e.g., Supabase, Railway):
 // 1. Replace imports with: import { drizzle } from 'drizzle-orm/node-postgres';
 // 2. Replace with: import { Pool } from 'pg';
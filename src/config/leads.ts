@@ -0,0 +1,101 @@
+// Lead pipeline: where leads come from, the stages they move through and how they are routed.
+// Kept free of database access so the rules can be unit tested; side effects live in leadService.
+export const LEAD_SOURCES = ['property_enquiry', 'chat_escalation', 'contact_form'] as const;
+export type LeadSource = typeof LEAD_SOURCES[number];
+
+export const LEAD_STAGES = ['new', 'contacted', 'visit', 'negotiation', 'won', 'lost'] as const;
+export type LeadStage = typeof LEAD_STAGES[number];
+
+export const CLOSED_LEAD_STAGES: readonly LeadStage[] = ['won', 'lost'];
+export const OPEN_LEAD_STAGES = LEAD_STAGES.filter(stage => !CLOSED_LEAD_STAGES.includes(stage));
+
+export const LEAD_STAGE_LABELS: Record<LeadStage, string> = {
+  new: 'New',
+  contacted: 'Contacted',
+  visit: 'Site visit',
+  negotiation: 'Negotiation',
+  won: 'Won',
+  lost: 'Lost',
+};
+
+export const isClosedLeadStage = (stage: string) => (CLOSED_LEAD_STAGES as readonly string[]).includes(stage);
+
+export interface StageChangeCheck {
+  allowed: boolean;
+  message?: string;
+}
+
+// Open leads can move to any other stage, forwards or back. Losing a lead needs a reason; closed leads can
+// only be reopened to `contacted`, with a note saying why.
+export const checkStageChange = (from: string, to: LeadStage, note?: string): StageChangeCheck => {
+  if (from === to) return { allowed: false, message: `Lead is already ${LEAD_STAGE_LABELS[to].toLowerCase()}` };
+
+  if (isClosedLeadStage(from)) {
+    if (to !== 'contacted') return { allowed: false, message: 'Closed leads can only be reopened to contacted' };
+    if (!note?.trim()) return { allowed: false, message: 'A note is required to reopen a lead' };
+    return { allowed: true };
+  }
+
+  if (to === 'lost' && !note?.trim()) return { allowed: false, message: 'A reason is required to mark a lead lost' };
+  if (to === 'new') return { allowed: false, message: 'Leads cannot be moved back to new' };
+  return { allowed: true };
+};
+
+export interface AssigneeCandidate {
+  userId: number;
+  openLeads: number;
+}
+
+// The property's agents take leads before its employees; among them the one with the fewest open leads wins,
+// ties going to the earliest assignment (candidates are passed in assignment order)
+export const pickLeadAssignee = (agents: AssigneeCandidate[], employees: AssigneeCandidate[]): number | null => {
+  const pool = agents.length ? agents : employees;
+  if (pool.length === 0) return null;
+  return pool.reduce((best, candidate) => candidate.openLeads < best.openLeads ? candidate : best).userId;
+};
+
+export interface PipelineCount {
+  assigneeId: number | null;
+  stage: string;
+  count: number;
+}
+
+export type StageCounts = Record<LeadStage, number>;
+
+const emptyStageCounts = (): StageCounts =>
+  Object.fromEntries(LEAD_STAGES.map(stage => [stage, 0])) as StageCounts;
+
+// Won share of closed leads, null until something has closed
+export const conversionRate = (counts: StageCounts) => {
+  const closed = counts.won + counts.lost;
+  return closed ? Math.round(counts.won / closed * 1000) / 10 : null;
+};
+
+// Per-stage totals overall and per assignee, from (assignee, stage, count) rows. Unassigned leads are
+// grouped under assigneeId null.
+export const summarizePipeline = (rows: PipelineCount[]) => {
+  const totals = emptyStageCounts();
+  const byAssignee = new Map<number | null, StageCounts>();
+
+  for (const row of rows) {
+    if (!(LEAD_STAGES as readonly string[]).includes(row.stage)) continue;
+    const stage = row.stage as LeadStage;
+    totals[stage] += row.count;
+
+    const counts = byAssignee.get(row.assigneeId) ?? emptyStageCounts();
+    counts[stage] += row.count;
+    byAssignee.set(row.assigneeId, counts);
+  }
+
+  const summarize = (counts: StageCounts) => ({
+    stages: counts,
+    open: OPEN_LEAD_STAGES.reduce((sum, stage) => sum + counts[stage], 0),
+    total: LEAD_STAGES.reduce((sum, stage) => sum + counts[stage], 0),
+    conversionRate: conversionRate(counts),
+  });
+
+  return {
+    ...summarize(totals),
+    assignees: [...byAssignee].map(([assigneeId, counts]) => ({ assigneeId, ...summarize(counts) })),
+  };
+};
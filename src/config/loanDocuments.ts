@@ -0,0 +1,102 @@
+// Documents finance needs before a loan request can be processed.
+// The checklist for a request is the base list plus extras for its loan type and employment type.
+export const LOAN_DOCUMENT_TYPES = {
+  identity_proof: 'Identity proof (PAN / Aadhaar)',
+  address_proof: 'Address proof',
+  photograph: 'Passport-size photograph',
+  bank_statement: 'Bank statements (last 6 months)',
+  salary_slips: 'Salary slips (last 3 months)',
+  form_16: 'Form 16',
+  employment_letter: 'Employment / appointment letter',
+  itr: 'Income tax returns (last 2 years)',
+  business_proof: 'Business registration proof',
+  profit_loss_statement: 'Profit & loss statement and balance sheet',
+  gst_returns: 'GST returns',
+  sale_agreement: 'Sale agreement / allotment letter',
+  title_deed: 'Title deed and previous chain documents',
+  encumbrance_certificate: 'Encumbrance certificate',
+  approved_plan: 'Approved building plan',
+  construction_estimate: 'Construction cost estimate',
+  existing_loan_statement: 'Existing loan statement',
+  foreclosure_letter: 'Foreclosure letter from current lender',
+} as const;
+
+export type LoanDocumentType = keyof typeof LOAN_DOCUMENT_TYPES;
+
+export const LOAN_DOCUMENT_STATUSES = ['pending', 'verified', 'rejected'] as const;
+export type LoanDocumentStatus = typeof LOAN_DOCUMENT_STATUSES[number];
+
+const BASE_DOCUMENTS: LoanDocumentType[] = ['identity_proof', 'address_proof', 'photograph', 'bank_statement'];
+
+// Keyed by loan_requests.loan_type
+const LOAN_TYPE_DOCUMENTS: Record<string, LoanDocumentType[]> = {
+  'Home Loan': ['sale_agreement', 'title_deed', 'encumbrance_certificate'],
+  'Plot Loan': ['sale_agreement', 'title_deed', 'encumbrance_certificate'],
+  'Construction Loan': ['title_deed', 'approved_plan', 'construction_estimate'],
+  'Home Improvement Loan': ['title_deed', 'construction_estimate'],
+  'Balance Transfer': ['title_deed', 'existing_loan_statement', 'foreclosure_letter'],
+  'Top-Up Loan': ['title_deed', 'existing_loan_statement'],
+};
+
+// Keyed by loan_requests.employment_type
+const EMPLOYMENT_TYPE_DOCUMENTS: Record<string, LoanDocumentType[]> = {
+  'Salaried': ['salary_slips', 'form_16', 'employment_letter'],
+  'Self-Employed': ['itr', 'profit_loss_statement'],
+  'Business Owner': ['itr', 'business_proof', 'profit_loss_statement', 'gst_returns'],
+  'Freelancer': ['itr'],
+};
+
+export const isLoanDocumentType = (value: string): value is LoanDocumentType =>
+  Object.prototype.hasOwnProperty.call(LOAN_DOCUMENT_TYPES, value);
+
+export const getDocumentChecklist = (loanType: string, employmentType: string): LoanDocumentType[] =>
+  Array.from(new Set([
+    ...BASE_DOCUMENTS,
+    ...(EMPLOYMENT_TYPE_DOCUMENTS[employmentType] || []),
+    ...(LOAN_TYPE_DOCUMENTS[loanType] || []),
+  ]));
+
+export interface ChecklistDocument {
+  id: string;
+  documentType: string;
+  status: string;
+  createdAt: Date;
+}
+
+// Merges the required list with what has been uploaded. Each item reflects the latest upload of that type;
+// extra uploads of types outside the checklist are listed as optional items.
+export const buildChecklist = <T extends ChecklistDocument>(required: LoanDocumentType[], documents: T[]) => {
+  const latestByType = new Map<string, T>();
+  const byType = new Map<string, T[]>();
+
+  for (const document of [...documents].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())) {
+    latestByType.set(document.documentType, document);
+    byType.set(document.documentType, [...(byType.get(document.documentType) || []), document]);
+  }
+
+  const types = [...required, ...Array.from(byType.keys()).filter(type => !required.includes(type as LoanDocumentType))];
+
+  const items = types.map(type => ({
+    documentType: type,
+    label: LOAN_DOCUMENT_TYPES[type as LoanDocumentType] || type,
+    required: required.includes(type as LoanDocumentType),
+    status: (latestByType.get(type)?.status || 'missing') as LoanDocumentStatus | 'missing',
+    documents: byType.get(type) || [],
+  }));
+
+  const requiredItems = items.filter(item => item.required);
+  const verified = requiredItems.filter(item => item.status === 'verified').length;
+  const uploaded = requiredItems.filter(item => item.status !== 'missing').length;
+
+  return {
+    items,
+    completeness: {
+      required: requiredItems.length,
+      uploaded,
+      verified,
+      rejected: requiredItems.filter(item => item.status === 'rejected').length,
+      percentVerified: requiredItems.length ? Math.round((verified / requiredItems.length) * 100) : 100,
+      complete: verified === requiredItems.length,
+    },
+  };
+};
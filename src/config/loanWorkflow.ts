@@ -0,0 +1,136 @@
+import { BusinessCalendar, addBusinessHours } from '../utils/slaCalendar';
+
+// Loan request workflow: the states a request moves through, who may move it, and the guards on each step.
+// Kept free of database access so the rules can be unit tested; side effects live in loanWorkflowService.
+export const LOAN_STATUSES = ['received', 'under_review', 'contacted', 'closed', 'rejected', 'withdrawn'] as const;
+export type LoanStatus = typeof LOAN_STATUSES[number];
+
+export const TERMINAL_LOAN_STATUSES: readonly LoanStatus[] = ['closed', 'rejected', 'withdrawn'];
+
+// finance = the finance queue (loan.update_status), admin = the admin console (loan.override_status),
+// customer = the person who submitted the request
+export type LoanActor = 'finance' | 'admin' | 'customer';
+
+export interface LoanTransition {
+  from: LoanStatus;
+  to: LoanStatus;
+  actors: LoanActor[];
+  requiresComment?: boolean;
+  requiresAssignee?: boolean;
+}
+
+export const LOAN_TRANSITIONS: LoanTransition[] = [
+  { from: 'received', to: 'under_review', actors: ['finance', 'admin'], requiresAssignee: true },
+  { from: 'received', to: 'rejected', actors: ['finance', 'admin'], requiresComment: true },
+  { from: 'under_review', to: 'contacted', actors: ['finance', 'admin'], requiresAssignee: true },
+  { from: 'under_review', to: 'rejected', actors: ['finance', 'admin'], requiresComment: true },
+  { from: 'contacted', to: 'closed', actors: ['finance', 'admin'], requiresComment: true, requiresAssignee: true },
+  { from: 'contacted', to: 'rejected', actors: ['finance', 'admin'], requiresComment: true },
+  // Reopening a finished request is an admin-only override
+  { from: 'closed', to: 'under_review', actors: ['admin'], requiresComment: true, requiresAssignee: true },
+  { from: 'rejected', to: 'under_review', actors: ['admin'], requiresComment: true, requiresAssignee: true },
+  // Customers can pull out of a request any time before it is finished
+  { from: 'received', to: 'withdrawn', actors: ['customer'] },
+  { from: 'under_review', to: 'withdrawn', actors: ['customer'] },
+  { from: 'contacted', to: 'withdrawn', actors: ['customer'] },
+];
+
+// Wording shown to customers in the app and in push notifications
+export const LOAN_STATUS_LABELS: Record<LoanStatus, string> = {
+  received: 'Received',
+  under_review: 'Under review',
+  contacted: 'Contacted',
+  closed: 'Closed',
+  rejected: 'Not approved',
+  withdrawn: 'Withdrawn',
+};
+
+// Column on loan_requests stamped when a request enters each stage (received uses created_at)
+export const STAGE_TIMESTAMP_FIELDS = {
+  under_review: 'underReviewAt',
+  contacted: 'contactedAt',
+  closed: 'closedAt',
+  rejected: 'rejectedAt',
+  withdrawn: 'withdrawnAt',
+} as const;
+
+export type StageTimestampField = typeof STAGE_TIMESTAMP_FIELDS[keyof typeof STAGE_TIMESTAMP_FIELDS];
+
+export interface TransitionContext {
+  actor: LoanActor;
+  actorId: number;
+  assigneeId: number | null;
+  comment?: string;
+}
+
+export type TransitionRejection =
+  | 'invalid_transition'
+  | 'actor_not_allowed'
+  | 'comment_required'
+  | 'assignee_required'
+  | 'not_assignee';
+
+export interface TransitionCheck {
+  allowed: boolean;
+  reason?: TransitionRejection;
+  message?: string;
+  allowedTransitions: LoanStatus[];
+}
+
+export const isTerminalStatus = (status: string) =>
+  (TERMINAL_LOAN_STATUSES as readonly string[]).includes(status);
+
+export const getAvailableTransitions = (from: string, actor: LoanActor): LoanStatus[] =>
+  LOAN_TRANSITIONS
+    .filter(t => t.from === from && t.actors.includes(actor))
+    .map(t => t.to);
+
+export const checkTransition = (from: string, to: LoanStatus, ctx: TransitionContext): TransitionCheck => {
+  const allowedTransitions = getAvailableTransitions(from, ctx.actor);
+  const transition = LOAN_TRANSITIONS.find(t => t.from === from && t.to === to);
+
+  if (!transition) {
+    return { allowed: false, reason: 'invalid_transition', message: `Cannot transition from ${from} to ${to}`, allowedTransitions };
+  }
+
+  if (!transition.actors.includes(ctx.actor)) {
+    return { allowed: false, reason: 'actor_not_allowed', message: `Only ${transition.actors.join(' or ')} can move a request from ${from} to ${to}`, allowedTransitions };
+  }
+
+  if (transition.requiresComment && !ctx.comment?.trim()) {
+    return { allowed: false, reason: 'comment_required', message: `A comment is required to move a request to ${to}`, allowedTransitions };
+  }
+
+  if (transition.requiresAssignee && !ctx.assigneeId) {
+    return { allowed: false, reason: 'assignee_required', message: `Assign the request before moving it to ${to}`, allowedTransitions };
+  }
+
+  // Finance staff can only work requests that are unassigned or assigned to themselves
+  if (ctx.actor === 'finance' && ctx.assigneeId && ctx.assigneeId !== ctx.actorId) {
+    return { allowed: false, reason: 'not_assignee', message: 'This request is assigned to another user', allowedTransitions };
+  }
+
+  return { allowed: true, allowedTransitions };
+};
+
+// Stage timestamp changes for a transition: stamp the stage being entered, clear a terminal stage being left
+export const getStageTimestampUpdates = (from: string, to: LoanStatus, now: Date) => {
+  const updates: Partial<Record<StageTimestampField, Date | null>> = {};
+
+  if (isTerminalStatus(from) && from !== to) {
+    updates[STAGE_TIMESTAMP_FIELDS[from as 'closed' | 'rejected' | 'withdrawn']] = null;
+  }
+
+  if (to !== 'received') {
+    updates[STAGE_TIMESTAMP_FIELDS[to]] = now;
+  }
+
+  return updates;
+};
+
+// Open requests get a fresh SLA window on every transition, counted in working hours when the policy has a
+// calendar; finished ones no longer have a due date
+export const getSlaDueAt = (to: LoanStatus, now: Date, slaHours: number, calendar?: BusinessCalendar | null) => {
+  if (isTerminalStatus(to)) return null;
+  return calendar ? addBusinessHours(now, slaHours, calendar) : new Date(now.getTime() + slaHours * 60 * 60 * 1000);
+};
@@ -0,0 +1,68 @@
+// Catalog of named permissions. Roles (stored in access_roles) grant a subset of these keys.
+export const PERMISSIONS = {
+  'admin.access': 'Use the admin console profile and session endpoints',
+  'dashboard.view': 'View admin dashboard statistics',
+  'access.manage': 'Manage access roles and per-user role assignments',
+  'session.revoke': 'List and revoke other users\' login sessions',
+
+  'customer.view': 'View customers',
+  'customer.delete': 'Delete customers',
+  'customer.view_assigned': 'View customers linked to own agents',
+
+  'agent.view': 'View agents',
+  'agent.approve': 'Approve or reject agent sign-ups',
+  'agent.delete': 'Delete agents',
+  'agent.manage_assigned': 'View own agents and assign properties to them',
+
+  'employee.view': 'View employees',
+  'employee.manage': 'Create and update employees',
+  'employee.delete': 'Delete employees',
+  'employee_portal.access': 'Use the employee dashboard, profile and activity feed',
+
+  'property.view': 'View all properties in the admin console',
+  'property.manage': 'Create, edit and delete properties directly',
+  'property.propose': 'Propose property changes for review',
+  'property.approve': 'Approve or reject proposed property changes',
+
+  'banner.view': 'View all banners in the admin console',
+  'banner.publish': 'Create, edit, reorder and delete live banners',
+  'banner.propose': 'Propose banner changes for review',
+
+  'pending_change.view': 'View the pending changes moderation queue',
+  'pending_change.review': 'Approve, reject or request revisions on pending changes',
+
+  'loan.create': 'Submit loan requests',
+  'loan.view_all': 'View all loan requests and loan statistics',
+  'loan.view_queue': 'View the finance loan request queue',
+  'loan.take': 'Self-assign loan requests from the finance queue',
+  'loan.update_status': 'Move own loan requests through the finance workflow',
+  'loan.override_status': 'Change a loan request status from the admin console',
+  'loan.comment': 'Comment on loan requests',
+  'loan.verify_documents': 'Verify or reject documents uploaded for loan requests',
+  'loan.submit_to_lender': 'Forward loan requests to partner lenders and record their decisions',
+  'loan.reassign': 'Reassign loan requests to finance employees',
+  'loan.escalate': 'Escalate loan requests',
+  'loan.export': 'Export loan requests',
+  'loan.delete': 'Delete loan requests',
+  'loan.merge': 'Merge duplicate loan requests or clear wrong duplicate flags',
+  'loan.configure_sla': 'Configure loan request SLAs',
+  'loan.configure_rates': 'Configure interest rates and eligibility limits for loan estimates',
+  'loan.configure_routing': 'Configure auto-assignment rules and finance employee availability',
+
+  'lender.manage': 'Manage the partner lender catalog and view lender reports',
+
+  'favourite.manage': 'Shortlist properties and organise them into collections',
+
+  'site_visit.request': 'Request, cancel and review own property site visits',
+  'site_visit.manage_assigned': 'Confirm, reschedule and close site visits on assigned properties',
+
+  'lead.enquire': 'Enquire about properties, opening a lead for their agent',
+  'lead.manage_assigned': 'Work leads assigned to them or on their assigned properties',
+  'lead.view_all': 'View every lead and the pipeline across all agents',
+  'lead.assign': 'Reassign leads to agents and employees',
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const isPermission = (value: string): value is Permission =>
+  Object.prototype.hasOwnProperty.call(PERMISSIONS, value);
@@ -0,0 +1,93 @@
+import { z } from 'zod';
+
+// Typed property details. Every property can have a kind, and the kind decides which attributes are valid.
+// Projects with several configurations (1/2/3 BHK, plot sizes) list them as property_units.
+export const PROPERTY_KINDS = ['plot', 'apartment', 'villa', 'commercial'] as const;
+export type PropertyKind = typeof PROPERTY_KINDS[number];
+
+export const FACINGS = ['north', 'south', 'east', 'west', 'north_east', 'north_west', 'south_east', 'south_west'] as const;
+export const FURNISHINGS = ['unfurnished', 'semi_furnished', 'furnished'] as const;
+export const POSSESSION_STATUSES = ['ready_to_move', 'under_construction'] as const;
+export const COMMERCIAL_TYPES = ['office', 'shop', 'showroom', 'warehouse', 'coworking'] as const;
+export const UNIT_AVAILABILITY = ['available', 'on_hold', 'sold_out'] as const;
+
+const area = z.coerce.number().positive().max(10000000);
+const count = (max: number) => z.coerce.number().int().min(0).max(max);
+// Basements are negative floors, ground is 0
+const floor = z.coerce.number().int().min(-5).max(200);
+
+const common = {
+  reraNumber: z.string().trim().min(1).max(50).optional(),
+  possessionStatus: z.enum(POSSESSION_STATUSES).optional(),
+  possessionDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'possessionDate must be YYYY-MM-DD').optional(),
+  facing: z.enum(FACINGS).optional(),
+};
+
+const floorWithinBuilding = (value: { floor?: number; totalFloors?: number }) =>
+  value.floor === undefined || value.totalFloors === undefined || value.floor <= value.totalFloors;
+const floorMessage = { message: 'floor cannot be above totalFloors', path: ['floor'] };
+
+export const PROPERTY_ATTRIBUTE_SCHEMAS = {
+  plot: z.strictObject({
+    ...common,
+    plotAreaSqft: area.optional(),
+    dimensions: z.string().trim().max(50).optional(),
+    cornerPlot: z.boolean().optional(),
+    approvalAuthority: z.string().trim().max(100).optional(),
+  }),
+  apartment: z.strictObject({
+    ...common,
+    bhk: count(10).optional(),
+    carpetAreaSqft: area.optional(),
+    builtUpAreaSqft: area.optional(),
+    floor: floor.optional(),
+    totalFloors: count(200).optional(),
+    bathrooms: count(20).optional(),
+    balconies: count(20).optional(),
+    parkingSpots: count(20).optional(),
+    furnishing: z.enum(FURNISHINGS).optional(),
+  }).refine(floorWithinBuilding, floorMessage),
+  villa: z.strictObject({
+    ...common,
+    bhk: count(20).optional(),
+    plotAreaSqft: area.optional(),
+    builtUpAreaSqft: area.optional(),
+    floors: count(10).optional(),
+    bathrooms: count(20).optional(),
+    parkingSpots: count(20).optional(),
+    furnishing: z.enum(FURNISHINGS).optional(),
+  }),
+  commercial: z.strictObject({
+    ...common,
+    commercialType: z.enum(COMMERCIAL_TYPES).optional(),
+    carpetAreaSqft: area.optional(),
+    builtUpAreaSqft: area.optional(),
+    floor: floor.optional(),
+    totalFloors: count(200).optional(),
+    washrooms: count(50).optional(),
+    parkingSpots: count(500).optional(),
+    furnishing: z.enum(FURNISHINGS).optional(),
+  }).refine(floorWithinBuilding, floorMessage),
+} satisfies Record<PropertyKind, z.ZodType>;
+
+export const propertyUnitSchema = z.object({
+  // Set for units that already exist; units without one are created
+  id: z.uuid().optional(),
+  unitType: z.string().trim().min(1).max(50),
+  bhk: count(20).optional().nullable(),
+  sizeSqft: area.optional().nullable(),
+  price: z.coerce.number().min(0).optional().nullable(),
+  totalUnits: count(100000).optional().nullable(),
+  availableUnits: count(100000).optional().nullable(),
+  availability: z.enum(UNIT_AVAILABILITY).default('available'),
+}).refine(
+  unit => unit.availableUnits == null || unit.totalUnits == null || unit.availableUnits <= unit.totalUnits,
+  { message: 'availableUnits cannot exceed totalUnits', path: ['availableUnits'] }
+);
+
+export type PropertyUnitInput = z.infer<typeof propertyUnitSchema>;
+
+export const propertyUnitsSchema = z.array(propertyUnitSchema).max(50);
+
+export const isPropertyKind = (value: unknown): value is PropertyKind =>
+  typeof value === 'string' && (PROPERTY_KINDS as readonly string[]).includes(value);
@@ -0,0 +1,118 @@
+// Site visit workflow: a customer requests a slot on a property, staff on the property (its assigned agent or
+// employee) confirm, reschedule or cancel it, then record how the visit went. Kept free of database access so
+// the rules can be unit tested; side effects live in siteVisitService.
+export const SITE_VISIT_STATUSES = ['requested', 'confirmed', 'checked_in', 'completed', 'no_show', 'cancelled'] as const;
+export type SiteVisitStatus = typeof SITE_VISIT_STATUSES[number];
+
+// Visits in these states hold their slot
+export const ACTIVE_SITE_VISIT_STATUSES: SiteVisitStatus[] = ['requested', 'confirmed', 'checked_in'];
+
+export const SITE_VISIT_ACTIONS = ['confirm', 'reschedule', 'cancel', 'check_in', 'complete', 'no_show'] as const;
+export type SiteVisitAction = typeof SITE_VISIT_ACTIONS[number];
+
+// staff = the property's assigned agent or employee, customer = the person who requested the visit
+export type SiteVisitActor = 'staff' | 'customer';
+
+interface SiteVisitTransition {
+  from: SiteVisitStatus[];
+  to: SiteVisitStatus;
+  actors: SiteVisitActor[];
+  // Column on site_visits stamped when the action is taken
+  stamp?: 'confirmedAt' | 'cancelledAt' | 'checkedInAt' | 'completedAt';
+}
+
+export const SITE_VISIT_TRANSITIONS: Record<SiteVisitAction, SiteVisitTransition> = {
+  confirm: { from: ['requested'], to: 'confirmed', actors: ['staff'], stamp: 'confirmedAt' },
+  // Staff move the visit to a slot they can make, which confirms it
+  reschedule: { from: ['requested', 'confirmed'], to: 'confirmed', actors: ['staff'], stamp: 'confirmedAt' },
+  cancel: { from: ['requested', 'confirmed'], to: 'cancelled', actors: ['staff', 'customer'], stamp: 'cancelledAt' },
+  check_in: { from: ['confirmed'], to: 'checked_in', actors: ['staff'], stamp: 'checkedInAt' },
+  complete: { from: ['checked_in'], to: 'completed', actors: ['staff'], stamp: 'completedAt' },
+  no_show: { from: ['confirmed'], to: 'no_show', actors: ['staff'], stamp: 'completedAt' },
+};
+
+export const SITE_VISIT_STATUS_LABELS: Record<SiteVisitStatus, string> = {
+  requested: 'Requested',
+  confirmed: 'Confirmed',
+  checked_in: 'Checked in',
+  completed: 'Completed',
+  no_show: 'Missed',
+  cancelled: 'Cancelled',
+};
+
+export const SITE_VISIT_DURATIONS = [30, 60, 90] as const;
+export const DEFAULT_SITE_VISIT_MINUTES = 60;
+
+// Slots are booked in India time, on a 15 minute grid, between 09:00 and 19:00
+const IST_OFFSET_MINUTES = 330;
+const SLOT_STEP_MINUTES = 15;
+const VISITING_HOURS = { open: 9 * 60, close: 19 * 60 };
+const MIN_LEAD_MINUTES = 2 * 60;
+const MAX_DAYS_AHEAD = 60;
+// Staff can check a customer in from this long before the slot
+export const CHECK_IN_EARLY_MINUTES = 60;
+
+const MINUTE_MS = 60 * 1000;
+
+export const isActiveVisitStatus = (status: string) =>
+  (ACTIVE_SITE_VISIT_STATUSES as readonly string[]).includes(status);
+
+// Why a slot can't be booked, or null when it can
+export const validateSlot = (start: Date, durationMinutes: number, now: Date = new Date()): string | null => {
+  if (isNaN(start.getTime())) return 'Invalid visit time';
+  if (!(SITE_VISIT_DURATIONS as readonly number[]).includes(durationMinutes)) {
+    return `Visits last ${SITE_VISIT_DURATIONS.join(', ')} minutes`;
+  }
+  if (start.getTime() < now.getTime() + MIN_LEAD_MINUTES * MINUTE_MS) {
+    return `Visits must be booked at least ${MIN_LEAD_MINUTES / 60} hours ahead`;
+  }
+  if (start.getTime() > now.getTime() + MAX_DAYS_AHEAD * 24 * 60 * MINUTE_MS) {
+    return `Visits can be booked up to ${MAX_DAYS_AHEAD} days ahead`;
+  }
+
+  const minuteOfDay = Math.floor((start.getTime() / MINUTE_MS + IST_OFFSET_MINUTES) % (24 * 60));
+  if (start.getTime() % (SLOT_STEP_MINUTES * MINUTE_MS) !== 0) {
+    return 'Visits start on the quarter hour';
+  }
+  if (minuteOfDay < VISITING_HOURS.open || minuteOfDay + durationMinutes > VISITING_HOURS.close) {
+    return 'Visits run between 9:00 and 19:00';
+  }
+  return null;
+};
+
+export const slotEnd = (start: Date, durationMinutes: number) => new Date(start.getTime() + durationMinutes * MINUTE_MS);
+
+export const slotsOverlap = (a: { start: Date; durationMinutes: number }, b: { start: Date; durationMinutes: number }) =>
+  a.start < slotEnd(b.start, b.durationMinutes) && b.start < slotEnd(a.start, a.durationMinutes);
+
+export interface SiteVisitActionCheck {
+  allowed: boolean;
+  message?: string;
+}
+
+// Whether `actor` may take `action` on a visit in `status` scheduled at `scheduledAt`
+export const checkVisitAction = (
+  action: SiteVisitAction,
+  visit: { status: string; scheduledAt: Date },
+  actor: SiteVisitActor,
+  now: Date = new Date()
+): SiteVisitActionCheck => {
+  const transition = SITE_VISIT_TRANSITIONS[action];
+
+  if (!transition.actors.includes(actor)) {
+    return { allowed: false, message: `Only ${transition.actors.join(' or ')} can ${action.replace('_', '-')} a visit` };
+  }
+  if (!(transition.from as readonly string[]).includes(visit.status)) {
+    return { allowed: false, message: `Cannot ${action.replace('_', '-')} a visit that is ${visit.status.replace('_', ' ')}` };
+  }
+  if (action === 'check_in' && now.getTime() < visit.scheduledAt.getTime() - CHECK_IN_EARLY_MINUTES * MINUTE_MS) {
+    return { allowed: false, message: `Check-in opens ${CHECK_IN_EARLY_MINUTES} minutes before the visit` };
+  }
+  if (action === 'no_show' && now < visit.scheduledAt) {
+    return { allowed: false, message: 'A visit can only be marked missed after its start time' };
+  }
+  return { allowed: true };
+};
+
+export const getAvailableVisitActions = (visit: { status: string; scheduledAt: Date }, actor: SiteVisitActor, now: Date = new Date()) =>
+  SITE_VISIT_ACTIONS.filter(action => checkVisitAction(action, visit, actor, now).allowed);
@@ -0,0 +1,254 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { db } from '../config/database';
+import { users } from '../models/user';
+import { accessRoles, accessRolePermissions, userAccessRoles } from '../models/accessRole';
+import { eq, inArray, sql } from 'drizzle-orm';
+import { auditService } from '../services/auditService';
+import { permissionService, getImplicitRoleKeys } from '../services/permissionService';
+import { PERMISSIONS, isPermission } from '../config/permissions';
+import { UserRole } from '../types';
+
+interface AuthRequest extends Request {
+  user?: {
+    userId: number;
+    role?: UserRole;
+  };
+}
+
+const permissionListSchema = z.array(z.string()).refine(
+  (values) => values.every(isPermission),
+  { message: 'Unknown permission' }
+);
+
+const createRoleSchema = z.object({
+  key: z.string().regex(/^[a-z][a-z0-9_]{1,49}$/, 'Key must be lowercase letters, digits or underscores'),
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).optional(),
+  permissions: permissionListSchema,
+});
+
+const updateRoleSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().max(500).optional(),
+  permissions: permissionListSchema.optional(),
+});
+
+const assignRolesSchema = z.object({
+  roleIds: z.array(z.number()),
+});
+
+// Permissions the admin role must keep so the console can never lock itself out
+const ADMIN_REQUIRED_PERMISSIONS = ['admin.access', 'access.manage'];
+
+export const getPermissionCatalog = async (req: AuthRequest, res: Response) => {
+  res.json({
+    data: Object.entries(PERMISSIONS).map(([key, description]) => ({ key, description })),
+  });
+};
+
+export const getAccessRoles = async (req: AuthRequest, res: Response) => {
+  try {
+    const roles = await db
+      .select({
+        id: accessRoles.id,
+        key: accessRoles.key,
+        name: accessRoles.name,
+        description: accessRoles.description,
+        isSystem: accessRoles.isSystem,
+        updatedAt: accessRoles.updatedAt,
+        assignedUsers: sql<number>`(SELECT COUNT(*) FROM user_access_roles WHERE role_id = ${accessRoles.id})`,
+      })
+      .from(accessRoles)
+      .orderBy(accessRoles.id);
+
+    const permissions = await db.select().from(accessRolePermissions);
+
+    res.json({
+      data: roles.map(role => ({
+        ...role,
+        assignedUsers: Number(role.assignedUsers),
+        permissions: permissions.filter(p => p.roleId === role.id).map(p => p.permission),
+      })),
+    });
+  } catch (error) {
+    console.error('Get access roles error:', error);
+    res.status(500).json({ message: 'Failed to fetch roles' });
+  }
+};
+
+export const createAccessRole = async (req: AuthRequest, res: Response) => {
+  try {
+    const adminId = req.user!.userId;
+    const { key, name, description, permissions } = createRoleSchema.parse(req.body);
+
+    const [existing] = await db.select({ id: accessRoles.id }).from(accessRoles).where(eq(accessRoles.key, key)).limit(1);
+    if (existing) {
+      return res.status(409).json({ message: 'A role with this key already exists' });
+    }
+
+    const [role] = await db.insert(accessRoles).values({ key, name, description: description || null }).returning();
+
+    if (permissions.length > 0) {
+      await db.insert(accessRolePermissions).values(permissions.map(permission => ({ roleId: role.id, permission })));
+    }
+
+    await auditService.log(adminId, 'create_access_role', 'access_role', role.id, { key, permissions });
+
+    res.status(201).json({ ...role, permissions });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: error.issues[0].message });
+    }
+    console.error('Create access role error:', error);
+    res.status(500).json({ message: 'Failed to create role' });
+  }
+};
+
+export const updateAccessRole = async (req: AuthRequest, res: Response) => {
+  try {
+    const roleId = parseInt(req.params.id);
+    const adminId = req.user!.userId;
+    const { name, description, permissions } = updateRoleSchema.parse(req.body);
+
+    if (isNaN(roleId)) {
+      return res.status(400).json({ message: 'Invalid role ID' });
+    }
+
+    const [role] = await db.select().from(accessRoles).where(eq(accessRoles.id, roleId)).limit(1);
+    if (!role) {
+      return res.status(404).json({ message: 'Role not found' });
+    }
+
+    if (role.key === 'admin' && permissions && !ADMIN_REQUIRED_PERMISSIONS.every(p => permissions.includes(p))) {
+      return res.status(400).json({ message: `The admin role must keep ${ADMIN_REQUIRED_PERMISSIONS.join(' and ')}` });
+    }
+
+    const updateData: any = { updatedAt: new Date() };
+    if (name) updateData.name = name;
+    if (description !== undefined) updateData.description = description;
+
+    const [updated] = await db.update(accessRoles).set(updateData).where(eq(accessRoles.id, roleId)).returning();
+
+    if (permissions) {
+      await db.delete(accessRolePermissions).where(eq(accessRolePermissions.roleId, roleId));
+      if (permissions.length > 0) {
+        await db.insert(accessRolePermissions).values(permissions.map(permission => ({ roleId, permission })));
+      }
+      permissionService.invalidateAll();
+    }
+
+    await auditService.log(adminId, 'update_access_role', 'access_role', roleId, { key: role.key, name, description, permissions });
+
+    const current = await db.select().from(accessRolePermissions).where(eq(accessRolePermissions.roleId, roleId));
+    res.json({ ...updated, permissions: current.map(p => p.permission) });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: error.issues[0].message });
+    }
+    console.error('Update access role error:', error);
+    res.status(500).json({ message: 'Failed to update role' });
+  }
+};
+
+export const deleteAccessRole = async (req: AuthRequest, res: Response) => {
+  try {
+    const roleId = parseInt(req.params.id);
+    const adminId = req.user!.userId;
+
+    if (isNaN(roleId)) {
+      return res.status(400).json({ message: 'Invalid role ID' });
+    }
+
+    const [role] = await db.select().from(accessRoles).where(eq(accessRoles.id, roleId)).limit(1);
+    if (!role) {
+      return res.status(404).json({ message: 'Role not found' });
+    }
+
+    if (role.isSystem) {
+      return res.status(400).json({ message: 'System roles cannot be deleted' });
+    }
+
+    await db.delete(accessRoles).where(eq(accessRoles.id, roleId));
+    permissionService.invalidateAll();
+
+    await auditService.log(adminId, 'delete_access_role', 'access_role', roleId, { key: role.key });
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete access role error:', error);
+    res.status(500).json({ message: 'Failed to delete role' });
+  }
+};
+
+export const getUserAccess = async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = parseInt(req.params.id);
+    if (isNaN(userId)) {
+      return res.status(400).json({ message: 'Invalid user ID' });
+    }
+
+    const [user] = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    const assignedRoles = await db
+      .select({ id: accessRoles.id, key: accessRoles.key, name: accessRoles.name, assignedAt: userAccessRoles.createdAt })
+      .from(userAccessRoles)
+      .innerJoin(accessRoles, eq(userAccessRoles.roleId, accessRoles.id))
+      .where(eq(userAccessRoles.userId, userId));
+
+    const permissions = await permissionService.getPermissions({ userId, role: user.role, department: user.department });
+
+    res.json({
+      implicitRoles: getImplicitRoleKeys(user),
+      assignedRoles,
+      permissions,
+    });
+  } catch (error) {
+    console.error('Get user access error:', error);
+    res.status(500).json({ message: 'Failed to fetch user access' });
+  }
+};
+
+export const updateUserAccessRoles = async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = parseInt(req.params.id);
+    const adminId = req.user!.userId;
+    const { roleIds } = assignRolesSchema.parse(req.body);
+
+    if (isNaN(userId)) {
+      return res.status(400).json({ message: 'Invalid user ID' });
+    }
+
+    const [user] = await db.select({ id: users.id, name: users.name }).from(users).where(eq(users.id, userId)).limit(1);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    const uniqueRoleIds = Array.from(new Set(roleIds));
+    if (uniqueRoleIds.length > 0) {
+      const roles = await db.select({ id: accessRoles.id }).from(accessRoles).where(inArray(accessRoles.id, uniqueRoleIds));
+      if (roles.length !== uniqueRoleIds.length) {
+        return res.status(400).json({ message: 'Unknown role' });
+      }
+    }
+
+    await db.delete(userAccessRoles).where(eq(userAccessRoles.userId, userId));
+    if (uniqueRoleIds.length > 0) {
+      await db.insert(userAccessRoles).values(uniqueRoleIds.map(roleId => ({ userId, roleId, assignedById: adminId })));
+    }
+    permissionService.invalidateUser(userId);
+
+    await auditService.log(adminId, 'update_user_access_roles', 'user', userId, { userName: user.name, roleIds: uniqueRoleIds });
+
+    res.json({ success: true, roleIds: uniqueRoleIds });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: error.issues[0].message });
+    }
+    console.error('Update user access roles error:', error);
+    res.status(500).json({ message: 'Failed to update user roles' });
+  }
+};
@@ -3,13 +3,16 @@ import { z } from 'zod';
 import { db } from '../config/database';
 import { users } from '../models/user';
 import { propertyAgentAssignments } from '../models/propertyAssignment';
-import { eq, and, or, ilike, desc, lt } from 'drizzle-orm';
+import { eq, and, or, ilike, desc } from 'drizzle-orm';
 import { auditService } from '../services/auditService';
+import { sessionService } from '../services/sessionService';
+import { UserRole } from '../types';
+import { keyset, toPage, KeysetSort } from '../utils/pagination';
 
 interface AuthRequest extends Request {
   user?: {
     userId: number;
-    role?: string;
+    role?: UserRole;
   };
 }
 
@@ -21,6 +24,8 @@ const listQuerySchema = z.object({
   city: z.string().optional(),
 });
 
+const agentSort: KeysetSort = { name: 'id', key: users.id, keyType: 'number', id: users.id, direction: 'desc' };
+
 const approveSchema = z.object({
   assign_to_employee_id: z.number().optional(),
 }).optional();
@@ -39,7 +44,7 @@ export const getAgents = async (req: AuthRequest, res: Response) => {
     const { status, limit, cursor, q, city } = listQuerySchema.parse(req.query);
     
     let whereConditions = [
-      ilike(users.role, 'agent'),
+      eq(users.role, 'agent'),
       eq(users.deleted, false),
       eq(users.approved, status === 'approved')
     ];
@@ -59,9 +64,11 @@ export const getAgents = async (req: AuthRequest, res: Response) => {
       whereConditions.push(ilike(users.city, `%${city}%`));
     }
 
-    if (cursor) {
-      whereConditions.push(lt(users.id, parseInt(cursor)));
+    const page = keyset(agentSort, cursor);
+    if (page.error) {
+      return res.status(400).json({ message: page.error });
     }
+    if (page.where) whereConditions.push(page.where);
 
     const results = await db.select({
       id: users.id,
@@ -73,15 +80,14 @@ export const getAgents = async (req: AuthRequest, res: Response) => {
       approved: users.approved,
       createdAt: users.createdAt,
       lastLogin: users.lastLogin,
+      cursorKey: page.cursorKey,
     })
     .from(users)
     .where(and(...whereConditions))
-    .orderBy(desc(users.id))
+    .orderBy(...page.orderBy)
     .limit(limit + 1);
 
-    const hasMore = results.length > limit;
-    const data = hasMore ? results.slice(0, limit) : results;
-    const nextCursor = hasMore ? results[limit - 1].id.toString() : null;
+    const { data, nextCursor, hasMore } = toPage(results, limit, agentSort);
 
     res.json({ data, nextCursor, hasMore });
   } catch (error: any) {
@@ -106,7 +112,7 @@ export const getAgentById = async (req: AuthRequest, res: Response) => {
       .from(users)
       .where(and(
         eq(users.id, agentId),
-        ilike(users.role, 'agent'),
+        eq(users.role, 'agent'),
         eq(users.deleted, false)
       ))
       .limit(1);
@@ -125,7 +131,7 @@ export const getAgentById = async (req: AuthRequest, res: Response) => {
     .from(users)
     .where(and(
       eq(users.referredByAgentId, agentId),
-      ilike(users.role, 'customer'),
+      eq(users.role, 'customer'),
       eq(users.deleted, false)
     ));
 
@@ -155,7 +161,7 @@ export const approveAgent = async (req: AuthRequest, res: Response) => {
       .from(users)
       .where(and(
         eq(users.id, agentId),
-        ilike(users.role, 'agent'),
+        eq(users.role, 'agent'),
         eq(users.deleted, false)
       ))
       .limit(1);
@@ -225,7 +231,7 @@ export const rejectAgent = async (req: AuthRequest, res: Response) => {
       .from(users)
       .where(and(
         eq(users.id, agentId),
-        ilike(users.role, 'agent'),
+        eq(users.role, 'agent'),
         eq(users.deleted, false)
       ))
       .limit(1);
@@ -247,6 +253,7 @@ export const rejectAgent = async (req: AuthRequest, res: Response) => {
           assignedEmployeeId: null,
         })
         .where(eq(users.id, agentId));
+      await sessionService.revokeAll(agentId, 'account_deleted', adminId);
 
       await auditService.log(
         adminId,
@@ -299,7 +306,7 @@ export const deleteAgent = async (req: AuthRequest, res: Response) => {
       .from(users)
       .where(and(
         eq(users.id, agentId),
-        ilike(users.role, 'agent'),
+        eq(users.role, 'agent'),
         eq(users.deleted, false)
       ))
       .limit(1);
@@ -320,6 +327,7 @@ export const deleteAgent = async (req: AuthRequest, res: Response) => {
         assignedEmployeeId: null,
       })
       .where(eq(users.id, agentId));
+    await sessionService.revokeAll(agentId, 'account_deleted', adminId);
 
     await auditService.log(
       adminId,
@@ -348,7 +356,7 @@ export const bulkDeleteAgents = async (req: AuthRequest, res: Response) => {
     const agentsToDelete = await db.select()
       .from(users)
       .where(and(
-        ilike(users.role, 'agent'),
+        eq(users.role, 'agent'),
         eq(users.deleted, false)
       ));
 
@@ -380,6 +388,7 @@ export const bulkDeleteAgents = async (req: AuthRequest, res: Response) => {
             assignedEmployeeId: null,
           })
           .where(eq(users.id, id));
+        await sessionService.revokeAll(id, 'account_deleted', adminId);
 
         await auditService.log(
           adminId,
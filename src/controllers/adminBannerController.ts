@@ -5,9 +5,10 @@ import { banners } from '../models/banner';
 import { bannerPendingChanges } from '../models/propertyPendingChange';
 import { desc, eq, and } from 'drizzle-orm';
 import { auditService } from '../services/auditService';
+import { UserRole } from '../types';
 
 interface AuthRequest extends Request {
-  user?: { userId: string; phone: string; role?: string };
+  user?: { userId: string; phone: string; role?: UserRole };
 }
 
 export const getAdminBanners = async (req: AuthRequest, res: Response) => {
@@ -2,13 +2,16 @@ import { Request, Response } from 'express';
 import { z } from 'zod';
 import { db } from '../config/database';
 import { users } from '../models/user';
-import { eq, and, or, ilike, desc, lt, isNull } from 'drizzle-orm';
+import { eq, and, or, ilike, desc, isNull } from 'drizzle-orm';
 import { auditService } from '../services/auditService';
+import { sessionService } from '../services/sessionService';
+import { UserRole } from '../types';
+import { keyset, toPage, KeysetSort } from '../utils/pagination';
 
 interface AuthRequest extends Request {
   user?: {
     userId: number;
-    role?: string;
+    role?: UserRole;
   };
 }
 
@@ -19,6 +22,8 @@ const listQuerySchema = z.object({
   city: z.string().optional(),
 });
 
+const customerSort: KeysetSort = { name: 'id', key: users.id, keyType: 'number', id: users.id, direction: 'desc' };
+
 const bulkDeleteSchema = z.object({
   ids: z.array(z.number()).max(100, 'Cannot delete more than 100 customers at once'),
 });
@@ -28,7 +33,7 @@ export const getCustomers = async (req: AuthRequest, res: Response) => {
     const { limit, cursor, q, city } = listQuerySchema.parse(req.query);
     
     let whereConditions = [
-      ilike(users.role, 'customer'),
+      eq(users.role, 'customer'),
       eq(users.deleted, false)
     ];
 
@@ -48,10 +53,11 @@ export const getCustomers = async (req: AuthRequest, res: Response) => {
       whereConditions.push(ilike(users.city, `%${city}%`));
     }
 
-    // Add cursor condition
-    if (cursor) {
-      whereConditions.push(lt(users.id, parseInt(cursor)));
+    const page = keyset(customerSort, cursor);
+    if (page.error) {
+      return res.status(400).json({ message: page.error });
     }
+    if (page.where) whereConditions.push(page.where);
 
     const results = await db.select({
       id: users.id,
@@ -62,15 +68,14 @@ export const getCustomers = async (req: AuthRequest, res: Response) => {
       profileImgUrl: users.profileImgUrl,
       lastLogin: users.lastLogin,
       createdAt: users.createdAt,
+      cursorKey: page.cursorKey,
     })
     .from(users)
     .where(and(...whereConditions))
-    .orderBy(desc(users.id))
+    .orderBy(...page.orderBy)
     .limit(limit + 1);
 
-    const hasMore = results.length > limit;
-    const data = hasMore ? results.slice(0, limit) : results;
-    const nextCursor = hasMore ? results[limit - 1].id.toString() : null;
+    const { data, nextCursor, hasMore } = toPage(results, limit, customerSort);
 
     res.json({
       data,
@@ -99,7 +104,7 @@ export const getCustomerById = async (req: AuthRequest, res: Response) => {
       .from(users)
       .where(and(
         eq(users.id, customerId),
-        ilike(users.role, 'customer'),
+        eq(users.role, 'customer'),
         eq(users.deleted, false)
       ))
       .limit(1);
@@ -133,7 +138,7 @@ export const deleteCustomer = async (req: AuthRequest, res: Response) => {
       .from(users)
       .where(and(
         eq(users.id, customerId),
-        ilike(users.role, 'customer'),
+        eq(users.role, 'customer'),
         eq(users.deleted, false)
       ))
       .limit(1);
@@ -150,6 +155,7 @@ export const deleteCustomer = async (req: AuthRequest, res: Response) => {
         deletedByAdminId: adminId,
       })
       .where(eq(users.id, customerId));
+    await sessionService.revokeAll(customerId, 'account_deleted', adminId);
 
     // Log the deletion
     await auditService.log(
@@ -184,7 +190,7 @@ export const bulkDeleteCustomers = async (req: AuthRequest, res: Response) => {
     const customersToDelete = await db.select()
       .from(users)
       .where(and(
-        ilike(users.role, 'customer'),
+        eq(users.role, 'customer'),
         eq(users.deleted, false)
       ));
 
@@ -212,6 +218,7 @@ export const bulkDeleteCustomers = async (req: AuthRequest, res: Response) => {
             deletedByAdminId: adminId,
           })
           .where(eq(users.id, id));
+        await sessionService.revokeAll(id, 'account_deleted', adminId);
 
         // Log the deletion
         await auditService.log(
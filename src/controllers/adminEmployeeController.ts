@@ -4,13 +4,17 @@ import { db } from '../config/database';
 import { users } from '../models/user';
 import { properties } from '../models/property';
 import { propertyEmployeeAssignments, propertyAgentAssignments } from '../models/propertyAssignment';
-import { eq, and, or, ilike, desc, lt, sql, inArray } from 'drizzle-orm';
+import { eq, and, or, ilike, desc, sql, inArray } from 'drizzle-orm';
 import { auditService } from '../services/auditService';
+import { departmentSchema, UserRole } from '../types';
+import { keyset, toPage, KeysetSort } from '../utils/pagination';
+import { sessionService } from '../services/sessionService';
+import { permissionService } from '../services/permissionService';
 
 interface AuthRequest extends Request {
   user?: {
     userId: number;
-    role?: string;
+    role?: UserRole;
   };
 }
 
@@ -18,14 +22,14 @@ const listQuerySchema = z.object({
   limit: z.string().transform(val => Math.min(parseInt(val) || 20, 100)),
   cursor: z.string().optional(),
   q: z.string().optional(),
-  department: z.string().optional(),
+  department: departmentSchema.optional(),
 });
 
 const createEmployeeSchema = z.object({
   name: z.string().min(1, 'Name is required'),
   email: z.string().email('Valid email is required'),
   phone: z.string().regex(/^\+[1-9]\d{1,14}$/, 'Valid phone number is required'),
-  department: z.string().min(1, 'Department is required'),
+  department: departmentSchema,
   assignProperties: z.array(z.string()).optional(),
   assignAgents: z.array(z.number()).optional(),
   invite: z.boolean().optional(),
@@ -35,7 +39,8 @@ const updateEmployeeSchema = z.object({
   name: z.string().optional(),
   email: z.string().email().optional(),
   phone: z.string().regex(/^\+[1-9]\d{1,14}$/, 'Valid phone number is required').optional(),
-  department: z.string().optional(),
+  department: departmentSchema.optional(),
+  active: z.boolean().optional(),
   addProperties: z.array(z.string()).optional(),
   removeProperties: z.array(z.string()).optional(),
   addAgents: z.array(z.number()).optional(),
@@ -46,6 +51,8 @@ const reassignDeleteSchema = z.object({
   targetEmployeeId: z.number(),
 });
 
+const employeeSort: KeysetSort = { name: 'id', key: users.id, keyType: 'number', id: users.id, direction: 'desc' };
+
 export const getEmployees = async (req: AuthRequest, res: Response) => {
   try {
     const { limit, cursor, q, department } = listQuerySchema.parse(req.query);
@@ -67,12 +74,14 @@ export const getEmployees = async (req: AuthRequest, res: Response) => {
     }
 
     if (department) {
-      whereConditions.push(ilike(users.department, `%${department}%`));
+      whereConditions.push(eq(users.department, department));
     }
 
-    if (cursor) {
-      whereConditions.push(lt(users.id, parseInt(cursor)));
+    const page = keyset(employeeSort, cursor);
+    if (page.error) {
+      return res.status(400).json({ message: page.error });
     }
+    if (page.where) whereConditions.push(page.where);
 
     const results = await db.select({
       id: users.id,
@@ -83,13 +92,16 @@ export const getEmployees = async (req: AuthRequest, res: Response) => {
       profileImgUrl: users.profileImgUrl,
       lastLogin: users.lastLogin,
       createdAt: users.createdAt,
+      cursorKey: page.cursorKey,
     })
     .from(users)
     .where(and(...whereConditions))
-    .orderBy(desc(users.id))
+    .orderBy(...page.orderBy)
     .limit(limit + 1);
 
-    const dataWithCounts = await Promise.all(results.map(async (user) => {
+    const { data: pageData, nextCursor, hasMore } = toPage(results, limit, employeeSort);
+
+    const data = await Promise.all(pageData.map(async (user) => {
       const [propCount] = await db.select({ count: sql<number>`count(DISTINCT ${propertyEmployeeAssignments.propertyId})::int` })
         .from(propertyEmployeeAssignments)
         .innerJoin(properties, eq(propertyEmployeeAssignments.propertyId, properties.id))
@@ -102,7 +114,7 @@ export const getEmployees = async (req: AuthRequest, res: Response) => {
         .from(users)
         .where(and(
           eq(users.assignedEmployeeId, user.id),
-          ilike(users.role, 'agent'),
+          eq(users.role, 'agent'),
           eq(users.approved, true),
           eq(users.deleted, false)
         ));
@@ -114,10 +126,6 @@ export const getEmployees = async (req: AuthRequest, res: Response) => {
       };
     }));
 
-    const hasMore = dataWithCounts.length > limit;
-    const data = hasMore ? dataWithCounts.slice(0, limit) : dataWithCounts;
-    const nextCursor = hasMore ? dataWithCounts[limit - 1].id.toString() : null;
-
     res.json({ data, nextCursor, hasMore });
   } catch (error: any) {
     if (error instanceof z.ZodError) {
@@ -141,7 +149,7 @@ export const getEmployeeById = async (req: AuthRequest, res: Response) => {
       .from(users)
       .where(and(
         eq(users.id, employeeId),
-        ilike(users.role, 'employee'),
+        eq(users.role, 'employee'),
         eq(users.deleted, false)
       ))
       .limit(1);
@@ -184,7 +192,7 @@ export const getEmployeeById = async (req: AuthRequest, res: Response) => {
     .from(users)
     .where(and(
       eq(users.assignedEmployeeId, employeeId),
-      ilike(users.role, 'agent'),
+      eq(users.role, 'agent'),
       eq(users.approved, true),
       eq(users.deleted, false)
     ));
@@ -268,7 +276,7 @@ export const updateEmployee = async (req: AuthRequest, res: Response) => {
     const { id } = req.params;
     const employeeId = parseInt(id);
     const adminId = req.user!.userId;
-    const { name, email, phone, department, addProperties, removeProperties, addAgents, removeAgents } = updateEmployeeSchema.parse(req.body);
+    const { name, email, phone, department, active, addProperties, removeProperties, addAgents, removeAgents } = updateEmployeeSchema.parse(req.body);
 
     if (isNaN(employeeId)) {
       return res.status(400).json({ message: 'Invalid employee ID' });
@@ -278,7 +286,7 @@ export const updateEmployee = async (req: AuthRequest, res: Response) => {
       .from(users)
       .where(and(
         eq(users.id, employeeId),
-        ilike(users.role, 'employee'),
+        eq(users.role, 'employee'),
         eq(users.deleted, false)
       ))
       .limit(1);
@@ -292,11 +300,20 @@ export const updateEmployee = async (req: AuthRequest, res: Response) => {
     if (email) updateData.email = email;
     if (phone) updateData.phone = phone;
     if (department) updateData.department = department;
+    if (active !== undefined) updateData.active = active;
 
     await db.update(users)
       .set(updateData)
       .where(eq(users.id, employeeId));
 
+    // Department decides the implicit finance role
+    if (department) permissionService.invalidateUser(employeeId);
+
+    // Deactivation signs the employee out everywhere immediately
+    if (active === false && employee[0].active !== false) {
+      await sessionService.revokeAll(employeeId, 'account_deactivated', adminId);
+    }
+
     if (addProperties && addProperties.length > 0) {
       await db.insert(propertyEmployeeAssignments).values(
         addProperties.map(propertyId => ({
@@ -313,7 +330,7 @@ export const updateEmployee = async (req: AuthRequest, res: Response) => {
         .from(users)
         .where(and(
           eq(users.assignedEmployeeId, employeeId),
-          ilike(users.role, 'agent'),
+          eq(users.role, 'agent'),
           eq(users.deleted, false)
         ));
       
@@ -358,7 +375,7 @@ export const updateEmployee = async (req: AuthRequest, res: Response) => {
       employeeId,
       {
         employeeName: employee[0].name,
-        changes: { name, email, phone, department },
+        changes: { name, email, phone, department, active },
         propertiesAdded: addProperties?.length || 0,
         propertiesRemoved: removeProperties?.length || 0,
         agentsAdded: addAgents?.length || 0,
@@ -400,7 +417,7 @@ export const reassignAndDeleteEmployee = async (req: AuthRequest, res: Response)
       .from(users)
       .where(and(
         eq(users.id, employeeId),
-        ilike(users.role, 'employee'),
+        eq(users.role, 'employee'),
         eq(users.deleted, false)
       ))
       .limit(1);
@@ -413,7 +430,7 @@ export const reassignAndDeleteEmployee = async (req: AuthRequest, res: Response)
       .from(users)
       .where(and(
         eq(users.id, targetEmployeeId),
-        ilike(users.role, 'employee'),
+        eq(users.role, 'employee'),
         eq(users.deleted, false)
       ))
       .limit(1);
@@ -434,7 +451,7 @@ export const reassignAndDeleteEmployee = async (req: AuthRequest, res: Response)
       .from(users)
       .where(and(
         eq(users.assignedEmployeeId, employeeId),
-        ilike(users.role, 'agent'),
+        eq(users.role, 'agent'),
         eq(users.deleted, false)
       ));
 
@@ -451,7 +468,7 @@ export const reassignAndDeleteEmployee = async (req: AuthRequest, res: Response)
       .from(users)
       .where(and(
         eq(users.assignedEmployeeId, employeeId),
-        ilike(users.role, 'agent'),
+        eq(users.role, 'agent'),
         eq(users.deleted, false)
       ));
     
@@ -503,6 +520,7 @@ export const reassignAndDeleteEmployee = async (req: AuthRequest, res: Response)
         deletedByAdminId: adminId,
       })
       .where(eq(users.id, employeeId));
+    await sessionService.revokeAll(employeeId, 'account_deleted', adminId);
 
     await auditService.log(
       adminId,
@@ -549,7 +567,7 @@ export const deleteEmployee = async (req: AuthRequest, res: Response) => {
       .from(users)
       .where(and(
         eq(users.id, employeeId),
-        ilike(users.role, 'employee'),
+        eq(users.role, 'employee'),
         eq(users.deleted, false)
       ))
       .limit(1);
@@ -570,7 +588,7 @@ export const deleteEmployee = async (req: AuthRequest, res: Response) => {
       .from(users)
       .where(and(
         eq(users.assignedEmployeeId, employeeId),
-        ilike(users.role, 'agent'),
+        eq(users.role, 'agent'),
         eq(users.deleted, false)
       ));
 
@@ -589,6 +607,7 @@ export const deleteEmployee = async (req: AuthRequest, res: Response) => {
         deletedByAdminId: adminId,
       })
       .where(eq(users.id, employeeId));
+    await sessionService.revokeAll(employeeId, 'account_deleted', adminId);
 
     await auditService.log(
       adminId,
@@ -645,7 +664,7 @@ export const getAgentsLookup = async (req: AuthRequest, res: Response) => {
     const limitNum = Math.min(parseInt(limit as string) || 50, 100);
 
     let whereConditions = [
-      ilike(users.role, 'agent'),
+      eq(users.role, 'agent'),
       eq(users.approved, true),
       eq(users.deleted, false),
     ];
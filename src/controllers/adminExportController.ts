@@ -0,0 +1,70 @@
+import { Request, Response } from 'express';
+import { db } from '../config/database';
+import { exportJobs } from '../models/exportJob';
+import { eq, and, desc } from 'drizzle-orm';
+import { generateDownloadUrl } from '../utils/cloudflare';
+import { UserRole } from '../types';
+
+interface AuthRequest extends Request {
+  user?: { userId: number; role?: UserRole };
+}
+
+const exportJobColumns = {
+  id: exportJobs.id,
+  jobType: exportJobs.jobType,
+  filters: exportJobs.filters,
+  status: exportJobs.status,
+  fileName: exportJobs.fileName,
+  rowCount: exportJobs.rowCount,
+  errorMessage: exportJobs.errorMessage,
+  createdAt: exportJobs.createdAt,
+  completedAt: exportJobs.completedAt,
+};
+
+export const getExports = async (req: AuthRequest, res: Response) => {
+  try {
+    const adminId = req.user!.userId;
+    const limitNum = Math.min(parseInt(req.query.limit as string) || 20, 100);
+
+    const data = await db
+      .select(exportJobColumns)
+      .from(exportJobs)
+      .where(eq(exportJobs.requestedBy, adminId))
+      .orderBy(desc(exportJobs.createdAt))
+      .limit(limitNum);
+
+    res.json({ data });
+  } catch (error) {
+    console.error('Get exports error:', error);
+    res.status(500).json({ message: 'Failed to fetch exports' });
+  }
+};
+
+// Returns the job; completed jobs include a short-lived signed download link
+export const getExportById = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const adminId = req.user!.userId;
+
+    if (!/^[0-9a-f-]{36}$/i.test(id)) return res.status(400).json({ message: 'Invalid export ID' });
+
+    const [job] = await db
+      .select({ ...exportJobColumns, fileKey: exportJobs.fileKey, fileUrl: exportJobs.fileUrl })
+      .from(exportJobs)
+      .where(and(eq(exportJobs.id, id), eq(exportJobs.requestedBy, adminId)))
+      .limit(1);
+
+    if (!job) return res.status(404).json({ message: 'Export not found' });
+
+    // Older exports were written to the public bucket and still carry their public file URL
+    const { fileKey, fileUrl, ...details } = job;
+    const downloadUrl = job.status === 'completed' && fileKey
+      ? await generateDownloadUrl(fileKey, job.fileName || fileKey.split('/').pop()!, 900, fileUrl ? 'public' : 'private')
+      : null;
+
+    res.json({ ...details, downloadUrl });
+  } catch (error) {
+    console.error('Get export error:', error);
+    res.status(500).json({ message: 'Failed to fetch export' });
+  }
+};
@@ -0,0 +1,232 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { db } from '../config/database';
+import { lenders, lenderProducts, loanLenderSubmissions } from '../models/lender';
+import { eq, and, inArray } from 'drizzle-orm';
+import { auditService } from '../services/auditService';
+import { lenderSubmissionService } from '../services/lenderSubmissionService';
+import { LOAN_TYPES, UserRole } from '../types';
+
+interface AuthRequest extends Request {
+  user?: { userId: number; role?: UserRole };
+}
+
+const lenderSchema = z.object({
+  name: z.string().min(1).max(150),
+  code: z.string().min(1).max(30).nullable().optional(),
+  contactName: z.string().max(100).nullable().optional(),
+  contactEmail: z.string().email().max(100).nullable().optional(),
+  contactPhone: z.string().max(20).nullable().optional(),
+  notes: z.string().max(2000).nullable().optional(),
+  active: z.boolean().optional(),
+});
+
+const productSchema = z.object({
+  name: z.string().min(1).max(150),
+  loanType: z.enum(LOAN_TYPES),
+  minRate: z.number().min(0.01).max(30),
+  maxRate: z.number().min(0.01).max(30),
+  maxLtvPercent: z.number().int().min(1).max(100),
+  maxTenureYears: z.number().int().min(1).max(40).nullable().optional(),
+  active: z.boolean().optional(),
+});
+
+// Rates are stored in basis points; the API speaks percentages
+const toProductValues = (data: Partial<z.infer<typeof productSchema>>) => {
+  const { minRate, maxRate, ...rest } = data;
+  return {
+    ...rest,
+    ...(minRate !== undefined ? { minRateBps: Math.round(minRate * 100) } : {}),
+    ...(maxRate !== undefined ? { maxRateBps: Math.round(maxRate * 100) } : {}),
+  };
+};
+
+const toProductResponse = (product: typeof lenderProducts.$inferSelect) => {
+  const { minRateBps, maxRateBps, ...rest } = product;
+  return { ...rest, minRate: minRateBps / 100, maxRate: maxRateBps / 100 };
+};
+
+const parseDate = (value: unknown) => {
+  if (typeof value !== 'string' || !value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+export const getLenders = async (req: AuthRequest, res: Response) => {
+  try {
+    const { active } = req.query;
+    const rows = await db
+      .select()
+      .from(lenders)
+      .where(active === 'true' ? eq(lenders.active, true) : undefined)
+      .orderBy(lenders.name);
+
+    const products = rows.length
+      ? await db.select().from(lenderProducts).where(inArray(lenderProducts.lenderId, rows.map(lender => lender.id))).orderBy(lenderProducts.name)
+      : [];
+
+    res.json({
+      lenders: rows.map(lender => ({
+        ...lender,
+        products: products.filter(product => product.lenderId === lender.id).map(toProductResponse),
+      })),
+    });
+  } catch (error) {
+    console.error('Get lenders error:', error);
+    res.status(500).json({ message: 'Failed to fetch lenders' });
+  }
+};
+
+export const createLender = async (req: AuthRequest, res: Response) => {
+  try {
+    const adminId = req.user!.userId;
+    const data = lenderSchema.parse(req.body);
+
+    const [lender] = await db.insert(lenders).values({ ...data, active: data.active ?? true }).returning();
+    await auditService.log(adminId, 'create_lender', 'lender', lender.id, data);
+
+    res.status(201).json({ success: true, lender });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) return res.status(400).json({ message: error.issues[0].message });
+    if (error?.code === '23505') return res.status(409).json({ message: 'A lender with this code already exists' });
+    console.error('Create lender error:', error);
+    res.status(500).json({ message: 'Failed to create lender' });
+  }
+};
+
+export const updateLender = async (req: AuthRequest, res: Response) => {
+  try {
+    const lenderId = parseInt(req.params.id);
+    const adminId = req.user!.userId;
+    if (isNaN(lenderId)) return res.status(400).json({ message: 'Invalid lender ID' });
+
+    const data = lenderSchema.partial().parse(req.body);
+    const [lender] = await db.update(lenders).set({ ...data, updatedAt: new Date() }).where(eq(lenders.id, lenderId)).returning();
+    if (!lender) return res.status(404).json({ message: 'Lender not found' });
+
+    await auditService.log(adminId, 'update_lender', 'lender', lenderId, data);
+    res.json({ success: true, lender });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) return res.status(400).json({ message: error.issues[0].message });
+    if (error?.code === '23505') return res.status(409).json({ message: 'A lender with this code already exists' });
+    console.error('Update lender error:', error);
+    res.status(500).json({ message: 'Failed to update lender' });
+  }
+};
+
+// Lenders with submission history are deactivated rather than deleted
+export const deleteLender = async (req: AuthRequest, res: Response) => {
+  try {
+    const lenderId = parseInt(req.params.id);
+    const adminId = req.user!.userId;
+    if (isNaN(lenderId)) return res.status(400).json({ message: 'Invalid lender ID' });
+
+    const [used] = await db.select({ id: loanLenderSubmissions.id }).from(loanLenderSubmissions).where(eq(loanLenderSubmissions.lenderId, lenderId)).limit(1);
+    if (used) {
+      const [lender] = await db.update(lenders).set({ active: false, updatedAt: new Date() }).where(eq(lenders.id, lenderId)).returning();
+      if (!lender) return res.status(404).json({ message: 'Lender not found' });
+      await auditService.log(adminId, 'deactivate_lender', 'lender', lenderId);
+      return res.json({ success: true, deactivated: true });
+    }
+
+    const [deleted] = await db.delete(lenders).where(eq(lenders.id, lenderId)).returning({ id: lenders.id, name: lenders.name });
+    if (!deleted) return res.status(404).json({ message: 'Lender not found' });
+
+    await auditService.log(adminId, 'delete_lender', 'lender', lenderId, { name: deleted.name });
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete lender error:', error);
+    res.status(500).json({ message: 'Failed to delete lender' });
+  }
+};
+
+export const createLenderProduct = async (req: AuthRequest, res: Response) => {
+  try {
+    const lenderId = parseInt(req.params.id);
+    const adminId = req.user!.userId;
+    if (isNaN(lenderId)) return res.status(400).json({ message: 'Invalid lender ID' });
+
+    const data = productSchema.refine(p => p.maxRate >= p.minRate, { message: 'maxRate must be at least minRate' }).parse(req.body);
+
+    const [lender] = await db.select({ id: lenders.id }).from(lenders).where(eq(lenders.id, lenderId)).limit(1);
+    if (!lender) return res.status(404).json({ message: 'Lender not found' });
+
+    const [product] = await db.insert(lenderProducts).values({
+      lenderId,
+      name: data.name,
+      loanType: data.loanType,
+      minRateBps: Math.round(data.minRate * 100),
+      maxRateBps: Math.round(data.maxRate * 100),
+      maxLtvPercent: data.maxLtvPercent,
+      maxTenureYears: data.maxTenureYears ?? null,
+      active: data.active ?? true,
+    }).returning();
+    await auditService.log(adminId, 'create_lender_product', 'lender_product', product.id, { lenderId, ...data });
+
+    res.status(201).json({ success: true, product: toProductResponse(product) });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) return res.status(400).json({ message: error.issues[0].message });
+    console.error('Create lender product error:', error);
+    res.status(500).json({ message: 'Failed to create lender product' });
+  }
+};
+
+export const updateLenderProduct = async (req: AuthRequest, res: Response) => {
+  try {
+    const lenderId = parseInt(req.params.id);
+    const productId = parseInt(req.params.productId);
+    const adminId = req.user!.userId;
+    if (isNaN(lenderId) || isNaN(productId)) return res.status(400).json({ message: 'Invalid product ID' });
+
+    const data = productSchema.partial().parse(req.body);
+
+    const [existing] = await db.select().from(lenderProducts).where(and(eq(lenderProducts.id, productId), eq(lenderProducts.lenderId, lenderId))).limit(1);
+    if (!existing) return res.status(404).json({ message: 'Lender product not found' });
+
+    const values = toProductValues(data);
+    if ((values.maxRateBps ?? existing.maxRateBps) < (values.minRateBps ?? existing.minRateBps)) {
+      return res.status(400).json({ message: 'maxRate must be at least minRate' });
+    }
+
+    const [product] = await db.update(lenderProducts).set({ ...values, updatedAt: new Date() }).where(eq(lenderProducts.id, productId)).returning();
+    await auditService.log(adminId, 'update_lender_product', 'lender_product', productId, data);
+
+    res.json({ success: true, product: toProductResponse(product) });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) return res.status(400).json({ message: error.issues[0].message });
+    console.error('Update lender product error:', error);
+    res.status(500).json({ message: 'Failed to update lender product' });
+  }
+};
+
+export const deleteLenderProduct = async (req: AuthRequest, res: Response) => {
+  try {
+    const lenderId = parseInt(req.params.id);
+    const productId = parseInt(req.params.productId);
+    const adminId = req.user!.userId;
+    if (isNaN(lenderId) || isNaN(productId)) return res.status(400).json({ message: 'Invalid product ID' });
+
+    // Past submissions keep their lender; product_id is set to null
+    const [deleted] = await db.delete(lenderProducts).where(and(eq(lenderProducts.id, productId), eq(lenderProducts.lenderId, lenderId))).returning({ id: lenderProducts.id, name: lenderProducts.name });
+    if (!deleted) return res.status(404).json({ message: 'Lender product not found' });
+
+    await auditService.log(adminId, 'delete_lender_product', 'lender_product', productId, { lenderId, name: deleted.name });
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete lender product error:', error);
+    res.status(500).json({ message: 'Failed to delete lender product' });
+  }
+};
+
+export const getLenderConversionReport = async (req: AuthRequest, res: Response) => {
+  try {
+    const startDate = parseDate(req.query.startDate);
+    const endDate = parseDate(req.query.endDate);
+
+    const lendersReport = await lenderSubmissionService.conversionReport({ startDate, endDate });
+    res.json({ lenders: lendersReport, startDate: startDate || null, endDate: endDate || null });
+  } catch (error) {
+    console.error('Get lender report error:', error);
+    res.status(500).json({ message: 'Failed to fetch lender report' });
+  }
+};
@@ -0,0 +1,99 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { db } from '../config/database';
+import { loanRateTables } from '../models/loanRate';
+import { eq } from 'drizzle-orm';
+import { auditService } from '../services/auditService';
+import { loanEstimateService } from '../services/loanEstimateService';
+import { LOAN_TYPES, UserRole } from '../types';
+
+interface AuthRequest extends Request {
+  user?: { userId: number; role?: UserRole };
+}
+
+const loanTypeSchema = z.enum(LOAN_TYPES);
+
+const ltvSlabSchema = z.object({
+  upTo: z.number().int().positive().nullable(),
+  percent: z.number().min(1).max(100),
+});
+
+const rateTableSchema = z.object({
+  interestRate: z.number().min(0.01).max(30),
+  maxFoirPercent: z.number().int().min(1).max(100),
+  maxTenureYears: z.number().int().min(1).max(40),
+  ltvSlabs: z.array(ltvSlabSchema).min(1).max(10),
+}).refine(data => data.ltvSlabs.filter(slab => slab.upTo === null).length === 1, {
+  message: 'Exactly one LTV slab must have no upper limit (upTo: null)',
+});
+
+// Rates are stored in basis points; the API speaks percentages
+const toResponse = (table: typeof loanRateTables.$inferSelect) => {
+  const { interestRateBps, ...rest } = table;
+  return { ...rest, interestRate: interestRateBps / 100 };
+};
+
+export const getLoanRateTables = async (req: AuthRequest, res: Response) => {
+  try {
+    const tables = await db.select().from(loanRateTables).orderBy(loanRateTables.loanType);
+    res.json({ rateTables: tables.map(toResponse) });
+  } catch (error) {
+    console.error('Get loan rate tables error:', error);
+    res.status(500).json({ message: 'Failed to fetch rate tables' });
+  }
+};
+
+export const upsertLoanRateTable = async (req: AuthRequest, res: Response) => {
+  try {
+    const adminId = req.user!.userId;
+    const { loanType } = req.params;
+    if (!loanTypeSchema.safeParse(loanType).success) return res.status(400).json({ message: 'Invalid loan type' });
+
+    const data = rateTableSchema.parse(req.body);
+    const values = {
+      interestRateBps: Math.round(data.interestRate * 100),
+      maxFoirPercent: data.maxFoirPercent,
+      maxTenureYears: data.maxTenureYears,
+      ltvSlabs: data.ltvSlabs
+        .map(slab => ({ upTo: slab.upTo ?? null, percent: slab.percent }))
+        .sort((a, b) => (a.upTo ?? Infinity) - (b.upTo ?? Infinity)),
+      updatedBy: adminId,
+      updatedAt: new Date(),
+    };
+
+    const [table] = await db
+      .insert(loanRateTables)
+      .values({ loanType, ...values })
+      .onConflictDoUpdate({ target: loanRateTables.loanType, set: values })
+      .returning();
+
+    loanEstimateService.invalidateRateTables();
+    await auditService.log(adminId, 'update_loan_rate_table', 'loan_rate_table', table.id, { loanType, ...data });
+
+    res.json({ success: true, rateTable: toResponse(table) });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) return res.status(400).json({ message: error.issues[0].message });
+    console.error('Update loan rate table error:', error);
+    res.status(500).json({ message: 'Failed to update rate table' });
+  }
+};
+
+export const deleteLoanRateTable = async (req: AuthRequest, res: Response) => {
+  try {
+    const adminId = req.user!.userId;
+    const { loanType } = req.params;
+    if (!loanTypeSchema.safeParse(loanType).success) return res.status(400).json({ message: 'Invalid loan type' });
+
+    // Estimates for this loan type fall back to the built-in defaults
+    const [deleted] = await db.delete(loanRateTables).where(eq(loanRateTables.loanType, loanType)).returning({ id: loanRateTables.id });
+    if (!deleted) return res.status(404).json({ message: 'Rate table not found' });
+
+    loanEstimateService.invalidateRateTables();
+    await auditService.log(adminId, 'delete_loan_rate_table', 'loan_rate_table', deleted.id, { loanType });
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete loan rate table error:', error);
+    res.status(500).json({ message: 'Failed to delete rate table' });
+  }
+};
@@ -1,13 +1,25 @@
 import { Request, Response } from 'express';
 import { z } from 'zod';
 import { db } from '../config/database';
-import { loanRequests, loanRequestComments, loanRequestAssignments, loanRequestAuditLogs } from '../models/loanRequest';
+import { loanRequests, loanRequestComments, loanRequestAssignments, loanRequestAuditLogs, loanBulkActions } from '../models/loanRequest';
 import { users } from '../models/user';
 import { exportJobs, adminSlaConfigs } from '../models/exportJob';
-import { eq, and, desc, isNull, or, ilike, sql, count, gte, lte, inArray } from 'drizzle-orm';
+import { eq, and, isNull, inArray, or, ilike, sql, count } from 'drizzle-orm';
+import { UserRole } from '../types';
+import { LOAN_STATUSES, checkTransition, getAvailableTransitions } from '../config/loanWorkflow';
+import { loanWorkflowService, transitionErrorStatus } from '../services/loanWorkflowService';
+import { emitLoanRequestComment } from '../services/socketService';
+import { loanRequestFiltersSchema, buildLoanRequestConditions, getLoanRequestSort } from '../services/loanRequestQuery';
+import { keyset, toPage } from '../utils/pagination';
+import { exportService, EXPORT_FORMATS } from '../services/exportService';
+import { loanAnalyticsService, analyticsRangeSchema, resolveAnalyticsRange } from '../services/loanAnalyticsService';
+import { loanRoutingService, routingSubject, RoutingDecision } from '../services/loanRoutingService';
+import { loanDuplicateService } from '../services/loanDuplicateService';
+import { loanBulkService, bulkTargetsSchema, BulkPlan } from '../services/loanBulkService';
+import { lenderSubmissionService, submissionSchema, submissionUpdateSchema, submissionErrorStatus } from '../services/lenderSubmissionService';
 
 interface AuthRequest extends Request {
-  user?: { userId: number; role?: string };
+  user?: { userId: number; role?: UserRole };
 }
 
 const createAuditLog = async (loanRequestId: string, actorId: number, action: string, oldValue?: string, newValue?: string, comment?: string) => {
@@ -23,35 +35,19 @@ const createAuditLog = async (loanRequestId: string, actorId: number, action: st
 
 export const getAdminLoanRequests = async (req: AuthRequest, res: Response) => {
   try {
-    const { status, assignee, priority, slaState, search, startDate, endDate, limit = '20', cursor, sort = 'newest' } = req.query;
+    const { limit = '20', cursor, sort = 'newest' } = req.query;
     const limitNum = Math.min(parseInt(limit as string) || 20, 100);
 
-    let whereConditions = [isNull(loanRequests.deletedAt)];
-
-    if (status && status !== 'all') whereConditions.push(eq(loanRequests.status, status as string));
-    if (assignee === 'unassigned') whereConditions.push(isNull(loanRequests.assigneeId));
-    else if (assignee && assignee !== 'all') whereConditions.push(eq(loanRequests.assigneeId, parseInt(assignee as string)));
-    if (priority && priority !== 'all') whereConditions.push(eq(loanRequests.priority, priority as string));
-    if (slaState === 'overdue') whereConditions.push(sql`${loanRequests.slaDueAt} < NOW()`);
-    if (startDate) whereConditions.push(gte(loanRequests.createdAt, new Date(startDate as string)));
-    if (endDate) whereConditions.push(lte(loanRequests.createdAt, new Date(endDate as string)));
-
-    if (search && typeof search === 'string') {
-      whereConditions.push(
-        or(
-          ilike(loanRequests.userName, `%${search}%`),
-          ilike(loanRequests.userPhone, `%${search}%`),
-          ilike(loanRequests.userEmail, `%${search}%`),
-          sql`CAST(${loanRequests.id} AS TEXT) ILIKE ${`%${search}%`}`
-        )!
-      );
-    }
+    const filters = loanRequestFiltersSchema.safeParse(req.query);
+    if (!filters.success) return res.status(400).json({ message: filters.error.issues[0].message });
+    const whereConditions = buildLoanRequestConditions(filters.data);
 
-    let orderBy;
-    if (sort === 'oldest') orderBy = loanRequests.createdAt;
-    else if (sort === 'highest') orderBy = desc(loanRequests.loanAmountNeeded);
-    else if (sort === 'sla') orderBy = loanRequests.slaDueAt;
-    else orderBy = desc(loanRequests.createdAt);
+    const loanSort = getLoanRequestSort(sort);
+    const page = keyset(loanSort, cursor as string | undefined);
+    if (page.error) {
+      return res.status(400).json({ message: page.error });
+    }
+    if (page.where) whereConditions.push(page.where);
 
     const results = await db
       .select({
@@ -61,6 +57,7 @@ export const getAdminLoanRequests = async (req: AuthRequest, res: Response) => {
         userEmail: loanRequests.userEmail,
         loanType: loanRequests.loanType,
         loanAmountNeeded: loanRequests.loanAmountNeeded,
+        isAffordable: loanRequests.isAffordable,
         propertyCategory: loanRequests.propertyCategory,
         status: loanRequests.status,
         priority: loanRequests.priority,
@@ -68,18 +65,18 @@ export const getAdminLoanRequests = async (req: AuthRequest, res: Response) => {
         slaDueAt: loanRequests.slaDueAt,
         lastActivityAt: loanRequests.lastActivityAt,
         isEscalated: loanRequests.isEscalated,
+        duplicateOfId: loanRequests.duplicateOfId,
         createdAt: loanRequests.createdAt,
         assigneeName: users.name,
+        cursorKey: page.cursorKey,
       })
       .from(loanRequests)
       .leftJoin(users, eq(loanRequests.assigneeId, users.id))
       .where(and(...whereConditions))
-      .orderBy(orderBy)
+      .orderBy(...page.orderBy)
       .limit(limitNum + 1);
 
-    const hasMore = results.length > limitNum;
-    const data = hasMore ? results.slice(0, limitNum) : results;
-    const nextCursor = hasMore ? data[data.length - 1].id : null;
+    const { data, nextCursor, hasMore } = toPage(results, limitNum, loanSort);
 
     res.json({ data, nextCursor, hasMore });
   } catch (error) {
@@ -104,14 +101,18 @@ export const getAdminLoanRequestById = async (req: AuthRequest, res: Response) =
       .where(eq(loanRequestComments.loanRequestId, id))
       .orderBy(loanRequestComments.createdAt);
 
+    // Includes the history of requests merged into this one
     const auditLogs = await db
-      .select({ id: loanRequestAuditLogs.id, action: loanRequestAuditLogs.action, oldValue: loanRequestAuditLogs.oldValue, newValue: loanRequestAuditLogs.newValue, comment: loanRequestAuditLogs.comment, createdAt: loanRequestAuditLogs.createdAt, actorId: loanRequestAuditLogs.actorId, actorName: users.name })
+      .select({ id: loanRequestAuditLogs.id, loanRequestId: loanRequestAuditLogs.loanRequestId, action: loanRequestAuditLogs.action, oldValue: loanRequestAuditLogs.oldValue, newValue: loanRequestAuditLogs.newValue, comment: loanRequestAuditLogs.comment, createdAt: loanRequestAuditLogs.createdAt, actorId: loanRequestAuditLogs.actorId, actorName: users.name })
       .from(loanRequestAuditLogs)
       .leftJoin(users, eq(loanRequestAuditLogs.actorId, users.id))
-      .where(eq(loanRequestAuditLogs.loanRequestId, id))
+      .where(inArray(loanRequestAuditLogs.loanRequestId, await loanDuplicateService.historyIds(loanRequest)))
       .orderBy(loanRequestAuditLogs.createdAt);
 
-    res.json({ loanRequest: { ...loanRequest, assignee: assignee[0] || null }, comments, auditLogs });
+    const lenderSubmissions = await lenderSubmissionService.listForLoanRequest(id);
+    const duplicates = await loanDuplicateService.listLinked(loanRequest);
+
+    res.json({ loanRequest: { ...loanRequest, assignee: assignee[0] || null }, allowedTransitions: getAvailableTransitions(loanRequest.status, 'admin'), comments, auditLogs, lenderSubmissions, duplicates });
   } catch (error) {
     console.error('Get admin loan request by id error:', error);
     res.status(500).json({ message: 'Failed to fetch loan request' });
@@ -134,26 +135,23 @@ export const reassignLoanRequest = async (req: AuthRequest, res: Response) => {
     if (!existing) return res.status(404).json({ message: 'Loan request not found' });
 
     let targetAssigneeId = assigneeId;
+    let decision: RoutingDecision | null = null;
     if (autoAssign) {
-      const financeEmployees = await db
-        .select({ id: users.id, openTickets: sql<number>`COUNT(${loanRequests.id})` })
-        .from(users)
-        .leftJoin(loanRequests, and(eq(loanRequests.assigneeId, users.id), isNull(loanRequests.deletedAt), sql`${loanRequests.status} NOT IN ('closed', 'rejected')`))
-        .where(and(eq(users.role, 'employee'), eq(users.department, 'Finance'), eq(users.active, true)))
-        .groupBy(users.id)
-        .orderBy(sql`COUNT(${loanRequests.id})`)
-        .limit(1);
-
-      if (!financeEmployees.length) return res.status(400).json({ message: 'No active finance employees available' });
-      targetAssigneeId = financeEmployees[0].id;
+      decision = await loanRoutingService.route(routingSubject(existing), { fallback: true });
+      if (!decision.assignee) return res.status(400).json({ message: 'No finance employee available for auto-assignment' });
+      targetAssigneeId = decision.assignee.userId;
     }
 
-    const [assignee] = await db.select().from(users).where(and(eq(users.id, targetAssigneeId!), eq(users.role, 'employee'), eq(users.department, 'Finance'), eq(users.active, true))).limit(1);
+    const [assignee] = await db.select().from(users).where(and(eq(users.id, targetAssigneeId!), eq(users.role, 'employee'), eq(users.department, 'finance'), eq(users.active, true))).limit(1);
     if (!assignee) return res.status(400).json({ message: 'Invalid assignee' });
 
+    // Assigning a fresh request starts its review
+    const startsReview = existing.status === 'received';
+    const statusUpdate = startsReview ? await loanWorkflowService.buildStatusUpdate(existing, 'under_review') : { lastActivityAt: new Date() };
+
     const [updated] = await db
       .update(loanRequests)
-      .set({ assigneeId: targetAssigneeId, status: existing.status === 'received' ? 'under_review' : existing.status, lastActivityAt: new Date(), version: sql`${loanRequests.version} + 1`, updatedAt: new Date() })
+      .set({ assigneeId: targetAssigneeId, ...statusUpdate, version: sql`${loanRequests.version} + 1`, updatedAt: new Date() })
       .where(and(eq(loanRequests.id, id), eq(loanRequests.version, existing.version)))
       .returning();
 
@@ -162,8 +160,10 @@ export const reassignLoanRequest = async (req: AuthRequest, res: Response) => {
       return res.status(409).json({ message: 'Loan request was modified', loanRequest: current });
     }
 
-    await db.insert(loanRequestAssignments).values({ loanRequestId: id, assignedById: adminId, assigneeId: targetAssigneeId!, comment: comment || (autoAssign ? 'Auto-assigned' : 'Reassigned by admin') });
+    if (decision) await loanRoutingService.recordAssignment(id, decision, adminId, comment);
+    else await db.insert(loanRequestAssignments).values({ loanRequestId: id, assignedById: adminId, assigneeId: targetAssigneeId!, comment: comment || 'Reassigned by admin' });
     await createAuditLog(id, adminId, 'reassigned', existing.assigneeId?.toString(), targetAssigneeId!.toString(), comment);
+    if (startsReview) await loanWorkflowService.afterTransition(existing, updated, { actor: 'admin', actorId: adminId, assigneeId: targetAssigneeId! });
 
     console.log(`📋 Admin ${adminId} reassigned loan request ${id} to ${targetAssigneeId}`);
     res.json({ success: true, loanRequest: updated });
@@ -177,41 +177,43 @@ export const reassignLoanRequest = async (req: AuthRequest, res: Response) => {
 export const bulkReassignLoanRequests = async (req: AuthRequest, res: Response) => {
   try {
     const adminId = req.user!.userId;
-    const { ids, assigneeId, autoAssign } = z.object({
-      ids: z.array(z.string()).min(1).max(100),
+    const { ids, versions, assigneeId, autoAssign } = bulkTargetsSchema.extend({
       assigneeId: z.number().optional(),
       autoAssign: z.boolean().optional(),
     }).parse(req.body);
 
     if (!assigneeId && !autoAssign) return res.status(400).json({ message: 'assigneeId or autoAssign required' });
 
-    let targetAssigneeId = assigneeId;
-    if (autoAssign) {
-      const [leastBusy] = await db
-        .select({ id: users.id })
-        .from(users)
-        .leftJoin(loanRequests, and(eq(loanRequests.assigneeId, users.id), isNull(loanRequests.deletedAt), sql`${loanRequests.status} NOT IN ('closed', 'rejected')`))
-        .where(and(eq(users.role, 'employee'), eq(users.department, 'Finance'), eq(users.active, true)))
-        .groupBy(users.id)
-        .orderBy(sql`COUNT(${loanRequests.id})`)
-        .limit(1);
-      if (!leastBusy) return res.status(400).json({ message: 'No active finance employees' });
-      targetAssigneeId = leastBusy.id;
+    if (!autoAssign) {
+      const [assignee] = await db.select({ id: users.id }).from(users).where(and(eq(users.id, assigneeId!), eq(users.role, 'employee'), eq(users.department, 'finance'), eq(users.active, true))).limit(1);
+      if (!assignee) return res.status(400).json({ message: 'Invalid assignee' });
     }
 
-    const updated = await db
-      .update(loanRequests)
-      .set({ assigneeId: targetAssigneeId, lastActivityAt: new Date(), updatedAt: new Date() })
-      .where(and(inArray(loanRequests.id, ids), isNull(loanRequests.deletedAt)))
-      .returning({ id: loanRequests.id });
+    // Auto-assignment routes each request on its own so the rules and capacity caps apply per request
+    const candidates = autoAssign ? await loanRoutingService.loadCandidates() : [];
 
-    for (const ticket of updated) {
-      await db.insert(loanRequestAssignments).values({ loanRequestId: ticket.id, assignedById: adminId, assigneeId: targetAssigneeId!, comment: 'Bulk reassigned' });
-      await createAuditLog(ticket.id, adminId, 'bulk_reassigned', undefined, targetAssigneeId!.toString());
-    }
+    const { bulkAction, results, changes } = await loanBulkService.run('reassign', adminId, { assigneeId, autoAssign }, { ids, versions }, async (row): Promise<BulkPlan> => {
+      let assignment = { loanRequestId: row.id, assignedById: adminId, assigneeId: assigneeId!, comment: 'Bulk reassigned' };
+      if (autoAssign) {
+        const decision = await loanRoutingService.route(routingSubject(row), { candidates, fallback: true });
+        if (!decision.assignee) return { invalid: 'No finance employee available for auto-assignment' };
+        assignment = loanRoutingService.assignmentValues(row.id, decision, adminId);
+      }
+
+      // Assigning a fresh request starts its review
+      const startsReview = row.status === 'received';
+      const statusUpdate = startsReview ? await loanWorkflowService.buildStatusUpdate(row, 'under_review') : { lastActivityAt: new Date() };
+      const audit = [{ action: 'bulk_reassigned', oldValue: row.assigneeId?.toString() || null, newValue: assignment.assigneeId.toString(), comment: assignment.comment }];
+      if (startsReview) audit.push({ action: 'status_change', oldValue: row.status, newValue: 'under_review', comment: null });
 
-    console.log(`📋 Admin ${adminId} bulk reassigned ${updated.length} tickets to ${targetAssigneeId}`);
-    res.json({ success: true, count: updated.length });
+      return { set: { assigneeId: assignment.assigneeId, ...statusUpdate }, audit, assignment };
+    }, async ({ before, after }) => {
+      if (before.status !== after.status) await loanWorkflowService.notifyTransition(before, after, { actor: 'admin', actorId: adminId, assigneeId: after.assigneeId });
+    });
+
+    if (autoAssign) await loanRoutingService.markAssigned(changes.map(change => change.after.assigneeId!));
+
+    res.json({ success: true, count: bulkAction.updatedCount, bulkActionId: bulkAction.id, results });
   } catch (error: any) {
     if (error instanceof z.ZodError) return res.status(400).json({ message: error.issues[0].message });
     console.error('Bulk reassign error:', error);
@@ -252,20 +254,14 @@ export const escalateLoanRequest = async (req: AuthRequest, res: Response) => {
 export const bulkEscalateLoanRequests = async (req: AuthRequest, res: Response) => {
   try {
     const adminId = req.user!.userId;
-    const { ids, reason } = z.object({ ids: z.array(z.string()).min(1).max(100), reason: z.string().min(10).max(500) }).parse(req.body);
+    const { ids, versions, reason } = bulkTargetsSchema.extend({ reason: z.string().min(10).max(500) }).parse(req.body);
 
-    const updated = await db
-      .update(loanRequests)
-      .set({ isEscalated: true, escalationReason: reason, priority: 'high', lastActivityAt: new Date(), updatedAt: new Date() })
-      .where(and(inArray(loanRequests.id, ids), isNull(loanRequests.deletedAt)))
-      .returning({ id: loanRequests.id });
-
-    for (const ticket of updated) {
-      await createAuditLog(ticket.id, adminId, 'bulk_escalated', undefined, 'high', reason);
-    }
+    const { bulkAction, results } = await loanBulkService.run('escalate', adminId, { reason }, { ids, versions }, row => ({
+      set: { isEscalated: true, escalationReason: reason, priority: 'high', lastActivityAt: new Date() },
+      audit: [{ action: 'bulk_escalated', oldValue: row.priority, newValue: 'high', comment: reason }],
+    }));
 
-    console.log(`📋 Admin ${adminId} bulk escalated ${updated.length} tickets`);
-    res.json({ success: true, count: updated.length });
+    res.json({ success: true, count: bulkAction.updatedCount, bulkActionId: bulkAction.id, results });
   } catch (error: any) {
     if (error instanceof z.ZodError) return res.status(400).json({ message: error.issues[0].message });
     console.error('Bulk escalate error:', error);
@@ -273,34 +269,114 @@ export const bulkEscalateLoanRequests = async (req: AuthRequest, res: Response)
   }
 };
 
+export const bulkChangeLoanRequestStatus = async (req: AuthRequest, res: Response) => {
+  try {
+    const adminId = req.user!.userId;
+    const { ids, versions, status, comment } = bulkTargetsSchema.extend({
+      status: z.enum(LOAN_STATUSES),
+      comment: z.string().max(1000).optional(),
+    }).parse(req.body);
+
+    const { bulkAction, results } = await loanBulkService.run('status_change', adminId, { status, comment }, { ids, versions }, async (row): Promise<BulkPlan> => {
+      const check = checkTransition(row.status, status, { actor: 'admin', actorId: adminId, assigneeId: row.assigneeId, comment });
+      if (!check.allowed) return { invalid: check.message };
+
+      return {
+        set: await loanWorkflowService.buildStatusUpdate(row, status),
+        audit: [{ action: 'status_change', oldValue: row.status, newValue: status, comment: comment || null }],
+      };
+    }, ({ before, after }) => loanWorkflowService.notifyTransition(before, after, { actor: 'admin', actorId: adminId, assigneeId: after.assigneeId, comment }));
+
+    res.json({ success: true, count: bulkAction.updatedCount, bulkActionId: bulkAction.id, results });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) return res.status(400).json({ message: error.issues[0].message });
+    console.error('Bulk status change error:', error);
+    res.status(500).json({ message: 'Failed to bulk change status' });
+  }
+};
+
+export const bulkChangeLoanRequestPriority = async (req: AuthRequest, res: Response) => {
+  try {
+    const adminId = req.user!.userId;
+    const { ids, versions, priority, comment } = bulkTargetsSchema.extend({
+      priority: z.enum(['normal', 'high']),
+      comment: z.string().max(500).optional(),
+    }).parse(req.body);
+
+    const { bulkAction, results } = await loanBulkService.run('priority_change', adminId, { priority, comment }, { ids, versions }, (row): BulkPlan => {
+      if (row.priority === priority) return { invalid: `Already ${priority} priority` };
+
+      return {
+        set: { priority, lastActivityAt: new Date() },
+        audit: [{ action: 'priority_changed', oldValue: row.priority, newValue: priority, comment: comment || null }],
+      };
+    });
+
+    res.json({ success: true, count: bulkAction.updatedCount, bulkActionId: bulkAction.id, results });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) return res.status(400).json({ message: error.issues[0].message });
+    console.error('Bulk priority change error:', error);
+    res.status(500).json({ message: 'Failed to bulk change priority' });
+  }
+};
+
+// Soft delete: rows keep their history but drop out of every list and queue
+export const bulkDeleteLoanRequests = async (req: AuthRequest, res: Response) => {
+  try {
+    const adminId = req.user!.userId;
+    const { ids, versions, reason } = bulkTargetsSchema.extend({ reason: z.string().max(500).optional() }).parse(req.body);
+
+    const { bulkAction, results } = await loanBulkService.run('delete', adminId, { reason }, { ids, versions }, () => ({
+      set: { deletedAt: new Date() },
+      audit: [{ action: 'deleted', comment: reason || null }],
+    }));
+
+    res.json({ success: true, count: bulkAction.updatedCount, bulkActionId: bulkAction.id, results });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) return res.status(400).json({ message: error.issues[0].message });
+    console.error('Bulk delete error:', error);
+    res.status(500).json({ message: 'Failed to bulk delete' });
+  }
+};
+
+export const getLoanBulkAction = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!z.uuid().safeParse(id).success) return res.status(404).json({ message: 'Bulk action not found' });
+
+    const [bulkAction] = await db.select().from(loanBulkActions).where(eq(loanBulkActions.id, id)).limit(1);
+    if (!bulkAction) return res.status(404).json({ message: 'Bulk action not found' });
+
+    const auditLogs = await db
+      .select()
+      .from(loanRequestAuditLogs)
+      .where(eq(loanRequestAuditLogs.bulkActionId, id))
+      .orderBy(loanRequestAuditLogs.createdAt);
+
+    res.json({ bulkAction, auditLogs });
+  } catch (error) {
+    console.error('Get loan bulk action error:', error);
+    res.status(500).json({ message: 'Failed to fetch bulk action' });
+  }
+};
+
 export const changeAdminLoanRequestStatus = async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
     const adminId = req.user!.userId;
     const { status, comment } = z.object({
-      status: z.enum(['received', 'under_review', 'contacted', 'closed', 'rejected']),
+      status: z.enum(LOAN_STATUSES),
       comment: z.string().max(1000).optional(),
     }).parse(req.body);
 
-    if ((status === 'closed' || status === 'rejected') && !comment) return res.status(400).json({ message: 'Comment required for close/reject' });
-
     const [existing] = await db.select().from(loanRequests).where(and(eq(loanRequests.id, id), isNull(loanRequests.deletedAt))).limit(1);
     if (!existing) return res.status(404).json({ message: 'Loan request not found' });
 
-    const [updated] = await db
-      .update(loanRequests)
-      .set({ status, lastActivityAt: new Date(), version: sql`${loanRequests.version} + 1`, updatedAt: new Date() })
-      .where(and(eq(loanRequests.id, id), eq(loanRequests.version, existing.version)))
-      .returning();
-
-    if (!updated) {
-      const [current] = await db.select().from(loanRequests).where(eq(loanRequests.id, id)).limit(1);
-      return res.status(409).json({ message: 'Loan request was modified', loanRequest: current });
-    }
+    const result = await loanWorkflowService.transition(existing, status, { actor: 'admin', actorId: adminId, comment });
+    if (result.error === 'conflict') return res.status(409).json({ message: 'Loan request was modified', loanRequest: result.loanRequest });
+    if (result.error) return res.status(transitionErrorStatus(result.error)).json({ message: result.message, allowedTransitions: result.allowedTransitions });
 
-    await createAuditLog(id, adminId, 'status_change', existing.status, status, comment);
-    console.log(`📋 Admin ${adminId} changed loan request ${id} status to ${status}`);
-    res.json({ success: true, loanRequest: updated });
+    res.json({ success: true, loanRequest: result.loanRequest });
   } catch (error: any) {
     if (error instanceof z.ZodError) return res.status(400).json({ message: error.issues[0].message });
     console.error('Change status error:', error);
@@ -320,6 +396,7 @@ export const addAdminLoanRequestComment = async (req: AuthRequest, res: Response
     const [comment] = await db.insert(loanRequestComments).values({ loanRequestId: id, authorId: adminId, text, isPublic }).returning();
     await db.update(loanRequests).set({ lastActivityAt: new Date() }).where(eq(loanRequests.id, id));
     await createAuditLog(id, adminId, 'comment_added', undefined, text.substring(0, 100));
+    if (isPublic) emitLoanRequestComment([existing.userId], id, comment);
 
     const [author] = await db.select({ name: users.name }).from(users).where(eq(users.id, adminId)).limit(1);
     res.json({ success: true, comment: { ...comment, authorName: author?.name || 'Admin' } });
@@ -330,16 +407,101 @@ export const addAdminLoanRequestComment = async (req: AuthRequest, res: Response
   }
 };
 
+// Folds duplicate requests from the same customer into this one
+export const mergeLoanRequests = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const adminId = req.user!.userId;
+    const { sourceIds, comment } = z.object({
+      sourceIds: z.array(z.uuid()).min(1).max(20),
+      comment: z.string().max(500).optional(),
+    }).parse(req.body);
+
+    if (!z.uuid().safeParse(id).success) return res.status(404).json({ message: 'Loan request not found' });
+
+    const result = await loanDuplicateService.merge(id, sourceIds, adminId, comment);
+    if (result.error) return res.status(result.error === 'not_found' ? 404 : 400).json({ message: result.message });
+
+    res.json({ success: true, loanRequest: result.loanRequest, mergedIds: result.mergedIds });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) return res.status(400).json({ message: error.issues[0].message });
+    console.error('Merge loan requests error:', error);
+    res.status(500).json({ message: 'Failed to merge loan requests' });
+  }
+};
+
+// Clears a wrong duplicate flag and routes the request like a new one
+export const dismissLoanRequestDuplicate = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const adminId = req.user!.userId;
+    const { comment } = z.object({ comment: z.string().max(500).optional() }).parse(req.body ?? {});
+
+    if (!z.uuid().safeParse(id).success) return res.status(404).json({ message: 'Loan request not found' });
+
+    const result = await loanDuplicateService.dismiss(id, adminId, comment);
+    if (result.error) return res.status(result.error === 'not_found' ? 404 : 400).json({ message: result.message });
+
+    res.json({ success: true, loanRequest: result.loanRequest });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) return res.status(400).json({ message: error.issues[0].message });
+    console.error('Dismiss duplicate error:', error);
+    res.status(500).json({ message: 'Failed to dismiss duplicate' });
+  }
+};
+
+export const createAdminLenderSubmission = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const adminId = req.user!.userId;
+    const data = submissionSchema.parse(req.body);
+
+    const [existing] = await db.select().from(loanRequests).where(and(eq(loanRequests.id, id), isNull(loanRequests.deletedAt))).limit(1);
+    if (!existing) return res.status(404).json({ message: 'Loan request not found' });
+
+    const result = await lenderSubmissionService.create(existing, adminId, data);
+    if (result.error) return res.status(submissionErrorStatus(result.error)).json({ message: result.message });
+
+    res.status(201).json({ success: true, submission: result.submission });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) return res.status(400).json({ message: error.issues[0].message });
+    console.error('Create lender submission error:', error);
+    res.status(500).json({ message: 'Failed to submit to lender' });
+  }
+};
+
+export const updateAdminLenderSubmission = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id, submissionId } = req.params;
+    const adminId = req.user!.userId;
+    const data = submissionUpdateSchema.parse(req.body);
+
+    const submission = await lenderSubmissionService.findForLoanRequest(id, submissionId);
+    if (!submission) return res.status(404).json({ message: 'Submission not found' });
+
+    const result = await lenderSubmissionService.updateStatus(submission, adminId, data);
+    if (result.error) return res.status(submissionErrorStatus(result.error)).json({ message: result.message, allowedStatuses: result.allowedStatuses });
+
+    res.json({ success: true, submission: result.submission });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) return res.status(400).json({ message: error.issues[0].message });
+    console.error('Update lender submission error:', error);
+    res.status(500).json({ message: 'Failed to update submission' });
+  }
+};
+
 export const requestExport = async (req: AuthRequest, res: Response) => {
   try {
     const adminId = req.user!.userId;
-    const filters = req.body;
+    const { format = 'csv', ...filters } = loanRequestFiltersSchema.extend({ format: z.enum(EXPORT_FORMATS).optional() }).parse(req.body || {});
 
-    const [job] = await db.insert(exportJobs).values({ jobType: 'loan_requests_csv', requestedBy: adminId, filters, status: 'pending' }).returning();
+    const [job] = await db.insert(exportJobs).values({ jobType: `loan_requests_${format}`, requestedBy: adminId, filters, status: 'pending' }).returning();
+    exportService.kick();
 
     console.log(`📋 Admin ${adminId} requested export job ${job.id}`);
     res.json({ success: true, jobId: job.id, message: 'Export queued. You will be notified when ready.' });
-  } catch (error) {
+  } catch (error: any) {
+    if (error instanceof z.ZodError) return res.status(400).json({ message: error.issues[0].message });
     console.error('Request export error:', error);
     res.status(500).json({ message: 'Failed to request export' });
   }
@@ -350,7 +512,7 @@ export const getAdminLoanRequestStats = async (req: AuthRequest, res: Response)
     const [totalCount] = await db.select({ count: count() }).from(loanRequests).where(isNull(loanRequests.deletedAt));
     const [unassignedCount] = await db.select({ count: count() }).from(loanRequests).where(and(isNull(loanRequests.assigneeId), isNull(loanRequests.deletedAt)));
     const [escalatedCount] = await db.select({ count: count() }).from(loanRequests).where(and(eq(loanRequests.isEscalated, true), isNull(loanRequests.deletedAt)));
-    const [overdueCount] = await db.select({ count: count() }).from(loanRequests).where(and(sql`${loanRequests.slaDueAt} < NOW()`, sql`${loanRequests.status} NOT IN ('closed', 'rejected')`, isNull(loanRequests.deletedAt)));
+    const [overdueCount] = await db.select({ count: count() }).from(loanRequests).where(and(sql`${loanRequests.slaDueAt} < NOW()`, sql`${loanRequests.status} NOT IN ('closed', 'rejected', 'withdrawn')`, isNull(loanRequests.deletedAt)));
 
     const statusCounts = await db
       .select({ status: loanRequests.status, count: count() })
@@ -367,16 +529,51 @@ export const getAdminLoanRequestStats = async (req: AuthRequest, res: Response)
   }
 };
 
+export const getLoanAnalytics = async (req: AuthRequest, res: Response) => {
+  try {
+    const range = resolveAnalyticsRange(analyticsRangeSchema.parse(req.query));
+    if (range.error) return res.status(400).json({ message: range.error });
+
+    res.json(await loanAnalyticsService.getReport(range.from, range.to));
+  } catch (error: any) {
+    if (error instanceof z.ZodError) return res.status(400).json({ message: error.issues[0].message });
+    console.error('Get loan analytics error:', error);
+    res.status(500).json({ message: 'Failed to fetch loan analytics' });
+  }
+};
+
+export const requestLoanAnalyticsExport = async (req: AuthRequest, res: Response) => {
+  try {
+    const adminId = req.user!.userId;
+    const { format = 'xlsx', ...input } = analyticsRangeSchema.extend({ format: z.enum(EXPORT_FORMATS).optional() }).parse(req.body || {});
+
+    const range = resolveAnalyticsRange(input);
+    if (range.error) return res.status(400).json({ message: range.error });
+
+    // The resolved range is stored so the file matches what the admin saw, however long the job waits
+    const filters = { from: range.from.toISOString(), to: range.to.toISOString() };
+    const [job] = await db.insert(exportJobs).values({ jobType: `loan_analytics_${format}`, requestedBy: adminId, filters, status: 'pending' }).returning();
+    exportService.kick();
+
+    console.log(`📋 Admin ${adminId} requested analytics export job ${job.id}`);
+    res.json({ success: true, jobId: job.id, message: 'Export queued. You will be notified when ready.' });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) return res.status(400).json({ message: error.issues[0].message });
+    console.error('Request analytics export error:', error);
+    res.status(500).json({ message: 'Failed to request export' });
+  }
+};
+
 export const getFinanceEmployees = async (req: AuthRequest, res: Response) => {
   try {
     const { q } = req.query;
-    let whereConditions = [eq(users.role, 'employee'), eq(users.department, 'Finance'), eq(users.active, true)];
+    let whereConditions = [eq(users.role, 'employee'), eq(users.department, 'finance'), eq(users.active, true)];
     if (q && typeof q === 'string') whereConditions.push(or(ilike(users.name, `%${q}%`), ilike(users.email, `%${q}%`))!);
 
     const employees = await db
       .select({ id: users.id, name: users.name, email: users.email, openTickets: sql<number>`COUNT(${loanRequests.id})` })
       .from(users)
-      .leftJoin(loanRequests, and(eq(loanRequests.assigneeId, users.id), isNull(loanRequests.deletedAt), sql`${loanRequests.status} NOT IN ('closed', 'rejected')`))
+      .leftJoin(loanRequests, and(eq(loanRequests.assigneeId, users.id), isNull(loanRequests.deletedAt), sql`${loanRequests.status} NOT IN ('closed', 'rejected', 'withdrawn')`))
       .where(and(...whereConditions))
       .groupBy(users.id, users.name, users.email)
       .orderBy(users.name)
@@ -404,10 +601,14 @@ export const updateSlaConfig = async (req: AuthRequest, res: Response) => {
     const adminId = req.user!.userId;
     const { hours } = z.object({ hours: z.number().min(1).max(168) }).parse(req.body);
 
+    // Upsert so the default also works on a fresh database without a seeded row
     const [updated] = await db
-      .update(adminSlaConfigs)
-      .set({ configValue: { hours }, updatedBy: adminId, updatedAt: new Date() })
-      .where(eq(adminSlaConfigs.configKey, 'loan_request_sla_hours'))
+      .insert(adminSlaConfigs)
+      .values({ configKey: 'loan_request_sla_hours', configValue: { hours }, updatedBy: adminId })
+      .onConflictDoUpdate({
+        target: adminSlaConfigs.configKey,
+        set: { configValue: { hours }, updatedBy: adminId, updatedAt: new Date() },
+      })
       .returning();
 
     console.log(`📋 Admin ${adminId} updated SLA config to ${hours} hours`);
@@ -0,0 +1,182 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { db } from '../config/database';
+import { loanRoutingRules, loanRoutingProfiles } from '../models/loanRouting';
+import { users } from '../models/user';
+import { eq, and, inArray } from 'drizzle-orm';
+import { auditService } from '../services/auditService';
+import { loanRoutingService } from '../services/loanRoutingService';
+import { ROUTING_STRATEGIES, isOutOfOffice } from '../utils/loanRouting';
+import { LOAN_TYPES, UserRole } from '../types';
+
+interface AuthRequest extends Request {
+  user?: { userId: number; role?: UserRole };
+}
+
+const ruleSchema = z.object({
+  name: z.string().min(1).max(100),
+  position: z.number().int().min(0).max(1000).optional(),
+  loanType: z.enum(LOAN_TYPES).nullable().optional(),
+  city: z.string().min(1).max(100).nullable().optional(),
+  strategy: z.enum(ROUTING_STRATEGIES),
+  useSkills: z.boolean().optional(),
+  employeeIds: z.array(z.number().int()).max(200).optional(),
+  active: z.boolean().optional(),
+});
+
+const profileSchema = z.object({
+  acceptsAutoAssign: z.boolean().optional(),
+  maxOpenRequests: z.number().int().min(0).max(1000).nullable().optional(),
+  loanTypes: z.array(z.enum(LOAN_TYPES)).max(LOAN_TYPES.length).optional(),
+  cities: z.array(z.string().min(1).max(100)).max(50).optional(),
+  outOfOfficeFrom: z.string().datetime().nullable().optional(),
+  outOfOfficeUntil: z.string().datetime().nullable().optional(),
+}).refine(data => !data.outOfOfficeFrom || !data.outOfOfficeUntil || new Date(data.outOfOfficeUntil) > new Date(data.outOfOfficeFrom), {
+  message: 'outOfOfficeUntil must be after outOfOfficeFrom',
+});
+
+const financeEmployeeIds = async (ids: number[]) => {
+  if (ids.length === 0) return new Set<number>();
+  const rows = await db
+    .select({ id: users.id })
+    .from(users)
+    .where(and(inArray(users.id, ids), eq(users.role, 'employee'), eq(users.department, 'finance')));
+  return new Set(rows.map(row => row.id));
+};
+
+const hasUnknownEmployees = async (ids: number[] | undefined) => {
+  if (!ids?.length) return false;
+  const known = await financeEmployeeIds(ids);
+  return ids.some(id => !known.has(id));
+};
+
+const toDate = (value: string | null | undefined) => value === undefined ? undefined : value === null ? null : new Date(value);
+
+export const getLoanRoutingConfig = async (req: AuthRequest, res: Response) => {
+  try {
+    const rules = await db.select().from(loanRoutingRules).orderBy(loanRoutingRules.position, loanRoutingRules.id);
+    const now = new Date();
+    const employees = (await loanRoutingService.loadCandidates()).map(employee => ({
+      ...employee,
+      outOfOffice: isOutOfOffice(employee, now),
+    }));
+
+    res.json({ rules, employees, strategies: ROUTING_STRATEGIES });
+  } catch (error) {
+    console.error('Get loan routing config error:', error);
+    res.status(500).json({ message: 'Failed to fetch routing configuration' });
+  }
+};
+
+export const createLoanRoutingRule = async (req: AuthRequest, res: Response) => {
+  try {
+    const adminId = req.user!.userId;
+    const data = ruleSchema.parse(req.body);
+
+    if (await hasUnknownEmployees(data.employeeIds)) return res.status(400).json({ message: 'employeeIds must be finance employees' });
+
+    const [rule] = await db.insert(loanRoutingRules).values({
+      name: data.name,
+      position: data.position ?? 0,
+      loanType: data.loanType || null,
+      city: data.city?.trim() || null,
+      strategy: data.strategy,
+      useSkills: data.useSkills ?? false,
+      employeeIds: data.employeeIds || [],
+      active: data.active ?? true,
+      updatedBy: adminId,
+    }).returning();
+
+    loanRoutingService.invalidateRules();
+    await auditService.log(adminId, 'create_loan_routing_rule', 'loan_routing_rule', rule.id, data);
+
+    res.status(201).json({ success: true, rule });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) return res.status(400).json({ message: error.issues[0].message });
+    console.error('Create loan routing rule error:', error);
+    res.status(500).json({ message: 'Failed to create routing rule' });
+  }
+};
+
+export const updateLoanRoutingRule = async (req: AuthRequest, res: Response) => {
+  try {
+    const ruleId = parseInt(req.params.id);
+    const adminId = req.user!.userId;
+    if (isNaN(ruleId)) return res.status(400).json({ message: 'Invalid rule ID' });
+
+    const data = ruleSchema.partial().parse(req.body);
+    if (await hasUnknownEmployees(data.employeeIds)) return res.status(400).json({ message: 'employeeIds must be finance employees' });
+
+    const [rule] = await db
+      .update(loanRoutingRules)
+      .set({ ...data, updatedBy: adminId, updatedAt: new Date() })
+      .where(eq(loanRoutingRules.id, ruleId))
+      .returning();
+    if (!rule) return res.status(404).json({ message: 'Routing rule not found' });
+
+    loanRoutingService.invalidateRules();
+    await auditService.log(adminId, 'update_loan_routing_rule', 'loan_routing_rule', ruleId, data);
+
+    res.json({ success: true, rule });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) return res.status(400).json({ message: error.issues[0].message });
+    console.error('Update loan routing rule error:', error);
+    res.status(500).json({ message: 'Failed to update routing rule' });
+  }
+};
+
+export const deleteLoanRoutingRule = async (req: AuthRequest, res: Response) => {
+  try {
+    const ruleId = parseInt(req.params.id);
+    const adminId = req.user!.userId;
+    if (isNaN(ruleId)) return res.status(400).json({ message: 'Invalid rule ID' });
+
+    // Past assignments keep their strategy; routing_rule_id is set to null
+    const [deleted] = await db.delete(loanRoutingRules).where(eq(loanRoutingRules.id, ruleId)).returning({ id: loanRoutingRules.id, name: loanRoutingRules.name });
+    if (!deleted) return res.status(404).json({ message: 'Routing rule not found' });
+
+    loanRoutingService.invalidateRules();
+    await auditService.log(adminId, 'delete_loan_routing_rule', 'loan_routing_rule', ruleId, { name: deleted.name });
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete loan routing rule error:', error);
+    res.status(500).json({ message: 'Failed to delete routing rule' });
+  }
+};
+
+// Skills, capacity cap and out-of-office window for one finance employee
+export const updateLoanRoutingProfile = async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = parseInt(req.params.userId);
+    const adminId = req.user!.userId;
+    if (isNaN(userId)) return res.status(400).json({ message: 'Invalid user ID' });
+
+    const data = profileSchema.parse(req.body);
+    if (!(await financeEmployeeIds([userId])).has(userId)) return res.status(404).json({ message: 'Finance employee not found' });
+
+    const values = {
+      acceptsAutoAssign: data.acceptsAutoAssign,
+      maxOpenRequests: data.maxOpenRequests,
+      loanTypes: data.loanTypes,
+      cities: data.cities?.map(city => city.trim()),
+      outOfOfficeFrom: toDate(data.outOfOfficeFrom),
+      outOfOfficeUntil: toDate(data.outOfOfficeUntil),
+      updatedAt: new Date(),
+    };
+
+    const [profile] = await db
+      .insert(loanRoutingProfiles)
+      .values({ userId, ...values })
+      .onConflictDoUpdate({ target: loanRoutingProfiles.userId, set: values })
+      .returning();
+
+    await auditService.log(adminId, 'update_loan_routing_profile', 'user', userId, data);
+
+    res.json({ success: true, profile });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) return res.status(400).json({ message: error.issues[0].message });
+    console.error('Update loan routing profile error:', error);
+    res.status(500).json({ message: 'Failed to update routing profile' });
+  }
+};
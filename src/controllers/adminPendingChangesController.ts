@@ -1,15 +1,22 @@
 import { Request, Response } from 'express';
 import { z } from 'zod';
-import { db } from '../config/database';
+import { db, dbTx } from '../config/database';
 import { properties } from '../models/property';
 import { banners } from '../models/banner';
 import { propertyPendingChanges, bannerPendingChanges } from '../models/propertyPendingChange';
 import { users } from '../models/user';
 import { desc, eq, and, or, sql, ilike } from 'drizzle-orm';
 import { auditService } from '../services/auditService';
+import { UserRole } from '../types';
+import { keyset, toPage, KeysetSort } from '../utils/pagination';
+import { withCoordinates } from '../utils/geo';
+import { ProposedPropertyPayload, preparePropertyDetails } from '../utils/propertyDetails';
+import { propertyDetailsService } from '../services/propertyDetailsService';
+import { propertyPriceService } from '../services/propertyPriceService';
+import { savedSearchService } from '../services/savedSearchService';
 
 interface AuthRequest extends Request {
-  user?: { userId: string; phone: string; role?: string };
+  user?: { userId: string; phone: string; role?: UserRole };
 }
 
 const querySchema = z.object({
@@ -21,16 +28,26 @@ const querySchema = z.object({
   proposerId: z.string().optional(),
 });
 
+// Property and banner changes are listed together; both sorts share a name so one cursor pages through both
+const propertyChangeSort: KeysetSort = { name: 'newest', key: propertyPendingChanges.createdAt, keyType: 'timestamp', id: propertyPendingChanges.id, direction: 'desc' };
+const bannerChangeSort: KeysetSort = { name: 'newest', key: bannerPendingChanges.createdAt, keyType: 'timestamp', id: bannerPendingChanges.id, direction: 'desc' };
+
 export const getPendingChanges = async (req: AuthRequest, res: Response) => {
   try {
     const { type, status, cursor, limit, q, proposerId } = querySchema.parse(req.query);
     
+    const propertyPage = keyset(propertyChangeSort, cursor);
+    const bannerPage = keyset(bannerChangeSort, cursor);
+    if (propertyPage.error) {
+      return res.status(400).json({ message: propertyPage.error });
+    }
+
     const results: any[] = [];
     
     if (type === 'property' || type === 'all') {
       let conditions = [eq(propertyPendingChanges.status, status)];
       if (proposerId) conditions.push(eq(propertyPendingChanges.proposerId, parseInt(proposerId)));
-      if (cursor) conditions.push(sql`${propertyPendingChanges.createdAt} < (SELECT created_at FROM property_pending_changes WHERE id = ${cursor})`);
+      if (propertyPage.where) conditions.push(propertyPage.where);
       
       const propChanges = await db
         .select({
@@ -50,12 +67,13 @@ export const getPendingChanges = async (req: AuthRequest, res: Response) => {
           proposerAvatar: users.profileImgUrl,
           targetTitle: properties.title,
           targetThumbnail: sql<string>`(${properties.images}->0)::text`,
+          cursorKey: propertyPage.cursorKey,
         })
         .from(propertyPendingChanges)
         .leftJoin(users, eq(propertyPendingChanges.proposerId, users.id))
         .leftJoin(properties, eq(propertyPendingChanges.propertyId, properties.id))
         .where(and(...conditions))
-        .orderBy(desc(propertyPendingChanges.createdAt))
+        .orderBy(...propertyPage.orderBy)
         .limit(limit + 1);
       
       results.push(...propChanges);
@@ -64,7 +82,7 @@ export const getPendingChanges = async (req: AuthRequest, res: Response) => {
     if (type === 'banner' || type === 'all') {
       let conditions = [eq(bannerPendingChanges.status, status)];
       if (proposerId) conditions.push(eq(bannerPendingChanges.proposerId, parseInt(proposerId)));
-      if (cursor) conditions.push(sql`${bannerPendingChanges.createdAt} < (SELECT created_at FROM banner_pending_changes WHERE id = ${cursor})`);
+      if (bannerPage.where) conditions.push(bannerPage.where);
       
       const bannerChanges = await db
         .select({
@@ -84,23 +102,24 @@ export const getPendingChanges = async (req: AuthRequest, res: Response) => {
           proposerAvatar: users.profileImgUrl,
           targetTitle: banners.title,
           targetThumbnail: banners.imageUrl,
+          cursorKey: bannerPage.cursorKey,
         })
         .from(bannerPendingChanges)
         .leftJoin(users, eq(bannerPendingChanges.proposerId, users.id))
         .leftJoin(banners, eq(bannerPendingChanges.bannerId, banners.id))
         .where(and(...conditions))
-        .orderBy(desc(bannerPendingChanges.createdAt))
+        .orderBy(...bannerPage.orderBy)
         .limit(limit + 1);
       
       results.push(...bannerChanges);
     }
     
-    results.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+    // Both tables share one (created_at, id) cursor, so merge in the same order the queries used
+    results.sort((a, b) => b.cursorKey.localeCompare(a.cursorKey) || b.id.localeCompare(a.id));
     
-    const hasMore = results.length > limit;
-    const data = hasMore ? results.slice(0, limit) : results;
+    const { data, nextCursor, hasMore } = toPage(results, limit, propertyChangeSort);
     
-    res.json({ data, nextCursor: hasMore ? data[data.length - 1].id : null });
+    res.json({ data, nextCursor, hasMore });
   } catch (error: any) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ message: error.issues[0].message });
@@ -200,57 +219,75 @@ export const approvePendingChange = async (req: AuthRequest, res: Response) => {
       }
       
       const payload = applyAs === 'mergedPayload' && mergedPayload ? mergedPayload : propChange.proposedPayload;
+
+      const details = preparePropertyDetails(payload as ProposedPropertyPayload, await propertyDetailsService.currentKind(propChange.propertyId));
+      if (details.error) {
+        return res.status(400).json({ message: details.error });
+      }
       
-      let property;
-      let oldProperty = null;
-      
-      try {
+      const [oldProperty] = propChange.propertyId
+        ? await db.select().from(properties).where(eq(properties.id, propChange.propertyId)).limit(1)
+        : [null];
+
+      // The property row, its units, its price history and the change's status commit together
+      const { property, units, priceEntry } = await dbTx.transaction(async (tx) => {
+        let property;
         if (propChange.propertyId) {
-          [oldProperty] = await db.select().from(properties).where(eq(properties.id, propChange.propertyId)).limit(1);
-          
-          const updateData: any = { ...payload, updatedAt: new Date() };
+          const updateData: any = { ...withCoordinates(details.payload), updatedAt: new Date() };
           if (payload.price !== undefined) {
             updateData.price = payload.price === null || payload.price === '' ? null : payload.price.toString();
           }
           
-          [property] = await db
+          [property] = await tx
             .update(properties)
             .set(updateData)
             .where(eq(properties.id, propChange.propertyId))
             .returning();
         } else {
-          [property] = await db.insert(properties).values({
-            ...payload,
+          [property] = await tx.insert(properties).values({
+            ...withCoordinates(details.payload),
             assignedEmployeeId: propChange.proposerId,
             createdByEmployeeId: propChange.proposerId,
           }).returning();
         }
+
+        const units = details.units
+          ? await propertyDetailsService.replaceUnits(property.id, details.units, tx)
+          : await propertyDetailsService.listUnits(property.id, tx);
         
-        await db
+        await tx
           .update(propertyPendingChanges)
           .set({ status: 'approved', reviewedAt: new Date(), reviewedByAdminId: adminId })
           .where(eq(propertyPendingChanges.id, changeId));
-        
-        const result = property;
-        
-        await auditService.log(adminId, 'property_change_approve', 'property', undefined, { 
-          propertyId: result.id, 
-          changeId,
-          before: oldProperty,
-          after: result 
-        });
-        
-        return res.json(result);
-      } catch (error) {
-        if (property && propChange.propertyId && oldProperty) {
-          try {
-            await db.update(properties).set(oldProperty).where(eq(properties.id, propChange.propertyId));
-          } catch (rollbackError) {
-            console.error('Failed to rollback property update:', rollbackError);
-          }
-        }
-        throw error;
+
+        const priceEntry = await propertyPriceService.record({
+          propertyId: property.id,
+          before: propChange.propertyId ? oldProperty?.price ?? null : undefined,
+          after: property.price,
+          source: 'pending_change',
+          changedById: adminId,
+          proposedById: propChange.proposerId,
+          pendingChangeId: propChange.id,
+        }, tx);
+
+        return { property, units, priceEntry };
+      });
+
+      propertyPriceService.alertIfDropped(priceEntry);
+      if (!propChange.propertyId) {
+        savedSearchService.queueNewPropertyAlerts(property.id);
       }
+      
+      const result = { ...property, units };
+      
+      await auditService.log(adminId, 'property_change_approve', 'property', undefined, { 
+        propertyId: result.id, 
+        changeId,
+        before: oldProperty,
+        after: result 
+      });
+      
+      return res.json(result);
     }
     
     const [bannerChange] = await db
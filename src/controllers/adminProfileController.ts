@@ -3,12 +3,15 @@ import { z } from 'zod';
 import { db } from '../config/database';
 import { users, adminAuditLogs } from '../models/user';
 import { eq } from 'drizzle-orm';
+import { sessionService } from '../services/sessionService';
+import { departmentSchema, UserRole } from '../types';
 
 interface AuthRequest extends Request {
   user?: {
     userId: string;
     phone: string;
-    role?: string;
+    role?: UserRole;
+    sessionId?: string;
   };
 }
 
@@ -16,7 +19,7 @@ const adminProfileSchema = z.object({
   name: z.string().min(2).optional(),
   email: z.string().email().optional(),
   city: z.string().min(2).optional(),
-  department: z.string().optional(),
+  department: departmentSchema.optional(),
   profileImgUrl: z.string().url().optional(),
   dateOfBirth: z.string().optional(),
 });
@@ -106,6 +109,10 @@ export const logout = async (req: AuthRequest, res: Response) => {
   try {
     const userId = parseInt(req.user?.userId!);
     
+    if (req.user?.sessionId) {
+      await sessionService.revoke(req.user.sessionId, 'logout', userId, userId);
+    }
+    
     // Write audit log
     await db.insert(adminAuditLogs).values({
       adminId: userId,
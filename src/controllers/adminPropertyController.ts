@@ -1,14 +1,23 @@
 import { Request, Response } from 'express';
 import { z } from 'zod';
-import { db } from '../config/database';
+import { db, dbTx } from '../config/database';
 import { properties } from '../models/property';
 import { propertyPendingChanges } from '../models/propertyPendingChange';
 import { propertyEmployeeAssignments } from '../models/propertyAssignment';
-import { desc, eq, and, or, ilike, sql } from 'drizzle-orm';
+import { desc, eq, and, or, ilike, getTableColumns } from 'drizzle-orm';
 import { auditService } from '../services/auditService';
+import { UserRole } from '../types';
+import { keyset, toPage, KeysetSort } from '../utils/pagination';
+import { resolveCoordinates, coordinateColumns, coordinateChanges, withCoordinates } from '../utils/geo';
+import { ProposedPropertyPayload, preparePropertyDetails } from '../utils/propertyDetails';
+import { propertyDetailsService } from '../services/propertyDetailsService';
+import { propertyPriceService } from '../services/propertyPriceService';
+import { favouriteCountSql, popularPropertySort } from '../utils/favourites';
+import { savedSearchService } from '../services/savedSearchService';
+import { PROPERTY_KINDS } from '../config/propertyAttributes';
 
 interface AuthRequest extends Request {
-  user?: { userId: string; phone: string; role?: string };
+  user?: { userId: string; phone: string; role?: UserRole };
 }
 
 const querySchema = z.object({
@@ -16,24 +25,32 @@ const querySchema = z.object({
   cursor: z.string().optional(),
   limit: z.string().optional().default('20').transform(val => Math.min(parseInt(val) || 20, 50)),
   q: z.string().optional(),
+  sort: z.enum(['newest', 'popular']).optional().default('newest'),
 });
 
+const propertySort: KeysetSort = { name: 'newest', key: properties.createdAt, keyType: 'timestamp', id: properties.id, direction: 'desc' };
+const pendingChangeSort: KeysetSort = { name: 'newest', key: propertyPendingChanges.createdAt, keyType: 'timestamp', id: propertyPendingChanges.id, direction: 'desc' };
+
 export const getAdminProperties = async (req: AuthRequest, res: Response) => {
   try {
-    const { status, cursor, limit, q } = querySchema.parse(req.query);
+    const { status, cursor, limit, q, sort } = querySchema.parse(req.query);
     
     if (status === 'pending') {
+      const pendingPage = keyset(pendingChangeSort, cursor);
+      if (pendingPage.error) {
+        return res.status(400).json({ message: pendingPage.error });
+      }
+
       const pendingChanges = await db
-        .select()
+        .select({ ...getTableColumns(propertyPendingChanges), cursorKey: pendingPage.cursorKey })
         .from(propertyPendingChanges)
-        .where(eq(propertyPendingChanges.status, 'pending'))
-        .orderBy(desc(propertyPendingChanges.createdAt))
+        .where(and(eq(propertyPendingChanges.status, 'pending'), pendingPage.where))
+        .orderBy(...pendingPage.orderBy)
         .limit(limit + 1);
       
-      const hasMore = pendingChanges.length > limit;
-      const data = hasMore ? pendingChanges.slice(0, limit) : pendingChanges;
+      const { data, nextCursor, hasMore } = toPage(pendingChanges, limit, pendingChangeSort);
       
-      return res.json({ data, nextCursor: hasMore ? data[data.length - 1].id : null });
+      return res.json({ data, nextCursor, hasMore });
     }
     
     let whereConditions = [eq(properties.deleted, false)];
@@ -47,19 +64,21 @@ export const getAdminProperties = async (req: AuthRequest, res: Response) => {
       );
     }
     
-    if (cursor) {
-      whereConditions.push(sql`${properties.createdAt} < (SELECT created_at FROM properties WHERE id = ${cursor})`);
+    const listSort = sort === 'popular' ? popularPropertySort : propertySort;
+    const page = keyset(listSort, cursor);
+    if (page.error) {
+      return res.status(400).json({ message: page.error });
     }
+    if (page.where) whereConditions.push(page.where);
     
-    const results = await db.select().from(properties)
+    const results = await db.select({ ...getTableColumns(properties), favouriteCount: favouriteCountSql, cursorKey: page.cursorKey }).from(properties)
       .where(and(...whereConditions))
-      .orderBy(desc(properties.createdAt))
+      .orderBy(...page.orderBy)
       .limit(limit + 1);
     
-    const hasMore = results.length > limit;
-    const data = hasMore ? results.slice(0, limit) : results;
+    const { data, nextCursor, hasMore } = toPage(results, limit, listSort);
     
-    res.json({ data, nextCursor: hasMore ? data[data.length - 1].id : null });
+    res.json({ data, nextCursor, hasMore });
   } catch (error: any) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ message: error.issues[0].message });
@@ -84,7 +103,9 @@ export const getAdminPropertyById = async (req: AuthRequest, res: Response) => {
       .from(propertyPendingChanges)
       .where(and(eq(propertyPendingChanges.propertyId, id), eq(propertyPendingChanges.status, 'pending')));
     
-    res.json({ ...property[0], pendingChanges });
+    const units = await propertyDetailsService.listUnits(id);
+
+    res.json({ ...property[0], units, pendingChanges });
   } catch (error) {
     console.error('Error fetching property by ID:', error);
     res.status(500).json({ message: 'Failed to fetch property' });
@@ -105,11 +126,14 @@ const propertySchema = z.object({
   apartmentType: z.array(z.string()).optional(),
   plotSize: z.string().optional(),
   brochureUrl: z.string().optional(),
-  latitude: z.string().optional(),
-  longitude: z.string().optional(),
+  latitude: z.string().nullable().optional(), // null or empty clears the pair on update
+  longitude: z.string().nullable().optional(),
   map: z.string().optional(),
   website: z.string().optional(),
   propertyStatus: z.string().optional(),
+  propertyKind: z.enum(PROPERTY_KINDS).nullable().optional(),
+  attributes: z.record(z.string(), z.unknown()).nullable().optional(),
+  units: z.array(z.unknown()).optional(),
   assignedEmployeeId: z.number().optional(),
   assignedAgentId: z.number().optional(),
 });
@@ -119,16 +143,31 @@ export const createAdminProperty = async (req: AuthRequest, res: Response) => {
     const data = propertySchema.parse(req.body);
     const adminId = parseInt(req.user!.userId);
     
-    const insertData: any = { ...data };
+    const location = resolveCoordinates(data);
+    if (location.error) {
+      return res.status(400).json({ message: location.error });
+    }
+
+    const details = preparePropertyDetails(data);
+    if (details.error) {
+      return res.status(400).json({ message: details.error });
+    }
+
+    const insertData: any = { ...details.payload };
     if (data.price) insertData.price = data.price.toString();
-    if (data.latitude) insertData.latitude = data.latitude.toString();
-    if (data.longitude) insertData.longitude = data.longitude.toString();
+    if (location.coordinates) Object.assign(insertData, coordinateColumns(location.coordinates));
     
-    const [property] = await db.insert(properties).values(insertData).returning();
+    const { property, units } = await dbTx.transaction(async (tx) => {
+      const [property] = await tx.insert(properties).values(insertData).returning();
+      const units = details.units?.length ? await propertyDetailsService.replaceUnits(property.id, details.units, tx) : [];
+      await propertyPriceService.record({ propertyId: property.id, before: undefined, after: property.price, source: 'created', changedById: adminId }, tx);
+      return { property, units };
+    });
+    savedSearchService.queueNewPropertyAlerts(property.id);
     
     await auditService.log(adminId, 'property_create', 'property', undefined, { propertyId: property.id });
     
-    res.status(201).json(property);
+    res.status(201).json({ ...property, units });
   } catch (error: any) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ message: error.issues[0].message });
@@ -143,27 +182,60 @@ export const updateAdminProperty = async (req: AuthRequest, res: Response) => {
     const data = propertySchema.partial().parse(req.body);
     const adminId = parseInt(req.user!.userId);
     
-    const updateData: any = { ...data, updatedAt: new Date() };
+    const [existing] = await db
+      .select({ price: properties.price, propertyKind: properties.propertyKind, map: properties.map })
+      .from(properties)
+      .where(eq(properties.id, id))
+      .limit(1);
+    
+    if (!existing) {
+      return res.status(404).json({ message: 'Property not found' });
+    }
+
+    const details = preparePropertyDetails(data, existing.propertyKind);
+    if (details.error) {
+      return res.status(400).json({ message: details.error });
+    }
+
+    const updateData: any = { ...details.payload, updatedAt: new Date() };
     // Handle price: set to null if explicitly null/empty, otherwise convert to string
     if (data.price !== undefined) {
       updateData.price = data.price === null || data.price === '' ? null : data.price.toString();
     }
-    if (data.latitude) updateData.latitude = data.latitude.toString();
-    if (data.longitude) updateData.longitude = data.longitude.toString();
+    // Coordinates follow an explicit pair, or else a changed map link; either can clear them
+    const coordinates = coordinateChanges(data, existing.map);
+    if (coordinates.error) {
+      return res.status(400).json({ message: coordinates.error });
+    }
+    delete updateData.latitude;
+    delete updateData.longitude;
+    Object.assign(updateData, coordinates.columns);
     
-    const [property] = await db
-      .update(properties)
-      .set(updateData)
-      .where(eq(properties.id, id))
-      .returning();
+    const saved = await dbTx.transaction(async (tx) => {
+      const [property] = await tx
+        .update(properties)
+        .set(updateData)
+        .where(eq(properties.id, id))
+        .returning();
+      if (!property) return null;
+
+      const units = details.units
+        ? await propertyDetailsService.replaceUnits(id, details.units, tx)
+        : await propertyDetailsService.listUnits(id, tx);
+      const priceEntry = await propertyPriceService.record({ propertyId: id, before: existing.price, after: property.price, source: 'admin_edit', changedById: adminId }, tx);
+      return { property, units, priceEntry };
+    });
     
-    if (!property) {
+    if (!saved) {
       return res.status(404).json({ message: 'Property not found' });
     }
+    const { property, units, priceEntry } = saved;
+
+    propertyPriceService.alertIfDropped(priceEntry);
     
     await auditService.log(adminId, 'property_update', 'property', undefined, { propertyId: id });
     
-    res.json(property);
+    res.json({ ...property, units });
   } catch (error: any) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ message: error.issues[0].message });
@@ -208,20 +280,29 @@ export const approvePendingChange = async (req: AuthRequest, res: Response) => {
     if (!change) {
       return res.status(404).json({ message: 'Pending change not found' });
     }
+
+    const [current] = change.propertyId
+      ? await db.select({ price: properties.price, propertyKind: properties.propertyKind }).from(properties).where(eq(properties.id, change.propertyId)).limit(1)
+      : [];
+
+    const details = preparePropertyDetails(change.proposedPayload as ProposedPropertyPayload, current?.propertyKind);
+    if (details.error) {
+      return res.status(400).json({ message: details.error });
+    }
     
-    const result = await db.transaction(async (tx) => {
+    const { result, units, priceEntry } = await dbTx.transaction(async (tx) => {
       let property;
       
       if (change.propertyId) {
         await tx
           .update(properties)
-          .set({ ...change.proposedPayload, updatedAt: new Date() })
+          .set({ ...withCoordinates(details.payload), updatedAt: new Date() })
           .where(eq(properties.id, id));
         
         [property] = await tx.select().from(properties).where(eq(properties.id, id));
       } else {
         [property] = await tx.insert(properties).values({
-          ...change.proposedPayload,
+          ...withCoordinates(details.payload),
           assignedEmployeeId: change.proposerId,
           createdByEmployeeId: change.proposerId,
         }).returning();
@@ -231,13 +312,31 @@ export const approvePendingChange = async (req: AuthRequest, res: Response) => {
         .update(propertyPendingChanges)
         .set({ status: 'approved', reviewedAt: new Date(), reviewedByAdminId: adminId })
         .where(eq(propertyPendingChanges.id, changeId));
-      
-      return property;
+
+      const units = details.units
+        ? await propertyDetailsService.replaceUnits(property.id, details.units, tx)
+        : await propertyDetailsService.listUnits(property.id, tx);
+
+      const priceEntry = await propertyPriceService.record({
+        propertyId: property.id,
+        before: change.propertyId ? current?.price ?? null : undefined,
+        after: property.price,
+        source: 'pending_change',
+        changedById: adminId,
+        proposedById: change.proposerId,
+        pendingChangeId: change.id,
+      }, tx);
+      return { result: property, units, priceEntry };
     });
+
+    propertyPriceService.alertIfDropped(priceEntry);
+    if (!change.propertyId) {
+      savedSearchService.queueNewPropertyAlerts(result.id);
+    }
     
     await auditService.log(adminId, 'property_change_approve', 'property', undefined, { propertyId: result.id, changeId });
     
-    res.json(result);
+    res.json({ ...result, units });
   } catch (error) {
     console.error('Error approving pending change:', error);
     res.status(500).json({ message: 'Failed to approve change' });
@@ -330,23 +429,52 @@ export const submitAdminDraft = async (req: AuthRequest, res: Response) => {
     if (!draft) {
       return res.status(404).json({ message: 'Draft not found' });
     }
+
+    const [current] = draft.propertyId
+      ? await db.select({ price: properties.price, propertyKind: properties.propertyKind }).from(properties).where(eq(properties.id, draft.propertyId)).limit(1)
+      : [];
+
+    const details = preparePropertyDetails(draft.proposedPayload as ProposedPropertyPayload, current?.propertyKind);
+    if (details.error) {
+      return res.status(400).json({ message: details.error });
+    }
     
-    let property;
-    if (draft.propertyId) {
-      [property] = await db
-        .update(properties)
-        .set({ ...draft.proposedPayload, updatedAt: new Date() })
-        .where(eq(properties.id, draft.propertyId))
-        .returning();
-    } else {
-      [property] = await db.insert(properties).values(draft.proposedPayload).returning();
+    const { property, units, priceEntry } = await dbTx.transaction(async (tx) => {
+      let property;
+      if (draft.propertyId) {
+        [property] = await tx
+          .update(properties)
+          .set({ ...withCoordinates(details.payload), updatedAt: new Date() })
+          .where(eq(properties.id, draft.propertyId))
+          .returning();
+      } else {
+        [property] = await tx.insert(properties).values(withCoordinates(details.payload)).returning();
+      }
+
+      const units = details.units
+        ? await propertyDetailsService.replaceUnits(property.id, details.units, tx)
+        : await propertyDetailsService.listUnits(property.id, tx);
+
+      const priceEntry = await propertyPriceService.record({
+        propertyId: property.id,
+        before: draft.propertyId ? current?.price ?? null : undefined,
+        after: property.price,
+        source: 'admin_draft',
+        changedById: adminId,
+      }, tx);
+      return { property, units, priceEntry };
+    });
+
+    propertyPriceService.alertIfDropped(priceEntry);
+    if (!draft.propertyId) {
+      savedSearchService.queueNewPropertyAlerts(property.id);
     }
     
     await db.delete(propertyPendingChanges).where(eq(propertyPendingChanges.id, draftId));
     
     await auditService.log(adminId, 'property_draft_submit', 'property', undefined, { draftId, propertyId: property.id });
     
-    res.json(property);
+    res.json({ ...property, units });
   } catch (error) {
     console.error('Error submitting draft:', error);
     res.status(500).json({ message: 'Failed to submit draft' });
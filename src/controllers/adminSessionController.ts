@@ -0,0 +1,72 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { db } from '../config/database';
+import { users } from '../models/user';
+import { eq } from 'drizzle-orm';
+import { auditService } from '../services/auditService';
+import { sessionService } from '../services/sessionService';
+import { UserRole } from '../types';
+
+interface AuthRequest extends Request {
+  user?: {
+    userId: number;
+    role?: UserRole;
+  };
+}
+
+const revokeSchema = z.object({
+  sessionId: z.string().uuid().optional(),
+  reason: z.string().max(500).optional(),
+});
+
+export const getUserSessions = async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = parseInt(req.params.id);
+    if (isNaN(userId)) {
+      return res.status(400).json({ message: 'Invalid user ID' });
+    }
+
+    const sessions = await sessionService.list(userId);
+    res.json({ data: sessions });
+  } catch (error) {
+    console.error('Get user sessions error:', error);
+    res.status(500).json({ message: 'Failed to fetch sessions' });
+  }
+};
+
+export const revokeUserSessions = async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = parseInt(req.params.id);
+    const adminId = req.user!.userId;
+    const { sessionId, reason } = revokeSchema.parse(req.body || {});
+
+    if (isNaN(userId)) {
+      return res.status(400).json({ message: 'Invalid user ID' });
+    }
+
+    const [user] = await db.select({ id: users.id, name: users.name }).from(users).where(eq(users.id, userId)).limit(1);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    const count = sessionId
+      ? await sessionService.revoke(sessionId, 'admin_revoked', adminId, userId)
+      : await sessionService.revokeAll(userId, 'admin_revoked', adminId);
+
+    await auditService.log(adminId, 'revoke_user_sessions', 'user', userId, {
+      userName: user.name,
+      sessionId: sessionId || null,
+      sessionsRevoked: count,
+      reason,
+    });
+
+    console.log(`🔒 Admin ${adminId} revoked ${count} session(s) for user ${userId}`);
+    res.json({ success: true, sessionsRevoked: count });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: error.issues[0].message });
+    }
+    console.error('Revoke user sessions error:', error);
+    res.status(500).json({ message: 'Failed to revoke sessions' });
+  }
+};
@@ -0,0 +1,197 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { db } from '../config/database';
+import { loanSlaPolicies, slaCalendars } from '../models/slaPolicy';
+import { eq } from 'drizzle-orm';
+import { auditService } from '../services/auditService';
+import { slaService } from '../services/slaService';
+import { parseTimeOfDay } from '../utils/slaCalendar';
+import { LOAN_TYPES, UserRole } from '../types';
+
+interface AuthRequest extends Request {
+  user?: { userId: number; role?: UserRole };
+}
+
+const timeOfDaySchema = z.string().refine(value => parseTimeOfDay(value) !== null, { message: 'Times must be HH:MM' });
+
+const calendarSchema = z.object({
+  name: z.string().min(1).max(100),
+  utcOffsetMinutes: z.number().int().min(-720).max(840).optional(),
+  workDays: z.array(z.number().int().min(0).max(6)).min(1).max(7),
+  startTime: timeOfDaySchema,
+  endTime: timeOfDaySchema,
+  holidays: z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Holidays must be YYYY-MM-DD')).optional(),
+}).refine(data => parseTimeOfDay(data.endTime)! > parseTimeOfDay(data.startTime)!, { message: 'endTime must be after startTime' });
+
+const policySchema = z.object({
+  name: z.string().min(1).max(100),
+  priority: z.enum(['normal', 'high']).nullable().optional(),
+  loanType: z.enum(LOAN_TYPES).nullable().optional(),
+  responseHours: z.number().int().min(1).max(720),
+  calendarId: z.number().int().nullable().optional(),
+  active: z.boolean().optional(),
+});
+
+const calendarExists = async (calendarId: number | null | undefined) => {
+  if (!calendarId) return true;
+  const [calendar] = await db.select({ id: slaCalendars.id }).from(slaCalendars).where(eq(slaCalendars.id, calendarId)).limit(1);
+  return Boolean(calendar);
+};
+
+export const getSlaPolicies = async (req: AuthRequest, res: Response) => {
+  try {
+    const policies = await db.select().from(loanSlaPolicies).orderBy(loanSlaPolicies.id);
+    const calendars = await db.select().from(slaCalendars).orderBy(slaCalendars.id);
+    const defaultHours = await slaService.getDefaultHours();
+
+    res.json({ policies, calendars, defaultHours });
+  } catch (error) {
+    console.error('Get SLA policies error:', error);
+    res.status(500).json({ message: 'Failed to fetch SLA policies' });
+  }
+};
+
+export const createSlaPolicy = async (req: AuthRequest, res: Response) => {
+  try {
+    const adminId = req.user!.userId;
+    const data = policySchema.parse(req.body);
+
+    if (!(await calendarExists(data.calendarId))) return res.status(400).json({ message: 'Unknown calendar' });
+
+    const [policy] = await db.insert(loanSlaPolicies).values({
+      name: data.name,
+      priority: data.priority || null,
+      loanType: data.loanType || null,
+      responseHours: data.responseHours,
+      calendarId: data.calendarId || null,
+      active: data.active ?? true,
+      updatedBy: adminId,
+    }).returning();
+
+    slaService.invalidatePolicies();
+    await auditService.log(adminId, 'create_sla_policy', 'sla_policy', policy.id, data);
+
+    res.status(201).json({ success: true, policy });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) return res.status(400).json({ message: error.issues[0].message });
+    console.error('Create SLA policy error:', error);
+    res.status(500).json({ message: 'Failed to create SLA policy' });
+  }
+};
+
+export const updateSlaPolicy = async (req: AuthRequest, res: Response) => {
+  try {
+    const policyId = parseInt(req.params.id);
+    const adminId = req.user!.userId;
+    if (isNaN(policyId)) return res.status(400).json({ message: 'Invalid policy ID' });
+
+    const data = policySchema.partial().parse(req.body);
+    if (!(await calendarExists(data.calendarId))) return res.status(400).json({ message: 'Unknown calendar' });
+
+    const [policy] = await db
+      .update(loanSlaPolicies)
+      .set({ ...data, updatedBy: adminId, updatedAt: new Date() })
+      .where(eq(loanSlaPolicies.id, policyId))
+      .returning();
+    if (!policy) return res.status(404).json({ message: 'SLA policy not found' });
+
+    slaService.invalidatePolicies();
+    await auditService.log(adminId, 'update_sla_policy', 'sla_policy', policyId, data);
+
+    res.json({ success: true, policy });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) return res.status(400).json({ message: error.issues[0].message });
+    console.error('Update SLA policy error:', error);
+    res.status(500).json({ message: 'Failed to update SLA policy' });
+  }
+};
+
+export const deleteSlaPolicy = async (req: AuthRequest, res: Response) => {
+  try {
+    const policyId = parseInt(req.params.id);
+    const adminId = req.user!.userId;
+    if (isNaN(policyId)) return res.status(400).json({ message: 'Invalid policy ID' });
+
+    const [deleted] = await db.delete(loanSlaPolicies).where(eq(loanSlaPolicies.id, policyId)).returning({ id: loanSlaPolicies.id, name: loanSlaPolicies.name });
+    if (!deleted) return res.status(404).json({ message: 'SLA policy not found' });
+
+    slaService.invalidatePolicies();
+    await auditService.log(adminId, 'delete_sla_policy', 'sla_policy', policyId, { name: deleted.name });
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete SLA policy error:', error);
+    res.status(500).json({ message: 'Failed to delete SLA policy' });
+  }
+};
+
+export const createSlaCalendar = async (req: AuthRequest, res: Response) => {
+  try {
+    const adminId = req.user!.userId;
+    const data = calendarSchema.parse(req.body);
+
+    const [calendar] = await db.insert(slaCalendars).values({
+      name: data.name,
+      utcOffsetMinutes: data.utcOffsetMinutes ?? 330,
+      workDays: data.workDays,
+      startTime: data.startTime,
+      endTime: data.endTime,
+      holidays: data.holidays || [],
+    }).returning();
+
+    slaService.invalidatePolicies();
+    await auditService.log(adminId, 'create_sla_calendar', 'sla_calendar', calendar.id, data);
+
+    res.status(201).json({ success: true, calendar });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) return res.status(400).json({ message: error.issues[0].message });
+    console.error('Create SLA calendar error:', error);
+    res.status(500).json({ message: 'Failed to create SLA calendar' });
+  }
+};
+
+export const updateSlaCalendar = async (req: AuthRequest, res: Response) => {
+  try {
+    const calendarId = parseInt(req.params.id);
+    const adminId = req.user!.userId;
+    if (isNaN(calendarId)) return res.status(400).json({ message: 'Invalid calendar ID' });
+
+    const data = calendarSchema.parse(req.body);
+
+    const [calendar] = await db
+      .update(slaCalendars)
+      .set({ ...data, holidays: data.holidays || [], updatedAt: new Date() })
+      .where(eq(slaCalendars.id, calendarId))
+      .returning();
+    if (!calendar) return res.status(404).json({ message: 'SLA calendar not found' });
+
+    slaService.invalidatePolicies();
+    await auditService.log(adminId, 'update_sla_calendar', 'sla_calendar', calendarId, data);
+
+    res.json({ success: true, calendar });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) return res.status(400).json({ message: error.issues[0].message });
+    console.error('Update SLA calendar error:', error);
+    res.status(500).json({ message: 'Failed to update SLA calendar' });
+  }
+};
+
+export const deleteSlaCalendar = async (req: AuthRequest, res: Response) => {
+  try {
+    const calendarId = parseInt(req.params.id);
+    const adminId = req.user!.userId;
+    if (isNaN(calendarId)) return res.status(400).json({ message: 'Invalid calendar ID' });
+
+    // Policies using this calendar fall back to wall-clock hours (calendar_id ON DELETE SET NULL)
+    const [deleted] = await db.delete(slaCalendars).where(eq(slaCalendars.id, calendarId)).returning({ id: slaCalendars.id, name: slaCalendars.name });
+    if (!deleted) return res.status(404).json({ message: 'SLA calendar not found' });
+
+    slaService.invalidatePolicies();
+    await auditService.log(adminId, 'delete_sla_calendar', 'sla_calendar', calendarId, { name: deleted.name });
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete SLA calendar error:', error);
+    res.status(500).json({ message: 'Failed to delete SLA calendar' });
+  }
+};
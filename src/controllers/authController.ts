@@ -1,31 +1,27 @@
 import { Request, Response } from 'express';
 import { z } from 'zod';
-import jwt from 'jsonwebtoken';
 import { db } from '../config/database';
 import { users } from '../models/user';
 import { eq } from 'drizzle-orm';
-import { msg91Service } from '../services/msg91Service';
+import { otpService } from '../services/otpService';
+import { otpStore, MAX_OTP_REQUESTS_PER_PHONE, MAX_OTP_REQUESTS_PER_IP } from '../services/otpStore';
 import { auditService } from '../services/auditService';
+import { sessionService } from '../services/sessionService';
+import { permissionService } from '../services/permissionService';
 import { invalidateDashboardCache } from '../controllers/dashboardController';
+import { UserRole } from '../types';
 
 interface AuthRequest extends Request {
   user?: {
     userId: string;
     phone: string;
-    role?: string;
+    role?: UserRole;
     active?: boolean;
     approved?: boolean;
+    sessionId?: string;
   };
 }
 
-// Session storage for 2Factor.in
-const sessionStore = new Map<string, { sessionId: string; expires: number }>();
-
-// Rate limiting for OTP requests
-const otpRateLimit = new Map<string, { count: number; resetTime: number }>();
-const MAX_OTP_REQUESTS = 500;
-const RATE_LIMIT_WINDOW = 15 * 60 * 1000;
-
 const phoneSchema = z.object({
   phone: z.string().regex(/^\+[1-9]\d{1,14}$/, 'Invalid phone number'),
 });
@@ -35,7 +31,7 @@ const otpSchema = z.object({
   otp: z.string().length(4, 'OTP must be 4 digits'),
 });
 
-
+const minutesUntil = (date: Date) => Math.max(1, Math.ceil((date.getTime() - Date.now()) / (60 * 1000)));
 
 export const sendOTP = async (req: Request, res: Response) => {
   console.log('\n📞 [OTP REQUEST] Incoming request to send OTP');
@@ -45,44 +41,41 @@ export const sendOTP = async (req: Request, res: Response) => {
     const { phone } = phoneSchema.parse(req.body);
     console.log(`✅ Phone validated: ${phone}`);
     
+    // Check verify lockout
+    const existingSession = await otpStore.getSession(phone);
+    if (existingSession?.lockedUntil && existingSession.lockedUntil > new Date()) {
+      console.log(`🔒 Phone locked after failed verifications: ${phone}`);
+      return res.status(429).json({ 
+        message: `Too many failed attempts. Please try again in ${minutesUntil(existingSession.lockedUntil)} minutes.` 
+      });
+    }
+    
     // Check rate limiting
     console.log('🔍 Checking rate limit...');
-    const now = Date.now();
-    const rateData = otpRateLimit.get(phone);
-    
-    if (rateData) {
-      if (now > rateData.resetTime) {
-        console.log('⏰ Rate limit window expired, resetting counter');
-        otpRateLimit.set(phone, { count: 1, resetTime: now + RATE_LIMIT_WINDOW });
-      } else if (rateData.count >= MAX_OTP_REQUESTS) {
-        const remainingTime = Math.ceil((rateData.resetTime - now) / (60 * 1000));
-        console.log(`❌ Rate limit exceeded for ${phone}`);
-        return res.status(429).json({ 
-          message: `Too many OTP requests. Please try again in ${remainingTime} minutes.` 
-        });
-      } else {
-        console.log(`📊 Rate limit count: ${rateData.count + 1}/${MAX_OTP_REQUESTS}`);
-        rateData.count++;
-      }
-    } else {
-      console.log('✅ First OTP request for this phone');
-      otpRateLimit.set(phone, { count: 1, resetTime: now + RATE_LIMIT_WINDOW });
+    const phoneLimit = await otpStore.hit(`phone:${phone}`, MAX_OTP_REQUESTS_PER_PHONE);
+    const ipLimit = await otpStore.hit(`ip:${req.ip}`, MAX_OTP_REQUESTS_PER_IP);
+    
+    if (!phoneLimit.allowed || !ipLimit.allowed) {
+      const resetAt = !phoneLimit.allowed ? phoneLimit.resetAt : ipLimit.resetAt;
+      console.log(`❌ Rate limit exceeded for ${phone} (${req.ip})`);
+      return res.status(429).json({ 
+        message: `Too many OTP requests. Please try again in ${minutesUntil(resetAt)} minutes.` 
+      });
     }
+    console.log(`📊 Rate limit count: ${phoneLimit.count}/${MAX_OTP_REQUESTS_PER_PHONE}`);
     
-    // Send OTP via MSG91
-    console.log('📤 Sending OTP via MSG91...');
-    const result = await msg91Service.sendOTP(phone);
+    // Send OTP via the configured provider chain
+    const result = await otpService.sendOTP(phone);
     
     if (!result.success) {
       console.log(`❌ OTP send failed: ${result.message}`);
       return res.status(400).json({ message: result.message });
     }
     
-    console.log('✅ OTP sent successfully');
+    console.log(`✅ OTP sent successfully via ${result.provider}`);
     
     // Store session ID
-    const expires = Date.now() + 10 * 60 * 1000;
-    sessionStore.set(phone, { sessionId: result.sessionId!, expires });
+    await otpStore.saveSession(phone, result.provider!, result.sessionId!);
     console.log(`💾 Session stored for ${phone}`);
     console.log('✅ [OTP REQUEST] Completed successfully\n');
     
@@ -118,6 +111,8 @@ export const getMe = async (req: AuthRequest, res: Response) => {
     }
 
     console.log(`✅ User found - Role: ${user[0].role}, Active: ${user[0].active}`);
+    
+    const permissions = await permissionService.getPermissions({ userId: user[0].id, role: user[0].role, department: user[0].department });
     console.log('✅ [GET ME] Completed successfully\n');
 
     res.json({
@@ -131,6 +126,7 @@ export const getMe = async (req: AuthRequest, res: Response) => {
         approved: user[0].approved,
         profileCompleted: user[0].profileCompleted,
         lastLogin: user[0].lastLogin,
+        permissions,
       }
     });
   } catch (error) {
@@ -148,35 +144,45 @@ export const verifyOTP = async (req: Request, res: Response) => {
     console.log(`✅ Data validated - Phone: ${phone}, OTP: ${otp}`);
     
     // Check if session exists
-    const session = sessionStore.get(phone);
+    const session = await otpStore.getSession(phone);
+    
+    if (session?.lockedUntil && session.lockedUntil > new Date()) {
+      console.log(`🔒 Phone locked after failed verifications: ${phone}`);
+      return res.status(429).json({ message: `Too many failed attempts. Please try again in ${minutesUntil(session.lockedUntil)} minutes.` });
+    }
     
-    if (!session) {
+    if (!session || !session.sessionId || !session.provider) {
       console.log(`❌ No session found for phone: ${phone}`);
       return res.status(400).json({ message: 'OTP session not found. Please request a new OTP.' });
     }
     
-    if (Date.now() > session.expires) {
+    if (!session.expiresAt || new Date() > session.expiresAt) {
       console.log(`⏰ Session expired for phone: ${phone}`);
-      sessionStore.delete(phone);
+      await otpStore.clearSession(phone);
       return res.status(400).json({ message: 'OTP expired. Please request a new OTP.' });
     }
     
-    console.log(`📞 Calling MSG91 verify with sessionId: ${session.sessionId}`);
+    console.log(`📞 Calling ${session.provider} verify with sessionId: ${session.sessionId}`);
     
-    // Verify OTP with MSG91
-    const result = await msg91Service.verifyOTP(session.sessionId, otp);
+    // Verify OTP with the provider that sent it
+    const result = await otpService.verifyOTP(session.provider, session.sessionId, otp);
     
-    console.log(`📋 MSG91 result:`, result);
+    console.log(`📋 ${session.provider} result:`, result);
     
     if (!result.success) {
       console.log(`❌ OTP verification failed: ${result.message}`);
-      return res.status(400).json({ message: result.message });
+      const attempt = await otpStore.recordFailedAttempt(phone);
+      if (attempt.locked) {
+        console.log(`🔒 Locking ${phone} after too many failed attempts`);
+        return res.status(429).json({ message: `Too many failed attempts. Please try again in ${minutesUntil(attempt.lockedUntil!)} minutes.` });
+      }
+      return res.status(400).json({ message: result.message, attemptsLeft: attempt.attemptsLeft });
     }
     
     console.log(`✅ OTP verified successfully for phone: ${phone}`);
     
     // OTP is valid, remove session
-    sessionStore.delete(phone);
+    await otpStore.clearSession(phone);
     console.log('🗑️  Session removed');
 
     // Upsert user
@@ -211,20 +217,17 @@ export const verifyOTP = async (req: Request, res: Response) => {
       });
     }
 
-    // Generate JWT with role, active, and approved
-    console.log('🔑 Generating JWT token...');
-    const token = jwt.sign(
-      { 
-        userId: user[0].id, 
-        phone: user[0].phone,
-        role: user[0].role,
-        active: user[0].active,
-        approved: user[0].approved,
-        deleted: user[0].deleted
-      },
-      process.env.JWT_SECRET!,
-      { expiresIn: '30d' }
-    );
+    if (!user[0].active) {
+      console.log('❌ User account has been deactivated');
+      return res.status(403).json({ message: 'account_deactivated' });
+    }
+
+    // Start a session: short-lived access token plus rotating refresh token
+    console.log('🔑 Generating session tokens...');
+    const { token, refreshToken } = await sessionService.issue(user[0], {
+      userAgent: req.headers['user-agent'],
+      ipAddress: req.ip,
+    });
 
     // Log admin/employee login
     if (user[0].role === 'admin') {
@@ -245,6 +248,7 @@ export const verifyOTP = async (req: Request, res: Response) => {
 
     res.json({
       token,
+      refreshToken,
       user: user[0],
       profileCompleted: user[0].profileCompleted,
       role: user[0].role,
@@ -259,3 +263,112 @@ export const verifyOTP = async (req: Request, res: Response) => {
     res.status(500).json({ message: 'Verification failed' });
   }
 };
+
+const refreshSchema = z.object({
+  refreshToken: z.string().min(1, 'Refresh token is required'),
+});
+
+export const refreshToken = async (req: Request, res: Response) => {
+  console.log('\n🔄 [TOKEN REFRESH] Incoming request to refresh token');
+  
+  try {
+    const { refreshToken } = refreshSchema.parse(req.body);
+    
+    const result = await sessionService.refresh(refreshToken, {
+      userAgent: req.headers['user-agent'],
+      ipAddress: req.ip,
+    });
+    
+    if ('error' in result) {
+      console.log(`❌ Refresh rejected: ${result.error}`);
+      return res.status(result.error === 'invalid_refresh_token' ? 401 : 403).json({ message: result.error });
+    }
+    
+    console.log(`✅ [TOKEN REFRESH] Session rotated for user ${result.user.id}\n`);
+    
+    res.json({
+      token: result.token,
+      refreshToken: result.refreshToken,
+    });
+  } catch (error: any) {
+    console.error('❌ [TOKEN REFRESH] Error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: error.issues[0].message });
+    }
+    res.status(500).json({ message: 'Failed to refresh token' });
+  }
+};
+
+export const getSessions = async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = Number(req.user!.userId);
+    const sessions = await sessionService.list(userId);
+    
+    res.json({
+      data: sessions.map(session => ({
+        ...session,
+        current: session.id === req.user!.sessionId,
+      })),
+    });
+  } catch (error) {
+    console.error('❌ [GET SESSIONS] Error:', error);
+    res.status(500).json({ message: 'Failed to fetch sessions' });
+  }
+};
+
+export const revokeSession = async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = Number(req.user!.userId);
+    const { id } = req.params;
+    if (!z.uuid().safeParse(id).success) {
+      return res.status(404).json({ message: 'Session not found' });
+    }
+    
+    const revoked = await sessionService.revoke(id, 'user_revoked', userId, userId);
+    
+    if (revoked === 0) {
+      return res.status(404).json({ message: 'Session not found' });
+    }
+    
+    await auditService.log(userId, 'revoke_session', 'user', userId, { sessionId: id });
+    
+    res.json({ success: true, message: 'Session revoked' });
+  } catch (error) {
+    console.error('❌ [REVOKE SESSION] Error:', error);
+    res.status(500).json({ message: 'Failed to revoke session' });
+  }
+};
+
+export const logout = async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = Number(req.user!.userId);
+    
+    if (req.user!.sessionId) {
+      await sessionService.revoke(req.user!.sessionId, 'logout', userId, userId);
+    }
+    
+    await auditService.log(userId, 'logout', 'user', userId, {
+      timestamp: new Date().toISOString(),
+    });
+    
+    res.json({ success: true, message: 'Logged out successfully' });
+  } catch (error) {
+    console.error('❌ [LOGOUT] Error:', error);
+    res.status(500).json({ message: 'Failed to logout' });
+  }
+};
+
+export const logoutAll = async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = Number(req.user!.userId);
+    
+    const count = await sessionService.revokeAll(userId, 'logout_all', userId);
+    
+    await auditService.log(userId, 'logout_all', 'user', userId, { sessionsRevoked: count });
+    
+    res.json({ success: true, sessionsRevoked: count, message: 'Logged out from all devices' });
+  } catch (error) {
+    console.error('❌ [LOGOUT ALL] Error:', error);
+    res.status(500).json({ message: 'Failed to logout from all devices' });
+  }
+};
@@ -3,6 +3,7 @@ import { z } from 'zod';
 import { db } from '../config/database';
 import { conversations, messages } from '../models/chat';
 import { eq, and, desc, inArray } from 'drizzle-orm';
+import { leadService } from '../services/leadService';
 import crypto from 'crypto';
 
 const createConversationSchema = z.object({
@@ -156,6 +157,42 @@ export const sendMessage = async (req: Request, res: Response) => {
   }
 };
 
+const escalateSchema = z.object({
+  reason: z.string().trim().max(2000).optional(),
+});
+
+// POST /api/conversations/:cid/escalate — the customer asks for a person instead of the AI assistant
+export const escalateConversation = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.userId;
+    const { cid } = req.params;
+    const { reason } = escalateSchema.parse(req.body || {});
+
+    const [conversation] = await db
+      .select({ id: conversations.id })
+      .from(conversations)
+      .where(and(eq(conversations.id, cid), eq(conversations.userId, userId), eq(conversations.deleted, false)));
+
+    if (!conversation) {
+      return res.status(404).json({ message: 'Conversation not found' });
+    }
+
+    const result = await leadService.captureChatEscalation(cid, reason);
+
+    res.json({
+      success: true,
+      leadId: result?.lead.id,
+      message: 'A member of our team will get in touch with you shortly.'
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: error.issues[0].message });
+    }
+    console.error('Chat escalation error:', error);
+    res.status(500).json({ message: 'Failed to reach our team' });
+  }
+};
+
 export const deleteConversation = async (req: Request, res: Response) => {
   try {
     const userId = (req as any).user.userId;
@@ -181,6 +218,18 @@ export const deleteConversation = async (req: Request, res: Response) => {
   }
 };
 
+// Same scheme forwardToN8n signs with: hex HMAC-SHA256 of the body under N8N_WEBHOOK_SECRET.
+// Checked against the raw bytes app.ts keeps, since re-serialising the parsed body need not match what was signed.
+const hasValidN8nSignature = (req: Request) => {
+  const secret = process.env.N8N_WEBHOOK_SECRET;
+  const signature = req.headers['x-n8n-signature'];
+  const rawBody: Buffer | undefined = (req as any).rawBody;
+  if (!secret || typeof signature !== 'string' || !rawBody) return false;
+
+  const expected = crypto.createHmac('sha256', secret).update(rawBody).digest('hex');
+  return signature.length === expected.length && crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+};
+
 export const n8nWebhook = async (req: Request, res: Response) => {
   try {
     // Skip signature validation for now - can be enabled later
@@ -193,7 +242,7 @@ export const n8nWebhook = async (req: Request, res: Response) => {
     //   return res.status(401).json({ message: 'Invalid signature' });
     // }
 
-    let conversationId, content, messageId, trace;
+    let conversationId, content, messageId, trace, escalate, escalationReason;
 
     // Handle N8N array format: [{"output": "...", "conversationId": "..."}]
     if (Array.isArray(req.body) && req.body[0]) {
@@ -202,12 +251,16 @@ export const n8nWebhook = async (req: Request, res: Response) => {
       content = data.output || data.aiResponse;
       messageId = data.messageId;
       trace = data.trace;
+      escalate = data.escalate;
+      escalationReason = data.escalationReason;
     } else {
       // Handle object format: {"conversationId": "...", "aiResponse": "..."}
       conversationId = req.body.conversationId;
       content = req.body.aiResponse || req.body.output;
       messageId = req.body.messageId;
       trace = req.body.trace;
+      escalate = req.body.escalate;
+      escalationReason = req.body.escalationReason;
     }
 
     if (!conversationId || !content) {
@@ -228,6 +281,15 @@ export const n8nWebhook = async (req: Request, res: Response) => {
       .set({ lastMessageAt: new Date() })
       .where(eq(conversations.id, conversationId));
 
+    // The assistant flags conversations it can't resolve; those become leads for the sales team.
+    // Only signed calls may create leads, since the webhook itself is reachable without auth.
+    if (escalate === true && !hasValidN8nSignature(req)) {
+      console.warn(`⚠️ Ignoring unsigned escalation for chat ${conversationId}`);
+    } else if (escalate === true) {
+      await leadService.captureChatEscalation(conversationId, typeof escalationReason === 'string' ? escalationReason : null)
+        .catch(error => console.error(`❌ Lead capture from chat ${conversationId} failed:`, error));
+    }
+
     res.json({ success: true, messageId: aiMessage.id });
   } catch (error) {
     console.error('n8n webhook error:', error);
@@ -3,23 +3,27 @@ import { z } from 'zod';
 import { db } from '../config/database';
 import { contactMessages, faqs } from '../models/contact';
 import { users } from '../models/user';
-import { asc, eq } from 'drizzle-orm';
+import { properties } from '../models/property';
+import { leadService } from '../services/leadService';
+import { and, asc, eq } from 'drizzle-orm';
 
 interface AuthRequest extends Request {
   user?: {
     userId: string;
     phone: string;
+    role?: string;
   };
 }
 
 const contactSchema = z.object({
   subject: z.string().min(3, 'Subject must be at least 3 characters'),
   message: z.string().min(10, 'Message must be at least 10 characters'),
+  propertyId: z.uuid().optional(),
 });
 
 export const submitContact = async (req: AuthRequest, res: Response) => {
   try {
-    const { subject, message } = contactSchema.parse(req.body);
+    const { subject, message, propertyId } = contactSchema.parse(req.body);
     const userId = req.user?.userId;
     
     // Get user info from database
@@ -34,12 +38,28 @@ export const submitContact = async (req: AuthRequest, res: Response) => {
       }
     }
     
-    await db.insert(contactMessages).values({
+    const [property] = propertyId
+      ? await db.select({ id: properties.id }).from(properties).where(and(eq(properties.id, propertyId), eq(properties.deleted, false))).limit(1)
+      : [];
+
+    const [contactMessage] = await db.insert(contactMessages).values({
       name,
       email,
       subject,
-      message
-    });
+      message,
+      propertyId: property?.id ?? null,
+    }).returning();
+
+    // The message is saved either way; the lead only feeds the sales pipeline
+    if (userId && req.user?.role === 'customer') {
+      await leadService.capture({
+        source: 'contact_form',
+        customerId: parseInt(userId),
+        propertyId: property?.id ?? null,
+        message: `${subject}\n\n${message}`,
+        contactMessageId: contactMessage.id,
+      }).catch(error => console.error('❌ Lead capture from contact form failed:', error));
+    }
     
     res.json({ 
       success: true, 
@@ -2,11 +2,12 @@ import { Request, Response } from 'express';
 import { dashboardService } from '../services/dashboardService';
 import { cacheService } from '../services/cacheService';
 import { auditService } from '../services/auditService';
+import { UserRole } from '../types';
 
 interface AuthRequest extends Request {
   user?: {
     userId: number;
-    role?: string;
+    role?: UserRole;
   };
 }
 
@@ -4,12 +4,13 @@ import { propertyPendingChanges, bannerPendingChanges } from '../models/property
 import { propertyAgentAssignments, propertyEmployeeAssignments } from '../models/propertyAssignment';
 import { properties } from '../models/property';
 import { eq, desc, and, or, sql } from 'drizzle-orm';
+import { UserRole } from '../types';
 
 interface AuthRequest extends Request {
   user?: {
     userId: string;
     phone: string;
-    role?: string;
+    role?: UserRole;
   };
 }
 
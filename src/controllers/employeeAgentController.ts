@@ -7,9 +7,11 @@ import { propertyAgentAssignments, propertyEmployeeAssignments } from '../models
 import { adminAuditLogs } from '../models/user';
 import { desc, eq, and, or, ilike, sql, inArray, count } from 'drizzle-orm';
 import { emitAssignmentUpdate } from '../services/socketService';
+import { UserRole } from '../types';
+import { keyset, toPage, KeysetSort } from '../utils/pagination';
 
 interface AuthRequest extends Request {
-  user?: { userId: number; role?: string };
+  user?: { userId: number; role?: UserRole };
 }
 
 const querySchema = z.object({
@@ -19,13 +21,15 @@ const querySchema = z.object({
   city: z.string().optional(),
 });
 
+const agentSort: KeysetSort = { name: 'newest', key: users.createdAt, keyType: 'timestamp', id: users.id, direction: 'desc' };
+
 export const getEmployeeAgents = async (req: AuthRequest, res: Response) => {
   try {
     const { cursor, limit, q, city } = querySchema.parse(req.query);
     const employeeId = req.user!.userId;
     
     let whereConditions = [
-      or(eq(users.role, 'agent'), eq(users.role, 'Agent'))!,
+      eq(users.role, 'agent'),
       eq(users.assignedEmployeeId, employeeId),
       eq(users.deleted, false),
       eq(users.approved, true)
@@ -45,9 +49,11 @@ export const getEmployeeAgents = async (req: AuthRequest, res: Response) => {
       whereConditions.push(ilike(users.city, `%${city}%`));
     }
     
-    if (cursor) {
-      whereConditions.push(sql`${users.createdAt} < (SELECT created_at FROM users WHERE id = ${cursor})`);
+    const page = keyset(agentSort, cursor);
+    if (page.error) {
+      return res.status(400).json({ message: page.error });
     }
+    if (page.where) whereConditions.push(page.where);
     
     const results = await db.select({
       id: users.id,
@@ -57,13 +63,13 @@ export const getEmployeeAgents = async (req: AuthRequest, res: Response) => {
       city: users.city,
       profileImgUrl: users.profileImgUrl,
       createdAt: users.createdAt,
+      cursorKey: page.cursorKey,
     }).from(users)
       .where(and(...whereConditions))
-      .orderBy(desc(users.createdAt))
+      .orderBy(...page.orderBy)
       .limit(limit + 1);
     
-    const hasMore = results.length > limit;
-    const data = hasMore ? results.slice(0, limit) : results;
+    const { data, nextCursor, hasMore } = toPage(results, limit, agentSort);
     
     // Get assigned properties count for each agent from junction table
     const agentIds = data.map(a => a.id);
@@ -89,7 +95,7 @@ export const getEmployeeAgents = async (req: AuthRequest, res: Response) => {
       assignedPropertiesCount: countMap.get(agent.id) || 0
     }));
     
-    res.json({ data: enrichedData, nextCursor: hasMore ? data[data.length - 1].id.toString() : null });
+    res.json({ data: enrichedData, nextCursor, hasMore });
   } catch (error: any) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ message: error.issues[0].message });
@@ -115,7 +121,7 @@ export const getEmployeeAgentById = async (req: AuthRequest, res: Response) => {
     }).from(users)
       .where(and(
         eq(users.id, parseInt(id)),
-        or(eq(users.role, 'agent'), eq(users.role, 'Agent'))!,
+        eq(users.role, 'agent'),
         eq(users.assignedEmployeeId, employeeId),
         eq(users.deleted, false),
         eq(users.approved, true)
@@ -147,7 +153,7 @@ export const getEmployeeAgentById = async (req: AuthRequest, res: Response) => {
     .from(users)
     .where(and(
       eq(users.referredByAgentId, agent.id),
-      ilike(users.role, 'customer'),
+      eq(users.role, 'customer'),
       eq(users.deleted, false)
     ));
     
@@ -179,7 +185,7 @@ export const getAgentAssignedProperties = async (req: AuthRequest, res: Response
       .from(users)
       .where(and(
         eq(users.id, parseInt(agentId)),
-        or(eq(users.role, 'agent'), eq(users.role, 'Agent'))!,
+        eq(users.role, 'agent'),
         eq(users.assignedEmployeeId, employeeId),
         eq(users.approved, true),
         eq(users.deleted, false)
@@ -226,7 +232,7 @@ export const assignPropertiesToAgent = async (req: AuthRequest, res: Response) =
       .from(users)
       .where(and(
         eq(users.id, parseInt(agentId)),
-        or(eq(users.role, 'agent'), eq(users.role, 'Agent'))!,
+        eq(users.role, 'agent'),
         eq(users.assignedEmployeeId, employeeId),
         eq(users.approved, true),
         eq(users.deleted, false)
@@ -4,10 +4,12 @@ import { db } from '../config/database';
 import { banners } from '../models/banner';
 import { bannerPendingChanges } from '../models/propertyPendingChange';
 import { uploads } from '../models/upload';
-import { desc, eq, and, or, ilike, sql, inArray } from 'drizzle-orm';
+import { desc, eq, and, or, ilike, sql, inArray, getTableColumns } from 'drizzle-orm';
+import { UserRole } from '../types';
+import { keyset, toPage, KeysetSort } from '../utils/pagination';
 
 interface AuthRequest extends Request {
-  user?: { userId: number; role?: string };
+  user?: { userId: number; role?: UserRole };
 }
 
 const querySchema = z.object({
@@ -17,6 +19,9 @@ const querySchema = z.object({
   q: z.string().optional(),
 });
 
+const bannerSort: KeysetSort = { name: 'newest', key: banners.createdAt, keyType: 'timestamp', id: banners.id, direction: 'desc' };
+const pendingChangeSort: KeysetSort = { name: 'newest', key: bannerPendingChanges.createdAt, keyType: 'timestamp', id: bannerPendingChanges.id, direction: 'desc' };
+
 export const getEmployeeBanners = async (req: AuthRequest, res: Response) => {
   try {
     const { category, cursor, limit, q } = querySchema.parse(req.query);
@@ -39,9 +44,11 @@ export const getEmployeeBanners = async (req: AuthRequest, res: Response) => {
         );
       }
       
-      if (cursor) {
-        whereConditions.push(sql`${bannerPendingChanges.createdAt} < (SELECT created_at FROM banner_pending_changes WHERE id = ${cursor})`);
+      const page = keyset(pendingChangeSort, cursor);
+      if (page.error) {
+        return res.status(400).json({ message: page.error });
       }
+      if (page.where) whereConditions.push(page.where);
       
       const results = await db.select({
         id: bannerPendingChanges.id,
@@ -49,13 +56,13 @@ export const getEmployeeBanners = async (req: AuthRequest, res: Response) => {
         proposedPayload: bannerPendingChanges.proposedPayload,
         status: bannerPendingChanges.status,
         createdAt: bannerPendingChanges.createdAt,
+        cursorKey: page.cursorKey,
       }).from(bannerPendingChanges)
         .where(and(...whereConditions))
-        .orderBy(desc(bannerPendingChanges.createdAt))
+        .orderBy(...page.orderBy)
         .limit(limit + 1);
       
-      const hasMore = results.length > limit;
-      const data = hasMore ? results.slice(0, limit) : results;
+      const { data, nextCursor, hasMore } = toPage(results, limit, pendingChangeSort);
       
       const formattedData = data.map(item => ({
         id: item.id,
@@ -71,7 +78,7 @@ export const getEmployeeBanners = async (req: AuthRequest, res: Response) => {
         isPendingChange: true,
       }));
       
-      return res.json({ data: formattedData, nextCursor: hasMore ? data[data.length - 1].id : null });
+      return res.json({ data: formattedData, nextCursor, hasMore });
     }
     
     let whereConditions = [];
@@ -91,17 +98,18 @@ export const getEmployeeBanners = async (req: AuthRequest, res: Response) => {
       );
     }
     
-    if (cursor) {
-      whereConditions.push(sql`${banners.createdAt} < (SELECT created_at FROM banners WHERE id = ${cursor})`);
+    const page = keyset(bannerSort, cursor);
+    if (page.error) {
+      return res.status(400).json({ message: page.error });
     }
+    if (page.where) whereConditions.push(page.where);
     
-    const results = await db.select().from(banners)
+    const results = await db.select({ ...getTableColumns(banners), cursorKey: page.cursorKey }).from(banners)
       .where(whereConditions.length > 0 ? and(...whereConditions) : undefined)
-      .orderBy(desc(banners.createdAt))
+      .orderBy(...page.orderBy)
       .limit(limit + 1);
     
-    const hasMore = results.length > limit;
-    const data = hasMore ? results.slice(0, limit) : results;
+    const { data, nextCursor, hasMore } = toPage(results, limit, bannerSort);
     
     const formattedData = data.map(banner => ({
       ...banner,
@@ -109,7 +117,7 @@ export const getEmployeeBanners = async (req: AuthRequest, res: Response) => {
       isPendingChange: false,
     }));
     
-    res.json({ data: formattedData, nextCursor: hasMore ? data[data.length - 1].id : null });
+    res.json({ data: formattedData, nextCursor, hasMore });
   } catch (error: any) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ message: error.issues[0].message });
@@ -450,9 +458,11 @@ export const getEmployeeBannerPendingChanges = async (req: AuthRequest, res: Res
       whereConditions.push(eq(bannerPendingChanges.status, status as string));
     }
     
-    if (cursor) {
-      whereConditions.push(sql`${bannerPendingChanges.createdAt} < (SELECT created_at FROM banner_pending_changes WHERE id = ${cursor})`);
+    const page = keyset(pendingChangeSort, cursor as string | undefined);
+    if (page.error) {
+      return res.status(400).json({ message: page.error });
     }
+    if (page.where) whereConditions.push(page.where);
     
     const results = await db.select({
       id: bannerPendingChanges.id,
@@ -463,15 +473,15 @@ export const getEmployeeBannerPendingChanges = async (req: AuthRequest, res: Res
       reason: bannerPendingChanges.reason,
       createdAt: bannerPendingChanges.createdAt,
       reviewedAt: bannerPendingChanges.reviewedAt,
+      cursorKey: page.cursorKey,
     }).from(bannerPendingChanges)
       .where(and(...whereConditions))
-      .orderBy(desc(bannerPendingChanges.createdAt))
+      .orderBy(...page.orderBy)
       .limit(parseInt(limit as string) + 1);
     
-    const hasMore = results.length > parseInt(limit as string);
-    const data = hasMore ? results.slice(0, parseInt(limit as string)) : results;
+    const { data, nextCursor, hasMore } = toPage(results, parseInt(limit as string), pendingChangeSort);
     
-    res.json({ data, nextCursor: hasMore ? data[data.length - 1].id : null });
+    res.json({ data, nextCursor, hasMore });
   } catch (error) {
     console.error('Error fetching banner pending changes:', error);
     res.status(500).json({ message: 'Failed to fetch pending changes' });
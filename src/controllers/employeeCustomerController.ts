@@ -1,10 +1,11 @@
 import { Request, Response } from 'express';
 import { db } from '../config/database';
 import { users } from '../models/user';
-import { eq, and, ilike } from 'drizzle-orm';
+import { eq, and } from 'drizzle-orm';
+import { UserRole } from '../types';
 
 interface AuthRequest extends Request {
-  user?: { userId: number; role?: string };
+  user?: { userId: number; role?: UserRole };
 }
 
 export const getEmployeeCustomerById = async (req: AuthRequest, res: Response) => {
@@ -30,7 +31,7 @@ export const getEmployeeCustomerById = async (req: AuthRequest, res: Response) =
     }).from(users)
       .where(and(
         eq(users.id, customerId),
-        ilike(users.role, 'customer'),
+        eq(users.role, 'customer'),
         eq(users.deleted, false)
       ))
       .limit(1);
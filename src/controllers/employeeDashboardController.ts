@@ -7,11 +7,12 @@ import { users } from '../models/user';
 import { propertyEmployeeAssignments } from '../models/propertyAssignment';
 import { eq, and, count, or, sql } from 'drizzle-orm';
 import { emitPendingChangeUpdate, emitAssignmentUpdate } from '../services/socketService';
+import { UserRole } from '../types';
 
 interface AuthRequest extends Request {
   user?: {
     userId: number;
-    role?: string;
+    role?: UserRole;
   };
 }
 
@@ -56,7 +57,7 @@ export const getEmployeeDashboardStats = async (req: AuthRequest, res: Response)
       .select({ count: count() })
       .from(users)
       .where(and(
-        or(eq(users.role, 'agent'), eq(users.role, 'Agent')),
+        eq(users.role, 'agent'),
         eq(users.assignedEmployeeId, employeeId),
         eq(users.deleted, false)
       ));
@@ -4,13 +4,16 @@ import { db } from '../config/database';
 import { users } from '../models/user';
 import { eq } from 'drizzle-orm';
 import { auditService } from '../services/auditService';
+import { sessionService } from '../services/sessionService';
 import { emitProfileUpdated } from '../services/socketService';
+import { UserRole } from '../types';
 
 interface AuthRequest extends Request {
   user?: {
     userId: string;
     phone: string;
-    role?: string;
+    role?: UserRole;
+    sessionId?: string;
   };
 }
 
@@ -99,6 +102,10 @@ export const logout = async (req: AuthRequest, res: Response) => {
 
     const userId = parseInt(req.user.userId);
 
+    if (req.user.sessionId) {
+      await sessionService.revoke(req.user.sessionId, 'logout', userId, userId);
+    }
+
     // Audit log
     await auditService.log(userId, 'logout', 'user', userId, {
       timestamp: new Date().toISOString(),
@@ -6,9 +6,17 @@ import { propertyPendingChanges } from '../models/propertyPendingChange';
 import { uploads, propertyPendingChangesIdempotency } from '../models/upload';
 import { propertyEmployeeAssignments } from '../models/propertyAssignment';
 import { desc, eq, and, or, ilike, sql, inArray } from 'drizzle-orm';
+import { UserRole } from '../types';
+import { keyset, toPage, KeysetSort } from '../utils/pagination';
+import { resolveCoordinates } from '../utils/geo';
+import { preparePropertyDetails } from '../utils/propertyDetails';
+import { propertyDetailsService } from '../services/propertyDetailsService';
+import { favouriteService } from '../services/favouriteService';
+import { favouriteCountSql } from '../utils/favourites';
+import { PROPERTY_KINDS } from '../config/propertyAttributes';
 
 interface AuthRequest extends Request {
-  user?: { userId: number; role?: string };
+  user?: { userId: number; role?: UserRole };
 }
 
 const querySchema = z.object({
@@ -18,6 +26,8 @@ const querySchema = z.object({
   q: z.string().optional(),
 });
 
+const propertySort: KeysetSort = { name: 'newest', key: properties.createdAt, keyType: 'timestamp', id: properties.id, direction: 'desc' };
+
 export const getEmployeeProperties = async (req: AuthRequest, res: Response) => {
   try {
     const { status, cursor, limit, q } = querySchema.parse(req.query);
@@ -51,9 +61,11 @@ export const getEmployeeProperties = async (req: AuthRequest, res: Response) =>
       );
     }
     
-    if (cursor) {
-      whereConditions.push(sql`${properties.createdAt} < (SELECT created_at FROM properties WHERE id = ${cursor})`);
+    const page = keyset(propertySort, cursor);
+    if (page.error) {
+      return res.status(400).json({ message: page.error });
     }
+    if (page.where) whereConditions.push(page.where);
     
     const results = await db.select({
       id: properties.id,
@@ -64,16 +76,17 @@ export const getEmployeeProperties = async (req: AuthRequest, res: Response) =>
       createdAt: properties.createdAt,
       updatedAt: properties.updatedAt,
       assignedEmployeeId: properties.assignedEmployeeId,
-      assignedAgentId: properties.assignedAgentId
+      assignedAgentId: properties.assignedAgentId,
+      favouriteCount: favouriteCountSql,
+      cursorKey: page.cursorKey,
     }).from(properties)
       .where(and(...whereConditions))
-      .orderBy(desc(properties.createdAt))
+      .orderBy(...page.orderBy)
       .limit(limit + 1);
     
-    const hasMore = results.length > limit;
-    const data = hasMore ? results.slice(0, limit) : results;
+    const { data, nextCursor, hasMore } = toPage(results, limit, propertySort);
     
-    res.json({ data, nextCursor: hasMore ? data[data.length - 1].id : null });
+    res.json({ data, nextCursor, hasMore });
   } catch (error: any) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ message: error.issues[0].message });
@@ -127,7 +140,12 @@ export const getEmployeePropertyById = async (req: AuthRequest, res: Response) =
       ))
       .orderBy(desc(propertyPendingChanges.createdAt));
     
-    res.json({ data: { ...property, pendingChanges } });
+    const [units, favouriteCounts] = await Promise.all([
+      propertyDetailsService.listUnits(id),
+      favouriteService.countsFor([id]),
+    ]);
+
+    res.json({ data: { ...property, units, favouriteCount: favouriteCounts.get(id) ?? 0, pendingChanges } });
   } catch (error) {
     console.error('Error fetching employee property:', error);
     res.status(500).json({ message: 'Failed to fetch property' });
@@ -149,7 +167,8 @@ const pendingChangeSchema = z.object({
 
 const ALLOWED_EMPLOYEE_FIELDS = [
   'title', 'location', 'price', 'type', 'description', 'images', 'gallery',
-  'features', 'amenities', 'categories', 'brochureUrl', 'map', 'website'
+  'features', 'amenities', 'categories', 'brochureUrl', 'map', 'latitude', 'longitude', 'website',
+  'propertyKind', 'attributes', 'units'
 ];
 
 export const submitPendingChange = async (req: AuthRequest, res: Response) => {
@@ -208,6 +227,11 @@ export const submitPendingChange = async (req: AuthRequest, res: Response) => {
         message: `Cannot modify fields: ${invalidFields.join(', ')}` 
       });
     }
+
+    const details = preparePropertyDetails(data.proposed_payload, property.propertyKind);
+    if (details.error) {
+      return res.status(400).json({ message: details.error });
+    }
     
     if (data.uploadedAssets && data.uploadedAssets.length > 0) {
       const uploadIds = data.uploadedAssets.map(a => a.uploadId);
@@ -294,7 +318,12 @@ const createPropertySchema = z.object({
   categories: z.array(z.string()).default([]),
   brochureUrl: z.string().optional(),
   map: z.string().optional(),
+  latitude: z.string().optional(),
+  longitude: z.string().optional(),
   website: z.string().optional(),
+  propertyKind: z.enum(PROPERTY_KINDS).nullable().optional(),
+  attributes: z.record(z.string(), z.unknown()).nullable().optional(),
+  units: z.array(z.unknown()).optional(),
   isDraft: z.boolean().optional().default(false),
 });
 
@@ -302,6 +331,14 @@ export const createProperty = async (req: AuthRequest, res: Response) => {
   try {
     const employeeId = req.user!.userId;
     const { isDraft, ...propertyData } = createPropertySchema.parse(req.body);
+    const location = resolveCoordinates(propertyData);
+    if (location.error) {
+      return res.status(400).json({ message: location.error });
+    }
+    const details = preparePropertyDetails(propertyData);
+    if (details.error) {
+      return res.status(400).json({ message: details.error });
+    }
     
     const [pendingChange] = await db.insert(propertyPendingChanges).values({
       propertyId: null,
@@ -387,6 +424,11 @@ export const updateDraft = async (req: AuthRequest, res: Response) => {
     if (!change) {
       return res.status(404).json({ message: 'Draft or revision not found' });
     }
+
+    const details = preparePropertyDetails(data, await propertyDetailsService.currentKind(change.propertyId));
+    if (details.error) {
+      return res.status(400).json({ message: details.error });
+    }
     
     await db.update(propertyPendingChanges)
       .set({ proposedPayload: data })
@@ -0,0 +1,147 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { favouriteService } from '../services/favouriteService';
+import { UserRole } from '../types';
+import { statusFor, handleError } from '../utils/controllerErrors';
+
+interface AuthRequest extends Request {
+  user?: {
+    userId: number;
+    phone: string;
+    role?: UserRole;
+  };
+}
+
+const listSchema = z.object({
+  collection: z.union([z.literal('none'), z.coerce.number().int().positive()]).optional(),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).transform(val => Math.min(val, 50)).default(20),
+});
+
+const addSchema = z.object({
+  propertyId: z.uuid(),
+  collectionId: z.number().int().positive().nullable().optional(),
+  note: z.string().trim().max(1000).nullable().optional(),
+});
+
+const updateSchema = addSchema.omit({ propertyId: true });
+
+const collectionSchema = z.object({
+  name: z.string().trim().min(1, 'Collection name is required').max(60),
+});
+
+// GET /api/favourites?collection=<id|none>
+export const getFavourites = async (req: AuthRequest, res: Response) => {
+  try {
+    const options = listSchema.parse(req.query);
+    const result = await favouriteService.list(req.user!.userId, options);
+
+    if (result.error) {
+      return res.status(400).json({ message: result.message });
+    }
+
+    res.json(result);
+  } catch (error: any) {
+    handleError(res, error, 'Failed to fetch favourites');
+  }
+};
+
+export const addFavourite = async (req: AuthRequest, res: Response) => {
+  try {
+    const data = addSchema.parse(req.body);
+    const result = await favouriteService.add(req.user!.userId, data);
+
+    if (result.error) {
+      return res.status(statusFor(result.error)).json({ message: result.message });
+    }
+
+    res.status(result.created ? 201 : 200).json(result.favourite);
+  } catch (error: any) {
+    handleError(res, error, 'Failed to add favourite');
+  }
+};
+
+export const updateFavourite = async (req: AuthRequest, res: Response) => {
+  try {
+    const data = updateSchema.parse(req.body);
+    const result = await favouriteService.update(req.user!.userId, req.params.propertyId, data);
+
+    if (result.error) {
+      return res.status(statusFor(result.error)).json({ message: result.message });
+    }
+
+    res.json(result.favourite);
+  } catch (error: any) {
+    handleError(res, error, 'Failed to update favourite');
+  }
+};
+
+export const removeFavourite = async (req: AuthRequest, res: Response) => {
+  try {
+    const removed = await favouriteService.remove(req.user!.userId, req.params.propertyId);
+    if (!removed) {
+      return res.status(404).json({ message: 'Property is not in your shortlist' });
+    }
+
+    res.json({ success: true });
+  } catch (error: any) {
+    handleError(res, error, 'Failed to remove favourite');
+  }
+};
+
+export const getFavouriteCollections = async (req: AuthRequest, res: Response) => {
+  try {
+    const data = await favouriteService.listCollections(req.user!.userId);
+    res.json({ data });
+  } catch (error: any) {
+    handleError(res, error, 'Failed to fetch collections');
+  }
+};
+
+export const createFavouriteCollection = async (req: AuthRequest, res: Response) => {
+  try {
+    const { name } = collectionSchema.parse(req.body);
+    const result = await favouriteService.createCollection(req.user!.userId, name);
+
+    if (result.error) {
+      return res.status(statusFor(result.error)).json({ message: result.message });
+    }
+
+    res.status(201).json(result.collection);
+  } catch (error: any) {
+    handleError(res, error, 'Failed to create collection');
+  }
+};
+
+export const renameFavouriteCollection = async (req: AuthRequest, res: Response) => {
+  try {
+    const { name } = collectionSchema.parse(req.body);
+    const collectionId = parseInt(req.params.id);
+    if (isNaN(collectionId)) {
+      return res.status(404).json({ message: 'Collection not found' });
+    }
+
+    const result = await favouriteService.renameCollection(req.user!.userId, collectionId, name);
+    if (result.error) {
+      return res.status(statusFor(result.error)).json({ message: result.message });
+    }
+
+    res.json(result.collection);
+  } catch (error: any) {
+    handleError(res, error, 'Failed to rename collection');
+  }
+};
+
+export const deleteFavouriteCollection = async (req: AuthRequest, res: Response) => {
+  try {
+    const collectionId = parseInt(req.params.id);
+    const removed = !isNaN(collectionId) && await favouriteService.deleteCollection(req.user!.userId, collectionId);
+    if (!removed) {
+      return res.status(404).json({ message: 'Collection not found' });
+    }
+
+    res.json({ success: true });
+  } catch (error: any) {
+    handleError(res, error, 'Failed to delete collection');
+  }
+};
@@ -3,21 +3,25 @@ import { z } from 'zod';
 import { db } from '../config/database';
 import { loanRequests, loanRequestComments, loanRequestAssignments, loanRequestAuditLogs } from '../models/loanRequest';
 import { users } from '../models/user';
-import { eq, and, desc, isNull, or, ilike, sql, count } from 'drizzle-orm';
+import { eq, and, isNull, inArray, or, ilike, sql, count } from 'drizzle-orm';
+import { UserRole } from '../types';
+import { LOAN_STATUSES, checkTransition, getAvailableTransitions } from '../config/loanWorkflow';
+import { loanWorkflowService, transitionErrorStatus } from '../services/loanWorkflowService';
+import { emitLoanRequestComment } from '../services/socketService';
+import { loanDocumentService } from '../services/loanDocumentService';
+import { lenderSubmissionService, submissionSchema, submissionUpdateSchema, submissionErrorStatus } from '../services/lenderSubmissionService';
+import { lenders, lenderProducts } from '../models/lender';
+import { loanDuplicateService } from '../services/loanDuplicateService';
+import { getLoanRequestSort } from '../services/loanRequestQuery';
+import { keyset, toPage } from '../utils/pagination';
 
 interface AuthRequest extends Request {
   user?: {
     userId: number;
-    role?: string;
+    role?: UserRole;
   };
 }
 
-const ALLOWED_STATUS_TRANSITIONS: Record<string, string[]> = {
-  received: ['under_review', 'rejected'],
-  under_review: ['contacted', 'rejected'],
-  contacted: ['closed', 'rejected'],
-};
-
 const createAuditLog = async (loanRequestId: string, actorId: number, action: string, oldValue?: string, newValue?: string, comment?: string) => {
   await db.insert(loanRequestAuditLogs).values({
     loanRequestId,
@@ -58,16 +62,12 @@ export const getFinanceLoanRequests = async (req: AuthRequest, res: Response) =>
       );
     }
 
-    let orderBy;
-    if (sort === 'oldest') {
-      orderBy = loanRequests.createdAt;
-    } else if (sort === 'highest') {
-      orderBy = desc(loanRequests.loanAmountNeeded);
-    } else if (sort === 'sla') {
-      orderBy = loanRequests.slaDueAt;
-    } else {
-      orderBy = desc(loanRequests.createdAt);
+    const loanSort = getLoanRequestSort(sort);
+    const page = keyset(loanSort, cursor as string | undefined);
+    if (page.error) {
+      return res.status(400).json({ message: page.error });
     }
+    if (page.where) whereConditions.push(page.where);
 
     const results = await db
       .select({
@@ -77,6 +77,7 @@ export const getFinanceLoanRequests = async (req: AuthRequest, res: Response) =>
         userEmail: loanRequests.userEmail,
         loanType: loanRequests.loanType,
         loanAmountNeeded: loanRequests.loanAmountNeeded,
+        isAffordable: loanRequests.isAffordable,
         propertyCategory: loanRequests.propertyCategory,
         status: loanRequests.status,
         assigneeId: loanRequests.assigneeId,
@@ -84,16 +85,15 @@ export const getFinanceLoanRequests = async (req: AuthRequest, res: Response) =>
         lastActivityAt: loanRequests.lastActivityAt,
         createdAt: loanRequests.createdAt,
         assigneeName: users.name,
+        cursorKey: page.cursorKey,
       })
       .from(loanRequests)
       .leftJoin(users, eq(loanRequests.assigneeId, users.id))
       .where(and(...whereConditions))
-      .orderBy(orderBy)
+      .orderBy(...page.orderBy)
       .limit(limitNum + 1);
 
-    const hasMore = results.length > limitNum;
-    const data = hasMore ? results.slice(0, limitNum) : results;
-    const nextCursor = hasMore ? data[data.length - 1].id : null;
+    const { data, nextCursor, hasMore } = toPage(results, limitNum, loanSort);
 
     res.json({ data, nextCursor, hasMore });
   } catch (error) {
@@ -134,9 +134,11 @@ export const getFinanceLoanRequestById = async (req: AuthRequest, res: Response)
       .where(eq(loanRequestComments.loanRequestId, id))
       .orderBy(loanRequestComments.createdAt);
 
+    // Includes the history of requests merged into this one
     const auditLogs = await db
       .select({
         id: loanRequestAuditLogs.id,
+        loanRequestId: loanRequestAuditLogs.loanRequestId,
         action: loanRequestAuditLogs.action,
         oldValue: loanRequestAuditLogs.oldValue,
         newValue: loanRequestAuditLogs.newValue,
@@ -147,16 +149,22 @@ export const getFinanceLoanRequestById = async (req: AuthRequest, res: Response)
       })
       .from(loanRequestAuditLogs)
       .leftJoin(users, eq(loanRequestAuditLogs.actorId, users.id))
-      .where(eq(loanRequestAuditLogs.loanRequestId, id))
+      .where(inArray(loanRequestAuditLogs.loanRequestId, await loanDuplicateService.historyIds(loanRequest)))
       .orderBy(loanRequestAuditLogs.createdAt);
 
+    const documents = await loanDocumentService.getChecklist(loanRequest, { withDownloadUrls: true });
+    const lenderSubmissions = await lenderSubmissionService.listForLoanRequest(id);
+
     res.json({
       loanRequest: {
         ...loanRequest,
         assignee: assignee[0] || null,
       },
+      allowedTransitions: getAvailableTransitions(loanRequest.status, 'finance'),
       comments,
       auditLogs,
+      documents,
+      lenderSubmissions,
     });
   } catch (error) {
     console.error('Get loan request by id error:', error);
@@ -187,12 +195,25 @@ export const takeLoanRequest = async (req: AuthRequest, res: Response) => {
       });
     }
 
+    // Taking a fresh request starts the review; taking one already in progress only claims it
+    const startsReview = existing.status === 'received';
+    const ctx = { actor: 'finance' as const, actorId: financeId, assigneeId: financeId };
+    if (startsReview) {
+      const check = checkTransition(existing.status, 'under_review', ctx);
+      if (!check.allowed) {
+        return res.status(transitionErrorStatus(check.reason)).json({ message: check.message, allowedTransitions: check.allowedTransitions });
+      }
+    }
+
+    const statusUpdate = startsReview
+      ? await loanWorkflowService.buildStatusUpdate(existing, 'under_review')
+      : { lastActivityAt: new Date() };
+
     const [updated] = await db
       .update(loanRequests)
       .set({
         assigneeId: financeId,
-        status: 'under_review',
-        lastActivityAt: new Date(),
+        ...statusUpdate,
         version: sql`${loanRequests.version} + 1`,
         updatedAt: new Date(),
       })
@@ -215,7 +236,9 @@ export const takeLoanRequest = async (req: AuthRequest, res: Response) => {
     });
 
     await createAuditLog(id, financeId, 'assigned', undefined, financeId.toString(), 'Self-assigned');
-    await createAuditLog(id, financeId, 'status_change', existing.status, 'under_review');
+    if (startsReview) {
+      await loanWorkflowService.afterTransition(existing, updated, ctx);
+    }
 
     console.log(`📋 Loan request ${id} taken by finance employee ${financeId}`);
 
@@ -231,14 +254,10 @@ export const updateLoanRequestStatus = async (req: AuthRequest, res: Response) =
     const { id } = req.params;
     const financeId = req.user!.userId;
     const { status, comment } = z.object({
-      status: z.enum(['received', 'under_review', 'contacted', 'closed', 'rejected']),
+      status: z.enum(LOAN_STATUSES),
       comment: z.string().max(1000).optional(),
     }).parse(req.body);
 
-    if ((status === 'closed' || status === 'rejected') && !comment) {
-      return res.status(400).json({ message: 'Comment is required for closed or rejected status' });
-    }
-
     const [existing] = await db
       .select()
       .from(loanRequests)
@@ -249,38 +268,23 @@ export const updateLoanRequestStatus = async (req: AuthRequest, res: Response) =
       return res.status(404).json({ message: 'Loan request not found' });
     }
 
-    const allowedTransitions = ALLOWED_STATUS_TRANSITIONS[existing.status] || [];
-    if (!allowedTransitions.includes(status)) {
-      return res.status(400).json({
-        message: `Cannot transition from ${existing.status} to ${status}`,
-        allowedTransitions,
-      });
-    }
-
-    const [updated] = await db
-      .update(loanRequests)
-      .set({
-        status,
-        lastActivityAt: new Date(),
-        version: sql`${loanRequests.version} + 1`,
-        updatedAt: new Date(),
-      })
-      .where(and(eq(loanRequests.id, id), eq(loanRequests.version, existing.version)))
-      .returning();
+    const result = await loanWorkflowService.transition(existing, status, { actor: 'finance', actorId: financeId, comment });
 
-    if (!updated) {
-      const [current] = await db.select().from(loanRequests).where(eq(loanRequests.id, id)).limit(1);
+    if (result.error === 'conflict') {
       return res.status(409).json({
         message: 'Loan request was modified by another user',
-        loanRequest: current,
+        loanRequest: result.loanRequest,
       });
     }
 
-    await createAuditLog(id, financeId, 'status_change', existing.status, status, comment);
-
-    console.log(`📋 Loan request ${id} status changed from ${existing.status} to ${status} by ${financeId}`);
+    if (result.error) {
+      return res.status(transitionErrorStatus(result.error)).json({
+        message: result.message,
+        allowedTransitions: result.allowedTransitions,
+      });
+    }
 
-    res.json({ success: true, loanRequest: updated });
+    res.json({ success: true, loanRequest: result.loanRequest });
   } catch (error: any) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ message: error.issues[0].message });
@@ -323,6 +327,8 @@ export const addLoanRequestComment = async (req: AuthRequest, res: Response) =>
 
     await createAuditLog(id, financeId, 'comment_added', undefined, text.substring(0, 100));
 
+    if (isPublic) emitLoanRequestComment([existing.userId], id, comment);
+
     const [author] = await db.select({ name: users.name }).from(users).where(eq(users.id, financeId)).limit(1);
 
     res.json({
@@ -341,6 +347,176 @@ export const addLoanRequestComment = async (req: AuthRequest, res: Response) =>
   }
 };
 
+export const reviewLoanRequestDocument = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id, documentId } = req.params;
+    const financeId = req.user!.userId;
+    const { status, reason } = z.object({
+      status: z.enum(['verified', 'rejected']),
+      reason: z.string().trim().max(500).optional(),
+    }).refine(data => data.status !== 'rejected' || data.reason, {
+      message: 'A reason is required when rejecting a document',
+    }).parse(req.body);
+
+    const [existing] = await db
+      .select()
+      .from(loanRequests)
+      .where(and(eq(loanRequests.id, id), isNull(loanRequests.deletedAt)))
+      .limit(1);
+
+    if (!existing) {
+      return res.status(404).json({ message: 'Loan request not found' });
+    }
+
+    if (existing.assigneeId && existing.assigneeId !== financeId) {
+      return res.status(403).json({ message: 'This request is assigned to another user' });
+    }
+
+    const document = z.uuid().safeParse(documentId).success
+      ? await loanDocumentService.review(existing, documentId, financeId, { status, reason })
+      : null;
+    if (!document) {
+      return res.status(404).json({ message: 'Document not found' });
+    }
+
+    const { completeness } = await loanDocumentService.getChecklist(existing);
+
+    res.json({ success: true, document, completeness });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: error.issues[0].message });
+    }
+    console.error('Review loan request document error:', error);
+    res.status(500).json({ message: 'Failed to review document' });
+  }
+};
+
+// Active lenders and products, for choosing where to send a request
+type LenderProductRow = typeof lenderProducts.$inferSelect;
+
+// Product as offered to finance: rates in percent instead of basis points
+type ActiveLenderProduct = Pick<LenderProductRow, 'id' | 'name' | 'loanType' | 'maxLtvPercent' | 'maxTenureYears'> & { minRate: number; maxRate: number };
+
+export const getActiveLenders = async (req: AuthRequest, res: Response) => {
+  try {
+    const rows = await db
+      .select({
+        lenderId: lenders.id,
+        lenderName: lenders.name,
+        productId: lenderProducts.id,
+        productName: lenderProducts.name,
+        loanType: lenderProducts.loanType,
+        minRateBps: lenderProducts.minRateBps,
+        maxRateBps: lenderProducts.maxRateBps,
+        maxLtvPercent: lenderProducts.maxLtvPercent,
+        maxTenureYears: lenderProducts.maxTenureYears,
+      })
+      .from(lenders)
+      .leftJoin(lenderProducts, and(eq(lenderProducts.lenderId, lenders.id), eq(lenderProducts.active, true)))
+      .where(eq(lenders.active, true))
+      .orderBy(lenders.name, lenderProducts.name);
+
+    const grouped = new Map<number, { id: number; name: string; products: ActiveLenderProduct[] }>();
+    for (const row of rows) {
+      if (!grouped.has(row.lenderId)) grouped.set(row.lenderId, { id: row.lenderId, name: row.lenderName, products: [] });
+      if (row.productId) {
+        grouped.get(row.lenderId)!.products.push({
+          id: row.productId,
+          name: row.productName,
+          loanType: row.loanType,
+          minRate: row.minRateBps / 100,
+          maxRate: row.maxRateBps / 100,
+          maxLtvPercent: row.maxLtvPercent,
+          maxTenureYears: row.maxTenureYears,
+        });
+      }
+    }
+
+    res.json({ lenders: Array.from(grouped.values()) });
+  } catch (error) {
+    console.error('Get active lenders error:', error);
+    res.status(500).json({ message: 'Failed to fetch lenders' });
+  }
+};
+
+export const createLenderSubmission = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const financeId = req.user!.userId;
+    const data = submissionSchema.parse(req.body);
+
+    const [existing] = await db
+      .select()
+      .from(loanRequests)
+      .where(and(eq(loanRequests.id, id), isNull(loanRequests.deletedAt)))
+      .limit(1);
+
+    if (!existing) {
+      return res.status(404).json({ message: 'Loan request not found' });
+    }
+
+    if (existing.assigneeId !== financeId) {
+      return res.status(403).json({ message: 'Only the assignee can send this request to a lender' });
+    }
+
+    const result = await lenderSubmissionService.create(existing, financeId, data);
+    if (result.error) {
+      return res.status(submissionErrorStatus(result.error)).json({ message: result.message });
+    }
+
+    res.status(201).json({ success: true, submission: result.submission });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: error.issues[0].message });
+    }
+    console.error('Create lender submission error:', error);
+    res.status(500).json({ message: 'Failed to submit to lender' });
+  }
+};
+
+export const updateLenderSubmission = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id, submissionId } = req.params;
+    const financeId = req.user!.userId;
+    const data = submissionUpdateSchema.parse(req.body);
+
+    const [existing] = await db
+      .select({ assigneeId: loanRequests.assigneeId })
+      .from(loanRequests)
+      .where(and(eq(loanRequests.id, id), isNull(loanRequests.deletedAt)))
+      .limit(1);
+
+    if (!existing) {
+      return res.status(404).json({ message: 'Loan request not found' });
+    }
+
+    if (existing.assigneeId !== financeId) {
+      return res.status(403).json({ message: 'This request is assigned to another user' });
+    }
+
+    const submission = await lenderSubmissionService.findForLoanRequest(id, submissionId);
+    if (!submission) {
+      return res.status(404).json({ message: 'Submission not found' });
+    }
+
+    const result = await lenderSubmissionService.updateStatus(submission, financeId, data);
+    if (result.error) {
+      return res.status(submissionErrorStatus(result.error)).json({
+        message: result.message,
+        allowedStatuses: result.allowedStatuses,
+      });
+    }
+
+    res.json({ success: true, submission: result.submission });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: error.issues[0].message });
+    }
+    console.error('Update lender submission error:', error);
+    res.status(500).json({ message: 'Failed to update submission' });
+  }
+};
+
 export const getFinanceLoanRequestStats = async (req: AuthRequest, res: Response) => {
   try {
     const financeId = req.user!.userId;
@@ -0,0 +1,130 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { leadService, LeadViewer } from '../services/leadService';
+import { LEAD_SOURCES, LEAD_STAGES } from '../config/leads';
+import { UserRole } from '../types';
+import { statusFor, handleError } from '../utils/controllerErrors';
+
+interface AuthRequest extends Request {
+  user?: {
+    userId: number;
+    phone: string;
+    role?: UserRole;
+    department?: string;
+  };
+}
+
+const listSchema = z.object({
+  stage: z.enum(LEAD_STAGES).optional(),
+  source: z.enum(LEAD_SOURCES).optional(),
+  propertyId: z.uuid().optional(),
+  assigneeId: z.coerce.number().int().positive().optional(),
+  q: z.string().trim().max(100).optional(),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).transform(val => Math.min(val, 50)).default(20),
+});
+
+const pipelineSchema = listSchema.pick({ source: true, propertyId: true });
+
+const stageSchema = z.object({
+  stage: z.enum(LEAD_STAGES),
+  note: z.string().trim().max(2000).optional(),
+});
+
+const noteSchema = z.object({
+  note: z.string().trim().min(1, 'Note is required').max(2000),
+});
+
+const assignSchema = z.object({
+  assigneeId: z.number().int().positive(),
+});
+
+const viewerOf = (req: AuthRequest): LeadViewer => ({
+  userId: req.user!.userId,
+  role: req.user!.role,
+  department: req.user!.department,
+});
+
+// GET /api/leads — leads the caller can work, most recently active first
+export const getLeads = async (req: AuthRequest, res: Response) => {
+  try {
+    const options = listSchema.parse(req.query);
+    const result = await leadService.list(viewerOf(req), options);
+
+    if (result.error) {
+      return res.status(400).json({ message: result.message });
+    }
+
+    res.json(result);
+  } catch (error: any) {
+    handleError(res, error, 'Failed to fetch leads');
+  }
+};
+
+// GET /api/leads/pipeline — stage counts overall and per agent
+export const getLeadPipeline = async (req: AuthRequest, res: Response) => {
+  try {
+    const options = pipelineSchema.parse(req.query);
+    res.json(await leadService.pipeline(viewerOf(req), options));
+  } catch (error: any) {
+    handleError(res, error, 'Failed to fetch lead pipeline');
+  }
+};
+
+export const getLeadById = async (req: AuthRequest, res: Response) => {
+  try {
+    const lead = await leadService.get(viewerOf(req), req.params.id);
+    if (!lead) {
+      return res.status(404).json({ message: 'Lead not found' });
+    }
+
+    res.json(lead);
+  } catch (error: any) {
+    handleError(res, error, 'Failed to fetch lead');
+  }
+};
+
+export const changeLeadStage = async (req: AuthRequest, res: Response) => {
+  try {
+    const data = stageSchema.parse(req.body);
+    const result = await leadService.changeStage(viewerOf(req), req.params.id, data);
+
+    if (result.error) {
+      return res.status(statusFor(result.error)).json({ message: result.message });
+    }
+
+    res.json(result.lead);
+  } catch (error: any) {
+    handleError(res, error, 'Failed to update lead stage');
+  }
+};
+
+export const addLeadNote = async (req: AuthRequest, res: Response) => {
+  try {
+    const { note } = noteSchema.parse(req.body);
+    const result = await leadService.addNote(viewerOf(req), req.params.id, note);
+
+    if (result.error) {
+      return res.status(statusFor(result.error)).json({ message: result.message });
+    }
+
+    res.status(201).json(result.activity);
+  } catch (error: any) {
+    handleError(res, error, 'Failed to add note');
+  }
+};
+
+export const assignLead = async (req: AuthRequest, res: Response) => {
+  try {
+    const { assigneeId } = assignSchema.parse(req.body);
+    const result = await leadService.assign(viewerOf(req), req.params.id, assigneeId);
+
+    if (result.error) {
+      return res.status(statusFor(result.error)).json({ message: result.message });
+    }
+
+    res.json(result.lead);
+  } catch (error: any) {
+    handleError(res, error, 'Failed to assign lead');
+  }
+};
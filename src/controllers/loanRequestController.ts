@@ -1,9 +1,22 @@
 import { Request, Response } from 'express';
 import { z } from 'zod';
 import { db } from '../config/database';
-import { loanRequests } from '../models/loanRequest';
+import { loanRequests, loanRequestComments, loanRequestAuditLogs, loanRequestDocuments } from '../models/loanRequest';
+import { uploads } from '../models/upload';
 import { users } from '../models/user';
-import { eq, and, desc, gte, lte, isNull } from 'drizzle-orm';
+import { eq, and, gte, lte, isNull, isNotNull, getTableColumns } from 'drizzle-orm';
+import { slaService } from '../services/slaService';
+import { loanEstimateService } from '../services/loanEstimateService';
+import { loanRoutingService } from '../services/loanRoutingService';
+import { loanDuplicateService } from '../services/loanDuplicateService';
+import { getLoanRequestSort } from '../services/loanRequestQuery';
+import { keyset, toPage } from '../utils/pagination';
+import { LOAN_STATUS_LABELS, LoanStatus, getAvailableTransitions, isTerminalStatus } from '../config/loanWorkflow';
+import { loanWorkflowService, transitionErrorStatus } from '../services/loanWorkflowService';
+import { emitLoanRequestComment, emitToEmployee } from '../services/socketService';
+import { loanDocumentService } from '../services/loanDocumentService';
+import { isLoanDocumentType } from '../config/loanDocuments';
+import { LOAN_TYPES } from '../types';
 
 interface AuthRequest extends Request {
   user?: {
@@ -12,16 +25,20 @@ interface AuthRequest extends Request {
   };
 }
 
+const loanTypeSchema = z.enum(LOAN_TYPES);
+const tenureSchema = z.enum(['5 Years', '10 Years', '15 Years', '20 Years', '25 Years', '30 Years']);
+
 const loanRequestSchema = z.object({
-  loanType: z.enum(['Home Loan', 'Plot Loan', 'Construction Loan', 'Home Improvement Loan', 'Balance Transfer', 'Top-Up Loan']),
+  loanType: loanTypeSchema,
   propertyCategory: z.string().min(1, 'Property category is required'),
   propertyValue: z.number().positive('Property value must be greater than 0'),
   loanAmountNeeded: z.number().positive('Loan amount must be greater than 0'),
   employmentType: z.enum(['Salaried', 'Self-Employed', 'Business Owner', 'Freelancer']),
   monthlyIncome: z.number().positive('Monthly income must be greater than 0'),
-  preferredTenure: z.enum(['5 Years', '10 Years', '15 Years', '20 Years', '25 Years', '30 Years']),
+  preferredTenure: tenureSchema,
   existingLoans: z.boolean(),
   existingLoanDetails: z.string().optional(),
+  existingEmi: z.number().min(0, 'Existing EMI cannot be negative').optional(),
   preferredContactTime: z.enum(['Morning (9–12)', 'Afternoon (12–4)', 'Evening (4–7)']),
   additionalNotes: z.string().max(1000, 'Additional notes cannot exceed 1000 characters').optional(),
 }).refine(
@@ -32,6 +49,18 @@ const loanRequestSchema = z.object({
   { message: 'Existing loan details are required when you have existing loans', path: ['existingLoanDetails'] }
 );
 
+const estimateSchema = z.object({
+  loanType: loanTypeSchema,
+  propertyValue: z.number().positive('Property value must be greater than 0'),
+  loanAmountNeeded: z.number().positive('Loan amount must be greater than 0'),
+  monthlyIncome: z.number().positive('Monthly income must be greater than 0'),
+  preferredTenure: tenureSchema.optional().default('20 Years'),
+  existingLoans: z.boolean().optional(),
+  existingEmi: z.number().min(0, 'Existing EMI cannot be negative').optional(),
+});
+
+const tenureYears = (tenure: string) => parseInt(tenure);
+
 const rateLimitMap = new Map<number, { count: number; resetAt: number }>();
 
 const checkRateLimit = (userId: number): boolean => {
@@ -67,10 +96,24 @@ export const createLoanRequest = async (req: AuthRequest, res: Response) => {
       return res.status(404).json({ message: 'User not found' });
     }
     
-    const slaDueAt = new Date();
-    slaDueAt.setHours(slaDueAt.getHours() + 24);
+    const slaDueAt = await slaService.computeDueAt({ priority: 'normal', loanType: validatedData.loanType });
+    const estimate = await loanEstimateService.estimate(validatedData.loanType, {
+      propertyValue: validatedData.propertyValue,
+      loanAmountNeeded: validatedData.loanAmountNeeded,
+      monthlyIncome: validatedData.monthlyIncome,
+      tenureYears: tenureYears(validatedData.preferredTenure),
+      existingLoans: validatedData.existingLoans,
+      existingEmi: validatedData.existingEmi,
+    });
 
-    const [loanRequest] = await db.insert(loanRequests).values({
+    const duplicateOf = await loanDuplicateService.findDuplicate({
+      userId,
+      loanType: validatedData.loanType,
+      loanAmountNeeded: validatedData.loanAmountNeeded,
+      createdAt: new Date(),
+    });
+
+    const [created] = await db.insert(loanRequests).values({
       userId,
       userName: user.name || 'Unknown',
       userEmail: user.email || user.phone,
@@ -86,12 +129,29 @@ export const createLoanRequest = async (req: AuthRequest, res: Response) => {
       preferredTenure: validatedData.preferredTenure,
       existingLoans: validatedData.existingLoans,
       existingLoanDetails: validatedData.existingLoanDetails || null,
+      existingEmi: validatedData.existingEmi ?? null,
       preferredContactTime: validatedData.preferredContactTime,
       additionalNotes: validatedData.additionalNotes || null,
+      estimate,
+      isAffordable: estimate.affordable,
       status: 'received',
       slaDueAt,
+      duplicateOfId: duplicateOf?.id || null,
       lastActivityAt: new Date(),
     }).returning();
+
+    let loanRequest = created;
+    if (duplicateOf) {
+      // Likely resubmission: keep it out of routing so an admin can merge it instead of a second person working it
+      await db.insert(loanRequestAuditLogs).values({ loanRequestId: created.id, actorId: null, action: 'duplicate_flagged', newValue: duplicateOf.id });
+      if (duplicateOf.assigneeId) emitToEmployee(duplicateOf.assigneeId, 'loan_request_duplicate', { loanRequestId: created.id, duplicateOfId: duplicateOf.id });
+    } else {
+      // Routing is best effort: a failure leaves the request in the unassigned queue
+      loanRequest = await loanRoutingService.routeNewRequest(created).catch(error => {
+        console.error('❌ Loan request auto-assignment failed:', error);
+        return created;
+      });
+    }
     
     console.log(`📋 Loan request created: ID=${loanRequest.id}, User=${user.name}, Type=${validatedData.loanType}, Amount=${validatedData.loanAmountNeeded}`);
     
@@ -105,6 +165,7 @@ export const createLoanRequest = async (req: AuthRequest, res: Response) => {
       success: true, 
       id: loanRequest.id,
       status: loanRequest.status,
+      duplicateOfId: loanRequest.duplicateOfId,
       message: 'Loan request received successfully. Our finance team will contact you soon.' 
     });
   } catch (error: any) {
@@ -119,6 +180,30 @@ export const createLoanRequest = async (req: AuthRequest, res: Response) => {
   }
 };
 
+// EMI across tenures, FOIR-based eligibility and LTV limits from the configured rate table for the loan type
+export const estimateLoanRequest = async (req: AuthRequest, res: Response) => {
+  try {
+    const data = estimateSchema.parse(req.body);
+
+    const estimate = await loanEstimateService.estimate(data.loanType, {
+      propertyValue: data.propertyValue,
+      loanAmountNeeded: data.loanAmountNeeded,
+      monthlyIncome: data.monthlyIncome,
+      tenureYears: tenureYears(data.preferredTenure),
+      existingLoans: data.existingLoans,
+      existingEmi: data.existingEmi,
+    });
+
+    res.json({ estimate });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: error.issues[0].message });
+    }
+    console.error('Loan estimate error:', error);
+    res.status(500).json({ message: 'Failed to calculate estimate' });
+  }
+};
+
 export const getAdminLoanRequests = async (req: AuthRequest, res: Response) => {
   try {
     const { status, startDate, endDate, limit = '20', cursor } = req.query;
@@ -138,15 +223,20 @@ export const getAdminLoanRequests = async (req: AuthRequest, res: Response) => {
       whereConditions.push(lte(loanRequests.createdAt, new Date(endDate)));
     }
     
-    const results = await db.select()
+    const loanSort = getLoanRequestSort('newest');
+    const page = keyset(loanSort, cursor as string | undefined);
+    if (page.error) {
+      return res.status(400).json({ message: page.error });
+    }
+    if (page.where) whereConditions.push(page.where);
+    
+    const results = await db.select({ ...getTableColumns(loanRequests), cursorKey: page.cursorKey })
       .from(loanRequests)
       .where(and(...whereConditions))
-      .orderBy(desc(loanRequests.createdAt))
+      .orderBy(...page.orderBy)
       .limit(limitNum + 1);
     
-    const hasMore = results.length > limitNum;
-    const data = hasMore ? results.slice(0, limitNum) : results;
-    const nextCursor = hasMore ? data[data.length - 1].id : null;
+    const { data, nextCursor, hasMore } = toPage(results, limitNum, loanSort);
     
     res.json({ data, nextCursor, hasMore });
   } catch (error) {
@@ -155,6 +245,335 @@ export const getAdminLoanRequests = async (req: AuthRequest, res: Response) => {
   }
 };
 
+// ---------- Customer views ----------
+// Customers only ever see their own requests, public comments, and the first name of the staff member handling them.
+
+const customerLoanRequestColumns = {
+  id: loanRequests.id,
+  loanType: loanRequests.loanType,
+  propertyCategory: loanRequests.propertyCategory,
+  propertyValue: loanRequests.propertyValue,
+  loanAmountNeeded: loanRequests.loanAmountNeeded,
+  employmentType: loanRequests.employmentType,
+  monthlyIncome: loanRequests.monthlyIncome,
+  preferredTenure: loanRequests.preferredTenure,
+  preferredContactTime: loanRequests.preferredContactTime,
+  additionalNotes: loanRequests.additionalNotes,
+  status: loanRequests.status,
+  assigneeId: loanRequests.assigneeId,
+  lastActivityAt: loanRequests.lastActivityAt,
+  createdAt: loanRequests.createdAt,
+};
+
+const firstName = (name: string | null) => name?.trim().split(/\s+/)[0] || null;
+
+const findOwnLoanRequest = async (id: string, userId: number) => {
+  if (!z.uuid().safeParse(id).success) return null;
+
+  const [loanRequest] = await db
+    .select()
+    .from(loanRequests)
+    .where(and(eq(loanRequests.id, id), eq(loanRequests.userId, userId), isNull(loanRequests.deletedAt)))
+    .limit(1);
+
+  return loanRequest || null;
+};
+
+// Where a customer's request went if an admin merged it into another one
+const findMergedInto = async (id: string, userId: number) => {
+  if (!z.uuid().safeParse(id).success) return null;
+
+  const [merged] = await db
+    .select({ mergedIntoId: loanRequests.mergedIntoId })
+    .from(loanRequests)
+    .where(and(eq(loanRequests.id, id), eq(loanRequests.userId, userId), isNotNull(loanRequests.mergedIntoId)))
+    .limit(1);
+
+  return merged?.mergedIntoId || null;
+};
+
+export const getMyLoanRequests = async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = parseInt(req.user!.userId);
+    const { status, limit = '20', cursor } = req.query;
+    const limitNum = Math.min(parseInt(limit as string) || 20, 50);
+
+    const whereConditions = [eq(loanRequests.userId, userId), isNull(loanRequests.deletedAt)];
+    if (status && typeof status === 'string' && status !== 'all') {
+      whereConditions.push(eq(loanRequests.status, status));
+    }
+
+    const loanSort = getLoanRequestSort('newest');
+    const page = keyset(loanSort, cursor as string | undefined);
+    if (page.error) {
+      return res.status(400).json({ message: page.error });
+    }
+    if (page.where) whereConditions.push(page.where);
+
+    const results = await db
+      .select({ ...customerLoanRequestColumns, assigneeName: users.name, cursorKey: page.cursorKey })
+      .from(loanRequests)
+      .leftJoin(users, eq(loanRequests.assigneeId, users.id))
+      .where(and(...whereConditions))
+      .orderBy(...page.orderBy)
+      .limit(limitNum + 1);
+
+    const { data, nextCursor, hasMore } = toPage(results, limitNum, loanSort);
+
+    res.json({
+      data: data.map(({ assigneeId, assigneeName, ...loanRequest }) => ({
+        ...loanRequest,
+        statusLabel: LOAN_STATUS_LABELS[loanRequest.status as LoanStatus] || loanRequest.status,
+        assigneeFirstName: firstName(assigneeName),
+      })),
+      nextCursor,
+      hasMore,
+    });
+  } catch (error) {
+    console.error('Get my loan requests error:', error);
+    res.status(500).json({ message: 'Failed to fetch loan requests' });
+  }
+};
+
+export const getMyLoanRequestById = async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = parseInt(req.user!.userId);
+    const existing = await findOwnLoanRequest(req.params.id, userId);
+    if (!existing) {
+      const mergedIntoId = await findMergedInto(req.params.id, userId);
+      if (mergedIntoId) return res.status(404).json({ message: 'This loan request was merged into another request', mergedIntoId });
+      return res.status(404).json({ message: 'Loan request not found' });
+    }
+
+    const [loanRequest] = await db
+      .select({ ...customerLoanRequestColumns, assigneeName: users.name })
+      .from(loanRequests)
+      .leftJoin(users, eq(loanRequests.assigneeId, users.id))
+      .where(eq(loanRequests.id, existing.id))
+      .limit(1);
+
+    // Status history only: audit comments are internal notes
+    const statusChanges = await db
+      .select({ status: loanRequestAuditLogs.newValue, at: loanRequestAuditLogs.createdAt })
+      .from(loanRequestAuditLogs)
+      .where(and(eq(loanRequestAuditLogs.loanRequestId, existing.id), eq(loanRequestAuditLogs.action, 'status_change')))
+      .orderBy(loanRequestAuditLogs.createdAt);
+
+    const timeline = [{ status: 'received', at: existing.createdAt }, ...statusChanges].map(entry => ({
+      ...entry,
+      label: LOAN_STATUS_LABELS[entry.status as LoanStatus] || entry.status,
+    }));
+
+    const comments = await db
+      .select({
+        id: loanRequestComments.id,
+        text: loanRequestComments.text,
+        authorId: loanRequestComments.authorId,
+        authorName: users.name,
+        createdAt: loanRequestComments.createdAt,
+      })
+      .from(loanRequestComments)
+      .leftJoin(users, eq(loanRequestComments.authorId, users.id))
+      .where(and(eq(loanRequestComments.loanRequestId, existing.id), eq(loanRequestComments.isPublic, true)))
+      .orderBy(loanRequestComments.createdAt);
+
+    const { assigneeId, assigneeName, ...details } = loanRequest;
+
+    res.json({
+      loanRequest: {
+        ...details,
+        statusLabel: LOAN_STATUS_LABELS[details.status as LoanStatus] || details.status,
+        assigneeFirstName: firstName(assigneeName),
+      },
+      timeline,
+      comments: comments.map(({ authorId, authorName, ...comment }) => ({
+        ...comment,
+        fromCustomer: authorId === userId,
+        authorName: authorId === userId ? 'You' : firstName(authorName) || 'Finance team',
+      })),
+      canWithdraw: getAvailableTransitions(existing.status, 'customer').includes('withdrawn'),
+      canReply: !isTerminalStatus(existing.status),
+    });
+  } catch (error) {
+    console.error('Get my loan request error:', error);
+    res.status(500).json({ message: 'Failed to fetch loan request' });
+  }
+};
+
+export const replyToLoanRequest = async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = parseInt(req.user!.userId);
+    const { text } = z.object({ text: z.string().trim().min(1, 'Reply cannot be empty').max(1000) }).parse(req.body);
+
+    const existing = await findOwnLoanRequest(req.params.id, userId);
+    if (!existing) {
+      return res.status(404).json({ message: 'Loan request not found' });
+    }
+
+    if (isTerminalStatus(existing.status)) {
+      return res.status(400).json({ message: 'This loan request is no longer open for replies' });
+    }
+
+    const [comment] = await db.insert(loanRequestComments).values({
+      loanRequestId: existing.id,
+      authorId: userId,
+      text,
+      isPublic: true,
+    }).returning();
+
+    await db.update(loanRequests).set({ lastActivityAt: new Date() }).where(eq(loanRequests.id, existing.id));
+
+    await db.insert(loanRequestAuditLogs).values({
+      loanRequestId: existing.id,
+      actorId: userId,
+      action: 'customer_reply',
+      newValue: text.substring(0, 100),
+    });
+
+    if (existing.assigneeId) emitLoanRequestComment([existing.assigneeId], existing.id, comment);
+
+    res.status(201).json({
+      success: true,
+      comment: { id: comment.id, text: comment.text, createdAt: comment.createdAt, fromCustomer: true, authorName: 'You' },
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: error.issues[0].message });
+    }
+    console.error('Reply to loan request error:', error);
+    res.status(500).json({ message: 'Failed to send reply' });
+  }
+};
+
+export const withdrawLoanRequest = async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = parseInt(req.user!.userId);
+    const { reason } = z.object({ reason: z.string().max(1000).optional() }).parse(req.body || {});
+
+    const existing = await findOwnLoanRequest(req.params.id, userId);
+    if (!existing) {
+      return res.status(404).json({ message: 'Loan request not found' });
+    }
+
+    const result = await loanWorkflowService.transition(existing, 'withdrawn', { actor: 'customer', actorId: userId, comment: reason });
+
+    if (result.error === 'conflict') {
+      return res.status(409).json({ message: 'Loan request was just updated, please refresh and try again' });
+    }
+
+    if (result.error) {
+      return res.status(transitionErrorStatus(result.error)).json({ message: 'This loan request can no longer be withdrawn' });
+    }
+
+    res.json({ success: true, id: result.loanRequest.id, status: result.loanRequest.status });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: error.issues[0].message });
+    }
+    console.error('Withdraw loan request error:', error);
+    res.status(500).json({ message: 'Failed to withdraw loan request' });
+  }
+};
+
+export const getMyLoanRequestDocuments = async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = parseInt(req.user!.userId);
+    const existing = await findOwnLoanRequest(req.params.id, userId);
+    if (!existing) {
+      return res.status(404).json({ message: 'Loan request not found' });
+    }
+
+    const checklist = await loanDocumentService.getChecklist(existing);
+    res.json(checklist);
+  } catch (error) {
+    console.error('Get loan request documents error:', error);
+    res.status(500).json({ message: 'Failed to fetch documents' });
+  }
+};
+
+const attachDocumentSchema = z.object({
+  uploadId: z.uuid('Invalid upload ID'),
+  documentType: z.string().refine(isLoanDocumentType, { message: 'Unknown document type' }),
+});
+
+// Links a completed `loan_document` upload (see uploadController) to one of the customer's requests
+export const addLoanRequestDocument = async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = parseInt(req.user!.userId);
+    const { uploadId, documentType } = attachDocumentSchema.parse(req.body);
+
+    const existing = await findOwnLoanRequest(req.params.id, userId);
+    if (!existing) {
+      return res.status(404).json({ message: 'Loan request not found' });
+    }
+
+    if (isTerminalStatus(existing.status)) {
+      return res.status(400).json({ message: 'Documents can no longer be added to this loan request' });
+    }
+
+    const [upload] = await db.select().from(uploads).where(and(eq(uploads.id, uploadId), eq(uploads.ownerId, userId))).limit(1);
+    if (!upload) {
+      return res.status(404).json({ message: 'Upload not found' });
+    }
+
+    if (upload.purpose !== 'loan_document') {
+      return res.status(400).json({ message: 'Upload was not created for a loan document' });
+    }
+
+    if (upload.status !== 'uploaded') {
+      return res.status(400).json({ message: 'Complete the upload before attaching it' });
+    }
+
+    const [alreadyLinked] = await db.select({ id: loanRequestDocuments.id }).from(loanRequestDocuments).where(eq(loanRequestDocuments.uploadId, uploadId)).limit(1);
+    if (alreadyLinked) {
+      return res.status(409).json({ message: 'This file is already attached to a loan request' });
+    }
+
+    // Keys look like loan_document/<userId>/<timestamp>-<original name>
+    const fileName = upload.key.split('/').pop()!.replace(/^\d+-/, '');
+
+    const [document] = await db.insert(loanRequestDocuments).values({
+      loanRequestId: existing.id,
+      uploadId,
+      documentType,
+      fileName,
+      uploadedById: userId,
+    }).returning();
+
+    await db.update(loanRequests).set({ lastActivityAt: new Date() }).where(eq(loanRequests.id, existing.id));
+    await db.insert(loanRequestAuditLogs).values({
+      loanRequestId: existing.id,
+      actorId: userId,
+      action: 'document_uploaded',
+      newValue: documentType,
+    });
+
+    if (existing.assigneeId) {
+      emitToEmployee(existing.assigneeId, 'loan_document_uploaded', { loanRequestId: existing.id, documentId: document.id, documentType });
+    }
+
+    const { completeness } = await loanDocumentService.getChecklist(existing);
+
+    res.status(201).json({
+      success: true,
+      document: {
+        id: document.id,
+        documentType: document.documentType,
+        fileName: document.fileName,
+        status: document.status,
+        createdAt: document.createdAt,
+      },
+      completeness,
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: error.issues[0].message });
+    }
+    console.error('Add loan request document error:', error);
+    res.status(500).json({ message: 'Failed to attach document' });
+  }
+};
+
 // Finance employee operations imported from financeLoanRequestController
 export { 
   getFinanceLoanRequests,
@@ -162,5 +581,9 @@ export {
   takeLoanRequest,
   updateLoanRequestStatus,
   addLoanRequestComment,
+  reviewLoanRequestDocument,
+  getActiveLenders,
+  createLenderSubmission,
+  updateLenderSubmission,
   getFinanceLoanRequestStats
 } from './financeLoanRequestController';
@@ -5,11 +5,12 @@ import { personConversations, personMessages } from '../models/personChat';
 import { users } from '../models/user';
 import { eq, and, or, desc, lt, isNull } from 'drizzle-orm';
 import { emitPersonMessage, emitMessageStatusUpdate } from '../services/socketService';
+import { UserRole } from '../types';
 
 interface AuthRequest extends Request {
   user?: {
     userId: number;
-    role?: string;
+    role?: UserRole;
   };
 }
 
@@ -2,15 +2,21 @@ import { Request, Response } from 'express';
 import { z } from 'zod';
 import { db } from '../config/database';
 import { properties } from '../models/property';
-import { propertyAgentAssignments, propertyEmployeeAssignments } from '../models/propertyAssignment';
 import { users } from '../models/user';
+import { propertySearchService, propertySearchSchema, agentVisiblePropertyIds } from '../services/propertySearchService';
+import { propertyGeoService, propertyGeoSchema, resolveGeoArea } from '../services/propertyGeoService';
+import { propertyDetailsService } from '../services/propertyDetailsService';
+import { propertyPriceService } from '../services/propertyPriceService';
+import { favouriteService } from '../services/favouriteService';
+import { leadService } from '../services/leadService';
 import { desc, lt, eq, and, inArray, sql } from 'drizzle-orm';
+import { UserRole } from '../types';
 
 interface AuthRequest extends Request {
   user?: {
     userId: number;
     phone: string;
-    role?: string;
+    role?: UserRole;
   };
 }
 
@@ -30,19 +36,7 @@ export const getProperties = async (req: AuthRequest, res: Response) => {
     
     // If user is an agent, only show properties assigned to them AND their employee
     if (userRole === 'agent' && userId) {
-      const agentAssignments = await db
-        .select({ propertyId: propertyAgentAssignments.propertyId })
-        .from(propertyAgentAssignments)
-        .innerJoin(properties, eq(propertyAgentAssignments.propertyId, properties.id))
-        .innerJoin(propertyEmployeeAssignments, eq(propertyAgentAssignments.propertyId, propertyEmployeeAssignments.propertyId))
-        .innerJoin(users, eq(propertyEmployeeAssignments.employeeId, users.id))
-        .where(and(
-          eq(propertyAgentAssignments.agentId, userId),
-          eq(properties.deleted, false),
-          eq(users.deleted, false)
-        ));
-      
-      const assignedPropertyIds = agentAssignments.map(a => a.propertyId);
+      const assignedPropertyIds = await agentVisiblePropertyIds(userId);
       
       if (assignedPropertyIds.length > 0) {
         whereConditions.push(inArray(properties.id, assignedPropertyIds));
@@ -76,8 +70,15 @@ export const getProperties = async (req: AuthRequest, res: Response) => {
       .limit(limit + 1);
     
     const hasMore = results.length > limit;
-    const data = hasMore ? results.slice(0, limit) : results;
+    const page = hasMore ? results.slice(0, limit) : results;
     const nextCursor = hasMore ? results[limit - 1].id : null;
+
+    // Assigned agents see how many customers shortlisted each property
+    let data: (typeof page[number] & { favouriteCount?: number })[] = page;
+    if (userRole === 'agent') {
+      const favouriteCounts = await favouriteService.countsFor(page.map(property => property.id));
+      data = page.map(property => ({ ...property, favouriteCount: favouriteCounts.get(property.id) ?? 0 }));
+    }
     
     res.json({
       data,
@@ -92,6 +93,71 @@ export const getProperties = async (req: AuthRequest, res: Response) => {
   }
 };
 
+// GET /api/properties/search — full-text search with price, category, amenity, feature and type filters plus facet counts
+export const searchProperties = async (req: AuthRequest, res: Response) => {
+  try {
+    const filters = propertySearchSchema.parse(req.query);
+    if (filters.minPrice !== undefined && filters.maxPrice !== undefined && filters.minPrice > filters.maxPrice) {
+      return res.status(400).json({ message: 'minPrice cannot be greater than maxPrice' });
+    }
+
+    const userRole = req.user?.role?.toLowerCase();
+    const userId = req.user?.userId;
+
+    // Same visibility as the property list: agents only search their assigned properties
+    const visibleIds = userRole === 'agent' && userId ? await agentVisiblePropertyIds(userId) : undefined;
+
+    const [results, facets] = await Promise.all([
+      propertySearchService.search(filters, visibleIds),
+      propertySearchService.facets(filters, visibleIds),
+    ]);
+
+    if (results.error) {
+      return res.status(400).json({ message: results.error });
+    }
+
+    res.json({ ...results, facets });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: error.issues[0].message });
+    }
+    console.error('Error searching properties:', error);
+    res.status(500).json({ message: 'Failed to search properties' });
+  }
+};
+
+// GET /api/properties/geo — properties within a radius or map bounds, nearest first, or grid clusters for map views
+export const searchPropertiesByArea = async (req: AuthRequest, res: Response) => {
+  try {
+    const filters = propertyGeoSchema.parse(req.query);
+    const area = resolveGeoArea(filters);
+    if (area.error) {
+      return res.status(400).json({ message: area.error });
+    }
+
+    const userRole = req.user?.role?.toLowerCase();
+    const userId = req.user?.userId;
+    const visibleIds = userRole === 'agent' && userId ? await agentVisiblePropertyIds(userId) : undefined;
+
+    if (filters.cluster) {
+      return res.json(await propertyGeoService.clusters(filters, area, filters.zoom!, visibleIds));
+    }
+
+    const results = await propertyGeoService.search(filters, area, visibleIds);
+    if (results.error) {
+      return res.status(400).json({ message: results.error });
+    }
+
+    res.json(results);
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: error.issues[0].message });
+    }
+    console.error('Error searching properties by area:', error);
+    res.status(500).json({ message: 'Failed to search properties' });
+  }
+};
+
 export const getPropertyById = async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
@@ -106,19 +172,7 @@ export const getPropertyById = async (req: AuthRequest, res: Response) => {
     
     // If user is an agent, only show properties assigned to them AND their employee
     if (userRole === 'agent' && userId) {
-      const agentAssignments = await db
-        .select({ propertyId: propertyAgentAssignments.propertyId })
-        .from(propertyAgentAssignments)
-        .innerJoin(properties, eq(propertyAgentAssignments.propertyId, properties.id))
-        .innerJoin(propertyEmployeeAssignments, eq(propertyAgentAssignments.propertyId, propertyEmployeeAssignments.propertyId))
-        .innerJoin(users, eq(propertyEmployeeAssignments.employeeId, users.id))
-        .where(and(
-          eq(propertyAgentAssignments.agentId, userId),
-          eq(properties.deleted, false),
-          eq(users.deleted, false)
-        ));
-      
-      const assignedPropertyIds = agentAssignments.map(a => a.propertyId);
+      const assignedPropertyIds = await agentVisiblePropertyIds(userId);
       
       if (!assignedPropertyIds.includes(id)) {
         return res.status(404).json({ message: 'Property not found' });
@@ -133,9 +187,82 @@ export const getPropertyById = async (req: AuthRequest, res: Response) => {
       return res.status(404).json({ message: 'Property not found' });
     }
 
-    res.json(property[0]);
+    const units = await propertyDetailsService.listUnits(id);
+    const favouriteCount = userRole === 'agent' ? (await favouriteService.countsFor([id])).get(id) ?? 0 : undefined;
+
+    res.json({ ...property[0], units, ...(favouriteCount !== undefined && { favouriteCount }) });
   } catch (error: any) {
     console.error('Error fetching property:', error);
     res.status(500).json({ message: 'Failed to fetch property details' });
   }
 };
+
+// GET /api/properties/:id/price-history — oldest first; staff also see who proposed and approved each change
+export const getPropertyPriceHistory = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userRole = req.user?.role?.toLowerCase();
+    const userId = req.user?.userId;
+
+    if (userRole === 'agent' && userId && !(await agentVisiblePropertyIds(userId)).includes(id)) {
+      return res.status(404).json({ message: 'Property not found' });
+    }
+
+    const [property] = await db.select({ id: properties.id, price: properties.price }).from(properties)
+      .where(and(eq(properties.id, id), eq(properties.deleted, false)))
+      .limit(1);
+
+    if (!property) {
+      return res.status(404).json({ message: 'Property not found' });
+    }
+
+    const history = await propertyPriceService.history(id);
+    const data = userRole === 'customer'
+      ? history.map(({ changedById, proposedById, pendingChangeId, ...entry }) => entry)
+      : history;
+
+    res.json({ propertyId: id, currentPrice: property.price, data });
+  } catch (error: any) {
+    console.error('Error fetching price history:', error);
+    res.status(500).json({ message: 'Failed to fetch price history' });
+  }
+};
+
+const enquirySchema = z.object({
+  message: z.string().trim().max(2000).optional(),
+});
+
+// POST /api/properties/:id/enquiries — a customer's interest in a property, captured as a lead for its agent
+export const enquireAboutProperty = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { message } = enquirySchema.parse(req.body ?? {});
+
+    const [property] = await db.select({ id: properties.id }).from(properties)
+      .where(and(eq(properties.id, id), eq(properties.deleted, false)))
+      .limit(1);
+
+    if (!property) {
+      return res.status(404).json({ message: 'Property not found' });
+    }
+
+    const { lead, created } = await leadService.capture({
+      source: 'property_enquiry',
+      customerId: req.user!.userId,
+      propertyId: property.id,
+      message,
+    });
+
+    res.status(created ? 201 : 200).json({
+      success: true,
+      leadId: lead.id,
+      message: 'Thanks for your interest. Our team will contact you shortly.'
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: error.issues[0].message });
+    }
+    console.error('Error sending property enquiry:', error);
+    res.status(500).json({ message: 'Failed to send enquiry' });
+  }
+};
@@ -0,0 +1,87 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { savedSearchService, savedSearchCriteriaSchema } from '../services/savedSearchService';
+import { UserRole } from '../types';
+
+interface AuthRequest extends Request {
+  user?: {
+    userId: number;
+    phone: string;
+    role?: UserRole;
+  };
+}
+
+const savedSearchSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(60),
+  criteria: savedSearchCriteriaSchema,
+  notify: z.boolean().optional(),
+});
+
+const updateSchema = savedSearchSchema.partial();
+
+export const getSavedSearches = async (req: AuthRequest, res: Response) => {
+  try {
+    const data = await savedSearchService.list(req.user!.userId);
+    res.json({ data });
+  } catch (error) {
+    console.error('Error fetching saved searches:', error);
+    res.status(500).json({ message: 'Failed to fetch saved searches' });
+  }
+};
+
+export const createSavedSearch = async (req: AuthRequest, res: Response) => {
+  try {
+    const data = savedSearchSchema.parse(req.body);
+    const result = await savedSearchService.create(req.user!.userId, data);
+
+    if (result.error) {
+      return res.status(400).json({ message: result.message });
+    }
+
+    res.status(201).json(result.search);
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: error.issues[0].message });
+    }
+    console.error('Error creating saved search:', error);
+    res.status(500).json({ message: 'Failed to save search' });
+  }
+};
+
+export const updateSavedSearch = async (req: AuthRequest, res: Response) => {
+  try {
+    const data = updateSchema.parse(req.body);
+    const searchId = parseInt(req.params.id);
+    if (isNaN(searchId)) {
+      return res.status(404).json({ message: 'Saved search not found' });
+    }
+
+    const result = await savedSearchService.update(req.user!.userId, searchId, data);
+    if (result.error) {
+      return res.status(404).json({ message: result.message });
+    }
+
+    res.json(result.search);
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: error.issues[0].message });
+    }
+    console.error('Error updating saved search:', error);
+    res.status(500).json({ message: 'Failed to update saved search' });
+  }
+};
+
+export const deleteSavedSearch = async (req: AuthRequest, res: Response) => {
+  try {
+    const searchId = parseInt(req.params.id);
+    const removed = !isNaN(searchId) && await savedSearchService.remove(req.user!.userId, searchId);
+    if (!removed) {
+      return res.status(404).json({ message: 'Saved search not found' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting saved search:', error);
+    res.status(500).json({ message: 'Failed to delete saved search' });
+  }
+};
@@ -0,0 +1,175 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { siteVisitService } from '../services/siteVisitService';
+import { DEFAULT_SITE_VISIT_MINUTES, SITE_VISIT_STATUSES, SiteVisitAction } from '../config/siteVisits';
+import { UserRole } from '../types';
+import { statusFor, handleError } from '../utils/controllerErrors';
+
+interface AuthRequest extends Request {
+  user?: {
+    userId: number;
+    phone: string;
+    role?: UserRole;
+  };
+}
+
+const requestSchema = z.object({
+  propertyId: z.uuid(),
+  scheduledAt: z.coerce.date(),
+  durationMinutes: z.number().int().optional().default(DEFAULT_SITE_VISIT_MINUTES),
+  note: z.string().trim().max(1000).optional(),
+});
+
+const listSchema = z.object({
+  status: z.enum(SITE_VISIT_STATUSES).optional(),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).transform(val => Math.min(val, 50)).default(20),
+});
+
+const assignedListSchema = listSchema.extend({
+  propertyId: z.uuid().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+const actionSchema = z.object({
+  scheduledAt: z.coerce.date().optional(),
+  durationMinutes: z.number().int().optional(),
+  reason: z.string().trim().max(1000).optional(),
+});
+
+const feedbackSchema = z.object({
+  rating: z.number().int().min(1, 'Rating must be between 1 and 5').max(5, 'Rating must be between 1 and 5'),
+  comment: z.string().trim().max(2000).optional(),
+});
+
+// POST /api/site-visits — customer requests a slot on a property
+export const requestSiteVisit = async (req: AuthRequest, res: Response) => {
+  try {
+    const data = requestSchema.parse(req.body);
+    const result = await siteVisitService.request(req.user!.userId, data);
+
+    if (result.error) {
+      return res.status(statusFor(result.error)).json({ message: result.message });
+    }
+
+    res.status(201).json(result.visit);
+  } catch (error: any) {
+    handleError(res, error, 'Failed to request site visit');
+  }
+};
+
+export const getMySiteVisits = async (req: AuthRequest, res: Response) => {
+  try {
+    const options = listSchema.parse(req.query);
+    const result = await siteVisitService.listForCustomer(req.user!.userId, options);
+
+    if (result.error) {
+      return res.status(400).json({ message: result.message });
+    }
+
+    res.json(result);
+  } catch (error: any) {
+    handleError(res, error, 'Failed to fetch site visits');
+  }
+};
+
+export const getMySiteVisitById = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!z.uuid().safeParse(req.params.id).success) {
+      return res.status(404).json({ message: 'Site visit not found' });
+    }
+    const visit = await siteVisitService.getForCustomer(req.user!.userId, req.params.id);
+    if (!visit) {
+      return res.status(404).json({ message: 'Site visit not found' });
+    }
+
+    res.json(visit);
+  } catch (error: any) {
+    handleError(res, error, 'Failed to fetch site visit');
+  }
+};
+
+export const cancelMySiteVisit = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!z.uuid().safeParse(req.params.id).success) {
+      return res.status(404).json({ message: 'Site visit not found' });
+    }
+    const { reason } = actionSchema.parse(req.body ?? {});
+    const result = await siteVisitService.act(req.params.id, 'cancel', { kind: 'customer', userId: req.user!.userId }, { reason });
+
+    if (result.error) {
+      return res.status(statusFor(result.error)).json({ message: result.message });
+    }
+
+    res.json(result.visit);
+  } catch (error: any) {
+    handleError(res, error, 'Failed to cancel site visit');
+  }
+};
+
+export const leaveSiteVisitFeedback = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!z.uuid().safeParse(req.params.id).success) {
+      return res.status(404).json({ message: 'Site visit not found' });
+    }
+    const data = feedbackSchema.parse(req.body);
+    const result = await siteVisitService.leaveFeedback(req.user!.userId, req.params.id, data);
+
+    if (result.error) {
+      return res.status(statusFor(result.error)).json({ message: result.message });
+    }
+
+    res.json(result.visit);
+  } catch (error: any) {
+    handleError(res, error, 'Failed to save feedback');
+  }
+};
+
+// GET /api/site-visits/assigned — visits on the agent's or employee's properties, soonest first
+export const getAssignedSiteVisits = async (req: AuthRequest, res: Response) => {
+  try {
+    const options = assignedListSchema.parse(req.query);
+    const result = await siteVisitService.listAssigned({ userId: req.user!.userId, role: req.user!.role }, options);
+
+    if (result.error) {
+      return res.status(400).json({ message: result.message });
+    }
+
+    res.json(result);
+  } catch (error: any) {
+    handleError(res, error, 'Failed to fetch site visits');
+  }
+};
+
+// GET /api/site-visits/assigned/calendar.ics
+export const exportSiteVisitCalendar = async (req: AuthRequest, res: Response) => {
+  try {
+    const calendar = await siteVisitService.calendar({ userId: req.user!.userId, role: req.user!.role });
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', 'attachment; filename="site-visits.ics"');
+    res.send(calendar);
+  } catch (error: any) {
+    handleError(res, error, 'Failed to export calendar');
+  }
+};
+
+// POST /api/site-visits/assigned/:id/{confirm,reschedule,cancel,check-in,complete,no-show}
+export const actOnSiteVisit = (action: SiteVisitAction) => async (req: AuthRequest, res: Response) => {
+  try {
+    if (!z.uuid().safeParse(req.params.id).success) {
+      return res.status(404).json({ message: 'Site visit not found' });
+    }
+    const input = actionSchema.parse(req.body ?? {});
+    const result = await siteVisitService.act(req.params.id, action, { kind: 'staff', userId: req.user!.userId, role: req.user!.role }, input);
+
+    if (result.error) {
+      return res.status(statusFor(result.error)).json({ message: result.message });
+    }
+
+    res.json(result.visit);
+  } catch (error: any) {
+    handleError(res, error, 'Failed to update site visit');
+  }
+};
@@ -1,30 +1,23 @@
 import { Request, Response } from 'express';
 import { z } from 'zod';
-import { S3Client, PutObjectCommand, HeadObjectCommand } from '@aws-sdk/client-s3';
+import { PutObjectCommand, HeadObjectCommand } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { db } from '../config/database';
 import { uploads } from '../models/upload';
 import { eq } from 'drizzle-orm';
+import { UserRole } from '../types';
+import { s3Client, bucketFor, visibilityForPurpose } from '../utils/cloudflare';
 
 interface AuthRequest extends Request {
-  user?: { userId: number; role?: string };
+  user?: { userId: number; role?: UserRole };
 }
 
-const s3Client = new S3Client({
-  region: 'auto',
-  endpoint: `https://${process.env.R2_ACCOUNT_ID}.r2.cloudflarestorage.com`,
-  credentials: {
-    accessKeyId: process.env.R2_ACCESS_KEY_ID!,
-    secretAccessKey: process.env.R2_SECRET_ACCESS_KEY!,
-  },
-});
-
 const signedUrlSchema = z.object({
   filename: z.string().min(1).optional(),
   fileName: z.string().min(1).optional(),
   contentType: z.string().min(1),
   size: z.number().optional(),
-  purpose: z.enum(['property_image', 'brochure', 'profile', 'banner']).optional().default('profile'),
+  purpose: z.enum(['property_image', 'brochure', 'profile', 'banner', 'loan_document']).optional().default('profile'),
   clientUploadId: z.string().uuid().optional(),
 }).refine((data) => data.filename || data.fileName, {
   message: "Either filename or fileName must be provided"
@@ -48,7 +41,8 @@ export const getSignedUploadUrl = async (req: AuthRequest, res: Response) => {
       property_image: ['image/jpeg', 'image/png', 'image/webp'],
       brochure: ['application/pdf'],
       profile: ['image/jpeg', 'image/png', 'image/webp'],
-      banner: ['image/jpeg', 'image/png', 'image/webp']
+      banner: ['image/jpeg', 'image/png', 'image/webp'],
+      loan_document: ['application/pdf', 'image/jpeg', 'image/png']
     };
     
     if (!allowedTypes[purpose].includes(contentType)) {
@@ -70,14 +64,16 @@ export const getSignedUploadUrl = async (req: AuthRequest, res: Response) => {
       contentType,
     }).returning();
     
+    const visibility = visibilityForPurpose(purpose);
     const command = new PutObjectCommand({
-      Bucket: process.env.R2_BUCKET_NAME!,
+      Bucket: bucketFor(visibility),
       Key: key,
       ContentType: contentType,
     });
     
     const uploadUrl = await getSignedUrl(s3Client, command, { expiresIn: 3600 });
-    const publicUrl = `${process.env.R2_PUBLIC_URL}/${key}`;
+    // Private uploads have no public URL; they are only served through short-lived signed links
+    const publicUrl = visibility === 'private' ? null : `${process.env.R2_PUBLIC_URL}/${key}`;
     
     res.json({
       uploadUrl,
@@ -111,7 +107,7 @@ export const completeUpload = async (req: AuthRequest, res: Response) => {
     
     try {
       const headCommand = new HeadObjectCommand({
-        Bucket: process.env.R2_BUCKET_NAME!,
+        Bucket: bucketFor(visibilityForPurpose(upload.purpose)),
         Key: upload.key,
       });
       await s3Client.send(headCommand);
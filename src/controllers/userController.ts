@@ -4,6 +4,8 @@ import { db } from '../config/database';
 import { users } from '../models/user';
 import { properties } from '../models/property';
 import { eq, sql } from 'drizzle-orm';
+import { UserRole } from '../types';
+import { pushService } from '../services/pushService';
 
 interface AuthRequest extends Request {
   user?: {
@@ -46,7 +48,7 @@ export const updateProfile = async (req: AuthRequest, res: Response) => {
     const profileData = profileSchema.parse(req.body);
     
     // Normalize role to lowercase for database consistency
-    const normalizedRole = profileData.role.toLowerCase();
+    const normalizedRole = profileData.role.toLowerCase() as UserRole;
     
     // Prepare update data
     const updateData: any = {
@@ -228,3 +230,36 @@ export const deleteAccount = async (req: AuthRequest, res: Response) => {
     res.status(500).json({ message: 'Failed to delete account' });
   }
 };
+
+const pushTokenSchema = z.object({
+  token: z.string().min(1, 'Token is required').max(512),
+  platform: z.enum(['android', 'ios', 'web']).optional(),
+});
+
+export const registerPushToken = async (req: AuthRequest, res: Response) => {
+  try {
+    const { token, platform } = pushTokenSchema.parse(req.body);
+    await pushService.registerToken(parseInt(req.user!.userId), token, platform);
+    res.json({ success: true });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: error.issues[0].message });
+    }
+    console.error('Error registering push token:', error);
+    res.status(500).json({ message: 'Failed to register push token' });
+  }
+};
+
+export const removePushToken = async (req: AuthRequest, res: Response) => {
+  try {
+    const { token } = pushTokenSchema.pick({ token: true }).parse(req.body);
+    await pushService.removeToken(parseInt(req.user!.userId), token);
+    res.json({ success: true });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: error.issues[0].message });
+    }
+    console.error('Error removing push token:', error);
+    res.status(500).json({ message: 'Failed to remove push token' });
+  }
+};
@@ -3,15 +3,21 @@ import jwt from 'jsonwebtoken';
 import { db } from '../config/database';
 import { users } from '../models/user';
 import { eq } from 'drizzle-orm';
+import { sessionService } from '../services/sessionService';
+import { permissionService } from '../services/permissionService';
+import { Permission } from '../config/permissions';
+import { UserRole } from '../types';
 
 interface AuthRequest extends Request {
   user?: {
     userId: number;
     phone: string;
-    role?: string;
+    role?: UserRole;
+    department?: string;
     active?: boolean;
     approved?: boolean;
     deleted?: boolean;
+    sessionId?: string;
   };
 }
 
@@ -27,7 +33,7 @@ export const authenticateToken = async (req: AuthRequest, res: Response, next: N
 
   try {
     const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
-    console.log(`✅ Token decoded - User: ${decoded.userId}, Role: ${decoded.role}, Active: ${decoded.active}`);
+    console.log(`✅ Token decoded - User: ${decoded.userId}, Session: ${decoded.sid || 'legacy'}`);
     
     // Check if user still exists in database
     const user = await db.select().from(users).where(eq(users.id, decoded.userId)).limit(1);
@@ -37,7 +43,33 @@ export const authenticateToken = async (req: AuthRequest, res: Response, next: N
       return res.status(401).json({ message: 'User not found' });
     }
     
-    req.user = decoded;
+    // Tokens issued before sessions existed carry no sid; they are still honoured until they expire
+    if (decoded.sid && !(await sessionService.isActive(decoded.sid))) {
+      console.log('❌ Session revoked or expired');
+      return res.status(401).json({ message: 'session_revoked' });
+    }
+    
+    if (user[0].deleted) {
+      console.log('❌ User account has been deleted');
+      return res.status(403).json({ message: 'account_deleted' });
+    }
+
+    if (!user[0].active) {
+      console.log('❌ User account has been deactivated');
+      return res.status(403).json({ message: 'account_deactivated' });
+    }
+    
+    // Role and account flags come from the database, not from token claims
+    req.user = {
+      userId: user[0].id,
+      phone: user[0].phone,
+      role: user[0].role,
+      department: user[0].department,
+      active: user[0].active,
+      approved: user[0].approved,
+      deleted: user[0].deleted,
+      sessionId: decoded.sid,
+    };
     console.log('✅ Authentication successful\n');
     next();
   } catch (error) {
@@ -63,6 +95,18 @@ export const validateToken = async (req: Request, res: Response) => {
     if (user.length === 0) {
       return res.status(401).json({ valid: false, message: 'User not found' });
     }
+
+    if (user[0].deleted) {
+      return res.status(403).json({ valid: false, message: 'account_deleted' });
+    }
+
+    if (!user[0].active) {
+      return res.status(403).json({ valid: false, message: 'account_deactivated' });
+    }
+    
+    if (decoded.sid && !(await sessionService.isActive(decoded.sid))) {
+      return res.status(401).json({ valid: false, message: 'Session revoked' });
+    }
     
     res.json({ 
       valid: true, 
@@ -74,22 +118,6 @@ export const validateToken = async (req: Request, res: Response) => {
   }
 };
 
-export const ensureAdmin = async (req: AuthRequest, res: Response, next: NextFunction) => {
-  console.log('👑 [ADMIN CHECK] Verifying admin role...');
-  if (!req.user) {
-    console.log('❌ No user in request');
-    return res.status(401).json({ message: 'Authentication required' });
-  }
-
-  if (req.user.role !== 'admin') {
-    console.log(`❌ User is not admin: ${req.user.role}`);
-    return res.status(403).json({ message: 'Admin access required' });
-  }
-
-  console.log('✅ Admin check passed\n');
-  next();
-};
-
 export const ensureApproved = async (req: AuthRequest, res: Response, next: NextFunction) => {
   if (!req.user) {
     return res.status(401).json({ message: 'Authentication required' });
@@ -102,48 +130,40 @@ export const ensureApproved = async (req: AuthRequest, res: Response, next: Next
   next();
 };
 
-export const ensureEmployee = async (req: AuthRequest, res: Response, next: NextFunction) => {
-  console.log('👔 [EMPLOYEE CHECK] Verifying employee role and active status...');
-  if (!req.user) {
-    console.log('❌ No user in request');
-    return res.status(401).json({ message: 'Authentication required' });
-  }
+export const requirePermission = (...permissions: Permission[]) => {
+  return async (req: AuthRequest, res: Response, next: NextFunction) => {
+    console.log(`🛂 [PERMISSION CHECK] Requires: ${permissions.join(', ')}`);
+    if (!req.user) {
+      console.log('❌ No user in request');
+      return res.status(401).json({ message: 'Authentication required' });
+    }
 
-  if (req.user.role !== 'employee') {
-    console.log(`❌ User is not employee: ${req.user.role}`);
-    return res.status(403).json({ message: 'Employee access required' });
-  }
+    if (req.user.deleted === true) {
+      console.log('❌ Account has been deleted');
+      return res.status(403).json({ message: 'account_deleted' });
+    }
 
-  if (req.user.deleted === true) {
-    console.log('❌ Employee account has been deleted');
-    return res.status(403).json({ message: 'account_deleted' });
-  }
+    if (req.user.active === false) {
+      console.log('❌ Account is inactive');
+      return res.status(403).json({ message: 'account_inactive' });
+    }
 
-  if (req.user.active === false) {
-    console.log('❌ Employee account is inactive');
-    return res.status(403).json({ message: 'account_inactive' });
-  }
+    try {
+      const allowed = await permissionService.hasPermissions(
+        { userId: req.user.userId, role: req.user.role, department: req.user.department },
+        permissions
+      );
+
+      if (!allowed) {
+        console.log(`❌ User ${req.user.userId} (${req.user.role}) lacks permission`);
+        return res.status(403).json({ message: 'Permission denied', required: permissions });
+      }
+    } catch (error) {
+      console.error('❌ Permission lookup failed:', error);
+      return res.status(500).json({ message: 'Failed to verify permissions' });
+    }
 
-  console.log('✅ Employee check passed\n');
-  next();
+    console.log('✅ Permission check passed\n');
+    next();
+  };
 };
-
-export const ensureFinanceDepartment = async (req: AuthRequest, res: Response, next: NextFunction) => {
-  console.log('💰 [FINANCE CHECK] Verifying finance department access...');
-  if (!req.user) {
-    return res.status(401).json({ message: 'Authentication required' });
-  }
-
-  const [user] = await db.select().from(users).where(eq(users.id, req.user.userId)).limit(1);
-  
-  if (!user || user.role !== 'employee' || user.department?.toLowerCase() !== 'finance') {
-    return res.status(403).json({ message: 'Finance department access required' });
-  }
-
-  if (user.deleted || !user.active) {
-    return res.status(403).json({ message: 'Account inactive or deleted' });
-  }
-
-  console.log('✅ Finance department access granted\n');
-  next();
-};
\ No newline at end of file
@@ -0,0 +1,28 @@
+import { pgTable, serial, integer, varchar, text, boolean, timestamp, primaryKey } from 'drizzle-orm/pg-core';
+import { users } from './user';
+
+export const accessRoles = pgTable('access_roles', {
+  id: serial('id').primaryKey(),
+  key: varchar('key', { length: 50 }).notNull().unique(),
+  name: varchar('name', { length: 100 }).notNull(),
+  description: text('description'),
+  isSystem: boolean('is_system').notNull().default(false),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+});
+
+export const accessRolePermissions = pgTable('access_role_permissions', {
+  roleId: integer('role_id').notNull().references(() => accessRoles.id, { onDelete: 'cascade' }),
+  permission: varchar('permission', { length: 100 }).notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.roleId, table.permission] }),
+}));
+
+export const userAccessRoles = pgTable('user_access_roles', {
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  roleId: integer('role_id').notNull().references(() => accessRoles.id, { onDelete: 'cascade' }),
+  assignedById: integer('assigned_by_id').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.userId, table.roleId] }),
+}));
@@ -1,4 +1,5 @@
 import { pgTable, uuid, text, timestamp, integer } from 'drizzle-orm/pg-core';
+import { properties } from './property';
 
 export const contactMessages = pgTable('contact_messages', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -6,6 +7,7 @@ export const contactMessages = pgTable('contact_messages', {
   email: text('email').notNull(),
   subject: text('subject').notNull(),
   message: text('message').notNull(),
+  propertyId: uuid('property_id').references(() => properties.id, { onDelete: 'set null' }),
   createdAt: timestamp('created_at').defaultNow(),
 });
 
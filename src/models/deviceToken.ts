@@ -0,0 +1,14 @@
+import { pgTable, uuid, integer, varchar, timestamp, index } from 'drizzle-orm/pg-core';
+import { users } from './user';
+
+// FCM registration tokens, one row per app install
+export const userDeviceTokens = pgTable('user_device_tokens', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  token: varchar('token', { length: 512 }).notNull().unique(),
+  platform: varchar('platform', { length: 20 }),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  lastSeenAt: timestamp('last_seen_at').notNull().defaultNow(),
+}, (table) => ({
+  userIdx: index('idx_user_device_tokens_user_id').on(table.userId),
+}));
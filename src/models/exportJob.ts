@@ -8,8 +8,13 @@ export const exportJobs = pgTable('export_jobs', {
   filters: jsonb('filters'),
   status: varchar('status', { length: 20 }).notNull().default('pending'),
   fileUrl: text('file_url'),
+  fileKey: text('file_key'),
+  fileName: varchar('file_name', { length: 255 }),
+  rowCount: integer('row_count'),
+  attempts: integer('attempts').notNull().default(0),
   errorMessage: text('error_message'),
   createdAt: timestamp('created_at').notNull().defaultNow(),
+  startedAt: timestamp('started_at'),
   completedAt: timestamp('completed_at'),
 });
 
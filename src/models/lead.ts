@@ -0,0 +1,57 @@
+import { pgTable, uuid, serial, integer, varchar, text, timestamp, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+import { properties } from './property';
+import { users } from './user';
+import { conversations } from './chat';
+import { contactMessages } from './contact';
+
+// Interest from a customer, routed to the property's agent or employee and worked through config/leads stages.
+// Contact details are copied from the customer at capture time.
+export const leads = pgTable('leads', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  customerId: integer('customer_id').references(() => users.id, { onDelete: 'set null' }),
+  propertyId: uuid('property_id').references(() => properties.id, { onDelete: 'set null' }),
+  source: varchar('source', { length: 30 }).notNull(),
+  stage: varchar('stage', { length: 20 }).notNull().default('new'),
+  assigneeId: integer('assignee_id').references(() => users.id, { onDelete: 'set null' }),
+  contactName: varchar('contact_name', { length: 100 }),
+  contactPhone: varchar('contact_phone', { length: 15 }),
+  contactEmail: varchar('contact_email', { length: 100 }),
+  message: text('message'),
+  conversationId: uuid('conversation_id').references(() => conversations.id, { onDelete: 'set null' }),
+  contactMessageId: uuid('contact_message_id').references(() => contactMessages.id, { onDelete: 'set null' }),
+  lostReason: text('lost_reason'),
+  stageChangedAt: timestamp('stage_changed_at').notNull().defaultNow(),
+  closedAt: timestamp('closed_at'),
+  lastActivityAt: timestamp('last_activity_at').notNull().defaultNow(),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+  assigneeStageIdx: index('idx_leads_assignee_stage').on(table.assigneeId, table.stage),
+  propertyIdx: index('idx_leads_property').on(table.propertyId),
+  // Repeat enquiries about a property add to the customer's open lead instead of creating another
+  openCustomerPropertyIdx: uniqueIndex('leads_open_customer_property_idx')
+    .on(table.customerId, table.propertyId)
+    .where(sql`${table.stage} NOT IN ('won', 'lost') AND ${table.propertyId} IS NOT NULL`),
+  // A chat or contact message escalated twice stays one lead
+  openConversationIdx: uniqueIndex('leads_open_conversation_idx')
+    .on(table.conversationId)
+    .where(sql`${table.stage} NOT IN ('won', 'lost') AND ${table.conversationId} IS NOT NULL`),
+  openContactMessageIdx: uniqueIndex('leads_open_contact_message_idx')
+    .on(table.contactMessageId)
+    .where(sql`${table.stage} NOT IN ('won', 'lost') AND ${table.contactMessageId} IS NOT NULL`),
+}));
+
+// Timeline of a lead: captures, repeat enquiries, stage changes, reassignments and notes
+export const leadActivities = pgTable('lead_activities', {
+  id: serial('id').primaryKey(),
+  leadId: uuid('lead_id').notNull().references(() => leads.id, { onDelete: 'cascade' }),
+  actorId: integer('actor_id').references(() => users.id, { onDelete: 'set null' }),
+  type: varchar('type', { length: 30 }).notNull(),
+  fromStage: varchar('from_stage', { length: 20 }),
+  toStage: varchar('to_stage', { length: 20 }),
+  note: text('note'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  leadIdx: index('idx_lead_activities_lead').on(table.leadId, table.createdAt),
+}));
@@ -0,0 +1,60 @@
+import { pgTable, serial, uuid, integer, varchar, bigint, boolean, text, timestamp, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+import { users } from './user';
+import { loanRequests } from './loanRequest';
+
+// Partner banks / NBFCs that finance forwards qualified loan requests to
+export const lenders = pgTable('lenders', {
+  id: serial('id').primaryKey(),
+  name: varchar('name', { length: 150 }).notNull(),
+  code: varchar('code', { length: 30 }).unique(),
+  contactName: varchar('contact_name', { length: 100 }),
+  contactEmail: varchar('contact_email', { length: 100 }),
+  contactPhone: varchar('contact_phone', { length: 20 }),
+  notes: text('notes'),
+  active: boolean('active').notNull().default(true),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+});
+
+export const lenderProducts = pgTable('lender_products', {
+  id: serial('id').primaryKey(),
+  lenderId: integer('lender_id').notNull().references(() => lenders.id, { onDelete: 'cascade' }),
+  name: varchar('name', { length: 150 }).notNull(),
+  loanType: varchar('loan_type', { length: 50 }).notNull(),
+  minRateBps: integer('min_rate_bps').notNull(),
+  maxRateBps: integer('max_rate_bps').notNull(),
+  maxLtvPercent: integer('max_ltv_percent').notNull(),
+  maxTenureYears: integer('max_tenure_years'),
+  active: boolean('active').notNull().default(true),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+});
+
+// A loan request forwarded to a lender, tracked through the lender's own decision
+export const loanLenderSubmissions = pgTable('loan_lender_submissions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  loanRequestId: uuid('loan_request_id').notNull().references(() => loanRequests.id, { onDelete: 'cascade' }),
+  lenderId: integer('lender_id').notNull().references(() => lenders.id, { onDelete: 'restrict' }),
+  productId: integer('product_id').references(() => lenderProducts.id, { onDelete: 'set null' }),
+  status: varchar('status', { length: 20 }).notNull().default('submitted'),
+  lenderReference: varchar('lender_reference', { length: 100 }),
+  requestedAmount: bigint('requested_amount', { mode: 'number' }).notNull(),
+  sanctionedAmount: bigint('sanctioned_amount', { mode: 'number' }),
+  sanctionedRateBps: integer('sanctioned_rate_bps'),
+  disbursedAmount: bigint('disbursed_amount', { mode: 'number' }),
+  declineReason: text('decline_reason'),
+  submittedById: integer('submitted_by_id').references(() => users.id, { onDelete: 'set null' }),
+  submittedAt: timestamp('submitted_at').notNull().defaultNow(),
+  sanctionedAt: timestamp('sanctioned_at'),
+  disbursedAt: timestamp('disbursed_at'),
+  declinedAt: timestamp('declined_at'),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+  loanRequestIdx: index('idx_loan_lender_submissions_request').on(table.loanRequestId),
+  lenderIdx: index('idx_loan_lender_submissions_lender').on(table.lenderId, table.status),
+  // A declined submission can be retried; anything else is the one live case with that lender
+  openLenderIdx: uniqueIndex('loan_lender_submissions_open_lender_idx')
+    .on(table.loanRequestId, table.lenderId)
+    .where(sql`${table.status} <> 'declined'`),
+}));
@@ -0,0 +1,16 @@
+import { pgTable, serial, integer, varchar, timestamp, jsonb } from 'drizzle-orm/pg-core';
+import { users } from './user';
+import type { LtvSlab } from '../utils/loanCalculator';
+
+// Interest rate, FOIR and LTV limits used by the loan estimate calculator, one row per loan type
+export const loanRateTables = pgTable('loan_rate_tables', {
+  id: serial('id').primaryKey(),
+  loanType: varchar('loan_type', { length: 50 }).notNull().unique(),
+  interestRateBps: integer('interest_rate_bps').notNull(),
+  maxFoirPercent: integer('max_foir_percent').notNull(),
+  maxTenureYears: integer('max_tenure_years').notNull(),
+  ltvSlabs: jsonb('ltv_slabs').$type<LtvSlab[]>().notNull(),
+  updatedBy: integer('updated_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+});
@@ -1,5 +1,8 @@
-import { pgTable, uuid, integer, varchar, bigint, boolean, text, timestamp, jsonb } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, integer, varchar, bigint, boolean, text, timestamp, jsonb, AnyPgColumn } from 'drizzle-orm/pg-core';
 import { users } from './user';
+import { uploads } from './upload';
+import { loanRoutingRules } from './loanRouting';
+import type { LoanEstimate } from '../utils/loanCalculator';
 
 export const loanRequests = pgTable('loan_requests', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -18,16 +21,31 @@ export const loanRequests = pgTable('loan_requests', {
   preferredTenure: varchar('preferred_tenure', { length: 20 }).notNull(),
   existingLoans: boolean('existing_loans').notNull(),
   existingLoanDetails: text('existing_loan_details'),
+  existingEmi: bigint('existing_emi', { mode: 'number' }),
   preferredContactTime: varchar('preferred_contact_time', { length: 50 }).notNull(),
   additionalNotes: text('additional_notes'),
+  // Calculator output at submission time (see utils/loanCalculator)
+  estimate: jsonb('estimate').$type<LoanEstimate>(),
+  isAffordable: boolean('is_affordable'),
   status: varchar('status', { length: 20 }).notNull().default('received'),
   assigneeId: integer('assignee_id').references(() => users.id, { onDelete: 'set null' }),
   version: integer('version').notNull().default(1),
   priority: varchar('priority', { length: 20 }).default('normal'),
   slaDueAt: timestamp('sla_due_at'),
+  slaBreachedAt: timestamp('sla_breached_at'),
   lastActivityAt: timestamp('last_activity_at').defaultNow(),
   isEscalated: boolean('is_escalated').default(false),
   escalationReason: text('escalation_reason'),
+  underReviewAt: timestamp('under_review_at'),
+  contactedAt: timestamp('contacted_at'),
+  closedAt: timestamp('closed_at'),
+  rejectedAt: timestamp('rejected_at'),
+  withdrawnAt: timestamp('withdrawn_at'),
+  // Earlier open request from the same customer this one looks like a resubmission of
+  duplicateOfId: uuid('duplicate_of_id').references((): AnyPgColumn => loanRequests.id, { onDelete: 'set null' }),
+  // Set (together with deletedAt) when an admin merged this request into another one
+  mergedIntoId: uuid('merged_into_id').references((): AnyPgColumn => loanRequests.id, { onDelete: 'set null' }),
+  mergedAt: timestamp('merged_at'),
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
   deletedAt: timestamp('deleted_at'),
@@ -45,19 +63,54 @@ export const loanRequestComments = pgTable('loan_request_comments', {
 export const loanRequestAssignments = pgTable('loan_request_assignments', {
   id: uuid('id').primaryKey().defaultRandom(),
   loanRequestId: uuid('loan_request_id').notNull().references(() => loanRequests.id, { onDelete: 'cascade' }),
-  assignedById: integer('assigned_by_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  // Null when the request was routed automatically
+  assignedById: integer('assigned_by_id').references(() => users.id, { onDelete: 'cascade' }),
   assigneeId: integer('assignee_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
   comment: text('comment'),
+  routingRuleId: integer('routing_rule_id').references(() => loanRoutingRules.id, { onDelete: 'set null' }),
+  routingStrategy: varchar('routing_strategy', { length: 20 }),
   createdAt: timestamp('created_at').notNull().defaultNow(),
 });
 
 export const loanRequestAuditLogs = pgTable('loan_request_audit_logs', {
   id: uuid('id').primaryKey().defaultRandom(),
   loanRequestId: uuid('loan_request_id').notNull().references(() => loanRequests.id, { onDelete: 'cascade' }),
-  actorId: integer('actor_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  // Null for entries written by background jobs such as the SLA sweeper
+  actorId: integer('actor_id').references(() => users.id, { onDelete: 'cascade' }),
   action: varchar('action', { length: 50 }).notNull(),
   oldValue: text('old_value'),
   newValue: text('new_value'),
   comment: text('comment'),
+  // Set when the entry was written as part of a bulk operation
+  bulkActionId: uuid('bulk_action_id').references(() => loanBulkActions.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+});
+
+// One row per admin bulk operation with the outcome for every requested ID
+export const loanBulkActions = pgTable('loan_bulk_actions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  action: varchar('action', { length: 30 }).notNull(),
+  actorId: integer('actor_id').references(() => users.id, { onDelete: 'set null' }),
+  params: jsonb('params').$type<Record<string, unknown>>().notNull().default({}),
+  requestedCount: integer('requested_count').notNull(),
+  updatedCount: integer('updated_count').notNull().default(0),
+  conflictCount: integer('conflict_count').notNull().default(0),
+  notFoundCount: integer('not_found_count').notNull().default(0),
+  invalidCount: integer('invalid_count').notNull().default(0),
+  results: jsonb('results').$type<{ id: string; result: string; version?: number; message?: string }[]>().notNull().default([]),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+});
+
+export const loanRequestDocuments = pgTable('loan_request_documents', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  loanRequestId: uuid('loan_request_id').notNull().references(() => loanRequests.id, { onDelete: 'cascade' }),
+  uploadId: uuid('upload_id').notNull().references(() => uploads.id, { onDelete: 'cascade' }),
+  documentType: varchar('document_type', { length: 50 }).notNull(),
+  fileName: varchar('file_name', { length: 255 }).notNull(),
+  status: varchar('status', { length: 20 }).notNull().default('pending'),
+  rejectionReason: text('rejection_reason'),
+  uploadedById: integer('uploaded_by_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  reviewedById: integer('reviewed_by_id').references(() => users.id, { onDelete: 'set null' }),
+  reviewedAt: timestamp('reviewed_at'),
   createdAt: timestamp('created_at').notNull().defaultNow(),
 });
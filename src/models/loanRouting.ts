@@ -0,0 +1,35 @@
+import { pgTable, serial, integer, varchar, boolean, timestamp, jsonb } from 'drizzle-orm/pg-core';
+import { users } from './user';
+
+// Auto-assignment rules for new loan requests; null loanType / city match any value and the
+// active rule with the lowest position wins
+export const loanRoutingRules = pgTable('loan_routing_rules', {
+  id: serial('id').primaryKey(),
+  name: varchar('name', { length: 100 }).notNull(),
+  position: integer('position').notNull().default(0),
+  loanType: varchar('loan_type', { length: 50 }),
+  city: varchar('city', { length: 100 }),
+  strategy: varchar('strategy', { length: 20 }).notNull(),
+  // Only route to employees whose skills cover the request's loan type and city
+  useSkills: boolean('use_skills').notNull().default(false),
+  // Restricts the rule to these finance employees; empty = all of them
+  employeeIds: jsonb('employee_ids').$type<number[]>().notNull().default([]),
+  active: boolean('active').notNull().default(true),
+  updatedBy: integer('updated_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+});
+
+// Per finance employee routing profile; employees without a row take any request with no cap
+export const loanRoutingProfiles = pgTable('loan_routing_profiles', {
+  userId: integer('user_id').primaryKey().references(() => users.id, { onDelete: 'cascade' }),
+  acceptsAutoAssign: boolean('accepts_auto_assign').notNull().default(true),
+  maxOpenRequests: integer('max_open_requests'),
+  loanTypes: jsonb('loan_types').$type<string[]>().notNull().default([]),
+  cities: jsonb('cities').$type<string[]>().notNull().default([]),
+  outOfOfficeFrom: timestamp('out_of_office_from'),
+  outOfOfficeUntil: timestamp('out_of_office_until'),
+  // Round-robin pointer: the employee assigned longest ago goes next
+  lastAssignedAt: timestamp('last_assigned_at'),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+});
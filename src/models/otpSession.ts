@@ -0,0 +1,18 @@
+import { pgTable, varchar, integer, timestamp } from 'drizzle-orm/pg-core';
+
+export const otpSessions = pgTable('otp_sessions', {
+  phone: varchar('phone', { length: 15 }).primaryKey(),
+  provider: varchar('provider', { length: 20 }),
+  sessionId: varchar('session_id', { length: 255 }),
+  expiresAt: timestamp('expires_at'),
+  failedAttempts: integer('failed_attempts').notNull().default(0),
+  lockedUntil: timestamp('locked_until'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+});
+
+export const otpRateLimits = pgTable('otp_rate_limits', {
+  key: varchar('key', { length: 100 }).primaryKey(),
+  count: integer('count').notNull().default(0),
+  resetAt: timestamp('reset_at').notNull(),
+});
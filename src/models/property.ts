@@ -14,8 +14,13 @@ export const properties = pgTable('properties', {
   categories: jsonb('categories').$type<string[]>().default([]),
   brochureUrl: text('brochure_url'),
   map: varchar('map', { length: 500 }),
+  latitude: numeric('latitude', { precision: 9, scale: 6 }),
+  longitude: numeric('longitude', { precision: 9, scale: 6 }),
   website: varchar('website', { length: 500 }),
   type: varchar('type', { length: 50 }).default('Featured'),
+  // One of PROPERTY_KINDS; `attributes` is validated against that kind's schema in config/propertyAttributes
+  propertyKind: varchar('property_kind', { length: 20 }),
+  attributes: jsonb('attributes').$type<Record<string, unknown>>().default({}),
   assignedEmployeeId: integer('assigned_employee_id').references(() => users.id),
   assignedAgentId: integer('assigned_agent_id').references(() => users.id),
   createdByAdminId: integer('created_by_admin_id').references(() => users.id),
@@ -25,4 +30,5 @@ export const properties = pgTable('properties', {
   deletedByAdminId: integer('deleted_by_admin_id').references(() => users.id),
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
+  // search_vector (generated tsvector, migration 0052) is intentionally unmapped; see services/propertySearchService
 });
\ No newline at end of file
@@ -0,0 +1,30 @@
+import { pgTable, serial, uuid, integer, varchar, text, timestamp, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+import { properties } from './property';
+import { users } from './user';
+
+// Named lists a customer sorts their shortlist into
+export const propertyFavouriteCollections = pgTable('property_favourite_collections', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: varchar('name', { length: 60 }).notNull(),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+  userNameIdx: uniqueIndex('property_favourite_collections_user_name_idx').on(table.userId, sql`lower(${table.name})`),
+}));
+
+// Properties a customer has favourited (their shortlist). Items outside any collection have no collectionId.
+export const propertyFavourites = pgTable('property_favourites', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  propertyId: uuid('property_id').notNull().references(() => properties.id, { onDelete: 'cascade' }),
+  collectionId: integer('collection_id').references(() => propertyFavouriteCollections.id, { onDelete: 'set null' }),
+  note: text('note'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+  userPropertyIdx: uniqueIndex('property_favourites_user_property_idx').on(table.userId, table.propertyId),
+  propertyIdx: index('idx_property_favourites_property').on(table.propertyId),
+  collectionIdx: index('idx_property_favourites_collection').on(table.collectionId).where(sql`${table.collectionId} IS NOT NULL`),
+}));
@@ -0,0 +1,20 @@
+import { pgTable, serial, uuid, integer, numeric, varchar, timestamp, index } from 'drizzle-orm/pg-core';
+import { properties } from './property';
+import { users } from './user';
+import { propertyPendingChanges } from './propertyPendingChange';
+
+// One row per change of properties.price. `changedById` is the admin who saved or approved it,
+// `proposedById` the employee whose pending change carried it.
+export const propertyPriceHistory = pgTable('property_price_history', {
+  id: serial('id').primaryKey(),
+  propertyId: uuid('property_id').notNull().references(() => properties.id, { onDelete: 'cascade' }),
+  oldPrice: numeric('old_price'),
+  newPrice: numeric('new_price'),
+  source: varchar('source', { length: 30 }).notNull(),
+  changedById: integer('changed_by_id').references(() => users.id),
+  proposedById: integer('proposed_by_id').references(() => users.id),
+  pendingChangeId: uuid('pending_change_id').references(() => propertyPendingChanges.id, { onDelete: 'set null' }),
+  changedAt: timestamp('changed_at').notNull().defaultNow(),
+}, (table) => ({
+  propertyIdx: index('idx_property_price_history_property').on(table.propertyId, table.changedAt),
+}));
@@ -0,0 +1,20 @@
+import { pgTable, uuid, varchar, numeric, integer, timestamp, index } from 'drizzle-orm/pg-core';
+import { properties } from './property';
+
+// Unit configurations offered in a property (e.g. the 2 BHK and 3 BHK types of one project), with inventory
+export const propertyUnits = pgTable('property_units', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  propertyId: uuid('property_id').notNull().references(() => properties.id, { onDelete: 'cascade' }),
+  unitType: varchar('unit_type', { length: 50 }).notNull(),
+  bhk: integer('bhk'),
+  sizeSqft: numeric('size_sqft'),
+  price: numeric('price'),
+  totalUnits: integer('total_units'),
+  availableUnits: integer('available_units'),
+  availability: varchar('availability', { length: 20 }).notNull().default('available'),
+  position: integer('position').notNull().default(0),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+  propertyIdx: index('idx_property_units_property').on(table.propertyId, table.position),
+}));
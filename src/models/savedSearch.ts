@@ -0,0 +1,31 @@
+import { pgTable, serial, uuid, integer, varchar, boolean, jsonb, timestamp, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import { properties } from './property';
+import { users } from './user';
+import type { SavedSearchCriteria } from '../utils/savedSearch';
+
+// Search criteria a customer saved to be alerted about new listings
+export const savedSearches = pgTable('saved_searches', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: varchar('name', { length: 60 }).notNull(),
+  criteria: jsonb('criteria').$type<SavedSearchCriteria>().notNull(),
+  notify: boolean('notify').notNull().default(true),
+  lastNotifiedAt: timestamp('last_notified_at'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+  userIdx: index('idx_saved_searches_user').on(table.userId),
+}));
+
+// New-listing alerts sent for saved searches. One per customer and property, however many searches matched;
+// also counted for the daily cap.
+export const savedSearchAlerts = pgTable('saved_search_alerts', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  propertyId: uuid('property_id').notNull().references(() => properties.id, { onDelete: 'cascade' }),
+  savedSearchId: integer('saved_search_id').references(() => savedSearches.id, { onDelete: 'set null' }),
+  sentAt: timestamp('sent_at').notNull().defaultNow(),
+}, (table) => ({
+  userPropertyIdx: uniqueIndex('saved_search_alerts_user_property_idx').on(table.userId, table.propertyId),
+  userSentIdx: index('idx_saved_search_alerts_user_sent').on(table.userId, table.sentAt),
+}));
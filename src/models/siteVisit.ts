@@ -0,0 +1,42 @@
+import { pgTable, uuid, integer, varchar, text, timestamp, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+import { properties } from './property';
+import { users } from './user';
+
+// Property viewings. Status moves through config/siteVisits; `handledById` is the agent or employee who last
+// confirmed, rescheduled or closed the visit.
+export const siteVisits = pgTable('site_visits', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  propertyId: uuid('property_id').notNull().references(() => properties.id, { onDelete: 'cascade' }),
+  customerId: integer('customer_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  status: varchar('status', { length: 20 }).notNull().default('requested'),
+  scheduledAt: timestamp('scheduled_at').notNull(),
+  durationMinutes: integer('duration_minutes').notNull().default(60),
+  customerNote: text('customer_note'),
+  handledById: integer('handled_by_id').references(() => users.id),
+  rescheduledFrom: timestamp('rescheduled_from'),
+  rescheduleCount: integer('reschedule_count').notNull().default(0),
+  rescheduleReason: text('reschedule_reason'),
+  cancelReason: text('cancel_reason'),
+  cancelledById: integer('cancelled_by_id').references(() => users.id),
+  confirmedAt: timestamp('confirmed_at'),
+  cancelledAt: timestamp('cancelled_at'),
+  checkedInAt: timestamp('checked_in_at'),
+  completedAt: timestamp('completed_at'),
+  reminderSentAt: timestamp('reminder_sent_at'),
+  feedbackRating: integer('feedback_rating'),
+  feedbackComment: text('feedback_comment'),
+  feedbackAt: timestamp('feedback_at'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+  propertyScheduleIdx: index('idx_site_visits_property_schedule').on(table.propertyId, table.scheduledAt),
+  customerScheduleIdx: index('idx_site_visits_customer_schedule').on(table.customerId, table.scheduledAt),
+  // A customer holds at most one open visit per property
+  openVisitIdx: uniqueIndex('site_visits_open_customer_property_idx')
+    .on(table.customerId, table.propertyId)
+    .where(sql`${table.status} IN ('requested', 'confirmed', 'checked_in')`),
+  reminderIdx: index('idx_site_visits_reminder_due')
+    .on(table.scheduledAt)
+    .where(sql`${table.status} = 'confirmed' AND ${table.reminderSentAt} IS NULL`),
+}));
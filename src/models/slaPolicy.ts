@@ -0,0 +1,29 @@
+import { pgTable, serial, integer, varchar, boolean, timestamp, jsonb } from 'drizzle-orm/pg-core';
+import { users } from './user';
+
+// Working-hours calendar used to count SLA time (e.g. Mon-Sat 09:30-18:30 IST, minus holidays)
+export const slaCalendars = pgTable('sla_calendars', {
+  id: serial('id').primaryKey(),
+  name: varchar('name', { length: 100 }).notNull(),
+  utcOffsetMinutes: integer('utc_offset_minutes').notNull().default(330),
+  workDays: jsonb('work_days').$type<number[]>().notNull(),
+  startTime: varchar('start_time', { length: 5 }).notNull(),
+  endTime: varchar('end_time', { length: 5 }).notNull(),
+  holidays: jsonb('holidays').$type<string[]>().notNull().default([]),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+});
+
+// SLA targets; null priority / loanType match any value and the most specific active policy wins
+export const loanSlaPolicies = pgTable('loan_sla_policies', {
+  id: serial('id').primaryKey(),
+  name: varchar('name', { length: 100 }).notNull(),
+  priority: varchar('priority', { length: 20 }),
+  loanType: varchar('loan_type', { length: 50 }),
+  responseHours: integer('response_hours').notNull(),
+  calendarId: integer('calendar_id').references(() => slaCalendars.id, { onDelete: 'set null' }),
+  active: boolean('active').notNull().default(true),
+  updatedBy: integer('updated_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+});
@@ -1,4 +1,8 @@
-import { pgTable, serial, varchar, boolean, timestamp, integer, jsonb } from 'drizzle-orm/pg-core';
+import { pgTable, pgEnum, serial, varchar, boolean, timestamp, integer, jsonb } from 'drizzle-orm/pg-core';
+import { USER_ROLES, DEPARTMENTS } from '../types';
+
+export const userRoleEnum = pgEnum('user_role', USER_ROLES);
+export const userDepartmentEnum = pgEnum('user_department', DEPARTMENTS);
 
 export const users = pgTable('users', {
   id: serial('id').primaryKey(),
@@ -9,7 +13,7 @@ export const users = pgTable('users', {
   dateOfBirth: timestamp('date_of_birth'),
   profileImgUrl: varchar('profile_img_url', { length: 500 }),
   profileCompleted: boolean('profile_completed').default(false),
-  role: varchar('role', { length: 20 }).default('customer'),
+  role: userRoleEnum('role').notNull().default('customer'),
   active: boolean('active').default(true),
   approved: boolean('approved').default(true),
   approvedAt: timestamp('approved_at'),
@@ -17,7 +21,7 @@ export const users = pgTable('users', {
   rejectedAt: timestamp('rejected_at'),
   assignedEmployeeId: integer('assigned_employee_id'),
   referredByAgentId: integer('referred_by_agent_id'),
-  department: varchar('department', { length: 100 }),
+  department: userDepartmentEnum('department'),
   preferredCategories: jsonb('preferred_categories').$type<string[]>().default([]),
   deleted: boolean('deleted').default(false),
   deletedAt: timestamp('deleted_at'),
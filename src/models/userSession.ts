@@ -0,0 +1,19 @@
+import { pgTable, uuid, integer, varchar, text, timestamp, index } from 'drizzle-orm/pg-core';
+import { users } from './user';
+
+export const userSessions = pgTable('user_sessions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  refreshTokenHash: varchar('refresh_token_hash', { length: 64 }).notNull(),
+  previousTokenHash: varchar('previous_token_hash', { length: 64 }),
+  userAgent: text('user_agent'),
+  ipAddress: varchar('ip_address', { length: 64 }),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  lastUsedAt: timestamp('last_used_at').notNull().defaultNow(),
+  expiresAt: timestamp('expires_at').notNull(),
+  revokedAt: timestamp('revoked_at'),
+  revokedReason: varchar('revoked_reason', { length: 50 }),
+  revokedById: integer('revoked_by_id').references(() => users.id, { onDelete: 'set null' }),
+}, (table) => ({
+  userIdx: index('idx_user_sessions_user_id').on(table.userId, table.revokedAt),
+}));
@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import { authenticateToken, ensureAdmin } from '../middleware/auth';
+import { authenticateToken, requirePermission } from '../middleware/auth';
 import { getDashboardStats } from '../controllers/dashboardController';
 import { getAdminProfile, updateAdminProfile, logout } from '../controllers/adminProfileController';
 import {
@@ -29,43 +29,67 @@ import {
 
 const router = Router();
 
-// All admin routes require authentication and admin role
+// All admin routes require authentication; each route then requires a named permission
 router.use(authenticateToken);
-router.use(ensureAdmin);
 
 // Admin profile endpoints
-router.get('/profile', getAdminProfile);
-router.put('/profile', updateAdminProfile);
-router.post('/logout', logout);
+router.get('/profile', requirePermission('admin.access'), getAdminProfile);
+router.put('/profile', requirePermission('admin.access'), updateAdminProfile);
+router.post('/logout', requirePermission('admin.access'), logout);
 
 // Dashboard stats endpoint
-router.get('/dashboard/stats', getDashboardStats);
+router.get('/dashboard/stats', requirePermission('dashboard.view'), getDashboardStats);
 
 // Customer management endpoints
-router.get('/customers', getCustomers);
-router.get('/customers/:id', getCustomerById);
-router.delete('/customers/:id', deleteCustomer);
-router.delete('/customers', bulkDeleteCustomers);
+router.get('/customers', requirePermission('customer.view'), getCustomers);
+router.get('/customers/:id', requirePermission('customer.view'), getCustomerById);
+router.delete('/customers/:id', requirePermission('customer.delete'), deleteCustomer);
+router.delete('/customers', requirePermission('customer.delete'), bulkDeleteCustomers);
 
 // Agent management endpoints
-router.get('/agents', getAgents);
-router.get('/agents/:id', getAgentById);
-router.post('/agents/:id/approve', approveAgent);
-router.post('/agents/:id/reject', rejectAgent);
-router.delete('/agents/:id', deleteAgent);
-router.delete('/agents', bulkDeleteAgents);
+router.get('/agents', requirePermission('agent.view'), getAgents);
+router.get('/agents/:id', requirePermission('agent.view'), getAgentById);
+router.post('/agents/:id/approve', requirePermission('agent.approve'), approveAgent);
+router.post('/agents/:id/reject', requirePermission('agent.approve'), rejectAgent);
+router.delete('/agents/:id', requirePermission('agent.delete'), deleteAgent);
+router.delete('/agents', requirePermission('agent.delete'), bulkDeleteAgents);
 
 // Employee management endpoints
-router.get('/employees', getEmployees);
-router.get('/employees/:id', getEmployeeById);
-router.post('/employees', createEmployee);
-router.patch('/employees/:id', updateEmployee);
-router.post('/employees/:id/reassign-and-delete', reassignAndDeleteEmployee);
-router.delete('/employees/:id', deleteEmployee);
+router.get('/employees', requirePermission('employee.view'), getEmployees);
+router.get('/employees/:id', requirePermission('employee.view'), getEmployeeById);
+router.post('/employees', requirePermission('employee.manage'), createEmployee);
+router.patch('/employees/:id', requirePermission('employee.manage'), updateEmployee);
+router.post('/employees/:id/reassign-and-delete', requirePermission('employee.delete'), reassignAndDeleteEmployee);
+router.delete('/employees/:id', requirePermission('employee.delete'), deleteEmployee);
+
+// Session management endpoints
+import { getUserSessions, revokeUserSessions } from '../controllers/adminSessionController';
+
+router.get('/users/:id/sessions', requirePermission('session.revoke'), getUserSessions);
+router.post('/users/:id/revoke-sessions', requirePermission('session.revoke'), revokeUserSessions);
+
+// Access role and permission management endpoints
+import {
+  getPermissionCatalog,
+  getAccessRoles,
+  createAccessRole,
+  updateAccessRole,
+  deleteAccessRole,
+  getUserAccess,
+  updateUserAccessRoles,
+} from '../controllers/adminAccessController';
+
+router.get('/access/permissions', requirePermission('access.manage'), getPermissionCatalog);
+router.get('/access/roles', requirePermission('access.manage'), getAccessRoles);
+router.post('/access/roles', requirePermission('access.manage'), createAccessRole);
+router.put('/access/roles/:id', requirePermission('access.manage'), updateAccessRole);
+router.delete('/access/roles/:id', requirePermission('access.manage'), deleteAccessRole);
+router.get('/users/:id/access', requirePermission('access.manage'), getUserAccess);
+router.put('/users/:id/access-roles', requirePermission('access.manage'), updateUserAccessRoles);
 
 // Lookup endpoints for assignments
-router.get('/lookup/properties', getPropertiesLookup);
-router.get('/lookup/agents', getAgentsLookup);
+router.get('/lookup/properties', requirePermission('employee.manage'), getPropertiesLookup);
+router.get('/lookup/agents', requirePermission('employee.manage'), getAgentsLookup);
 
 // Property management endpoints
 import {
@@ -82,18 +106,18 @@ import {
   discardAdminDraft,
 } from '../controllers/adminPropertyController';
 
-router.get('/properties', getAdminProperties);
-router.get('/properties/:id', getAdminPropertyById);
-router.post('/properties', createAdminProperty);
-router.put('/properties/:id', updateAdminProperty);
-router.delete('/properties/:id', deleteAdminProperty);
-router.post('/properties/draft', createAdminPropertyDraft);
-router.post('/properties/:id/draft', createAdminPropertyDraft);
-router.put('/drafts/:draftId', updateAdminDraft);
-router.post('/drafts/:draftId/submit', submitAdminDraft);
-router.delete('/drafts/:draftId', discardAdminDraft);
-router.post('/properties/:id/approve-change/:changeId', approvePendingChange);
-router.post('/properties/reject-change/:changeId', rejectPendingChange);
+router.get('/properties', requirePermission('property.view'), getAdminProperties);
+router.get('/properties/:id', requirePermission('property.view'), getAdminPropertyById);
+router.post('/properties', requirePermission('property.manage'), createAdminProperty);
+router.put('/properties/:id', requirePermission('property.manage'), updateAdminProperty);
+router.delete('/properties/:id', requirePermission('property.manage'), deleteAdminProperty);
+router.post('/properties/draft', requirePermission('property.manage'), createAdminPropertyDraft);
+router.post('/properties/:id/draft', requirePermission('property.manage'), createAdminPropertyDraft);
+router.put('/drafts/:draftId', requirePermission('property.manage'), updateAdminDraft);
+router.post('/drafts/:draftId/submit', requirePermission('property.manage'), submitAdminDraft);
+router.delete('/drafts/:draftId', requirePermission('property.manage'), discardAdminDraft);
+router.post('/properties/:id/approve-change/:changeId', requirePermission('property.approve'), approvePendingChange);
+router.post('/properties/reject-change/:changeId', requirePermission('property.approve'), rejectPendingChange);
 
 // Banner management endpoints
 import {
@@ -104,11 +128,11 @@ import {
   reorderBanners,
 } from '../controllers/adminBannerController';
 
-router.get('/banners', getAdminBanners);
-router.post('/banners', createAdminBanner);
-router.put('/banners/:id', updateAdminBanner);
-router.delete('/banners/:id', deleteAdminBanner);
-router.post('/banners/reorder', reorderBanners);
+router.get('/banners', requirePermission('banner.view'), getAdminBanners);
+router.post('/banners', requirePermission('banner.publish'), createAdminBanner);
+router.put('/banners/:id', requirePermission('banner.publish'), updateAdminBanner);
+router.delete('/banners/:id', requirePermission('banner.publish'), deleteAdminBanner);
+router.post('/banners/reorder', requirePermission('banner.publish'), reorderBanners);
 
 // Pending changes moderation endpoints
 import {
@@ -119,11 +143,11 @@ import {
   requestChanges,
 } from '../controllers/adminPendingChangesController';
 
-router.get('/pending-changes', getPendingChanges);
-router.get('/pending-changes/:changeId', getPendingChangeById);
-router.post('/pending-changes/:changeId/approve', approvePendingChangeNew);
-router.post('/pending-changes/:changeId/reject', rejectPendingChangeNew);
-router.post('/pending-changes/:changeId/request-changes', requestChanges);
+router.get('/pending-changes', requirePermission('pending_change.view'), getPendingChanges);
+router.get('/pending-changes/:changeId', requirePermission('pending_change.view'), getPendingChangeById);
+router.post('/pending-changes/:changeId/approve', requirePermission('pending_change.review'), approvePendingChangeNew);
+router.post('/pending-changes/:changeId/reject', requirePermission('pending_change.review'), rejectPendingChangeNew);
+router.post('/pending-changes/:changeId/request-changes', requirePermission('pending_change.review'), requestChanges);
 
 // Admin loan request management endpoints
 import {
@@ -140,20 +164,99 @@ import {
   getFinanceEmployees,
   getSlaConfig,
   updateSlaConfig,
+  createAdminLenderSubmission,
+  updateAdminLenderSubmission,
+  bulkChangeLoanRequestStatus,
+  bulkChangeLoanRequestPriority,
+  bulkDeleteLoanRequests,
+  getLoanBulkAction,
+  mergeLoanRequests,
+  dismissLoanRequestDuplicate,
+  getLoanAnalytics,
+  requestLoanAnalyticsExport,
 } from '../controllers/adminLoanRequestController';
+import {
+  getSlaPolicies,
+  createSlaPolicy,
+  updateSlaPolicy,
+  deleteSlaPolicy,
+  createSlaCalendar,
+  updateSlaCalendar,
+  deleteSlaCalendar,
+} from '../controllers/adminSlaController';
+import { getLoanRateTables, upsertLoanRateTable, deleteLoanRateTable } from '../controllers/adminLoanRateController';
+import {
+  getLoanRoutingConfig,
+  createLoanRoutingRule,
+  updateLoanRoutingRule,
+  deleteLoanRoutingRule,
+  updateLoanRoutingProfile,
+} from '../controllers/adminLoanRoutingController';
+
+router.get('/loan-requests', requirePermission('loan.view_all'), getAdminLoanRequests);
+router.get('/loan-requests/stats', requirePermission('loan.view_all'), getAdminLoanRequestStats);
+router.get('/loan-requests/analytics', requirePermission('loan.view_all'), getLoanAnalytics);
+router.post('/loan-requests/analytics/export', requirePermission('loan.export'), requestLoanAnalyticsExport);
+router.get('/loan-requests/finance-employees', requirePermission('loan.view_all'), getFinanceEmployees);
+router.get('/loan-requests/sla-config', requirePermission('loan.view_all'), getSlaConfig);
+router.put('/loan-requests/sla-config', requirePermission('loan.configure_sla'), updateSlaConfig);
+router.get('/loan-requests/sla-policies', requirePermission('loan.view_all'), getSlaPolicies);
+router.post('/loan-requests/sla-policies', requirePermission('loan.configure_sla'), createSlaPolicy);
+router.put('/loan-requests/sla-policies/:id', requirePermission('loan.configure_sla'), updateSlaPolicy);
+router.delete('/loan-requests/sla-policies/:id', requirePermission('loan.configure_sla'), deleteSlaPolicy);
+router.post('/loan-requests/sla-calendars', requirePermission('loan.configure_sla'), createSlaCalendar);
+router.put('/loan-requests/sla-calendars/:id', requirePermission('loan.configure_sla'), updateSlaCalendar);
+router.delete('/loan-requests/sla-calendars/:id', requirePermission('loan.configure_sla'), deleteSlaCalendar);
+router.get('/loan-requests/rate-tables', requirePermission('loan.view_all'), getLoanRateTables);
+router.put('/loan-requests/rate-tables/:loanType', requirePermission('loan.configure_rates'), upsertLoanRateTable);
+router.delete('/loan-requests/rate-tables/:loanType', requirePermission('loan.configure_rates'), deleteLoanRateTable);
+router.get('/loan-requests/routing', requirePermission('loan.view_all'), getLoanRoutingConfig);
+router.post('/loan-requests/routing/rules', requirePermission('loan.configure_routing'), createLoanRoutingRule);
+router.put('/loan-requests/routing/rules/:id', requirePermission('loan.configure_routing'), updateLoanRoutingRule);
+router.delete('/loan-requests/routing/rules/:id', requirePermission('loan.configure_routing'), deleteLoanRoutingRule);
+router.put('/loan-requests/routing/employees/:userId', requirePermission('loan.configure_routing'), updateLoanRoutingProfile);
+router.get('/loan-requests/bulk-actions/:id', requirePermission('loan.view_all'), getLoanBulkAction);
+router.get('/loan-requests/:id', requirePermission('loan.view_all'), getAdminLoanRequestById);
+router.post('/loan-requests/:id/reassign', requirePermission('loan.reassign'), reassignLoanRequest);
+router.post('/loan-requests/bulk-reassign', requirePermission('loan.reassign'), bulkReassignLoanRequests);
+router.post('/loan-requests/:id/escalate', requirePermission('loan.escalate'), escalateLoanRequest);
+router.post('/loan-requests/bulk-escalate', requirePermission('loan.escalate'), bulkEscalateLoanRequests);
+router.post('/loan-requests/bulk-priority', requirePermission('loan.escalate'), bulkChangeLoanRequestPriority);
+router.post('/loan-requests/bulk-status', requirePermission('loan.override_status'), bulkChangeLoanRequestStatus);
+router.post('/loan-requests/bulk-delete', requirePermission('loan.delete'), bulkDeleteLoanRequests);
+router.post('/loan-requests/:id/status', requirePermission('loan.override_status'), changeAdminLoanRequestStatus);
+router.post('/loan-requests/:id/comment', requirePermission('loan.comment'), addAdminLoanRequestComment);
+router.post('/loan-requests/:id/merge', requirePermission('loan.merge'), mergeLoanRequests);
+router.post('/loan-requests/:id/not-duplicate', requirePermission('loan.merge'), dismissLoanRequestDuplicate);
+router.post('/loan-requests/:id/submissions', requirePermission('loan.submit_to_lender'), createAdminLenderSubmission);
+router.put('/loan-requests/:id/submissions/:submissionId', requirePermission('loan.submit_to_lender'), updateAdminLenderSubmission);
+router.post('/loan-requests/export', requirePermission('loan.export'), requestExport);
+
+// Partner lenders
+import {
+  getLenders,
+  createLender,
+  updateLender,
+  deleteLender,
+  createLenderProduct,
+  updateLenderProduct,
+  deleteLenderProduct,
+  getLenderConversionReport,
+} from '../controllers/adminLenderController';
+
+router.get('/lenders', requirePermission('loan.view_all'), getLenders);
+router.get('/lenders/report', requirePermission('lender.manage'), getLenderConversionReport);
+router.post('/lenders', requirePermission('lender.manage'), createLender);
+router.put('/lenders/:id', requirePermission('lender.manage'), updateLender);
+router.delete('/lenders/:id', requirePermission('lender.manage'), deleteLender);
+router.post('/lenders/:id/products', requirePermission('lender.manage'), createLenderProduct);
+router.put('/lenders/:id/products/:productId', requirePermission('lender.manage'), updateLenderProduct);
+router.delete('/lenders/:id/products/:productId', requirePermission('lender.manage'), deleteLenderProduct);
+
+// Export job results
+import { getExports, getExportById } from '../controllers/adminExportController';
 
-router.get('/loan-requests', getAdminLoanRequests);
-router.get('/loan-requests/stats', getAdminLoanRequestStats);
-router.get('/loan-requests/finance-employees', getFinanceEmployees);
-router.get('/loan-requests/sla-config', getSlaConfig);
-router.put('/loan-requests/sla-config', updateSlaConfig);
-router.get('/loan-requests/:id', getAdminLoanRequestById);
-router.post('/loan-requests/:id/reassign', reassignLoanRequest);
-router.post('/loan-requests/bulk-reassign', bulkReassignLoanRequests);
-router.post('/loan-requests/:id/escalate', escalateLoanRequest);
-router.post('/loan-requests/bulk-escalate', bulkEscalateLoanRequests);
-router.post('/loan-requests/:id/status', changeAdminLoanRequestStatus);
-router.post('/loan-requests/:id/comment', addAdminLoanRequestComment);
-router.post('/loan-requests/export', requestExport);
+router.get('/exports', requirePermission('loan.export'), getExports);
+router.get('/exports/:id', requirePermission('loan.export'), getExportById);
 
 export default router;
@@ -1,8 +1,16 @@
 import { Router } from 'express';
 import rateLimit from 'express-rate-limit';
-import { sendOTP, verifyOTP, getMe } from '../controllers/authController';
+import {
+  sendOTP,
+  verifyOTP,
+  getMe,
+  refreshToken,
+  getSessions,
+  revokeSession,
+  logout,
+  logoutAll,
+} from '../controllers/authController';
 import { authenticateToken, validateToken } from '../middleware/auth';
-import { logout } from '../controllers/employeeProfileController';
 
 const router = Router();
 
@@ -16,6 +24,10 @@ router.post('/send-otp', otpLimiter, sendOTP);
 router.post('/verify-otp', verifyOTP);
 router.post('/validate-token', validateToken);
 router.get('/me', authenticateToken, getMe);
+router.post('/refresh', refreshToken);
 router.post('/logout', authenticateToken, logout);
+router.post('/logout-all', authenticateToken, logoutAll);
+router.get('/sessions', authenticateToken, getSessions);
+router.delete('/sessions/:id', authenticateToken, revokeSession);
 
 export default router;
\ No newline at end of file
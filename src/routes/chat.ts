@@ -5,6 +5,7 @@ import {
   getConversations,
   getMessages,
   sendMessage,
+  escalateConversation,
   deleteConversation,
   n8nWebhook,
 } from '../controllers/chatController';
@@ -15,6 +16,7 @@ router.post('/conversations', authenticateToken, createConversation);
 router.get('/conversations', authenticateToken, getConversations);
 router.get('/conversations/:cid/messages', authenticateToken, getMessages);
 router.post('/conversations/:cid/messages', authenticateToken, sendMessage);
+router.post('/conversations/:cid/escalate', authenticateToken, escalateConversation);
 router.delete('/conversations/:cid', authenticateToken, deleteConversation);
 router.post('/integrations/n8n/webhook', n8nWebhook);
 
@@ -1,24 +1,23 @@
 import { Router } from 'express';
-import { authenticateToken, ensureEmployee } from '../middleware/auth';
+import { authenticateToken, requirePermission } from '../middleware/auth';
 import { getEmployeeDashboardStats } from '../controllers/employeeDashboardController';
 import { updateEmployeeProfile, logout } from '../controllers/employeeProfileController';
 import { getEmployeeActivity } from '../controllers/employeeActivityController';
 
 const router = Router();
 
-// All employee routes require authentication and employee role
+// All employee routes require authentication; each route then requires a named permission
 router.use(authenticateToken);
-router.use(ensureEmployee);
 
 // Employee dashboard stats endpoint
-router.get('/dashboard/stats', getEmployeeDashboardStats);
+router.get('/dashboard/stats', requirePermission('employee_portal.access'), getEmployeeDashboardStats);
 
 // Employee profile endpoints
-router.put('/profile', updateEmployeeProfile);
-router.post('/logout', logout);
+router.put('/profile', requirePermission('employee_portal.access'), updateEmployeeProfile);
+router.post('/logout', requirePermission('employee_portal.access'), logout);
 
 // Employee activity endpoint
-router.get('/activity', getEmployeeActivity);
+router.get('/activity', requirePermission('employee_portal.access'), getEmployeeActivity);
 
 // Employee property endpoints
 import {
@@ -33,15 +32,15 @@ import {
   discardDraft
 } from '../controllers/employeePropertyController';
 
-router.get('/properties', getEmployeeProperties);
-router.post('/properties', createProperty);
-router.get('/properties/:id', getEmployeePropertyById);
-router.post('/properties/:id/pending-change', submitPendingChange);
-router.get('/pending-changes', getEmployeePendingChanges);
-router.post('/pending-changes/:changeId/withdraw', withdrawPendingChange);
-router.put('/drafts/:changeId', updateDraft);
-router.post('/drafts/:changeId/submit', submitDraft);
-router.delete('/drafts/:changeId', discardDraft);
+router.get('/properties', requirePermission('property.propose'), getEmployeeProperties);
+router.post('/properties', requirePermission('property.propose'), createProperty);
+router.get('/properties/:id', requirePermission('property.propose'), getEmployeePropertyById);
+router.post('/properties/:id/pending-change', requirePermission('property.propose'), submitPendingChange);
+router.get('/pending-changes', requirePermission('property.propose'), getEmployeePendingChanges);
+router.post('/pending-changes/:changeId/withdraw', requirePermission('property.propose'), withdrawPendingChange);
+router.put('/drafts/:changeId', requirePermission('property.propose'), updateDraft);
+router.post('/drafts/:changeId/submit', requirePermission('property.propose'), submitDraft);
+router.delete('/drafts/:changeId', requirePermission('property.propose'), discardDraft);
 
 // Employee banner endpoints
 import {
@@ -56,15 +55,15 @@ import {
   getEmployeeBannerPendingChanges
 } from '../controllers/employeeBannerController';
 
-router.get('/banners', getEmployeeBanners);
-router.post('/banners', createEmployeeBanner);
-router.get('/banners/:id', getEmployeeBannerById);
-router.post('/banners/:id/pending-change', submitBannerPendingChange);
-router.get('/banner-pending-changes', getEmployeeBannerPendingChanges);
-router.post('/banner-pending-changes/:changeId/withdraw', withdrawBannerPendingChange);
-router.put('/banner-drafts/:changeId', updateBannerDraft);
-router.post('/banner-drafts/:changeId/submit', submitBannerDraft);
-router.delete('/banner-drafts/:changeId', discardBannerDraft);
+router.get('/banners', requirePermission('banner.propose'), getEmployeeBanners);
+router.post('/banners', requirePermission('banner.propose'), createEmployeeBanner);
+router.get('/banners/:id', requirePermission('banner.propose'), getEmployeeBannerById);
+router.post('/banners/:id/pending-change', requirePermission('banner.propose'), submitBannerPendingChange);
+router.get('/banner-pending-changes', requirePermission('banner.propose'), getEmployeeBannerPendingChanges);
+router.post('/banner-pending-changes/:changeId/withdraw', requirePermission('banner.propose'), withdrawBannerPendingChange);
+router.put('/banner-drafts/:changeId', requirePermission('banner.propose'), updateBannerDraft);
+router.post('/banner-drafts/:changeId/submit', requirePermission('banner.propose'), submitBannerDraft);
+router.delete('/banner-drafts/:changeId', requirePermission('banner.propose'), discardBannerDraft);
 
 // Employee agent endpoints
 import {
@@ -74,14 +73,14 @@ import {
   assignPropertiesToAgent
 } from '../controllers/employeeAgentController';
 
-router.get('/agents', getEmployeeAgents);
-router.get('/agents/:id', getEmployeeAgentById);
-router.get('/agents/:id/assigned-properties', getAgentAssignedProperties);
-router.post('/agents/:id/assign-properties', assignPropertiesToAgent);
+router.get('/agents', requirePermission('agent.manage_assigned'), getEmployeeAgents);
+router.get('/agents/:id', requirePermission('agent.manage_assigned'), getEmployeeAgentById);
+router.get('/agents/:id/assigned-properties', requirePermission('agent.manage_assigned'), getAgentAssignedProperties);
+router.post('/agents/:id/assign-properties', requirePermission('agent.manage_assigned'), assignPropertiesToAgent);
 
 // Employee customer endpoints
 import { getEmployeeCustomerById } from '../controllers/employeeCustomerController';
 
-router.get('/customers/:id', getEmployeeCustomerById);
+router.get('/customers/:id', requirePermission('customer.view_assigned'), getEmployeeCustomerById);
 
 export default router;
\ No newline at end of file
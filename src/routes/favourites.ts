@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import {
+  getFavourites,
+  addFavourite,
+  updateFavourite,
+  removeFavourite,
+  getFavouriteCollections,
+  createFavouriteCollection,
+  renameFavouriteCollection,
+  deleteFavouriteCollection,
+} from '../controllers/favouriteController';
+import { authenticateToken, requirePermission } from '../middleware/auth';
+
+const router = Router();
+
+router.get('/', authenticateToken, requirePermission('favourite.manage'), getFavourites);
+router.post('/', authenticateToken, requirePermission('favourite.manage'), addFavourite);
+router.get('/collections', authenticateToken, requirePermission('favourite.manage'), getFavouriteCollections);
+router.post('/collections', authenticateToken, requirePermission('favourite.manage'), createFavouriteCollection);
+router.patch('/collections/:id', authenticateToken, requirePermission('favourite.manage'), renameFavouriteCollection);
+router.delete('/collections/:id', authenticateToken, requirePermission('favourite.manage'), deleteFavouriteCollection);
+router.patch('/:propertyId', authenticateToken, requirePermission('favourite.manage'), updateFavourite);
+router.delete('/:propertyId', authenticateToken, requirePermission('favourite.manage'), removeFavourite);
+
+export default router;
@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { getLeads, getLeadPipeline, getLeadById, changeLeadStage, addLeadNote, assignLead } from '../controllers/leadController';
+import { authenticateToken, requirePermission } from '../middleware/auth';
+
+const router = Router();
+
+router.get('/', authenticateToken, requirePermission('lead.manage_assigned'), getLeads);
+router.get('/pipeline', authenticateToken, requirePermission('lead.manage_assigned'), getLeadPipeline);
+router.get('/:id', authenticateToken, requirePermission('lead.manage_assigned'), getLeadById);
+router.post('/:id/stage', authenticateToken, requirePermission('lead.manage_assigned'), changeLeadStage);
+router.post('/:id/notes', authenticateToken, requirePermission('lead.manage_assigned'), addLeadNote);
+router.post('/:id/assign', authenticateToken, requirePermission('lead.assign'), assignLead);
+
+export default router;
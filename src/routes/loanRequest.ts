@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { 
   createLoanRequest, 
+  estimateLoanRequest,
   getAdminLoanRequests,
   getFinanceLoanRequests,
   getFinanceLoanRequestById,
@@ -8,18 +9,41 @@ import {
   updateLoanRequestStatus,
   addLoanRequestComment,
   getFinanceLoanRequestStats,
+  getMyLoanRequests,
+  getMyLoanRequestById,
+  replyToLoanRequest,
+  withdrawLoanRequest,
+  getMyLoanRequestDocuments,
+  addLoanRequestDocument,
+  reviewLoanRequestDocument,
+  getActiveLenders,
+  createLenderSubmission,
+  updateLenderSubmission,
 } from '../controllers/loanRequestController';
-import { authenticateToken, ensureFinanceDepartment } from '../middleware/auth';
+import { authenticateToken, requirePermission } from '../middleware/auth';
 
 const router = Router();
 
-router.post('/', authenticateToken, createLoanRequest);
-router.get('/admin', authenticateToken, getAdminLoanRequests);
-router.get('/finance', authenticateToken, ensureFinanceDepartment, getFinanceLoanRequests);
-router.get('/finance/stats', authenticateToken, ensureFinanceDepartment, getFinanceLoanRequestStats);
-router.get('/finance/:id', authenticateToken, ensureFinanceDepartment, getFinanceLoanRequestById);
-router.post('/finance/:id/take', authenticateToken, ensureFinanceDepartment, takeLoanRequest);
-router.post('/finance/:id/status', authenticateToken, ensureFinanceDepartment, updateLoanRequestStatus);
-router.post('/finance/:id/comment', authenticateToken, ensureFinanceDepartment, addLoanRequestComment);
+router.post('/', authenticateToken, requirePermission('loan.create'), createLoanRequest);
+router.post('/estimate', authenticateToken, requirePermission('loan.create'), estimateLoanRequest);
+router.get('/admin', authenticateToken, requirePermission('loan.view_all'), getAdminLoanRequests);
+router.get('/finance', authenticateToken, requirePermission('loan.view_queue'), getFinanceLoanRequests);
+router.get('/finance/stats', authenticateToken, requirePermission('loan.view_queue'), getFinanceLoanRequestStats);
+router.get('/finance/lenders', authenticateToken, requirePermission('loan.submit_to_lender'), getActiveLenders);
+router.get('/finance/:id', authenticateToken, requirePermission('loan.view_queue'), getFinanceLoanRequestById);
+router.post('/finance/:id/take', authenticateToken, requirePermission('loan.take'), takeLoanRequest);
+router.post('/finance/:id/status', authenticateToken, requirePermission('loan.update_status'), updateLoanRequestStatus);
+router.post('/finance/:id/comment', authenticateToken, requirePermission('loan.comment'), addLoanRequestComment);
+router.post('/finance/:id/documents/:documentId/review', authenticateToken, requirePermission('loan.verify_documents'), reviewLoanRequestDocument);
+router.post('/finance/:id/submissions', authenticateToken, requirePermission('loan.submit_to_lender'), createLenderSubmission);
+router.put('/finance/:id/submissions/:submissionId', authenticateToken, requirePermission('loan.submit_to_lender'), updateLenderSubmission);
+
+// Customer tracking of their own requests (must stay after the /admin and /finance routes)
+router.get('/mine', authenticateToken, requirePermission('loan.create'), getMyLoanRequests);
+router.get('/:id', authenticateToken, requirePermission('loan.create'), getMyLoanRequestById);
+router.post('/:id/replies', authenticateToken, requirePermission('loan.create'), replyToLoanRequest);
+router.post('/:id/withdraw', authenticateToken, requirePermission('loan.create'), withdrawLoanRequest);
+router.get('/:id/documents', authenticateToken, requirePermission('loan.create'), getMyLoanRequestDocuments);
+router.post('/:id/documents', authenticateToken, requirePermission('loan.create'), addLoanRequestDocument);
 
 export default router;
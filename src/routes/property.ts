@@ -1,10 +1,14 @@
 import { Router } from 'express';
-import { getProperties, getPropertyById } from '../controllers/propertyController';
-import { authenticateToken } from '../middleware/auth';
+import { getProperties, searchProperties, searchPropertiesByArea, getPropertyById, getPropertyPriceHistory, enquireAboutProperty } from '../controllers/propertyController';
+import { authenticateToken, requirePermission } from '../middleware/auth';
 
 const router = Router();
 
 router.get('/', authenticateToken, getProperties);
+router.get('/search', authenticateToken, searchProperties);
+router.get('/geo', authenticateToken, searchPropertiesByArea);
 router.get('/:id', authenticateToken, getPropertyById);
+router.get('/:id/price-history', authenticateToken, getPropertyPriceHistory);
+router.post('/:id/enquiries', authenticateToken, requirePermission('lead.enquire'), enquireAboutProperty);
 
 export default router;
\ No newline at end of file
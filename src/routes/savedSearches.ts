@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { getSavedSearches, createSavedSearch, updateSavedSearch, deleteSavedSearch } from '../controllers/savedSearchController';
+import { authenticateToken } from '../middleware/auth';
+
+const router = Router();
+
+router.get('/', authenticateToken, getSavedSearches);
+router.post('/', authenticateToken, createSavedSearch);
+router.patch('/:id', authenticateToken, updateSavedSearch);
+router.delete('/:id', authenticateToken, deleteSavedSearch);
+
+export default router;
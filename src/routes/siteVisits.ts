@@ -0,0 +1,33 @@
+import { Router } from 'express';
+import {
+  requestSiteVisit,
+  getMySiteVisits,
+  getMySiteVisitById,
+  cancelMySiteVisit,
+  leaveSiteVisitFeedback,
+  getAssignedSiteVisits,
+  exportSiteVisitCalendar,
+  actOnSiteVisit,
+} from '../controllers/siteVisitController';
+import { authenticateToken, requirePermission } from '../middleware/auth';
+
+const router = Router();
+
+// Agents and employees handling visits on their assigned properties
+router.get('/assigned', authenticateToken, requirePermission('site_visit.manage_assigned'), getAssignedSiteVisits);
+router.get('/assigned/calendar.ics', authenticateToken, requirePermission('site_visit.manage_assigned'), exportSiteVisitCalendar);
+router.post('/assigned/:id/confirm', authenticateToken, requirePermission('site_visit.manage_assigned'), actOnSiteVisit('confirm'));
+router.post('/assigned/:id/reschedule', authenticateToken, requirePermission('site_visit.manage_assigned'), actOnSiteVisit('reschedule'));
+router.post('/assigned/:id/cancel', authenticateToken, requirePermission('site_visit.manage_assigned'), actOnSiteVisit('cancel'));
+router.post('/assigned/:id/check-in', authenticateToken, requirePermission('site_visit.manage_assigned'), actOnSiteVisit('check_in'));
+router.post('/assigned/:id/complete', authenticateToken, requirePermission('site_visit.manage_assigned'), actOnSiteVisit('complete'));
+router.post('/assigned/:id/no-show', authenticateToken, requirePermission('site_visit.manage_assigned'), actOnSiteVisit('no_show'));
+
+// Customers' own visits (must stay after the /assigned routes)
+router.post('/', authenticateToken, requirePermission('site_visit.request'), requestSiteVisit);
+router.get('/mine', authenticateToken, requirePermission('site_visit.request'), getMySiteVisits);
+router.get('/:id', authenticateToken, requirePermission('site_visit.request'), getMySiteVisitById);
+router.post('/:id/cancel', authenticateToken, requirePermission('site_visit.request'), cancelMySiteVisit);
+router.post('/:id/feedback', authenticateToken, requirePermission('site_visit.request'), leaveSiteVisitFeedback);
+
+export default router;
@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import { getProfile, updateProfile, getPropertyCategories, getApprovedAgents, getAdmins, deleteAccount } from '../controllers/userController';
+import { getProfile, updateProfile, getPropertyCategories, getApprovedAgents, getAdmins, deleteAccount, registerPushToken, removePushToken } from '../controllers/userController';
 import { getSignedUploadUrl } from '../controllers/uploadController';
 import { authenticateToken } from '../middleware/auth';
 
@@ -13,5 +13,7 @@ router.get('/agents', authenticateToken, getApprovedAgents);
 router.get('/admins', authenticateToken, getAdmins);
 router.post('/upload-url', authenticateToken, getSignedUploadUrl);
 router.delete('/account', authenticateToken, deleteAccount);
+router.post('/push-tokens', authenticateToken, registerPushToken);
+router.delete('/push-tokens', authenticateToken, removePushToken);
 
 export default router;
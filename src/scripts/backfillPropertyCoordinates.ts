@@ -0,0 +1,62 @@
+import { db } from '../config/database';
+import { properties } from '../models/property';
+import { and, eq, isNull, isNotNull } from 'drizzle-orm';
+import { coordinateColumns, parseMapLink } from '../utils/geo';
+
+// Usage: npm run backfill:coordinates [-- --dry-run]
+// Fills latitude/longitude from the map link of properties that have none. Short links (maps.app.goo.gl,
+// goo.gl/maps) are expanded by following their redirect first.
+const SHORT_LINK = /^https?:\/\/(maps\.app\.goo\.gl|goo\.gl\/maps)\//i;
+const REDIRECT_TIMEOUT_MS = 5000;
+
+const expandShortLink = async (link: string) => {
+  try {
+    const response = await fetch(link, { method: 'HEAD', redirect: 'follow', signal: AbortSignal.timeout(REDIRECT_TIMEOUT_MS) });
+    return response.url || link;
+  } catch {
+    return link;
+  }
+};
+
+async function backfillPropertyCoordinates() {
+  const dryRun = process.argv.includes('--dry-run');
+
+  try {
+    console.log(`🔄 Backfilling property coordinates${dryRun ? ' (dry run)' : ''}...`);
+
+    const rows = await db
+      .select({ id: properties.id, title: properties.title, map: properties.map })
+      .from(properties)
+      .where(and(isNotNull(properties.map), isNull(properties.latitude), eq(properties.deleted, false)));
+
+    let updated = 0;
+    const unresolved: { id: string; title: string; map: string | null }[] = [];
+
+    for (const row of rows) {
+      const link = row.map!.trim();
+      const coordinates = parseMapLink(link) || (SHORT_LINK.test(link) ? parseMapLink(await expandShortLink(link)) : null);
+
+      if (!coordinates) {
+        unresolved.push(row);
+        continue;
+      }
+
+      if (!dryRun) {
+        await db.update(properties).set(coordinateColumns(coordinates)).where(eq(properties.id, row.id));
+      }
+      updated++;
+    }
+
+    console.log(`✅ ${updated}/${rows.length} properties ${dryRun ? 'would be updated' : 'updated'}`);
+    if (unresolved.length) {
+      console.log(`⚠️ ${unresolved.length} map links could not be parsed:`);
+      unresolved.forEach(row => console.log(`   ${row.id} ${row.title}: ${row.map}`));
+    }
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Backfill failed:', error);
+    process.exit(1);
+  }
+}
+
+backfillPropertyCoordinates();
@@ -0,0 +1,57 @@
+import { neon } from '@neondatabase/serverless';
+import dotenv from 'dotenv';
+import fs from 'fs';
+import path from 'path';
+
+dotenv.config();
+
+// Usage: npm run migrate:file -- 0038_add_otp_sessions.sql
+const runMigrationFile = async () => {
+  if (!process.env.DATABASE_URL) {
+    throw new Error('DATABASE_URL is not defined');
+  }
+
+  const fileName = process.argv[2];
+  if (!fileName) {
+    console.error('❌ Usage: npm run migrate:file -- <migration file name>');
+    process.exit(1);
+  }
+
+  console.log(`🔄 Running migration ${fileName}...\n`);
+  
+  const sql = neon(process.env.DATABASE_URL);
+  
+  try {
+    const migrationPath = path.join(__dirname, '../../drizzle', path.basename(fileName));
+    let migrationSQL = fs.readFileSync(migrationPath, 'utf-8');
+    
+    // Remove comments
+    migrationSQL = migrationSQL.replace(/--[^\n]*/g, '');
+    
+    // DO blocks contain semicolons, so run them as whole statements in file order
+    const doBlocks: string[] = [];
+    migrationSQL = migrationSQL.replace(/DO \$\$[\s\S]*?END \$\$;/g, (block) => {
+      doBlocks.push(block);
+      return `__DO_BLOCK_${doBlocks.length - 1}__;`;
+    });
+    
+    const statements = migrationSQL
+      .split(';')
+      .map(s => s.trim())
+      .filter(s => s.length > 0)
+      .map(s => s.replace(/^__DO_BLOCK_(\d+)__$/, (_, index) => doBlocks[Number(index)]));
+    
+    for (const statement of statements) {
+      console.log(`Executing: ${statement.substring(0, 80).replace(/\s+/g, ' ')}...`);
+      await sql`${sql.unsafe(statement)}`;
+    }
+    
+    console.log(`\n✅ Migration ${fileName} completed successfully!`);
+    process.exit(0);
+  } catch (error: any) {
+    console.error('❌ Migration failed:', error.message);
+    process.exit(1);
+  }
+};
+
+runMigrationFile();
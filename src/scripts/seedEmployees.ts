@@ -3,9 +3,9 @@ import { users } from '../models/user';
 import { eq } from 'drizzle-orm';
 
 const employeeData = [
-  { phone: '9876543210', name: 'Rajesh Kumar', email: 'rajesh@maruthi.com', department: 'Sales', active: true },
-  { phone: '9876543211', name: 'Priya Sharma', email: 'priya@maruthi.com', department: 'Operations', active: true },
-  { phone: '9876543212', name: 'Amit Patel', email: 'amit@maruthi.com', department: 'Marketing', active: false },
+  { phone: '9876543210', name: 'Rajesh Kumar', email: 'rajesh@maruthi.com', department: 'sales', active: true },
+  { phone: '9876543211', name: 'Priya Sharma', email: 'priya@maruthi.com', department: 'operations', active: true },
+  { phone: '9876543212', name: 'Amit Patel', email: 'amit@maruthi.com', department: 'marketing', active: false },
 ];
 
 async function seedEmployees() {
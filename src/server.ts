@@ -1,6 +1,9 @@
 import app from './app';
 import { createServer } from 'http';
 import { initializeSocket } from './services/socketService';
+import { slaService } from './services/slaService';
+import { exportService } from './services/exportService';
+import { siteVisitService } from './services/siteVisitService';
 
 const PORT = Number(process.env.PORT) || 3000;
 const HOST = process.env.SERVER_HOST || '0.0.0.0';
@@ -8,6 +11,9 @@ const SERVER_IP = process.env.SERVER_IP || 'localhost';
 
 const server = createServer(app);
 initializeSocket(server);
+slaService.startSweeper();
+exportService.startWorker();
+siteVisitService.startReminders();
 
 server.listen(PORT, HOST, () => {
   console.log('\n' + '='.repeat(60));
@@ -30,6 +30,14 @@ class CacheService {
     this.cache.delete(key);
   }
 
+  invalidatePrefix(prefix: string) {
+    for (const key of this.cache.keys()) {
+      if (key.startsWith(prefix)) {
+        this.cache.delete(key);
+      }
+    }
+  }
+
   clear() {
     this.cache.clear();
   }
@@ -3,7 +3,7 @@ import { users } from '../models/user';
 import { properties } from '../models/property';
 import { banners } from '../models/banner';
 import { propertyPendingChanges, bannerPendingChanges } from '../models/propertyPendingChange';
-import { sql, eq, or, and } from 'drizzle-orm';
+import { sql, eq, and } from 'drizzle-orm';
 
 export const dashboardService = {
   async getStats() {
@@ -12,36 +12,36 @@ export const dashboardService = {
     const thirtyDaysAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
 
     const [customerStats, agentStats, employeeStats, propertyStats, bannerStats, pendingChangesStats] = await Promise.all([
-      // Customer stats - handle both 'customer' and 'Customer'
+      // Customer stats
       db.select({
         today: sql<number>`SUM(CASE WHEN created_at >= ${startOfToday} THEN 1 ELSE 0 END)`,
         total: sql<number>`COUNT(*)`,
       })
       .from(users)
       .where(and(
-        or(eq(users.role, 'customer'), eq(users.role, 'Customer')),
+        eq(users.role, 'customer'),
         eq(users.deleted, false)
       )),
 
-      // Agent stats - handle both 'agent' and 'Agent'
+      // Agent stats
       db.select({
         approved: sql<number>`SUM(CASE WHEN COALESCE(approved, true) = true THEN 1 ELSE 0 END)`,
         pending: sql<number>`SUM(CASE WHEN COALESCE(approved, true) = false THEN 1 ELSE 0 END)`,
       })
       .from(users)
       .where(and(
-        or(eq(users.role, 'agent'), eq(users.role, 'Agent')),
+        eq(users.role, 'agent'),
         eq(users.deleted, false)
       )),
 
-      // Employee stats - handle both 'employee' and 'Employee'
+      // Employee stats
       db.select({
         active: sql<number>`SUM(CASE WHEN last_login >= ${thirtyDaysAgo} THEN 1 ELSE 0 END)`,
         inactive: sql<number>`SUM(CASE WHEN last_login IS NULL OR last_login < ${thirtyDaysAgo} THEN 1 ELSE 0 END)`,
       })
       .from(users)
       .where(and(
-        or(eq(users.role, 'employee'), eq(users.role, 'Employee')),
+        eq(users.role, 'employee'),
         eq(users.deleted, false)
       )),
 
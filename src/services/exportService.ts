@@ -0,0 +1,285 @@
+import { db } from '../config/database';
+import { exportJobs } from '../models/exportJob';
+import { loanRequests } from '../models/loanRequest';
+import { users } from '../models/user';
+import { eq, and, lt, gte, sql, count, SQL } from 'drizzle-orm';
+import { loanRequestFiltersSchema, buildLoanRequestConditions } from './loanRequestQuery';
+import { emitExportJobUpdated } from './socketService';
+import { uploadObject } from '../utils/cloudflare';
+import { CellValue, toCsvRow, toSheetRow, buildXlsx } from '../utils/spreadsheet';
+import { loanAnalyticsService, analyticsRangeSchema, resolveAnalyticsRange } from './loanAnalyticsService';
+
+export const EXPORT_FORMATS = ['csv', 'xlsx'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+const WORKER_INTERVAL_MS = Number(process.env.EXPORT_WORKER_INTERVAL_MS ?? 15 * 1000);
+const STALE_AFTER_MS = 15 * 60 * 1000;
+const MAX_ATTEMPTS = 3;
+const PAGE_SIZE = 500;
+const MAX_ROWS = 100000;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+type ExportJob = typeof exportJobs.$inferSelect;
+
+const loanRequestColumns = {
+  id: loanRequests.id,
+  createdAt: loanRequests.createdAt,
+  status: loanRequests.status,
+  priority: loanRequests.priority,
+  userName: loanRequests.userName,
+  userPhone: loanRequests.userPhone,
+  userEmail: loanRequests.userEmail,
+  userLocation: loanRequests.userLocation,
+  loanType: loanRequests.loanType,
+  propertyCategory: loanRequests.propertyCategory,
+  propertyValue: loanRequests.propertyValue,
+  loanAmountNeeded: loanRequests.loanAmountNeeded,
+  employmentType: loanRequests.employmentType,
+  monthlyIncome: loanRequests.monthlyIncome,
+  preferredTenure: loanRequests.preferredTenure,
+  assigneeName: users.name,
+  slaDueAt: loanRequests.slaDueAt,
+  isEscalated: loanRequests.isEscalated,
+  // Full-precision timestamp for the keyset cursor (JS Dates drop microseconds)
+  cursorCreatedAt: sql<string>`${loanRequests.createdAt}::text`,
+};
+
+const selectLoanRequestPage = (conditions: SQL[], limit: number) => db
+  .select(loanRequestColumns)
+  .from(loanRequests)
+  .leftJoin(users, eq(loanRequests.assigneeId, users.id))
+  .where(and(...conditions))
+  .orderBy(loanRequests.createdAt, loanRequests.id)
+  .limit(limit);
+
+type LoanRequestExportRow = Awaited<ReturnType<typeof selectLoanRequestPage>>[number];
+
+const EXPORT_COLUMNS: { header: string; value: (row: LoanRequestExportRow) => CellValue }[] = [
+  { header: 'ID', value: row => row.id },
+  { header: 'Created At', value: row => row.createdAt },
+  { header: 'Status', value: row => row.status },
+  { header: 'Priority', value: row => row.priority },
+  { header: 'Customer Name', value: row => row.userName },
+  { header: 'Phone', value: row => row.userPhone },
+  { header: 'Email', value: row => row.userEmail },
+  { header: 'Location', value: row => row.userLocation },
+  { header: 'Loan Type', value: row => row.loanType },
+  { header: 'Property Category', value: row => row.propertyCategory },
+  { header: 'Property Value', value: row => row.propertyValue },
+  { header: 'Loan Amount Needed', value: row => row.loanAmountNeeded },
+  { header: 'Employment Type', value: row => row.employmentType },
+  { header: 'Monthly Income', value: row => row.monthlyIncome },
+  { header: 'Preferred Tenure', value: row => row.preferredTenure },
+  { header: 'Assignee', value: row => row.assigneeName },
+  { header: 'SLA Due At', value: row => row.slaDueAt },
+  { header: 'Escalated', value: row => Boolean(row.isEscalated) },
+];
+
+export const getExportFormat = (jobType: string): ExportFormat =>
+  jobType.endsWith('_xlsx') ? 'xlsx' : 'csv';
+
+let workerTimer: NodeJS.Timeout | null = null;
+let draining = false;
+
+export const exportService = {
+  // Claims the oldest pending job (or one abandoned mid-run) so concurrent workers never share a job
+  async claimNextJob(): Promise<ExportJob | null> {
+    const now = new Date();
+    const staleBefore = new Date(now.getTime() - STALE_AFTER_MS);
+
+    const [job] = await db
+      .update(exportJobs)
+      .set({ status: 'processing', startedAt: now, attempts: sql`${exportJobs.attempts} + 1` })
+      .where(sql`${exportJobs.id} = (
+        SELECT id FROM export_jobs
+        WHERE status = 'pending' OR (status = 'processing' AND started_at < ${staleBefore} AND attempts < ${MAX_ATTEMPTS})
+        ORDER BY created_at
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )`)
+      .returning();
+
+    return job || null;
+  },
+
+  // Jobs whose worker died on every attempt are given up on instead of being retried forever
+  async failAbandonedJobs() {
+    const staleBefore = new Date(Date.now() - STALE_AFTER_MS);
+
+    const abandoned = await db
+      .update(exportJobs)
+      .set({ status: 'failed', errorMessage: 'Export worker stopped before the job finished', completedAt: new Date() })
+      .where(and(
+        eq(exportJobs.status, 'processing'),
+        lt(exportJobs.startedAt, staleBefore),
+        gte(exportJobs.attempts, MAX_ATTEMPTS)
+      ))
+      .returning();
+
+    for (const job of abandoned) emitExportJobUpdated(job.requestedBy, job);
+  },
+
+  // Pages through the filtered loan requests in (created_at, id) order, handing each page to `onPage`.
+  // Exports over MAX_ROWS fail up front rather than silently handing back a partial file.
+  async forEachLoanRequestPage(filters: unknown, onPage: (rows: LoanRequestExportRow[]) => void) {
+    const conditions = buildLoanRequestConditions(loanRequestFiltersSchema.parse(filters || {}));
+
+    const [{ matching }] = await db
+      .select({ matching: count() })
+      .from(loanRequests)
+      .where(and(...conditions));
+    if (matching > MAX_ROWS) {
+      throw new Error(`Export matches ${matching} loan requests; narrow the filters to at most ${MAX_ROWS} rows`);
+    }
+
+    let cursor: { createdAt: string; id: string } | null = null;
+    let total = 0;
+
+    while (true) {
+      const pageConditions = cursor
+        ? [...conditions, sql`(${loanRequests.createdAt}, ${loanRequests.id}) > (${cursor.createdAt}::timestamp, ${cursor.id}::uuid)`]
+        : conditions;
+
+      const page = await selectLoanRequestPage(pageConditions, PAGE_SIZE);
+      if (page.length === 0) break;
+
+      onPage(page);
+      total += page.length;
+
+      const last = page[page.length - 1];
+      cursor = { createdAt: last.cursorCreatedAt, id: last.id };
+      if (page.length < PAGE_SIZE) break;
+    }
+
+    return total;
+  },
+
+  async buildLoanRequestFile(job: ExportJob, format: ExportFormat) {
+    const headers = EXPORT_COLUMNS.map(column => column.header);
+
+    if (format === 'xlsx') {
+      const rows = [toSheetRow(headers, 0)];
+      const rowCount = await this.forEachLoanRequestPage(job.filters, page => {
+        for (const row of page) rows.push(toSheetRow(EXPORT_COLUMNS.map(column => column.value(row)), rows.length));
+      });
+      return { body: buildXlsx('Loan Requests', rows), rowCount };
+    }
+
+    // BOM so Excel opens the CSV as UTF-8
+    const chunks = ['\uFEFF' + toCsvRow(headers)];
+    const rowCount = await this.forEachLoanRequestPage(job.filters, page => {
+      for (const row of page) chunks.push(toCsvRow(EXPORT_COLUMNS.map(column => column.value(row))));
+    });
+    return { body: Buffer.from(chunks.join(''), 'utf8'), rowCount };
+  },
+
+  // Analytics report for the job's date range, one figure per row
+  async buildAnalyticsFile(job: ExportJob, format: ExportFormat) {
+    const range = resolveAnalyticsRange(analyticsRangeSchema.parse(job.filters || {}));
+    if (range.error) throw new Error(range.error);
+
+    const report = await loanAnalyticsService.getReport(range.from, range.to);
+    const { headers, rows } = loanAnalyticsService.toRows(report);
+
+    if (format === 'xlsx') {
+      const sheetRows = [headers, ...rows].map((row, index) => toSheetRow(row, index));
+      return { body: buildXlsx('Loan Analytics', sheetRows), rowCount: rows.length };
+    }
+
+    const csv = '\uFEFF' + [headers, ...rows].map(toCsvRow).join('');
+    return { body: Buffer.from(csv, 'utf8'), rowCount: rows.length };
+  },
+
+  async processJob(job: ExportJob) {
+    const format = getExportFormat(job.jobType);
+
+    try {
+      let file: { body: Buffer; rowCount: number };
+      let baseName: string;
+
+      if (job.jobType.startsWith('loan_requests_')) {
+        file = await this.buildLoanRequestFile(job, format);
+        baseName = 'loan-requests';
+      } else if (job.jobType.startsWith('loan_analytics_')) {
+        file = await this.buildAnalyticsFile(job, format);
+        baseName = 'loan-analytics';
+      } else {
+        throw new Error(`Unsupported export type: ${job.jobType}`);
+      }
+
+      const { body, rowCount } = file;
+      const fileName = `${baseName}-${job.createdAt.toISOString().slice(0, 10)}.${format}`;
+      // Exports carry customer PII, so they are only reachable through the signed link from getExportById
+      const { key } = await uploadObject(`exports/${job.id}.${format}`, body, CONTENT_TYPES[format], 'private');
+
+      const [completed] = await db
+        .update(exportJobs)
+        .set({ status: 'completed', fileUrl: null, fileKey: key, fileName, rowCount, errorMessage: null, completedAt: new Date() })
+        .where(eq(exportJobs.id, job.id))
+        .returning();
+
+      console.log(`📦 Export job ${job.id} completed (${rowCount} rows, ${format})`);
+      emitExportJobUpdated(job.requestedBy, completed);
+    } catch (error: any) {
+      const finalAttempt = job.attempts >= MAX_ATTEMPTS;
+      const errorMessage = error?.message || 'Export failed';
+
+      const [failed] = await db
+        .update(exportJobs)
+        .set({ status: finalAttempt ? 'failed' : 'pending', errorMessage, completedAt: finalAttempt ? new Date() : null })
+        .where(eq(exportJobs.id, job.id))
+        .returning();
+
+      console.error(`❌ Export job ${job.id} attempt ${job.attempts} failed:`, error);
+      if (finalAttempt) emitExportJobUpdated(job.requestedBy, failed);
+    }
+  },
+
+  // Processes jobs until the queue is empty; overlapping calls are ignored
+  async drain() {
+    if (draining) return;
+    draining = true;
+
+    try {
+      await this.failAbandonedJobs();
+
+      let job = await this.claimNextJob();
+      while (job) {
+        await this.processJob(job);
+        job = await this.claimNextJob();
+      }
+    } finally {
+      draining = false;
+    }
+  },
+
+  // Starts processing right away instead of waiting for the next poll (called after a job is queued)
+  kick() {
+    setImmediate(() => {
+      this.drain().catch(error => console.error('❌ Export worker error:', error));
+    });
+  },
+
+  startWorker() {
+    if (workerTimer || WORKER_INTERVAL_MS <= 0) return;
+
+    workerTimer = setInterval(() => {
+      this.drain().catch(error => console.error('❌ Export worker error:', error));
+    }, WORKER_INTERVAL_MS);
+    workerTimer.unref();
+
+    console.log(`📦 Export worker polling every ${Math.round(WORKER_INTERVAL_MS / 1000)}s`);
+    this.kick();
+  },
+
+  stopWorker() {
+    if (workerTimer) {
+      clearInterval(workerTimer);
+      workerTimer = null;
+    }
+  },
+};
@@ -0,0 +1,202 @@
+import { db } from '../config/database';
+import { properties } from '../models/property';
+import { propertyFavourites, propertyFavouriteCollections } from '../models/propertyFavourite';
+import { eq, and, asc, inArray, isNull, sql, SQL } from 'drizzle-orm';
+import { KeysetSort, keyset, toPage } from '../utils/pagination';
+import { FavouriteEdit, canUseCollection, favouriteChanges } from '../utils/favourites';
+
+const MAX_COLLECTIONS = 50;
+
+const favouriteSort: KeysetSort = { name: 'newest', key: propertyFavourites.createdAt, keyType: 'timestamp', id: propertyFavourites.id, direction: 'desc' };
+
+export interface FavouriteListOptions {
+  // A collection id, 'none' for items outside every collection, or undefined for everything
+  collection?: number | 'none';
+  cursor?: string;
+  limit: number;
+}
+
+const findCollection = async (collectionId: number | null | undefined) => {
+  if (!collectionId) return null;
+  const [collection] = await db
+    .select({ id: propertyFavouriteCollections.id, userId: propertyFavouriteCollections.userId })
+    .from(propertyFavouriteCollections)
+    .where(eq(propertyFavouriteCollections.id, collectionId))
+    .limit(1);
+  return collection ?? null;
+};
+
+const isUniqueViolation = (error: any) => error?.code === '23505';
+
+const isNameTaken = async (userId: number, name: string, exceptId?: number) => {
+  const [existing] = await db
+    .select({ id: propertyFavouriteCollections.id })
+    .from(propertyFavouriteCollections)
+    .where(and(eq(propertyFavouriteCollections.userId, userId), sql`lower(${propertyFavouriteCollections.name}) = lower(${name})`))
+    .limit(1);
+  return !!existing && existing.id !== exceptId;
+};
+
+export const favouriteService = {
+  // The customer's shortlist, newest first, with a summary of each property
+  async list(userId: number, options: FavouriteListOptions) {
+    const page = keyset(favouriteSort, options.cursor);
+    if (page.error) return { error: 'invalid' as const, message: page.error };
+
+    const conditions: SQL[] = [eq(propertyFavourites.userId, userId), eq(properties.deleted, false)];
+    if (options.collection === 'none') conditions.push(isNull(propertyFavourites.collectionId));
+    else if (options.collection !== undefined) conditions.push(eq(propertyFavourites.collectionId, options.collection));
+    if (page.where) conditions.push(page.where);
+
+    const rows = await db
+      .select({
+        id: propertyFavourites.id,
+        collectionId: propertyFavourites.collectionId,
+        note: propertyFavourites.note,
+        createdAt: propertyFavourites.createdAt,
+        updatedAt: propertyFavourites.updatedAt,
+        property: {
+          id: properties.id,
+          title: properties.title,
+          location: properties.location,
+          price: properties.price,
+          type: properties.type,
+          images: properties.images,
+        },
+        cursorKey: page.cursorKey,
+      })
+      .from(propertyFavourites)
+      .innerJoin(properties, eq(propertyFavourites.propertyId, properties.id))
+      .where(and(...conditions))
+      .orderBy(...page.orderBy)
+      .limit(options.limit + 1);
+
+    return { collection: options.collection ?? null, ...toPage(rows, options.limit, favouriteSort) };
+  },
+
+  // Adds the property to the shortlist, or updates collection and note when it is already there
+  async add(userId: number, input: FavouriteEdit & { propertyId: string }) {
+    const [property] = await db
+      .select({ id: properties.id })
+      .from(properties)
+      .where(and(eq(properties.id, input.propertyId), eq(properties.deleted, false)))
+      .limit(1);
+    if (!property) return { error: 'not_found' as const, message: 'Property not found' };
+
+    if (!canUseCollection(userId, input.collectionId, await findCollection(input.collectionId))) {
+      return { error: 'not_found' as const, message: 'Collection not found' };
+    }
+
+    const [existing] = await db
+      .select({ id: propertyFavourites.id })
+      .from(propertyFavourites)
+      .where(and(eq(propertyFavourites.userId, userId), eq(propertyFavourites.propertyId, input.propertyId)))
+      .limit(1);
+
+    const [favourite] = await db
+      .insert(propertyFavourites)
+      .values({ userId, propertyId: input.propertyId, collectionId: input.collectionId ?? null, note: input.note || null })
+      .onConflictDoUpdate({
+        target: [propertyFavourites.userId, propertyFavourites.propertyId],
+        set: { ...favouriteChanges(input), updatedAt: new Date() },
+      })
+      .returning();
+
+    return { favourite, created: !existing };
+  },
+
+  async update(userId: number, propertyId: string, input: FavouriteEdit) {
+    if (!canUseCollection(userId, input.collectionId, await findCollection(input.collectionId))) {
+      return { error: 'not_found' as const, message: 'Collection not found' };
+    }
+
+    const [favourite] = await db
+      .update(propertyFavourites)
+      .set({ ...favouriteChanges(input), updatedAt: new Date() })
+      .where(and(eq(propertyFavourites.userId, userId), eq(propertyFavourites.propertyId, propertyId)))
+      .returning();
+
+    if (!favourite) return { error: 'not_found' as const, message: 'Property is not in your shortlist' };
+    return { favourite };
+  },
+
+  async remove(userId: number, propertyId: string) {
+    const [removed] = await db
+      .delete(propertyFavourites)
+      .where(and(eq(propertyFavourites.userId, userId), eq(propertyFavourites.propertyId, propertyId)))
+      .returning({ id: propertyFavourites.id });
+    return !!removed;
+  },
+
+  async listCollections(userId: number) {
+    return db
+      .select({
+        id: propertyFavouriteCollections.id,
+        name: propertyFavouriteCollections.name,
+        createdAt: propertyFavouriteCollections.createdAt,
+        updatedAt: propertyFavouriteCollections.updatedAt,
+        itemCount: sql<number>`(SELECT count(*)::int FROM ${propertyFavourites} WHERE ${propertyFavourites.collectionId} = ${propertyFavouriteCollections.id})`,
+      })
+      .from(propertyFavouriteCollections)
+      .where(eq(propertyFavouriteCollections.userId, userId))
+      .orderBy(asc(propertyFavouriteCollections.name));
+  },
+
+  async createCollection(userId: number, name: string) {
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(propertyFavouriteCollections)
+      .where(eq(propertyFavouriteCollections.userId, userId));
+    if (count >= MAX_COLLECTIONS) return { error: 'invalid' as const, message: `You can have at most ${MAX_COLLECTIONS} collections` };
+    if (await isNameTaken(userId, name)) return { error: 'conflict' as const, message: 'You already have a collection with this name' };
+
+    try {
+      // The (user_id, lower(name)) index catches a concurrent create with the same name
+      const [collection] = await db.insert(propertyFavouriteCollections).values({ userId, name }).returning();
+      return { collection };
+    } catch (error) {
+      if (isUniqueViolation(error)) return { error: 'conflict' as const, message: 'You already have a collection with this name' };
+      throw error;
+    }
+  },
+
+  async renameCollection(userId: number, collectionId: number, name: string) {
+    if (!canUseCollection(userId, collectionId, await findCollection(collectionId))) {
+      return { error: 'not_found' as const, message: 'Collection not found' };
+    }
+    if (await isNameTaken(userId, name, collectionId)) return { error: 'conflict' as const, message: 'You already have a collection with this name' };
+
+    try {
+      const [collection] = await db
+        .update(propertyFavouriteCollections)
+        .set({ name, updatedAt: new Date() })
+        .where(eq(propertyFavouriteCollections.id, collectionId))
+        .returning();
+      return { collection };
+    } catch (error) {
+      if (isUniqueViolation(error)) return { error: 'conflict' as const, message: 'You already have a collection with this name' };
+      throw error;
+    }
+  },
+
+  // Items of a deleted collection stay in the shortlist, outside any collection
+  async deleteCollection(userId: number, collectionId: number) {
+    const [removed] = await db
+      .delete(propertyFavouriteCollections)
+      .where(and(eq(propertyFavouriteCollections.id, collectionId), eq(propertyFavouriteCollections.userId, userId)))
+      .returning({ id: propertyFavouriteCollections.id });
+    return !!removed;
+  },
+
+  // Favourite counts for staff views, keyed by property id; properties nobody favourited are absent
+  async countsFor(propertyIds: string[]) {
+    if (propertyIds.length === 0) return new Map<string, number>();
+
+    const rows = await db
+      .select({ propertyId: propertyFavourites.propertyId, count: sql<number>`count(*)::int` })
+      .from(propertyFavourites)
+      .where(inArray(propertyFavourites.propertyId, propertyIds))
+      .groupBy(propertyFavourites.propertyId);
+    return new Map(rows.map(row => [row.propertyId, row.count]));
+  },
+};
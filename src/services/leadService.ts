@@ -0,0 +1,386 @@
+import { db } from '../config/database';
+import { properties } from '../models/property';
+import { users } from '../models/user';
+import { conversations } from '../models/chat';
+import { leads, leadActivities } from '../models/lead';
+import { propertyAgentAssignments, propertyEmployeeAssignments } from '../models/propertyAssignment';
+import { eq, and, or, asc, desc, ilike, inArray, isNull, notInArray, sql, SQL, getTableColumns } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { KeysetSort, keyset, toPage } from '../utils/pagination';
+import { likePattern } from '../utils/propertySearch';
+import {
+  CLOSED_LEAD_STAGES,
+  LEAD_STAGE_LABELS,
+  LeadSource,
+  LeadStage,
+  checkStageChange,
+  isClosedLeadStage,
+  pickLeadAssignee,
+  summarizePipeline,
+} from '../config/leads';
+import { permissionService } from './permissionService';
+import { emitLeadAssigned } from './socketService';
+import { pushService } from './pushService';
+
+type LeadRow = typeof leads.$inferSelect;
+
+// The agent, employee or admin looking at leads
+export interface LeadViewer {
+  userId: number;
+  role?: string | null;
+  department?: string | null;
+}
+
+export interface LeadCapture {
+  source: LeadSource;
+  customerId: number;
+  propertyId?: string | null;
+  message?: string | null;
+  conversationId?: string | null;
+  contactMessageId?: string | null;
+}
+
+export interface LeadListOptions {
+  stage?: LeadStage;
+  source?: LeadSource;
+  propertyId?: string;
+  assigneeId?: number;
+  q?: string;
+  cursor?: string;
+  limit: number;
+}
+
+const leadSort: KeysetSort = { name: 'recent', key: leads.lastActivityAt, keyType: 'timestamp', id: leads.id, direction: 'desc' };
+
+const assignees = alias(users, 'assignees');
+
+const isUniqueViolation = (error: any) => error?.code === '23505';
+
+const openLeadCounts = async (userIds: number[]) => {
+  if (userIds.length === 0) return new Map<number, number>();
+
+  const rows = await db
+    .select({ assigneeId: leads.assigneeId, count: sql<number>`count(*)::int` })
+    .from(leads)
+    .where(and(inArray(leads.assigneeId, userIds), notInArray(leads.stage, [...CLOSED_LEAD_STAGES])))
+    .groupBy(leads.assigneeId);
+  return new Map(rows.map(row => [row.assigneeId!, row.count]));
+};
+
+// The property's active agent with the fewest open leads, otherwise its least busy employee
+const routeAssignee = async (propertyId: string | null | undefined) => {
+  if (!propertyId) return null;
+
+  const activeStaff = and(eq(users.deleted, false), eq(users.active, true));
+  const [agents, employees] = await Promise.all([
+    db
+      .select({ userId: propertyAgentAssignments.agentId })
+      .from(propertyAgentAssignments)
+      .innerJoin(users, eq(propertyAgentAssignments.agentId, users.id))
+      .where(and(eq(propertyAgentAssignments.propertyId, propertyId), activeStaff))
+      .orderBy(asc(propertyAgentAssignments.assignedAt)),
+    db
+      .select({ userId: propertyEmployeeAssignments.employeeId })
+      .from(propertyEmployeeAssignments)
+      .innerJoin(users, eq(propertyEmployeeAssignments.employeeId, users.id))
+      .where(and(eq(propertyEmployeeAssignments.propertyId, propertyId), activeStaff))
+      .orderBy(asc(propertyEmployeeAssignments.assignedAt)),
+  ]);
+
+  const counts = await openLeadCounts([...agents, ...employees].map(candidate => candidate.userId));
+  const withCounts = (candidates: { userId: number }[]) =>
+    candidates.map(candidate => ({ userId: candidate.userId, openLeads: counts.get(candidate.userId) ?? 0 }));
+  return pickLeadAssignee(withCounts(agents), withCounts(employees));
+};
+
+// Leads the viewer may see: everything with lead.view_all, otherwise leads assigned to them and, for
+// employees, every lead on their assigned properties. Whoever can assign leads also sees the unassigned
+// ones (enquiries with no property, or a property without active staff) so they can route them.
+const leadScope = async (viewer: LeadViewer): Promise<SQL | undefined> => {
+  if (await permissionService.hasPermissions(viewer, ['lead.view_all'])) return undefined;
+
+  const own: SQL[] = [eq(leads.assigneeId, viewer.userId)];
+  if (await permissionService.hasPermissions(viewer, ['lead.assign'])) own.push(isNull(leads.assigneeId));
+
+  const propertyIds = viewer.role === 'employee'
+    ? (await db
+      .select({ propertyId: propertyEmployeeAssignments.propertyId })
+      .from(propertyEmployeeAssignments)
+      .where(eq(propertyEmployeeAssignments.employeeId, viewer.userId))).map(assignment => assignment.propertyId)
+    : [];
+
+  if (propertyIds.length) own.push(inArray(leads.propertyId, propertyIds));
+  return or(...own);
+};
+
+const findVisibleLead = async (viewer: LeadViewer, leadId: string) => {
+  const [lead] = await db
+    .select()
+    .from(leads)
+    .where(and(eq(leads.id, leadId), await leadScope(viewer)))
+    .limit(1);
+  return lead;
+};
+
+const logActivity = (leadId: string, activity: { actorId?: number | null; type: string; fromStage?: string | null; toStage?: string | null; note?: string | null }) =>
+  db.insert(leadActivities).values({ leadId, ...activity, note: activity.note || null });
+
+export const leadService = {
+  // Records interest from a customer. A repeat enquiry about a property the customer already has an open
+  // lead for, or a repeat escalation of the same chat or contact message, is added to that lead's timeline
+  // instead of creating a new one.
+  async capture(input: LeadCapture): Promise<{ lead: LeadRow; created: boolean }> {
+    const sameEnquiry: SQL[] = [];
+    if (input.propertyId) sameEnquiry.push(and(eq(leads.customerId, input.customerId), eq(leads.propertyId, input.propertyId))!);
+    if (input.conversationId) sameEnquiry.push(eq(leads.conversationId, input.conversationId));
+    if (input.contactMessageId) sameEnquiry.push(eq(leads.contactMessageId, input.contactMessageId));
+
+    if (sameEnquiry.length) {
+      const [open] = await db
+        .select()
+        .from(leads)
+        .where(and(or(...sameEnquiry), notInArray(leads.stage, [...CLOSED_LEAD_STAGES])))
+        .limit(1);
+
+      if (open) {
+        await logActivity(open.id, { actorId: input.customerId, type: 'enquiry', note: input.message });
+        const [lead] = await db
+          .update(leads)
+          .set({ lastActivityAt: new Date(), updatedAt: new Date() })
+          .where(eq(leads.id, open.id))
+          .returning();
+        return { lead, created: false };
+      }
+    }
+
+    const [customer] = await db
+      .select({ name: users.name, phone: users.phone, email: users.email })
+      .from(users)
+      .where(eq(users.id, input.customerId))
+      .limit(1);
+    const assigneeId = await routeAssignee(input.propertyId);
+
+    let lead: LeadRow;
+    try {
+      [lead] = await db.insert(leads).values({
+        customerId: input.customerId,
+        propertyId: input.propertyId || null,
+        source: input.source,
+        assigneeId,
+        contactName: customer?.name || null,
+        contactPhone: customer?.phone || null,
+        contactEmail: customer?.email || null,
+        message: input.message || null,
+        conversationId: input.conversationId || null,
+        contactMessageId: input.contactMessageId || null,
+      }).returning();
+    } catch (error) {
+      // A concurrent enquiry created the open lead first; add to it instead
+      if (isUniqueViolation(error) && sameEnquiry.length) return this.capture(input);
+      throw error;
+    }
+
+    await logActivity(lead.id, { actorId: input.customerId, type: 'created', toStage: lead.stage, note: input.message });
+    if (assigneeId) {
+      await this.notifyAssignee(lead, assigneeId)
+        .catch(error => console.error(`❌ Lead assignment notification failed for ${lead.id}:`, error));
+    }
+
+    console.log(`📋 Lead ${lead.id} captured from ${input.source}${assigneeId ? `, routed to user ${assigneeId}` : ', unassigned'}`);
+    return { lead, created: true };
+  },
+
+  // Lead for a customer asking the AI chat for a person; the conversation's property, if any, decides routing
+  async captureChatEscalation(conversationId: string, reason?: string | null) {
+    const [conversation] = await db
+      .select({ id: conversations.id, userId: conversations.userId, context: conversations.context })
+      .from(conversations)
+      .where(and(eq(conversations.id, conversationId), eq(conversations.deleted, false)))
+      .limit(1);
+    if (!conversation) return null;
+
+    const contextPropertyId = (conversation.context as { propertyId?: string } | null)?.propertyId;
+    const [property] = contextPropertyId
+      ? await db
+        .select({ id: properties.id })
+        .from(properties)
+        .where(and(eq(properties.id, contextPropertyId), eq(properties.deleted, false)))
+        .limit(1)
+      : [];
+
+    return this.capture({
+      source: 'chat_escalation',
+      customerId: conversation.userId,
+      propertyId: property?.id ?? null,
+      message: reason,
+      conversationId: conversation.id,
+    });
+  },
+
+  async notifyAssignee(lead: LeadRow, assigneeId: number) {
+    const [property] = lead.propertyId
+      ? await db.select({ title: properties.title }).from(properties).where(eq(properties.id, lead.propertyId)).limit(1)
+      : [];
+
+    emitLeadAssigned(assigneeId, lead);
+    await pushService.sendToUsers([assigneeId], {
+      title: 'New lead',
+      body: `${lead.contactName || 'A customer'} ${property ? `is interested in ${property.title}` : 'sent an enquiry'}`,
+      data: { type: 'lead_assigned', leadId: lead.id },
+    });
+  },
+
+  // Most recently active first
+  async list(viewer: LeadViewer, options: LeadListOptions) {
+    const page = keyset(leadSort, options.cursor);
+    if (page.error) return { error: 'invalid' as const, message: page.error };
+
+    const conditions: SQL[] = [];
+    const scope = await leadScope(viewer);
+    if (scope) conditions.push(scope);
+    if (options.stage) conditions.push(eq(leads.stage, options.stage));
+    if (options.source) conditions.push(eq(leads.source, options.source));
+    if (options.propertyId) conditions.push(eq(leads.propertyId, options.propertyId));
+    if (options.assigneeId) conditions.push(eq(leads.assigneeId, options.assigneeId));
+    if (options.q) {
+      conditions.push(or(
+        ilike(leads.contactName, likePattern(options.q)),
+        ilike(leads.contactPhone, likePattern(options.q)),
+        ilike(properties.title, likePattern(options.q))
+      )!);
+    }
+    if (page.where) conditions.push(page.where);
+
+    const rows = await db
+      .select({
+        ...getTableColumns(leads),
+        property: { id: properties.id, title: properties.title, location: properties.location },
+        assignee: { id: assignees.id, name: assignees.name, role: assignees.role },
+        cursorKey: page.cursorKey,
+      })
+      .from(leads)
+      .leftJoin(properties, eq(leads.propertyId, properties.id))
+      .leftJoin(assignees, eq(leads.assigneeId, assignees.id))
+      .where(and(...conditions))
+      .orderBy(...page.orderBy)
+      .limit(options.limit + 1);
+
+    return { ...toPage(rows, options.limit, leadSort) };
+  },
+
+  async get(viewer: LeadViewer, leadId: string) {
+    const lead = await findVisibleLead(viewer, leadId);
+    if (!lead) return null;
+
+    const [[property], [assignee], activities] = await Promise.all([
+      lead.propertyId
+        ? db.select({ id: properties.id, title: properties.title, location: properties.location, price: properties.price, images: properties.images })
+          .from(properties).where(eq(properties.id, lead.propertyId)).limit(1)
+        : Promise.resolve([]),
+      lead.assigneeId
+        ? db.select({ id: users.id, name: users.name, role: users.role }).from(users).where(eq(users.id, lead.assigneeId)).limit(1)
+        : Promise.resolve([]),
+      db
+        .select({ ...getTableColumns(leadActivities), actorName: users.name })
+        .from(leadActivities)
+        .leftJoin(users, eq(leadActivities.actorId, users.id))
+        .where(eq(leadActivities.leadId, leadId))
+        .orderBy(desc(leadActivities.createdAt), desc(leadActivities.id)),
+    ]);
+
+    return { ...lead, property: property || null, assignee: assignee || null, activities };
+  },
+
+  // The stage in the WHERE clause turns concurrent moves of the same lead into a conflict
+  async changeStage(viewer: LeadViewer, leadId: string, input: { stage: LeadStage; note?: string }) {
+    const existing = await findVisibleLead(viewer, leadId);
+    if (!existing) return { error: 'not_found' as const, message: 'Lead not found' };
+
+    const check = checkStageChange(existing.stage, input.stage, input.note);
+    if (!check.allowed) return { error: 'invalid' as const, message: check.message };
+
+    const now = new Date();
+    const [lead] = await db
+      .update(leads)
+      .set({
+        stage: input.stage,
+        stageChangedAt: now,
+        closedAt: isClosedLeadStage(input.stage) ? now : null,
+        lostReason: input.stage === 'lost' ? input.note!.trim() : null,
+        lastActivityAt: now,
+        updatedAt: now,
+      })
+      .where(and(eq(leads.id, existing.id), eq(leads.stage, existing.stage)))
+      .returning();
+    if (!lead) return { error: 'conflict' as const, message: 'The lead was changed by someone else, reload and try again' };
+
+    await logActivity(lead.id, { actorId: viewer.userId, type: 'stage_change', fromStage: existing.stage, toStage: lead.stage, note: input.note });
+
+    console.log(`📋 Lead ${lead.id} moved from ${existing.stage} to ${lead.stage} by user ${viewer.userId}`);
+    return { lead };
+  },
+
+  async addNote(viewer: LeadViewer, leadId: string, note: string) {
+    const lead = await findVisibleLead(viewer, leadId);
+    if (!lead) return { error: 'not_found' as const, message: 'Lead not found' };
+
+    const [activity] = await logActivity(lead.id, { actorId: viewer.userId, type: 'note', note }).returning();
+    await db.update(leads).set({ lastActivityAt: activity.createdAt }).where(eq(leads.id, lead.id));
+    return { activity };
+  },
+
+  async assign(viewer: LeadViewer, leadId: string, assigneeId: number) {
+    const existing = await findVisibleLead(viewer, leadId);
+    if (!existing) return { error: 'not_found' as const, message: 'Lead not found' };
+    if (existing.assigneeId === assigneeId) return { error: 'invalid' as const, message: 'Lead is already assigned to this user' };
+
+    const [assignee] = await db
+      .select({ id: users.id, name: users.name })
+      .from(users)
+      .where(and(eq(users.id, assigneeId), inArray(users.role, ['agent', 'employee']), eq(users.deleted, false), eq(users.active, true)))
+      .limit(1);
+    if (!assignee) return { error: 'invalid' as const, message: 'Leads can only be assigned to active agents and employees' };
+
+    const [lead] = await db
+      .update(leads)
+      .set({ assigneeId, lastActivityAt: new Date(), updatedAt: new Date() })
+      .where(eq(leads.id, existing.id))
+      .returning();
+
+    await logActivity(lead.id, { actorId: viewer.userId, type: 'assignment', note: `Assigned to ${assignee.name || `user ${assignee.id}`}` });
+    await this.notifyAssignee(lead, assigneeId)
+      .catch(error => console.error(`❌ Lead assignment notification failed for ${lead.id}:`, error));
+
+    return { lead };
+  },
+
+  // Stage counts overall and per assignee across the leads the viewer can see
+  async pipeline(viewer: LeadViewer, options: { source?: LeadSource; propertyId?: string } = {}) {
+    const conditions: SQL[] = [];
+    const scope = await leadScope(viewer);
+    if (scope) conditions.push(scope);
+    if (options.source) conditions.push(eq(leads.source, options.source));
+    if (options.propertyId) conditions.push(eq(leads.propertyId, options.propertyId));
+
+    const rows = await db
+      .select({ assigneeId: leads.assigneeId, stage: leads.stage, count: sql<number>`count(*)::int` })
+      .from(leads)
+      .where(and(...conditions))
+      .groupBy(leads.assigneeId, leads.stage);
+
+    const summary = summarizePipeline(rows);
+    const assigneeIds = summary.assignees.map(entry => entry.assigneeId).filter((id): id is number => id !== null);
+    const people = assigneeIds.length
+      ? await db.select({ id: users.id, name: users.name, role: users.role }).from(users).where(inArray(users.id, assigneeIds))
+      : [];
+    const personById = new Map(people.map(person => [person.id, person]));
+
+    return {
+      ...summary,
+      stageLabels: LEAD_STAGE_LABELS,
+      assignees: summary.assignees
+        .map(entry => ({ ...entry, assignee: entry.assigneeId === null ? null : personById.get(entry.assigneeId) || null }))
+        .sort((a, b) => b.open - a.open || b.total - a.total),
+    };
+  },
+};
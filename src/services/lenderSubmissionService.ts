@@ -0,0 +1,186 @@
+import { db } from '../config/database';
+import { loanRequests, loanRequestAuditLogs } from '../models/loanRequest';
+import { lenders, lenderProducts, loanLenderSubmissions } from '../models/lender';
+import { users } from '../models/user';
+import { eq, and, gte, lte, sql, SQL } from 'drizzle-orm';
+import { z } from 'zod';
+import { SUBMISSION_STATUSES, allowedSubmissionStatuses, conversionRates, submissionStatusChanges } from '../utils/lenderSubmissions';
+
+// Requests that are no longer being worked cannot be forwarded
+const UNSUBMITTABLE_STATUSES = ['rejected', 'withdrawn'];
+
+type LoanRequestRow = typeof loanRequests.$inferSelect;
+type SubmissionRow = typeof loanLenderSubmissions.$inferSelect;
+
+// Request bodies shared by the finance and admin submission endpoints
+export const submissionSchema = z.object({
+  lenderId: z.number().int().positive(),
+  productId: z.number().int().positive().nullable().optional(),
+  requestedAmount: z.number().positive().optional(),
+  lenderReference: z.string().max(100).optional(),
+});
+
+export const submissionUpdateSchema = z.object({
+  status: z.enum(SUBMISSION_STATUSES),
+  lenderReference: z.string().max(100).optional(),
+  sanctionedAmount: z.number().positive().optional(),
+  sanctionedRate: z.number().min(0.01).max(30).optional(),
+  disbursedAmount: z.number().positive().optional(),
+  declineReason: z.string().max(1000).optional(),
+});
+
+export type SubmissionInput = z.infer<typeof submissionSchema>;
+export type SubmissionUpdate = z.infer<typeof submissionUpdateSchema>;
+
+const isUniqueViolation = (error: any) => error?.code === '23505';
+
+const logAudit = (loanRequestId: string, actorId: number, action: string, oldValue: string | null, newValue: string, comment?: string | null) =>
+  db.insert(loanRequestAuditLogs).values({ loanRequestId, actorId, action, oldValue, newValue, comment: comment || null });
+
+export const lenderSubmissionService = {
+  async listForLoanRequest(loanRequestId: string) {
+    const rows = await db
+      .select({
+        submission: loanLenderSubmissions,
+        lenderName: lenders.name,
+        productName: lenderProducts.name,
+        submittedByName: users.name,
+      })
+      .from(loanLenderSubmissions)
+      .innerJoin(lenders, eq(loanLenderSubmissions.lenderId, lenders.id))
+      .leftJoin(lenderProducts, eq(loanLenderSubmissions.productId, lenderProducts.id))
+      .leftJoin(users, eq(loanLenderSubmissions.submittedById, users.id))
+      .where(eq(loanLenderSubmissions.loanRequestId, loanRequestId))
+      .orderBy(loanLenderSubmissions.submittedAt);
+
+    return rows.map(({ submission, ...names }) => ({ ...submission, ...names, allowedStatuses: allowedSubmissionStatuses(submission.status) }));
+  },
+
+  async create(loanRequest: LoanRequestRow, actorId: number, input: SubmissionInput) {
+    if (UNSUBMITTABLE_STATUSES.includes(loanRequest.status)) {
+      return { error: 'invalid_state', message: `A ${loanRequest.status} loan request cannot be sent to a lender` };
+    }
+
+    const [lender] = await db.select().from(lenders).where(eq(lenders.id, input.lenderId)).limit(1);
+    if (!lender || !lender.active) {
+      return { error: 'not_found', message: 'Lender not found' };
+    }
+
+    if (input.productId) {
+      const [product] = await db.select().from(lenderProducts).where(eq(lenderProducts.id, input.productId)).limit(1);
+      if (!product || product.lenderId !== lender.id || !product.active) {
+        return { error: 'invalid', message: 'Product does not belong to this lender' };
+      }
+    }
+
+    // One live case per lender: a declined submission can be retried, anything else is a duplicate
+    const [open] = await db
+      .select({ id: loanLenderSubmissions.id })
+      .from(loanLenderSubmissions)
+      .where(and(
+        eq(loanLenderSubmissions.loanRequestId, loanRequest.id),
+        eq(loanLenderSubmissions.lenderId, lender.id),
+        sql`${loanLenderSubmissions.status} <> 'declined'`
+      ))
+      .limit(1);
+    if (open) {
+      return { error: 'conflict', message: 'This request already has an open submission with this lender' };
+    }
+
+    let submission: SubmissionRow;
+    try {
+      [submission] = await db.insert(loanLenderSubmissions).values({
+        loanRequestId: loanRequest.id,
+        lenderId: lender.id,
+        productId: input.productId || null,
+        requestedAmount: input.requestedAmount || loanRequest.loanAmountNeeded,
+        lenderReference: input.lenderReference || null,
+        submittedById: actorId,
+      }).returning();
+    } catch (error) {
+      // A concurrent submission to the same lender got in first
+      if (isUniqueViolation(error)) return { error: 'conflict', message: 'This request already has an open submission with this lender' };
+      throw error;
+    }
+
+    await db.update(loanRequests).set({ lastActivityAt: new Date() }).where(eq(loanRequests.id, loanRequest.id));
+    await logAudit(loanRequest.id, actorId, 'lender_submitted', null, lender.name);
+
+    console.log(`🏦 Loan request ${loanRequest.id} submitted to ${lender.name} by ${actorId}`);
+    return { submission };
+  },
+
+  async findForLoanRequest(loanRequestId: string, submissionId: string) {
+    if (!z.uuid().safeParse(submissionId).success) return null;
+
+    const [submission] = await db
+      .select()
+      .from(loanLenderSubmissions)
+      .where(and(eq(loanLenderSubmissions.id, submissionId), eq(loanLenderSubmissions.loanRequestId, loanRequestId)))
+      .limit(1);
+    return submission || null;
+  },
+
+  async updateStatus(submission: SubmissionRow, actorId: number, update: SubmissionUpdate) {
+    const allowed = allowedSubmissionStatuses(submission.status);
+    const now = new Date();
+    const result = submissionStatusChanges(submission, update, now);
+    if (result.error) return { error: result.error, message: result.message, allowedStatuses: allowed };
+
+    const [updated] = await db
+      .update(loanLenderSubmissions)
+      .set(result.changes)
+      .where(and(eq(loanLenderSubmissions.id, submission.id), eq(loanLenderSubmissions.status, submission.status)))
+      .returning();
+
+    if (!updated) return { error: 'conflict', message: 'Submission was updated by someone else', allowedStatuses: allowed };
+
+    await db.update(loanRequests).set({ lastActivityAt: now }).where(eq(loanRequests.id, submission.loanRequestId));
+    await logAudit(submission.loanRequestId, actorId, 'lender_status_change', submission.status, update.status, update.declineReason);
+
+    return { submission: updated };
+  },
+
+  // Per-lender funnel over submissions made in the date range
+  async conversionReport(range: { startDate?: Date; endDate?: Date } = {}) {
+    const conditions: SQL[] = [];
+    if (range.startDate) conditions.push(gte(loanLenderSubmissions.submittedAt, range.startDate));
+    if (range.endDate) conditions.push(lte(loanLenderSubmissions.submittedAt, range.endDate));
+
+    const countWhere = (status: string) => sql<number>`COUNT(*) FILTER (WHERE ${loanLenderSubmissions.status} = ${status})::int`;
+
+    const rows = await db
+      .select({
+        lenderId: lenders.id,
+        lenderName: lenders.name,
+        submitted: sql<number>`COUNT(${loanLenderSubmissions.id})::int`,
+        pending: countWhere('submitted'),
+        sanctioned: sql<number>`COUNT(${loanLenderSubmissions.sanctionedAt})::int`,
+        disbursed: countWhere('disbursed'),
+        declined: countWhere('declined'),
+        requestedAmount: sql<number>`COALESCE(SUM(${loanLenderSubmissions.requestedAmount}), 0)::bigint`,
+        sanctionedAmount: sql<number>`COALESCE(SUM(${loanLenderSubmissions.sanctionedAmount}), 0)::bigint`,
+        disbursedAmount: sql<number>`COALESCE(SUM(${loanLenderSubmissions.disbursedAmount}), 0)::bigint`,
+        avgDaysToSanction: sql<number | null>`ROUND(AVG(EXTRACT(EPOCH FROM (${loanLenderSubmissions.sanctionedAt} - ${loanLenderSubmissions.submittedAt})) / 86400)::numeric, 1)::float`,
+      })
+      .from(lenders)
+      .leftJoin(loanLenderSubmissions, and(eq(loanLenderSubmissions.lenderId, lenders.id), ...conditions))
+      .groupBy(lenders.id, lenders.name)
+      .orderBy(lenders.name);
+
+    return rows.map(row => ({
+      ...row,
+      requestedAmount: Number(row.requestedAmount),
+      sanctionedAmount: Number(row.sanctionedAmount),
+      disbursedAmount: Number(row.disbursedAmount),
+      ...conversionRates(row),
+    }));
+  },
+};
+
+// HTTP status for each way a submission change can be refused
+export const submissionErrorStatus = (error: string) => {
+  if (error === 'not_found') return 404;
+  if (error === 'conflict') return 409;
+  return 400;
+};
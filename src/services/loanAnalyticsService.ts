@@ -0,0 +1,157 @@
+import { z } from 'zod';
+import { db } from '../config/database';
+import { loanRequests, loanRequestAuditLogs } from '../models/loanRequest';
+import { users } from '../models/user';
+import { and, gte, lt, isNull, inArray } from 'drizzle-orm';
+import { cacheService } from './cacheService';
+import { CellValue } from '../utils/spreadsheet';
+import {
+  AnalyticsLoanRow,
+  buildFunnel,
+  conversionBy,
+  medianTimeInStage,
+  slaHitRate,
+  agingBuckets,
+  employeePerformance,
+} from '../utils/loanAnalytics';
+
+const CACHE_PREFIX = 'loan:analytics:';
+const CACHE_TTL = 300;
+const DAY = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+const ID_CHUNK = 500;
+
+// Date range over loan request submission time; `to` is exclusive and defaults to now, `from` to 30 days earlier
+export const analyticsRangeSchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+export const resolveAnalyticsRange = (input: z.infer<typeof analyticsRangeSchema>) => {
+  // Whole minutes so repeated default-range requests share a cache entry
+  const to = new Date(Math.floor((input.to || new Date()).getTime() / 60000) * 60000);
+  const from = input.from || new Date(to.getTime() - DEFAULT_RANGE_DAYS * DAY);
+
+  if (isNaN(from.getTime()) || isNaN(to.getTime())) return { error: 'Invalid date range' };
+  if (from >= to) return { error: '`from` must be before `to`' };
+  if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * DAY) return { error: `Date range cannot exceed ${MAX_RANGE_DAYS} days` };
+  return { from, to };
+};
+
+// Requests submitted in [from, to) plus their status_change and sla_breached audit entries
+const buildReport = async (from: Date, to: Date) => {
+  const rows: AnalyticsLoanRow[] = await db
+    .select({
+      id: loanRequests.id,
+      loanType: loanRequests.loanType,
+      city: loanRequests.userLocation,
+      status: loanRequests.status,
+      assigneeId: loanRequests.assigneeId,
+      createdAt: loanRequests.createdAt,
+      underReviewAt: loanRequests.underReviewAt,
+      contactedAt: loanRequests.contactedAt,
+      closedAt: loanRequests.closedAt,
+    })
+    .from(loanRequests)
+    .where(and(gte(loanRequests.createdAt, from), lt(loanRequests.createdAt, to), isNull(loanRequests.deletedAt)));
+
+  const events: { loanRequestId: string; action: string; from: string | null; to: string | null; at: Date }[] = [];
+  const ids = rows.map(row => row.id);
+  for (let i = 0; i < ids.length; i += ID_CHUNK) {
+    events.push(...await db
+      .select({
+        loanRequestId: loanRequestAuditLogs.loanRequestId,
+        action: loanRequestAuditLogs.action,
+        from: loanRequestAuditLogs.oldValue,
+        to: loanRequestAuditLogs.newValue,
+        at: loanRequestAuditLogs.createdAt,
+      })
+      .from(loanRequestAuditLogs)
+      .where(and(
+        inArray(loanRequestAuditLogs.loanRequestId, ids.slice(i, i + ID_CHUNK)),
+        inArray(loanRequestAuditLogs.action, ['status_change', 'sla_breached'])
+      )));
+  }
+
+  const statusEvents = events.filter(event => event.action === 'status_change');
+  const breachedIds = new Set(events.filter(event => event.action === 'sla_breached').map(event => event.loanRequestId));
+
+  const performance = employeePerformance(rows);
+  const names = performance.length
+    ? await db.select({ id: users.id, name: users.name }).from(users).where(inArray(users.id, performance.map(entry => entry.assigneeId)))
+    : [];
+  const nameById = new Map(names.map(user => [user.id, user.name]));
+
+  return {
+    range: { from, to },
+    generatedAt: new Date(),
+    total: rows.length,
+    funnel: buildFunnel(rows),
+    conversionByLoanType: conversionBy(rows, row => row.loanType),
+    conversionByCity: conversionBy(rows, row => row.city?.trim() || 'Unknown'),
+    timeInStage: medianTimeInStage(rows, statusEvents),
+    sla: slaHitRate(rows, breachedIds),
+    aging: agingBuckets(rows, new Date()),
+    employees: performance.map(entry => ({ ...entry, name: nameById.get(entry.assigneeId) || null })),
+  };
+};
+
+export type LoanAnalyticsReport = Awaited<ReturnType<typeof buildReport>>;
+
+export const loanAnalyticsService = {
+  // Cached briefly: the report scans every request in the range
+  async getReport(from: Date, to: Date): Promise<LoanAnalyticsReport> {
+    const cacheKey = `${CACHE_PREFIX}${from.toISOString()}:${to.toISOString()}`;
+    const cached = cacheService.get(cacheKey);
+    if (cached) return cached;
+
+    const report = await buildReport(from, to);
+    cacheService.set(cacheKey, report, CACHE_TTL);
+    return report;
+  },
+
+  // One row per figure (section, group, metric, value) so every section fits a single sheet
+  toRows(report: LoanAnalyticsReport) {
+    const rows: CellValue[][] = [
+      ['Range', 'from', 'date', report.range.from],
+      ['Range', 'to', 'date', report.range.to],
+      ['Total', 'all', 'requests', report.total],
+    ];
+
+    for (const stage of report.funnel) {
+      rows.push(['Funnel', stage.stage, 'count', stage.count]);
+      rows.push(['Funnel', stage.stage, 'from previous %', stage.fromPrevious]);
+      rows.push(['Funnel', stage.stage, 'from received %', stage.fromReceived]);
+    }
+
+    for (const [section, groups] of [['Loan type', report.conversionByLoanType], ['City', report.conversionByCity]] as const) {
+      for (const group of groups) {
+        rows.push([section, group.name, 'total', group.total]);
+        rows.push([section, group.name, 'closed', group.closed]);
+        rows.push([section, group.name, 'conversion %', group.conversionRate]);
+      }
+    }
+
+    for (const stage of report.timeInStage) {
+      rows.push(['Time in stage', stage.stage, 'median hours', stage.medianHours]);
+      rows.push(['Time in stage', stage.stage, 'samples', stage.samples]);
+    }
+
+    rows.push(['SLA', 'all', 'evaluated', report.sla.evaluated]);
+    rows.push(['SLA', 'all', 'met', report.sla.met]);
+    rows.push(['SLA', 'all', 'hit rate %', report.sla.hitRate]);
+
+    for (const bucket of report.aging) rows.push(['Aging', bucket.bucket, 'open requests', bucket.count]);
+
+    for (const employee of report.employees) {
+      const name = employee.name || `#${employee.assigneeId}`;
+      rows.push(['Employee', name, 'assigned', employee.assigned]);
+      rows.push(['Employee', name, 'closed', employee.closed]);
+      rows.push(['Employee', name, 'rejected', employee.rejected]);
+      rows.push(['Employee', name, 'median first response hours', employee.medianFirstResponseHours]);
+    }
+
+    return { headers: ['Section', 'Group', 'Metric', 'Value'], rows };
+  },
+};
@@ -0,0 +1,129 @@
+import { z } from 'zod';
+import { dbTx } from '../config/database';
+import { loanRequests, loanRequestAssignments, loanRequestAuditLogs, loanBulkActions } from '../models/loanRequest';
+import { eq, and, isNull, inArray, sql } from 'drizzle-orm';
+
+type LoanRequestRow = typeof loanRequests.$inferSelect;
+type LoanRequestUpdate = Partial<typeof loanRequests.$inferInsert>;
+type AuditEntry = Omit<typeof loanRequestAuditLogs.$inferInsert, 'loanRequestId' | 'actorId' | 'bulkActionId'>;
+type AssignmentEntry = typeof loanRequestAssignments.$inferInsert;
+
+export const BULK_ACTIONS = ['reassign', 'escalate', 'status_change', 'priority_change', 'delete'] as const;
+export type BulkAction = typeof BULK_ACTIONS[number];
+
+export type BulkItemResult = {
+  id: string;
+  result: 'updated' | 'conflict' | 'not_found' | 'invalid';
+  version?: number;
+  message?: string;
+};
+
+// Common body of every bulk endpoint. `versions` maps an ID to the version the client last saw;
+// IDs without one are applied to whatever version is current.
+export const bulkTargetsSchema = z.object({
+  ids: z.array(z.string()).min(1).max(100),
+  versions: z.record(z.string(), z.number().int()).optional(),
+});
+
+// What to do with one locked row: columns to set plus the audit (and assignment) rows to write, or why it was refused
+export type BulkPlan =
+  | { set: LoanRequestUpdate; audit: AuditEntry[]; assignment?: AssignmentEntry }
+  | { invalid: string };
+
+export interface BulkChange {
+  before: LoanRequestRow;
+  after: LoanRequestRow;
+}
+
+export const loanBulkService = {
+  // Locks the requested rows, applies `plan` to each inside one transaction and records the whole run as a
+  // single loan_bulk_actions row that every audit entry links to. `afterCommit` runs per updated row once the
+  // transaction has committed, for notifications; its failures are logged, not reported.
+  async run(
+    action: BulkAction,
+    actorId: number,
+    params: Record<string, unknown>,
+    targets: z.infer<typeof bulkTargetsSchema>,
+    plan: (row: LoanRequestRow) => BulkPlan | Promise<BulkPlan>,
+    afterCommit?: (change: BulkChange) => Promise<void>,
+  ) {
+    const ids = [...new Set(targets.ids)];
+    const validIds = ids.filter(id => z.uuid().safeParse(id).success);
+    const expectedVersions = targets.versions || {};
+
+    const { bulkAction, results, changes } = await dbTx.transaction(async (tx) => {
+      const [created] = await tx.insert(loanBulkActions).values({ action, actorId, params, requestedCount: ids.length }).returning();
+
+      const rows = validIds.length
+        ? await tx.select().from(loanRequests).where(and(inArray(loanRequests.id, validIds), isNull(loanRequests.deletedAt))).for('update')
+        : [];
+      const rowsById = new Map(rows.map(row => [row.id, row]));
+
+      const results: BulkItemResult[] = [];
+      const changes: BulkChange[] = [];
+
+      for (const id of ids) {
+        const row = rowsById.get(id);
+        if (!row) {
+          results.push({ id, result: 'not_found' });
+          continue;
+        }
+
+        const expected = expectedVersions[id];
+        if (expected !== undefined && expected !== row.version) {
+          results.push({ id, result: 'conflict', version: row.version });
+          continue;
+        }
+
+        const planned = await plan(row);
+        if ('invalid' in planned) {
+          results.push({ id, result: 'invalid', message: planned.invalid });
+          continue;
+        }
+
+        const [updated] = await tx
+          .update(loanRequests)
+          .set({ ...planned.set, version: sql`${loanRequests.version} + 1`, updatedAt: new Date() })
+          .where(and(eq(loanRequests.id, id), eq(loanRequests.version, row.version)))
+          .returning();
+
+        if (!updated) {
+          results.push({ id, result: 'conflict', version: row.version });
+          continue;
+        }
+
+        if (planned.assignment) await tx.insert(loanRequestAssignments).values(planned.assignment);
+        if (planned.audit.length) {
+          await tx.insert(loanRequestAuditLogs).values(planned.audit.map(entry => ({ ...entry, loanRequestId: id, actorId, bulkActionId: created.id })));
+        }
+
+        results.push({ id, result: 'updated', version: updated.version });
+        changes.push({ before: row, after: updated });
+      }
+
+      const countOf = (result: BulkItemResult['result']) => results.filter(item => item.result === result).length;
+      const [recorded] = await tx
+        .update(loanBulkActions)
+        .set({
+          updatedCount: countOf('updated'),
+          conflictCount: countOf('conflict'),
+          notFoundCount: countOf('not_found'),
+          invalidCount: countOf('invalid'),
+          results,
+        })
+        .where(eq(loanBulkActions.id, created.id))
+        .returning();
+
+      return { bulkAction: recorded, results, changes };
+    });
+
+    if (afterCommit) {
+      for (const change of changes) {
+        await afterCommit(change).catch(error => console.error(`❌ Bulk ${action} follow-up failed for ${change.after.id}:`, error));
+      }
+    }
+
+    console.log(`📋 Bulk ${action} ${bulkAction.id} by ${actorId}: ${bulkAction.updatedCount}/${ids.length} updated`);
+    return { bulkAction, results, changes };
+  },
+};
@@ -0,0 +1,75 @@
+import { db } from '../config/database';
+import { loanRequests, loanRequestDocuments, loanRequestAuditLogs } from '../models/loanRequest';
+import { uploads } from '../models/upload';
+import { eq, and } from 'drizzle-orm';
+import { LOAN_DOCUMENT_TYPES, LoanDocumentType, buildChecklist, getDocumentChecklist } from '../config/loanDocuments';
+import { generateDownloadUrl } from '../utils/cloudflare';
+import { emitLoanDocumentReviewed } from './socketService';
+import { pushService } from './pushService';
+
+type LoanRequestRow = typeof loanRequests.$inferSelect;
+
+export const loanDocumentService = {
+  // Checklist for a request. Staff views include signed download links; customers only see their own file names.
+  async getChecklist(loanRequest: Pick<LoanRequestRow, 'id' | 'loanType' | 'employmentType'>, options: { withDownloadUrls?: boolean } = {}) {
+    const documents = await db
+      .select({
+        id: loanRequestDocuments.id,
+        documentType: loanRequestDocuments.documentType,
+        fileName: loanRequestDocuments.fileName,
+        status: loanRequestDocuments.status,
+        rejectionReason: loanRequestDocuments.rejectionReason,
+        reviewedAt: loanRequestDocuments.reviewedAt,
+        createdAt: loanRequestDocuments.createdAt,
+        key: uploads.key,
+        contentType: uploads.contentType,
+      })
+      .from(loanRequestDocuments)
+      .innerJoin(uploads, eq(loanRequestDocuments.uploadId, uploads.id))
+      .where(eq(loanRequestDocuments.loanRequestId, loanRequest.id));
+
+    const withLinks = await Promise.all(documents.map(async ({ key, ...document }) => ({
+      ...document,
+      ...(options.withDownloadUrls ? { downloadUrl: await generateDownloadUrl(key, document.fileName, 900, 'private') } : {}),
+    })));
+
+    return buildChecklist(getDocumentChecklist(loanRequest.loanType, loanRequest.employmentType), withLinks);
+  },
+
+  async review(loanRequest: LoanRequestRow, documentId: string, reviewerId: number, decision: { status: 'verified' | 'rejected'; reason?: string }) {
+    const [document] = await db
+      .update(loanRequestDocuments)
+      .set({
+        status: decision.status,
+        rejectionReason: decision.status === 'rejected' ? decision.reason : null,
+        reviewedById: reviewerId,
+        reviewedAt: new Date(),
+      })
+      .where(and(eq(loanRequestDocuments.id, documentId), eq(loanRequestDocuments.loanRequestId, loanRequest.id)))
+      .returning();
+
+    if (!document) return null;
+
+    await db.update(loanRequests).set({ lastActivityAt: new Date() }).where(eq(loanRequests.id, loanRequest.id));
+    await db.insert(loanRequestAuditLogs).values({
+      loanRequestId: loanRequest.id,
+      actorId: reviewerId,
+      action: decision.status === 'verified' ? 'document_verified' : 'document_rejected',
+      newValue: document.documentType,
+      comment: decision.reason || null,
+    });
+
+    emitLoanDocumentReviewed(loanRequest.userId, loanRequest.id, document);
+
+    if (decision.status === 'rejected') {
+      const label = LOAN_DOCUMENT_TYPES[document.documentType as LoanDocumentType] || document.documentType;
+      await pushService.sendToUsers([loanRequest.userId], {
+        title: 'Document needs attention',
+        body: `${label}: ${decision.reason}`,
+        data: { type: 'loan_document_rejected', loanRequestId: loanRequest.id, documentId: document.id },
+      });
+    }
+
+    return document;
+  },
+};
@@ -0,0 +1,184 @@
+import { db, dbTx } from '../config/database';
+import { loanRequests, loanRequestComments, loanRequestAssignments, loanRequestAuditLogs, loanRequestDocuments } from '../models/loanRequest';
+import { loanLenderSubmissions } from '../models/lender';
+import { eq, and, or, ne, gte, isNull, isNotNull, inArray, sql } from 'drizzle-orm';
+import { DEFAULT_DUPLICATE_RULE, DuplicateSubject, findDuplicate, mergedHistoryIds } from '../utils/loanDuplicates';
+import { isTerminalStatus } from '../config/loanWorkflow';
+import { loanRoutingService } from './loanRoutingService';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const duplicateColumns = {
+  id: loanRequests.id,
+  userId: loanRequests.userId,
+  loanType: loanRequests.loanType,
+  loanAmountNeeded: loanRequests.loanAmountNeeded,
+  status: loanRequests.status,
+  assigneeId: loanRequests.assigneeId,
+  duplicateOfId: loanRequests.duplicateOfId,
+  createdAt: loanRequests.createdAt,
+};
+
+export const loanDuplicateService = {
+  // Earlier open request from the same customer that `subject` looks like a resubmission of
+  async findDuplicate(subject: DuplicateSubject) {
+    const since = new Date(subject.createdAt.getTime() - DEFAULT_DUPLICATE_RULE.windowDays * DAY);
+
+    const recent = await db
+      .select(duplicateColumns)
+      .from(loanRequests)
+      .where(and(
+        eq(loanRequests.userId, subject.userId),
+        eq(loanRequests.loanType, subject.loanType),
+        gte(loanRequests.createdAt, since),
+        isNull(loanRequests.deletedAt),
+        sql`${loanRequests.status} NOT IN ('closed', 'rejected', 'withdrawn')`
+      ));
+
+    return findDuplicate(subject, recent);
+  },
+
+  // Open requests linked to this one as duplicates, in either direction
+  async listLinked(loanRequest: { id: string; duplicateOfId: string | null }) {
+    const links = [eq(loanRequests.duplicateOfId, loanRequest.id)];
+    if (loanRequest.duplicateOfId) links.push(eq(loanRequests.id, loanRequest.duplicateOfId));
+
+    return db
+      .select(duplicateColumns)
+      .from(loanRequests)
+      .where(and(or(...links), isNull(loanRequests.deletedAt)))
+      .orderBy(loanRequests.createdAt);
+  },
+
+  // The request and those merged into it, whose audit logs make up its history. Only requests from the same
+  // customer can be merged, so their merged requests are all that need to be looked at.
+  async historyIds(loanRequest: { id: string; userId: number }) {
+    const merged = await db
+      .select({ id: loanRequests.id, mergedIntoId: loanRequests.mergedIntoId })
+      .from(loanRequests)
+      .where(and(eq(loanRequests.userId, loanRequest.userId), isNotNull(loanRequests.mergedIntoId)));
+
+    return mergedHistoryIds(loanRequest.id, merged);
+  },
+
+  // Moves comments, assignments, documents and lender submissions of `sourceIds` onto the surviving request,
+  // then soft-deletes the sources with merged_into_id pointing at it. Audit logs stay with the request they
+  // describe and show on the survivor through historyIds; 'merged' / 'merged_into' entries mark the merge.
+  async merge(targetId: string, sourceIds: string[], actorId: number, comment?: string) {
+    const ids = [...new Set(sourceIds)].filter(id => id !== targetId);
+
+    return dbTx.transaction(async (tx) => {
+      if (ids.length === 0) return { error: 'invalid' as const, message: 'Choose at least one other loan request to merge' };
+
+      const rows = await tx
+        .select()
+        .from(loanRequests)
+        .where(and(inArray(loanRequests.id, [targetId, ...ids]), isNull(loanRequests.deletedAt)))
+        .for('update');
+
+      const target = rows.find(row => row.id === targetId);
+      if (!target) return { error: 'not_found' as const, message: 'Loan request not found' };
+      if (isTerminalStatus(target.status)) {
+        return { error: 'invalid' as const, message: `Cannot merge into a ${target.status} loan request` };
+      }
+
+      const sources = rows.filter(row => row.id !== targetId);
+      const missing = ids.filter(id => !sources.some(source => source.id === id));
+      if (missing.length) return { error: 'not_found' as const, message: `Loan requests not found: ${missing.join(', ')}` };
+      if (sources.some(source => source.userId !== target.userId)) {
+        return { error: 'invalid' as const, message: 'Only loan requests from the same customer can be merged' };
+      }
+
+      // Each request keeps one open submission per lender, so the survivor cannot take over a second one
+      const openSubmissions = await tx
+        .select({ lenderId: loanLenderSubmissions.lenderId })
+        .from(loanLenderSubmissions)
+        .where(and(inArray(loanLenderSubmissions.loanRequestId, [targetId, ...ids]), ne(loanLenderSubmissions.status, 'declined')));
+      const lenderIds = openSubmissions.map(submission => submission.lenderId);
+      if (new Set(lenderIds).size < lenderIds.length) {
+        return { error: 'invalid' as const, message: 'These loan requests have open submissions with the same lender; decline the extra ones before merging' };
+      }
+
+      await tx.update(loanRequestComments).set({ loanRequestId: targetId }).where(inArray(loanRequestComments.loanRequestId, ids));
+      await tx.update(loanRequestAssignments).set({ loanRequestId: targetId }).where(inArray(loanRequestAssignments.loanRequestId, ids));
+      await tx.update(loanRequestDocuments).set({ loanRequestId: targetId }).where(inArray(loanRequestDocuments.loanRequestId, ids));
+      await tx.update(loanLenderSubmissions).set({ loanRequestId: targetId }).where(inArray(loanLenderSubmissions.loanRequestId, ids));
+
+      // Later resubmissions linked to a merged request now point at the survivor
+      await tx
+        .update(loanRequests)
+        .set({ duplicateOfId: targetId })
+        .where(and(inArray(loanRequests.duplicateOfId, ids), ne(loanRequests.id, targetId)));
+
+      const now = new Date();
+      await tx
+        .update(loanRequests)
+        .set({ mergedIntoId: targetId, mergedAt: now, deletedAt: now, duplicateOfId: null, version: sql`${loanRequests.version} + 1`, updatedAt: now })
+        .where(inArray(loanRequests.id, ids));
+
+      // An unassigned survivor takes over whoever was already working one of the duplicates
+      const adoptedAssigneeId = target.assigneeId ? null : sources.find(source => source.assigneeId)?.assigneeId ?? null;
+
+      const [merged] = await tx
+        .update(loanRequests)
+        .set({
+          duplicateOfId: target.duplicateOfId && ids.includes(target.duplicateOfId) ? null : target.duplicateOfId,
+          assigneeId: target.assigneeId ?? adoptedAssigneeId,
+          lastActivityAt: now,
+          version: sql`${loanRequests.version} + 1`,
+          updatedAt: now,
+        })
+        .where(eq(loanRequests.id, targetId))
+        .returning();
+
+      if (adoptedAssigneeId) {
+        await tx.insert(loanRequestAssignments).values({ loanRequestId: targetId, assignedById: actorId, assigneeId: adoptedAssigneeId, comment: 'Kept from merged duplicate' });
+      }
+
+      await tx.insert(loanRequestAuditLogs).values([
+        { loanRequestId: targetId, actorId, action: 'merged', newValue: ids.join(','), comment: comment || null },
+        ...ids.map(id => ({ loanRequestId: id, actorId, action: 'merged_into', newValue: targetId, comment: comment || null })),
+      ]);
+
+      console.log(`📋 Loan requests ${ids.join(', ')} merged into ${targetId} by ${actorId}`);
+      return { loanRequest: merged, mergedIds: ids };
+    });
+  },
+
+  // Clears a wrong duplicate flag. Flagged requests skip routing on creation, so an unassigned one is routed now.
+  async dismiss(loanRequestId: string, actorId: number, comment?: string) {
+    const result = await dbTx.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(loanRequests)
+        .where(and(eq(loanRequests.id, loanRequestId), isNull(loanRequests.deletedAt)))
+        .for('update');
+      if (!existing) return { error: 'not_found' as const, message: 'Loan request not found' };
+      if (!existing.duplicateOfId) return { error: 'invalid' as const, message: 'Loan request is not flagged as a duplicate' };
+
+      const [updated] = await tx
+        .update(loanRequests)
+        .set({ duplicateOfId: null, version: sql`${loanRequests.version} + 1`, updatedAt: new Date() })
+        .where(eq(loanRequests.id, loanRequestId))
+        .returning();
+
+      await tx.insert(loanRequestAuditLogs).values({
+        loanRequestId,
+        actorId,
+        action: 'duplicate_dismissed',
+        oldValue: existing.duplicateOfId,
+        comment: comment || null,
+      });
+
+      return { loanRequest: updated };
+    });
+    if (result.error || result.loanRequest.assigneeId || isTerminalStatus(result.loanRequest.status)) return result;
+
+    // Best effort, as on creation: a failure leaves the request in the unassigned queue
+    const routed = await loanRoutingService.routeNewRequest(result.loanRequest).catch(error => {
+      console.error(`❌ Routing after duplicate dismissal failed for ${loanRequestId}:`, error);
+      return result.loanRequest;
+    });
+    return { loanRequest: routed };
+  },
+};
@@ -0,0 +1,38 @@
+import { db } from '../config/database';
+import { loanRateTables } from '../models/loanRate';
+import { cacheService } from './cacheService';
+import { EstimateInput, RateTable, estimateLoan } from '../utils/loanCalculator';
+
+const RATE_CACHE_KEY = 'loan:rate-tables';
+
+// Used for loan types without a configured row
+const FALLBACK_RATE_TABLE: Omit<RateTable, 'loanType'> = {
+  interestRateBps: 900,
+  maxFoirPercent: 50,
+  maxTenureYears: 20,
+  ltvSlabs: [{ upTo: 3000000, percent: 90 }, { upTo: 7500000, percent: 80 }, { upTo: null, percent: 75 }],
+};
+
+export const loanEstimateService = {
+  async loadRateTables(): Promise<RateTable[]> {
+    const cached = cacheService.get(RATE_CACHE_KEY);
+    if (cached) return cached;
+
+    const tables = await db.select().from(loanRateTables);
+    cacheService.set(RATE_CACHE_KEY, tables, 300);
+    return tables;
+  },
+
+  invalidateRateTables() {
+    cacheService.invalidate(RATE_CACHE_KEY);
+  },
+
+  async getRateTable(loanType: string): Promise<RateTable> {
+    const tables = await this.loadRateTables();
+    return tables.find(table => table.loanType === loanType) || { loanType, ...FALLBACK_RATE_TABLE };
+  },
+
+  async estimate(loanType: string, input: EstimateInput) {
+    return estimateLoan(input, await this.getRateTable(loanType));
+  },
+};
@@ -0,0 +1,56 @@
+import { z } from 'zod';
+import { loanRequests } from '../models/loanRequest';
+import { eq, isNull, isNotNull, or, ilike, sql, gte, lte, SQL } from 'drizzle-orm';
+import { KeysetSort } from '../utils/pagination';
+
+// Admin list filters, shared by the loan request list endpoint and export jobs
+export const loanRequestFiltersSchema = z.object({
+  status: z.string().optional(),
+  assignee: z.string().optional(),
+  priority: z.string().optional(),
+  slaState: z.string().optional(),
+  search: z.string().max(100).optional(),
+  startDate: z.string().optional(),
+  endDate: z.string().optional(),
+  duplicates: z.string().optional(),
+});
+
+export type LoanRequestFilters = z.infer<typeof loanRequestFiltersSchema>;
+
+export const buildLoanRequestConditions = (filters: LoanRequestFilters): SQL[] => {
+  const { status, assignee, priority, slaState, search, startDate, endDate, duplicates } = filters;
+  const conditions: SQL[] = [isNull(loanRequests.deletedAt)];
+
+  if (status && status !== 'all') conditions.push(eq(loanRequests.status, status));
+  if (assignee === 'unassigned') conditions.push(isNull(loanRequests.assigneeId));
+  else if (assignee && assignee !== 'all' && !isNaN(parseInt(assignee))) conditions.push(eq(loanRequests.assigneeId, parseInt(assignee)));
+  if (priority && priority !== 'all') conditions.push(eq(loanRequests.priority, priority));
+  if (slaState === 'overdue') conditions.push(sql`${loanRequests.slaDueAt} < NOW()`);
+  if (startDate) conditions.push(gte(loanRequests.createdAt, new Date(startDate)));
+  if (endDate) conditions.push(lte(loanRequests.createdAt, new Date(endDate)));
+  if (duplicates === 'flagged') conditions.push(isNotNull(loanRequests.duplicateOfId));
+
+  if (search) {
+    conditions.push(
+      or(
+        ilike(loanRequests.userName, `%${search}%`),
+        ilike(loanRequests.userPhone, `%${search}%`),
+        ilike(loanRequests.userEmail, `%${search}%`),
+        sql`CAST(${loanRequests.id} AS TEXT) ILIKE ${`%${search}%`}`
+      )!
+    );
+  }
+
+  return conditions;
+};
+
+// List sort orders shared by the admin and finance lists; requests without an SLA sort last
+const LOAN_REQUEST_SORTS: Record<string, KeysetSort> = {
+  newest: { name: 'newest', key: loanRequests.createdAt, keyType: 'timestamp', id: loanRequests.id, direction: 'desc' },
+  oldest: { name: 'oldest', key: loanRequests.createdAt, keyType: 'timestamp', id: loanRequests.id, direction: 'asc' },
+  highest: { name: 'highest', key: loanRequests.loanAmountNeeded, keyType: 'number', id: loanRequests.id, direction: 'desc' },
+  sla: { name: 'sla', key: sql`COALESCE(${loanRequests.slaDueAt}, 'infinity'::timestamp)`, keyType: 'timestamp', id: loanRequests.id, direction: 'asc' },
+};
+
+export const getLoanRequestSort = (sort: unknown): KeysetSort =>
+  LOAN_REQUEST_SORTS[typeof sort === 'string' && Object.hasOwn(LOAN_REQUEST_SORTS, sort) ? sort : 'newest'];
@@ -0,0 +1,194 @@
+import { db } from '../config/database';
+import { loanRequests, loanRequestAssignments, loanRequestAuditLogs } from '../models/loanRequest';
+import { loanRoutingRules, loanRoutingProfiles } from '../models/loanRouting';
+import { users } from '../models/user';
+import { eq, and, isNull, sql, count } from 'drizzle-orm';
+import { cacheService } from './cacheService';
+import { emitToEmployee } from './socketService';
+import { RoutingRule, RoutingCandidate, RoutingStrategy, RoutingSubject, ruleMatches, selectAssignee } from '../utils/loanRouting';
+
+type LoanRequestRow = typeof loanRequests.$inferSelect;
+type RoutingRuleRow = typeof loanRoutingRules.$inferSelect;
+
+const RULES_CACHE_KEY = 'loan:routing-rules';
+
+// Used by the admin autoAssign flag when no configured rule matches
+const FALLBACK_RULE: RoutingRule = { id: null, strategy: 'least_open', loanType: null, city: null, useSkills: false, employeeIds: [] };
+
+const STRATEGY_LABELS: Record<RoutingStrategy, string> = {
+  round_robin: 'round robin',
+  least_open: 'fewest open requests',
+};
+
+export interface RoutingDecision {
+  rule: RoutingRule;
+  ruleName: string | null;
+  assignee: RoutingCandidate | null;
+  skipped: { userId: number; reason: string }[];
+  comment: string;
+}
+
+const toRoutingRule = (row: RoutingRuleRow): RoutingRule => ({
+  id: row.id,
+  strategy: row.strategy as RoutingStrategy,
+  loanType: row.loanType,
+  city: row.city,
+  useSkills: row.useSkills,
+  employeeIds: row.employeeIds,
+});
+
+// e.g. " (2 out_of_office, 1 at_capacity)"
+const skipSummary = (skipped: RoutingDecision['skipped']) => {
+  const counts = new Map<string, number>();
+  for (const { reason } of skipped) counts.set(reason, (counts.get(reason) || 0) + 1);
+  if (counts.size === 0) return '';
+  return ` (${[...counts].map(([reason, n]) => `${n} ${reason}`).join(', ')})`;
+};
+
+export const routingSubject = (loanRequest: Pick<LoanRequestRow, 'loanType' | 'userLocation'>): RoutingSubject => ({
+  loanType: loanRequest.loanType,
+  city: loanRequest.userLocation,
+});
+
+export const loanRoutingService = {
+  // Active rules in evaluation order
+  async loadRules(): Promise<RoutingRuleRow[]> {
+    const cached = cacheService.get(RULES_CACHE_KEY);
+    if (cached) return cached;
+
+    const rules = await db
+      .select()
+      .from(loanRoutingRules)
+      .where(eq(loanRoutingRules.active, true))
+      .orderBy(loanRoutingRules.position, loanRoutingRules.id);
+    cacheService.set(RULES_CACHE_KEY, rules, 300);
+    return rules;
+  },
+
+  invalidateRules() {
+    cacheService.invalidate(RULES_CACHE_KEY);
+  },
+
+  // Active finance employees with their routing profile (or its defaults) and open request count
+  async loadCandidates() {
+    const rows = await db
+      .select({
+        userId: users.id,
+        name: users.name,
+        email: users.email,
+        openRequests: count(loanRequests.id),
+        acceptsAutoAssign: loanRoutingProfiles.acceptsAutoAssign,
+        maxOpenRequests: loanRoutingProfiles.maxOpenRequests,
+        loanTypes: loanRoutingProfiles.loanTypes,
+        cities: loanRoutingProfiles.cities,
+        outOfOfficeFrom: loanRoutingProfiles.outOfOfficeFrom,
+        outOfOfficeUntil: loanRoutingProfiles.outOfOfficeUntil,
+        lastAssignedAt: loanRoutingProfiles.lastAssignedAt,
+      })
+      .from(users)
+      .leftJoin(loanRoutingProfiles, eq(loanRoutingProfiles.userId, users.id))
+      .leftJoin(loanRequests, and(eq(loanRequests.assigneeId, users.id), isNull(loanRequests.deletedAt), sql`${loanRequests.status} NOT IN ('closed', 'rejected', 'withdrawn')`))
+      .where(and(eq(users.role, 'employee'), eq(users.department, 'finance'), eq(users.active, true), eq(users.deleted, false)))
+      .groupBy(users.id, loanRoutingProfiles.userId)
+      .orderBy(users.id);
+
+    return rows.map(row => ({
+      ...row,
+      acceptsAutoAssign: row.acceptsAutoAssign ?? true,
+      loanTypes: row.loanTypes || [],
+      cities: row.cities || [],
+    }));
+  },
+
+  // Picks an assignee under the first matching rule (or the least-open fallback when `fallback` is set).
+  // Returns null when no rule applies. The chosen candidate's in-memory counters are bumped so a
+  // caller routing several requests against the same candidate list spreads them out.
+  async route(subject: RoutingSubject, options: { candidates?: RoutingCandidate[]; fallback?: boolean } = {}): Promise<RoutingDecision | null> {
+    const rules = await this.loadRules();
+    const matched = rules.find(rule => ruleMatches(toRoutingRule(rule), subject));
+    if (!matched && !options.fallback) return null;
+
+    const rule = matched ? toRoutingRule(matched) : FALLBACK_RULE;
+    const candidates = options.candidates || await this.loadCandidates();
+    const { assignee, skipped } = selectAssignee(rule, candidates, subject);
+
+    if (assignee) {
+      assignee.openRequests += 1;
+      assignee.lastAssignedAt = new Date();
+    }
+
+    const comment = matched
+      ? `Auto-assigned by rule "${matched.name}" (${STRATEGY_LABELS[rule.strategy]})`
+      : `Auto-assigned (${STRATEGY_LABELS[rule.strategy]})`;
+
+    return { rule, ruleName: matched?.name || null, assignee, skipped, comment };
+  },
+
+  // Assignment history row for a routing decision
+  assignmentValues(loanRequestId: string, decision: RoutingDecision, assignedById: number | null, comment?: string) {
+    return {
+      loanRequestId,
+      assignedById,
+      assigneeId: decision.assignee!.userId,
+      comment: comment || decision.comment,
+      routingRuleId: decision.rule.id,
+      routingStrategy: decision.rule.strategy,
+    };
+  },
+
+  // Moves the round-robin pointer past these employees
+  async markAssigned(userIds: number[]) {
+    const now = new Date();
+    for (const userId of new Set(userIds)) {
+      await db
+        .insert(loanRoutingProfiles)
+        .values({ userId, lastAssignedAt: now })
+        .onConflictDoUpdate({ target: loanRoutingProfiles.userId, set: { lastAssignedAt: now } });
+    }
+  },
+
+  // Stores the decision in the assignment history and advances the round-robin pointer
+  async recordAssignment(loanRequestId: string, decision: RoutingDecision, assignedById: number | null, comment?: string) {
+    await db.insert(loanRequestAssignments).values(this.assignmentValues(loanRequestId, decision, assignedById, comment));
+    await this.markAssigned([decision.assignee!.userId]);
+  },
+
+  // Applies the routing rules to a just-created request. The request keeps its 'received' status so the
+  // assignee starts the review; requests no rule matches stay in the unassigned queue.
+  async routeNewRequest(loanRequest: LoanRequestRow): Promise<LoanRequestRow> {
+    const decision = await this.route(routingSubject(loanRequest));
+    if (!decision) return loanRequest;
+
+    if (!decision.assignee) {
+      await db.insert(loanRequestAuditLogs).values({
+        loanRequestId: loanRequest.id,
+        actorId: null,
+        action: 'auto_assign_skipped',
+        comment: `No eligible finance employee for rule "${decision.ruleName}"${skipSummary(decision.skipped)}`,
+      });
+      console.warn(`⚠️ Loan request ${loanRequest.id} left unassigned: no eligible employee for rule ${decision.rule.id}`);
+      return loanRequest;
+    }
+
+    const assigneeId = decision.assignee.userId;
+    const [updated] = await db
+      .update(loanRequests)
+      .set({ assigneeId, version: sql`${loanRequests.version} + 1`, updatedAt: new Date() })
+      .where(and(eq(loanRequests.id, loanRequest.id), isNull(loanRequests.assigneeId)))
+      .returning();
+    if (!updated) return loanRequest;
+
+    await this.recordAssignment(updated.id, decision, null);
+    await db.insert(loanRequestAuditLogs).values({
+      loanRequestId: updated.id,
+      actorId: null,
+      action: 'auto_assigned',
+      newValue: assigneeId.toString(),
+      comment: decision.comment,
+    });
+
+    emitToEmployee(assigneeId, 'loan_request_assigned', { loanRequestId: updated.id, status: updated.status });
+    console.log(`📋 Loan request ${updated.id} auto-assigned to ${assigneeId} (rule ${decision.rule.id})`);
+    return updated;
+  },
+};
@@ -0,0 +1,103 @@
+import { db } from '../config/database';
+import { loanRequests, loanRequestAuditLogs } from '../models/loanRequest';
+import { eq, and, sql } from 'drizzle-orm';
+import {
+  LOAN_STATUS_LABELS,
+  LoanStatus,
+  TransitionContext,
+  checkTransition,
+  getStageTimestampUpdates,
+} from '../config/loanWorkflow';
+import { emitLoanRequestUpdated } from './socketService';
+import { pushService } from './pushService';
+import { slaService } from './slaService';
+
+type LoanRequestRow = typeof loanRequests.$inferSelect;
+
+export const loanWorkflowService = {
+  // Columns to set on loan_requests when moving to `to`: status, stage timestamp and a fresh SLA window
+  async buildStatusUpdate(existing: LoanRequestRow, to: LoanStatus) {
+    const now = new Date();
+
+    return {
+      status: to,
+      ...getStageTimestampUpdates(existing.status, to, now),
+      slaDueAt: await slaService.computeDueAt(existing, now, to),
+      slaBreachedAt: null,
+      lastActivityAt: now,
+    };
+  },
+
+  // Audit trail and realtime notifications for a committed status change
+  async afterTransition(before: LoanRequestRow, after: LoanRequestRow, ctx: TransitionContext) {
+    await db.insert(loanRequestAuditLogs).values({
+      loanRequestId: after.id,
+      actorId: ctx.actorId,
+      action: 'status_change',
+      oldValue: before.status,
+      newValue: after.status,
+      comment: ctx.comment || null,
+    });
+
+    await this.notifyTransition(before, after, ctx);
+  },
+
+  // Realtime and push notifications only, for callers that write their own audit rows (bulk operations)
+  async notifyTransition(before: LoanRequestRow, after: LoanRequestRow, ctx: TransitionContext) {
+    const recipients = [after.userId, after.assigneeId]
+      .filter((userId): userId is number => Boolean(userId) && userId !== ctx.actorId);
+    emitLoanRequestUpdated(recipients, after, { from: before.status, to: after.status });
+
+    if (after.userId !== ctx.actorId) {
+      await pushService.sendToUsers([after.userId], {
+        title: 'Loan request update',
+        body: `Your ${after.loanType} request status: ${LOAN_STATUS_LABELS[after.status as LoanStatus] || after.status}`,
+        data: { type: 'loan_request_updated', loanRequestId: after.id, status: after.status },
+      });
+    }
+
+    console.log(`📋 Loan request ${after.id} moved from ${before.status} to ${after.status} by ${ctx.actor} ${ctx.actorId}`);
+  },
+
+  // Validates and applies a status change with optimistic locking on loan_requests.version
+  async transition(existing: LoanRequestRow, to: LoanStatus, ctx: Omit<TransitionContext, 'assigneeId'>) {
+    const context: TransitionContext = { ...ctx, assigneeId: existing.assigneeId };
+    const check = checkTransition(existing.status, to, context);
+
+    if (!check.allowed) {
+      return {
+        error: check.reason,
+        message: check.message,
+        allowedTransitions: check.allowedTransitions,
+      };
+    }
+
+    const statusUpdate = await this.buildStatusUpdate(existing, to);
+
+    const [updated] = await db
+      .update(loanRequests)
+      .set({
+        ...statusUpdate,
+        version: sql`${loanRequests.version} + 1`,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(loanRequests.id, existing.id), eq(loanRequests.version, existing.version)))
+      .returning();
+
+    if (!updated) {
+      const [current] = await db.select().from(loanRequests).where(eq(loanRequests.id, existing.id)).limit(1);
+      return { error: 'conflict' as const, loanRequest: current };
+    }
+
+    await this.afterTransition(existing, updated, context);
+
+    return { loanRequest: updated };
+  },
+};
+
+// HTTP status for each way a transition can be refused
+export const transitionErrorStatus = (error: string) => {
+  if (error === 'conflict') return 409;
+  if (error === 'actor_not_allowed' || error === 'not_assignee') return 403;
+  return 400;
+};
@@ -1,3 +1,5 @@
+import { OtpProvider, OtpSendResult, OtpVerifyResult } from './otpService';
+
 interface MSG91SendResponse {
   type: string;
   message?: string;
@@ -10,7 +12,8 @@ interface MSG91VerifyResponse {
   request_id?: string;
 }
 
-class MSG91Service {
+class MSG91Service implements OtpProvider {
+  readonly name = 'msg91';
   private authKey: string;
   private templateId: string;
   private senderId: string;
@@ -20,13 +23,20 @@ class MSG91Service {
     this.authKey = process.env.MSG91_AUTH_KEY!;
     this.templateId = process.env.MSG91_TEMPLATE_ID!;
     this.senderId = process.env.MSG91_SENDER_ID!;
-    
-    if (!this.authKey || !this.templateId || !this.senderId) {
-      throw new Error('MSG91 configuration is required');
-    }
   }
 
-  async sendOTP(phone: string): Promise<{ success: boolean; sessionId?: string; message: string }> {
+  isConfigured(): boolean {
+    return Boolean(this.authKey && this.templateId && this.senderId);
+  }
+
+  async sendOTP(phone: string): Promise<OtpSendResult> {
+    if (!this.isConfigured()) {
+      return {
+        success: false,
+        message: 'MSG91 configuration is required'
+      };
+    }
+
     try {
       // Remove '+' from E.164 format (e.g., +919876543210 -> 919876543210)
       const formattedPhone = phone.replace(/^\+/, '');
@@ -76,7 +86,14 @@ class MSG91Service {
     }
   }
 
-  async verifyOTP(sessionId: string, otp: string): Promise<{ success: boolean; message: string }> {
+  async verifyOTP(sessionId: string, otp: string): Promise<OtpVerifyResult> {
+    if (!this.isConfigured()) {
+      return {
+        success: false,
+        message: 'MSG91 configuration is required'
+      };
+    }
+
     try {
       const url = `${this.baseUrl}/otp/verify?otp=${otp}&mobile=${sessionId}`;
       
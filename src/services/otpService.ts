@@ -0,0 +1,127 @@
+import { msg91Service } from './msg91Service';
+import { twoFactorService } from './twoFactorService';
+
+export interface OtpSendResult {
+  success: boolean;
+  sessionId?: string;
+  message: string;
+}
+
+export interface OtpVerifyResult {
+  success: boolean;
+  message: string;
+}
+
+export interface OtpProvider {
+  readonly name: string;
+  isConfigured(): boolean;
+  sendOTP(phone: string): Promise<OtpSendResult>;
+  verifyOTP(sessionId: string, otp: string): Promise<OtpVerifyResult>;
+}
+
+// Local stand-in provider: prints the code to the server log instead of sending an SMS.
+// Set OTP_FIXED_CODE to use a predictable code (e.g. 1234) on dev machines and in tests.
+class ConsoleOtpProvider implements OtpProvider {
+  readonly name = 'console';
+  private codes = new Map<string, string>();
+
+  isConfigured(): boolean {
+    return process.env.NODE_ENV !== 'production';
+  }
+
+  async sendOTP(phone: string): Promise<OtpSendResult> {
+    const otp = process.env.OTP_FIXED_CODE || Math.floor(1000 + Math.random() * 9000).toString();
+    const sessionId = `console:${phone}:${Date.now()}`;
+    this.codes.set(sessionId, otp);
+
+    console.log(`🧪 [CONSOLE OTP] Code for ${phone}: ${otp}`);
+
+    return {
+      success: true,
+      sessionId,
+      message: 'OTP sent successfully'
+    };
+  }
+
+  async verifyOTP(sessionId: string, otp: string): Promise<OtpVerifyResult> {
+    const expected = this.codes.get(sessionId) || process.env.OTP_FIXED_CODE;
+
+    if (!expected || expected !== otp) {
+      return {
+        success: false,
+        message: 'Invalid OTP'
+      };
+    }
+
+    this.codes.delete(sessionId);
+    return {
+      success: true,
+      message: 'OTP verified successfully'
+    };
+  }
+}
+
+export const consoleOtpProvider = new ConsoleOtpProvider();
+
+const registry: Record<string, OtpProvider> = {
+  [msg91Service.name]: msg91Service,
+  [twoFactorService.name]: twoFactorService,
+  [consoleOtpProvider.name]: consoleOtpProvider,
+};
+
+// OTP_PROVIDERS is a comma-separated, ordered list (e.g. "msg91,2factor"); later entries are failovers.
+const getProviderChain = (): OtpProvider[] => {
+  const names = (process.env.OTP_PROVIDERS || 'msg91')
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(name => name.length > 0);
+
+  return names
+    .map(name => {
+      const provider = registry[name];
+      if (!provider) {
+        console.warn(`⚠️  Unknown OTP provider "${name}" ignored`);
+      }
+      return provider;
+    })
+    .filter((provider): provider is OtpProvider => Boolean(provider) && provider.isConfigured());
+};
+
+export const otpService = {
+  async sendOTP(phone: string): Promise<OtpSendResult & { provider?: string }> {
+    const chain = getProviderChain();
+
+    if (chain.length === 0) {
+      console.error('❌ No OTP provider is configured');
+      return { success: false, message: 'SMS service unavailable' };
+    }
+
+    let lastResult: OtpSendResult = { success: false, message: 'SMS service unavailable' };
+
+    for (const provider of chain) {
+      try {
+        console.log(`📤 Sending OTP via ${provider.name}...`);
+        const result = await provider.sendOTP(phone);
+        if (result.success) {
+          return { ...result, provider: provider.name };
+        }
+        console.log(`⚠️  ${provider.name} failed: ${result.message}`);
+        lastResult = result;
+      } catch (error) {
+        console.error(`❌ ${provider.name} send error:`, error);
+      }
+    }
+
+    return lastResult;
+  },
+
+  async verifyOTP(providerName: string, sessionId: string, otp: string): Promise<OtpVerifyResult> {
+    const provider = registry[providerName];
+
+    if (!provider) {
+      return { success: false, message: 'Verification service unavailable' };
+    }
+
+    return provider.verifyOTP(sessionId, otp);
+  },
+};
@@ -0,0 +1,80 @@
+import { db } from '../config/database';
+import { otpSessions, otpRateLimits } from '../models/otpSession';
+import { eq, sql } from 'drizzle-orm';
+
+export const MAX_OTP_REQUESTS_PER_PHONE = 5;
+export const MAX_OTP_REQUESTS_PER_IP = 20;
+export const RATE_LIMIT_WINDOW = 15 * 60 * 1000;
+export const OTP_SESSION_TTL = 10 * 60 * 1000;
+export const MAX_VERIFY_ATTEMPTS = 5;
+export const VERIFY_LOCKOUT = 30 * 60 * 1000;
+
+export const otpStore = {
+  // Increments a fixed-window counter atomically; returns whether the caller is still under the limit
+  async hit(key: string, max: number, windowMs: number = RATE_LIMIT_WINDOW) {
+    const now = new Date();
+    const resetAt = new Date(now.getTime() + windowMs);
+
+    const [row] = await db.insert(otpRateLimits)
+      .values({ key, count: 1, resetAt })
+      .onConflictDoUpdate({
+        target: otpRateLimits.key,
+        set: {
+          count: sql`CASE WHEN ${otpRateLimits.resetAt} <= ${now} THEN 1 ELSE ${otpRateLimits.count} + 1 END`,
+          resetAt: sql`CASE WHEN ${otpRateLimits.resetAt} <= ${now} THEN ${resetAt} ELSE ${otpRateLimits.resetAt} END`,
+        },
+      })
+      .returning();
+
+    return {
+      allowed: row.count <= max,
+      count: row.count,
+      resetAt: row.resetAt,
+    };
+  },
+
+  async getSession(phone: string) {
+    const [session] = await db.select().from(otpSessions).where(eq(otpSessions.phone, phone)).limit(1);
+    return session || null;
+  },
+
+  async saveSession(phone: string, provider: string, sessionId: string) {
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + OTP_SESSION_TTL);
+
+    await db.insert(otpSessions)
+      .values({ phone, provider, sessionId, expiresAt, failedAttempts: 0 })
+      .onConflictDoUpdate({
+        target: otpSessions.phone,
+        set: { provider, sessionId, expiresAt, failedAttempts: 0, updatedAt: now },
+      });
+  },
+
+  async clearSession(phone: string) {
+    await db.update(otpSessions)
+      .set({ provider: null, sessionId: null, expiresAt: null, failedAttempts: 0, updatedAt: new Date() })
+      .where(eq(otpSessions.phone, phone));
+  },
+
+  // Records a wrong code; after MAX_VERIFY_ATTEMPTS the pending session is dropped and the phone is locked
+  async recordFailedAttempt(phone: string) {
+    const now = new Date();
+    const lockedUntil = new Date(now.getTime() + VERIFY_LOCKOUT);
+
+    const [row] = await db.update(otpSessions)
+      .set({ failedAttempts: sql`${otpSessions.failedAttempts} + 1`, updatedAt: now })
+      .where(eq(otpSessions.phone, phone))
+      .returning();
+
+    if (!row) return { locked: false, attemptsLeft: 0 };
+
+    if (row.failedAttempts >= MAX_VERIFY_ATTEMPTS) {
+      await db.update(otpSessions)
+        .set({ provider: null, sessionId: null, expiresAt: null, failedAttempts: 0, lockedUntil, updatedAt: now })
+        .where(eq(otpSessions.phone, phone));
+      return { locked: true, attemptsLeft: 0, lockedUntil };
+    }
+
+    return { locked: false, attemptsLeft: MAX_VERIFY_ATTEMPTS - row.failedAttempts };
+  },
+};
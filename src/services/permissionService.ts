@@ -0,0 +1,66 @@
+import { db } from '../config/database';
+import { accessRoles, accessRolePermissions, userAccessRoles } from '../models/accessRole';
+import { eq, inArray } from 'drizzle-orm';
+import { cacheService } from './cacheService';
+import { Permission, isPermission } from '../config/permissions';
+
+const CACHE_PREFIX = 'permissions:';
+const CACHE_TTL = 60; // seconds
+
+interface PermissionSubject {
+  userId: number;
+  role?: string | null;
+  department?: string | null;
+}
+
+// System roles every user holds by virtue of users.role / users.department
+export const getImplicitRoleKeys = (user: { role?: string | null; department?: string | null }) => {
+  const keys: string[] = [];
+  if (user.role) keys.push(user.role);
+  if (user.role === 'employee' && user.department === 'finance') keys.push('finance');
+  return keys;
+};
+
+export const permissionService = {
+  async getRoleKeys(user: PermissionSubject) {
+    const assigned = await db
+      .select({ key: accessRoles.key })
+      .from(userAccessRoles)
+      .innerJoin(accessRoles, eq(userAccessRoles.roleId, accessRoles.id))
+      .where(eq(userAccessRoles.userId, user.userId));
+
+    return Array.from(new Set([...getImplicitRoleKeys(user), ...assigned.map(r => r.key)]));
+  },
+
+  async getPermissions(user: PermissionSubject): Promise<Permission[]> {
+    const cacheKey = `${CACHE_PREFIX}${user.userId}`;
+    const cached = cacheService.get(cacheKey);
+    if (cached) return cached;
+
+    const roleKeys = await this.getRoleKeys(user);
+    if (roleKeys.length === 0) return [];
+
+    const rows = await db
+      .selectDistinct({ permission: accessRolePermissions.permission })
+      .from(accessRolePermissions)
+      .innerJoin(accessRoles, eq(accessRolePermissions.roleId, accessRoles.id))
+      .where(inArray(accessRoles.key, roleKeys));
+
+    const permissions = rows.map(r => r.permission).filter(isPermission);
+    cacheService.set(cacheKey, permissions, CACHE_TTL);
+    return permissions;
+  },
+
+  async hasPermissions(user: PermissionSubject, required: Permission[]) {
+    const granted = await this.getPermissions(user);
+    return required.every(permission => granted.includes(permission));
+  },
+
+  invalidateUser(userId: number) {
+    cacheService.invalidate(`${CACHE_PREFIX}${userId}`);
+  },
+
+  invalidateAll() {
+    cacheService.invalidatePrefix(CACHE_PREFIX);
+  },
+};
@@ -0,0 +1,65 @@
+import { db, dbTx, DbTransaction } from '../config/database';
+import { properties } from '../models/property';
+import { propertyUnits } from '../models/propertyUnit';
+import { eq, and, asc, notInArray } from 'drizzle-orm';
+import { PropertyUnitInput } from '../config/propertyAttributes';
+
+type PropertyUnit = typeof propertyUnits.$inferSelect;
+
+const toColumns = (unit: PropertyUnitInput, position: number) => ({
+  unitType: unit.unitType,
+  bhk: unit.bhk ?? null,
+  sizeSqft: unit.sizeSqft == null ? null : String(unit.sizeSqft),
+  price: unit.price == null ? null : String(unit.price),
+  totalUnits: unit.totalUnits ?? null,
+  availableUnits: unit.availableUnits ?? null,
+  availability: unit.availability,
+  position,
+});
+
+export const propertyDetailsService = {
+  // Kind the property has now, for validating attribute changes against it
+  async currentKind(propertyId: string | null | undefined) {
+    if (!propertyId) return null;
+    const [property] = await db.select({ propertyKind: properties.propertyKind }).from(properties).where(eq(properties.id, propertyId)).limit(1);
+    return property?.propertyKind ?? null;
+  },
+
+  // Pass `tx` to see units written earlier in the same transaction
+  async listUnits(propertyId: string, tx?: DbTransaction) {
+    return (tx ?? db).select().from(propertyUnits).where(eq(propertyUnits.propertyId, propertyId)).orderBy(asc(propertyUnits.position));
+  },
+
+  // Makes `units` the property's full unit list, in order: listed units with a known id are updated,
+  // the rest are created, and units missing from the list are removed. Runs inside `tx` when given, so the
+  // units commit or roll back together with the property row.
+  async replaceUnits(propertyId: string, units: PropertyUnitInput[], tx?: DbTransaction): Promise<PropertyUnit[]> {
+    if (!tx) return dbTx.transaction(inner => this.replaceUnits(propertyId, units, inner));
+
+    const existing = await tx
+      .select({ id: propertyUnits.id })
+      .from(propertyUnits)
+      .where(eq(propertyUnits.propertyId, propertyId))
+      .for('update');
+    const existingIds = new Set(existing.map(unit => unit.id));
+    const keptIds = units.map(unit => unit.id).filter((id): id is string => !!id && existingIds.has(id));
+
+    await tx
+      .delete(propertyUnits)
+      .where(keptIds.length
+        ? and(eq(propertyUnits.propertyId, propertyId), notInArray(propertyUnits.id, keptIds))
+        : eq(propertyUnits.propertyId, propertyId));
+
+    // A repeated id only updates its unit once; later copies become new units
+    const unclaimed = new Set(keptIds);
+    for (const [position, unit] of units.entries()) {
+      if (unit.id && unclaimed.delete(unit.id)) {
+        await tx.update(propertyUnits).set({ ...toColumns(unit, position), updatedAt: new Date() }).where(eq(propertyUnits.id, unit.id));
+      } else {
+        await tx.insert(propertyUnits).values({ ...toColumns(unit, position), propertyId });
+      }
+    }
+
+    return this.listUnits(propertyId, tx);
+  },
+};
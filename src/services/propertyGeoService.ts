@@ -0,0 +1,157 @@
+import { z } from 'zod';
+import { db } from '../config/database';
+import { properties } from '../models/property';
+import { and, or, between, gte, lte, inArray, isNotNull, sql, SQL, getTableColumns } from 'drizzle-orm';
+import { KeysetSort, keyset, toPage } from '../utils/pagination';
+import { Bounds, Coordinates, EARTH_RADIUS_KM, MAX_ZOOM, boundingBox, clusterCellSize } from '../utils/geo';
+import { propertySearchSchema, buildPropertySearchConditions, getPropertySearchSort } from './propertySearchService';
+
+const DEFAULT_RADIUS_KM = 5;
+const MAX_RADIUS_KM = 100;
+const MAX_CLUSTERS = 500;
+
+// Search filters plus an area: a centre (lat/lng) with radiusKm, and/or map bounds (north/south/east/west).
+// With both, bounds limit the area and the centre is only used for distances. `cluster=true` needs bounds and zoom.
+export const propertyGeoSchema = propertySearchSchema.omit({ sort: true, limit: true }).extend({
+  lat: z.coerce.number().min(-90).max(90).optional(),
+  lng: z.coerce.number().min(-180).max(180).optional(),
+  radiusKm: z.coerce.number().positive().max(MAX_RADIUS_KM).optional(),
+  north: z.coerce.number().min(-90).max(90).optional(),
+  south: z.coerce.number().min(-90).max(90).optional(),
+  east: z.coerce.number().min(-180).max(180).optional(),
+  west: z.coerce.number().min(-180).max(180).optional(),
+  cluster: z.enum(['true', 'false']).optional().transform(val => val === 'true'),
+  zoom: z.coerce.number().min(0).max(MAX_ZOOM).optional(),
+  limit: z.coerce.number().int().min(1).transform(val => Math.min(val, 100)).default(50),
+});
+
+export type PropertyGeoFilters = z.infer<typeof propertyGeoSchema>;
+
+export interface GeoArea {
+  center: Coordinates | null;
+  radiusKm: number | null;
+  bounds: Bounds | null;
+}
+
+export const resolveGeoArea = (input: PropertyGeoFilters): GeoArea & { error?: string } => {
+  const centerParams = [input.lat, input.lng].filter(val => val !== undefined).length;
+  const boundsParams = [input.north, input.south, input.east, input.west].filter(val => val !== undefined).length;
+
+  if (centerParams === 1) return { error: 'lat and lng must be given together', center: null, radiusKm: null, bounds: null };
+  if (boundsParams > 0 && boundsParams < 4) return { error: 'north, south, east and west must be given together', center: null, radiusKm: null, bounds: null };
+  if (!centerParams && !boundsParams) return { error: 'Provide lat and lng, or map bounds', center: null, radiusKm: null, bounds: null };
+
+  const center = centerParams ? { latitude: input.lat!, longitude: input.lng! } : null;
+  const bounds = boundsParams ? { north: input.north!, south: input.south!, east: input.east!, west: input.west! } : null;
+
+  if (bounds && bounds.south >= bounds.north) return { error: 'south must be below north', center, radiusKm: null, bounds };
+  if (input.cluster && (!bounds || input.zoom === undefined)) return { error: 'Clustering needs map bounds and zoom', center, radiusKm: null, bounds };
+
+  const radiusKm = input.radiusKm ?? (bounds ? null : DEFAULT_RADIUS_KM);
+  return { center, radiusKm, bounds };
+};
+
+const latitude = sql`${properties.latitude}::float8`;
+const longitude = sql`${properties.longitude}::float8`;
+
+// Haversine distance in km, computed in Postgres
+const distanceKm = (center: Coordinates) => sql`(${EARTH_RADIUS_KM}::float8 * 2 * asin(least(1, sqrt(
+  power(sin(radians(${latitude} - ${center.latitude}::float8) / 2), 2) +
+  cos(radians(${center.latitude}::float8)) * cos(radians(${latitude})) * power(sin(radians(${longitude} - ${center.longitude}::float8) / 2), 2)
+))))`;
+
+// Bounds whose west edge is east of their east edge cross the antimeridian. Compares the numeric columns
+// as stored so the coordinates index can serve the range.
+const withinBounds = (bounds: Bounds): SQL[] => [
+  between(properties.latitude, String(bounds.south), String(bounds.north)),
+  bounds.west <= bounds.east
+    ? between(properties.longitude, String(bounds.west), String(bounds.east))
+    : or(gte(properties.longitude, String(bounds.west)), lte(properties.longitude, String(bounds.east)))!,
+];
+
+const areaConditions = (area: GeoArea): SQL[] => {
+  const conditions: SQL[] = [isNotNull(properties.latitude), isNotNull(properties.longitude)];
+
+  if (area.bounds) conditions.push(...withinBounds(area.bounds));
+  if (area.center && area.radiusKm) {
+    // The box lets the coordinates index narrow the rows before exact distances are checked
+    if (!area.bounds) conditions.push(...withinBounds(boundingBox(area.center, area.radiusKm)));
+    conditions.push(sql`${distanceKm(area.center)} <= ${area.radiusKm}`);
+  }
+
+  return conditions;
+};
+
+export const propertyGeoService = {
+  // Nearest first when there is a centre, otherwise newest first; `distanceKm` is null without a centre
+  async search(filters: PropertyGeoFilters, area: GeoArea, visibleIds?: string[]) {
+    const sort: KeysetSort = area.center
+      ? { name: 'distance', key: distanceKm(area.center), keyType: 'number', id: properties.id, direction: 'asc' }
+      : getPropertySearchSort('newest');
+    const page = keyset(sort, filters.cursor);
+    if (page.error) return { error: page.error };
+
+    const conditions = [...buildPropertySearchConditions(filters, visibleIds), ...areaConditions(area)];
+    if (page.where) conditions.push(page.where);
+
+    const rows = await db
+      .select({
+        ...getTableColumns(properties),
+        distanceKm: area.center ? sql<number>`round((${distanceKm(area.center)})::numeric, 2)::float8` : sql<number>`NULL::float8`,
+        cursorKey: page.cursorKey,
+      })
+      .from(properties)
+      .where(and(...conditions))
+      .orderBy(...page.orderBy)
+      .limit(filters.limit + 1);
+
+    return { sort: sort.name, ...toPage(rows, filters.limit, sort) };
+  },
+
+  // Groups the matching properties into grid cells sized for the zoom level. Cells holding a single
+  // property carry its pin details so the map can render it without another request.
+  async clusters(filters: PropertyGeoFilters, area: GeoArea, zoom: number, visibleIds?: string[]) {
+    const cellSize = clusterCellSize(zoom);
+    const conditions = [...buildPropertySearchConditions(filters, visibleIds), ...areaConditions(area)];
+
+    const cells = await db
+      .select({
+        count: sql<number>`count(*)::int`,
+        latitude: sql<number>`avg(${latitude})`,
+        longitude: sql<number>`avg(${longitude})`,
+        north: sql<number>`max(${latitude})`,
+        south: sql<number>`min(${latitude})`,
+        east: sql<number>`max(${longitude})`,
+        west: sql<number>`min(${longitude})`,
+        propertyId: sql<string>`(array_agg(${properties.id}))[1]`,
+      })
+      .from(properties)
+      .where(and(...conditions))
+      .groupBy(sql`floor(${latitude} / ${sql.raw(String(cellSize))})`, sql`floor(${longitude} / ${sql.raw(String(cellSize))})`)
+      .orderBy(sql`count(*) DESC`)
+      .limit(MAX_CLUSTERS);
+
+    const singleIds = cells.filter(cell => cell.count === 1).map(cell => cell.propertyId);
+    const pins = singleIds.length
+      ? await db
+        .select({ id: properties.id, title: properties.title, location: properties.location, price: properties.price, type: properties.type, images: properties.images })
+        .from(properties)
+        .where(inArray(properties.id, singleIds))
+      : [];
+    const pinById = new Map(pins.map(pin => [pin.id, pin]));
+
+    return {
+      zoom,
+      cellSize,
+      total: cells.reduce((sum, cell) => sum + cell.count, 0),
+      truncated: cells.length === MAX_CLUSTERS,
+      clusters: cells.map(({ propertyId, north, south, east, west, ...cell }) => ({
+        ...cell,
+        latitude: Number(cell.latitude),
+        longitude: Number(cell.longitude),
+        bounds: { north: Number(north), south: Number(south), east: Number(east), west: Number(west) },
+        property: cell.count === 1 ? pinById.get(propertyId) || null : null,
+      })),
+    };
+  },
+};
@@ -0,0 +1,97 @@
+import { db, DbTransaction } from '../config/database';
+import { properties } from '../models/property';
+import { propertyPriceHistory } from '../models/propertyPriceHistory';
+import { propertyFavourites } from '../models/propertyFavourite';
+import { eq, and, asc } from 'drizzle-orm';
+import { formatInr, isPriceChange, isPriceDrop, priceChangePercent, toPrice } from '../utils/propertyPrice';
+import { emitPropertyPriceDropped } from './socketService';
+import { pushService } from './pushService';
+
+// 'baseline' rows were backfilled from the prices properties had when history started
+export type PriceChangeSource = 'baseline' | 'created' | 'admin_edit' | 'pending_change' | 'admin_draft';
+
+export interface PriceChange {
+  propertyId: string;
+  // Price before the save; undefined for a property that did not exist yet
+  before: unknown;
+  after: unknown;
+  source: PriceChangeSource;
+  changedById: number;
+  proposedById?: number | null;
+  pendingChangeId?: string | null;
+}
+
+type PriceHistoryEntry = typeof propertyPriceHistory.$inferSelect;
+
+export const propertyPriceService = {
+  // Writes the history row if the price actually moved; pass `tx` to commit it with the property update, then
+  // call alertIfDropped once the transaction has committed
+  async record(change: PriceChange, tx?: DbTransaction): Promise<PriceHistoryEntry | null> {
+    const oldPrice = change.before === undefined ? null : toPrice(change.before);
+    const newPrice = toPrice(change.after);
+    if (!isPriceChange(oldPrice, newPrice)) return null;
+
+    const [entry] = await (tx ?? db).insert(propertyPriceHistory).values({
+      propertyId: change.propertyId,
+      oldPrice: oldPrice === null ? null : String(oldPrice),
+      newPrice: newPrice === null ? null : String(newPrice),
+      source: change.source,
+      changedById: change.changedById,
+      proposedById: change.proposedById ?? null,
+      pendingChangeId: change.pendingChangeId ?? null,
+    }).returning();
+
+    return entry;
+  },
+
+  // Alerts customers who favourited the property when the entry is a drop. Sent after the saving request has
+  // been answered; alerts are best effort, unlike the history row.
+  alertIfDropped(entry: PriceHistoryEntry | null) {
+    if (!entry) return;
+
+    const oldPrice = toPrice(entry.oldPrice);
+    const newPrice = toPrice(entry.newPrice);
+    if (!isPriceDrop(oldPrice, newPrice)) return;
+
+    setImmediate(() => {
+      this.notifyPriceDrop(entry.propertyId, oldPrice!, newPrice!)
+        .catch(error => console.error(`❌ Price drop alert failed for property ${entry.propertyId}:`, error));
+    });
+  },
+
+  // Oldest first, each entry with its percentage change
+  async history(propertyId: string) {
+    const rows = await db
+      .select()
+      .from(propertyPriceHistory)
+      .where(eq(propertyPriceHistory.propertyId, propertyId))
+      .orderBy(asc(propertyPriceHistory.changedAt), asc(propertyPriceHistory.id));
+
+    return rows.map(row => ({ ...row, changePercent: priceChangePercent(row.oldPrice, row.newPrice) }));
+  },
+
+  async notifyPriceDrop(propertyId: string, oldPrice: number, newPrice: number) {
+    const [property] = await db
+      .select({ id: properties.id, title: properties.title })
+      .from(properties)
+      .where(and(eq(properties.id, propertyId), eq(properties.deleted, false)))
+      .limit(1);
+    if (!property) return;
+
+    const favourites = await db
+      .select({ userId: propertyFavourites.userId })
+      .from(propertyFavourites)
+      .where(eq(propertyFavourites.propertyId, propertyId));
+    const userIds = favourites.map(favourite => favourite.userId);
+    if (userIds.length === 0) return;
+
+    emitPropertyPriceDropped(userIds, property, { oldPrice, newPrice });
+    await pushService.sendToUsers(userIds, {
+      title: 'Price drop on a favourite',
+      body: `${property.title} is now ${formatInr(newPrice)} (was ${formatInr(oldPrice)})`,
+      data: { type: 'property_price_dropped', propertyId },
+    });
+
+    console.log(`📋 Price drop on property ${propertyId} sent to ${userIds.length} customers`);
+  },
+};
@@ -0,0 +1,166 @@
+import { z } from 'zod';
+import { db } from '../config/database';
+import { properties } from '../models/property';
+import { propertyAgentAssignments, propertyEmployeeAssignments } from '../models/propertyAssignment';
+import { users } from '../models/user';
+import { eq, and, or, ilike, inArray, sql, SQL, AnyColumn, getTableColumns } from 'drizzle-orm';
+import { KeysetSort, keyset, toPage } from '../utils/pagination';
+import { PRICE_BUCKETS, PROPERTY_SEARCH_SORTS, PropertySearchSort, toList, likePattern, resolveSort } from '../utils/propertySearch';
+
+const FACET_LIMIT = 20;
+
+// Generated column from migration 0052; not mapped in the model so plain selects don't return it
+const searchVector = sql.raw('"properties"."search_vector"');
+
+const listParam = z.preprocess(toList, z.array(z.string().max(100)).max(20));
+
+export const propertySearchSchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  location: z.string().trim().max(100).optional(),
+  minPrice: z.coerce.number().min(0).optional(),
+  maxPrice: z.coerce.number().min(0).optional(),
+  categories: listParam,
+  amenities: listParam,
+  features: listParam,
+  type: listParam,
+  sort: z.enum(PROPERTY_SEARCH_SORTS).optional(),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).transform(val => Math.min(val, 20)).default(10),
+});
+
+export type PropertySearchFilters = z.infer<typeof propertySearchSchema>;
+
+// Filters a facet leaves out when counting its own values, so picking one value doesn't hide the others
+type FacetFilter = 'categories' | 'amenities' | 'features' | 'type' | 'price';
+
+const tsQuery = (q: string) => sql`websearch_to_tsquery('english', ${q})`;
+
+const textArray = (values: string[]) => sql`array[${sql.join(values.map(value => sql`${value}`), sql`, `)}]::text[]`;
+
+// Agents only see properties assigned to them whose employee is still active
+export const agentVisiblePropertyIds = async (agentId: number) => {
+  const assignments = await db
+    .select({ propertyId: propertyAgentAssignments.propertyId })
+    .from(propertyAgentAssignments)
+    .innerJoin(properties, eq(propertyAgentAssignments.propertyId, properties.id))
+    .innerJoin(propertyEmployeeAssignments, eq(propertyAgentAssignments.propertyId, propertyEmployeeAssignments.propertyId))
+    .innerJoin(users, eq(propertyEmployeeAssignments.employeeId, users.id))
+    .where(and(
+      eq(propertyAgentAssignments.agentId, agentId),
+      eq(properties.deleted, false),
+      eq(users.deleted, false)
+    ));
+
+  return [...new Set(assignments.map(a => a.propertyId))];
+};
+
+// `visibleIds` restricts the results to an agent's assigned properties; undefined means no restriction
+export const buildPropertySearchConditions = (filters: PropertySearchFilters, visibleIds?: string[], omit?: FacetFilter): SQL[] => {
+  const { q, location, minPrice, maxPrice, categories, amenities, features, type } = filters;
+  const conditions: SQL[] = [eq(properties.deleted, false)];
+
+  if (visibleIds) conditions.push(inArray(properties.id, visibleIds));
+
+  // Stemmed full-text match, with a substring fallback for partial words such as "Whitef"
+  if (q) {
+    conditions.push(or(
+      sql`${searchVector} @@ ${tsQuery(q)}`,
+      ilike(properties.title, likePattern(q)),
+      ilike(properties.location, likePattern(q))
+    )!);
+  }
+  if (location) conditions.push(ilike(properties.location, likePattern(location)));
+
+  if (omit !== 'price') {
+    if (minPrice !== undefined) conditions.push(sql`${properties.price} >= ${minPrice}`);
+    if (maxPrice !== undefined) conditions.push(sql`${properties.price} <= ${maxPrice}`);
+  }
+
+  // Any of the categories and types, all of the amenities and features
+  if (categories.length && omit !== 'categories') conditions.push(sql`${properties.categories}::jsonb ?| ${textArray(categories)}`);
+  if (amenities.length && omit !== 'amenities') conditions.push(sql`${properties.amenities}::jsonb ?& ${textArray(amenities)}`);
+  if (features.length && omit !== 'features') conditions.push(sql`${properties.features}::jsonb ?& ${textArray(features)}`);
+  if (type.length && omit !== 'type') conditions.push(inArray(properties.type, type));
+
+  return conditions;
+};
+
+// Listings without a price sort last in both directions
+export const getPropertySearchSort = (sort: PropertySearchSort, q?: string): KeysetSort => {
+  switch (sort) {
+    case 'relevance':
+      return { name: 'relevance', key: sql`ts_rank(${searchVector}, ${tsQuery(q || '')})`, keyType: 'number', id: properties.id, direction: 'desc' };
+    case 'price_asc':
+      return { name: 'price_asc', key: sql`COALESCE(${properties.price}, 'NaN'::numeric)`, keyType: 'number', id: properties.id, direction: 'asc' };
+    case 'price_desc':
+      return { name: 'price_desc', key: sql`COALESCE(${properties.price}, -1)`, keyType: 'number', id: properties.id, direction: 'desc' };
+    default:
+      return { name: 'newest', key: sql`COALESCE(${properties.createdAt}, 'epoch'::timestamp)`, keyType: 'timestamp', id: properties.id, direction: 'desc' };
+  }
+};
+
+const countValues = async (column: AnyColumn, conditions: SQL[]) => {
+  const result = await db.execute(sql`
+    SELECT value, count(*)::int AS count
+    FROM ${properties}, jsonb_array_elements_text(COALESCE(${column}, '[]'::jsonb)) AS value
+    WHERE ${and(...conditions)}
+    GROUP BY value
+    ORDER BY count DESC, value
+    LIMIT ${FACET_LIMIT}
+  `);
+  return result.rows as { value: string; count: number }[];
+};
+
+export const propertySearchService = {
+  async search(filters: PropertySearchFilters, visibleIds?: string[]) {
+    const sort = getPropertySearchSort(resolveSort(filters.sort, !!filters.q), filters.q);
+    const page = keyset(sort, filters.cursor);
+    if (page.error) return { error: page.error };
+
+    const conditions = buildPropertySearchConditions(filters, visibleIds);
+    if (page.where) conditions.push(page.where);
+
+    const rows = await db
+      .select({ ...getTableColumns(properties), cursorKey: page.cursorKey })
+      .from(properties)
+      .where(and(...conditions))
+      .orderBy(...page.orderBy)
+      .limit(filters.limit + 1);
+
+    return { sort: sort.name, ...toPage(rows, filters.limit, sort) };
+  },
+
+  // Value counts across the whole result set (not just the page), each ignoring its own filter
+  async facets(filters: PropertySearchFilters, visibleIds?: string[]) {
+    const without = (facet: FacetFilter) => buildPropertySearchConditions(filters, visibleIds, facet);
+
+    const [categories, amenities, features, type, [priceCounts]] = await Promise.all([
+      countValues(properties.categories, without('categories')),
+      countValues(properties.amenities, without('amenities')),
+      countValues(properties.features, without('features')),
+      db
+        .select({ value: properties.type, count: sql<number>`count(*)::int` })
+        .from(properties)
+        .where(and(...without('type')))
+        .groupBy(properties.type)
+        .orderBy(sql`count(*) DESC`),
+      db
+        .select(Object.fromEntries(PRICE_BUCKETS.map((bucket, index) => [
+          `b${index}`,
+          bucket.max === null
+            ? sql<number>`count(*) FILTER (WHERE ${properties.price} >= ${bucket.min})::int`
+            : sql<number>`count(*) FILTER (WHERE ${properties.price} >= ${bucket.min} AND ${properties.price} < ${bucket.max})::int`,
+        ])))
+        .from(properties)
+        .where(and(...without('price'))),
+    ]);
+
+    return {
+      categories,
+      amenities,
+      features,
+      type: type.filter(entry => entry.value !== null),
+      price: PRICE_BUCKETS.map((bucket, index) => ({ ...bucket, count: Number(priceCounts?.[`b${index}`] ?? 0) })),
+    };
+  },
+};
@@ -0,0 +1,83 @@
+import { initializeApp, cert, getApps, App } from 'firebase-admin/app';
+import { getMessaging } from 'firebase-admin/messaging';
+import { db } from '../config/database';
+import { userDeviceTokens } from '../models/deviceToken';
+import { and, eq, inArray } from 'drizzle-orm';
+import { sendInBatches } from '../utils/push';
+
+let app: App | null = null;
+let disabled = false;
+
+const getApp = () => {
+  if (app || disabled) return app;
+
+  const { FIREBASE_PROJECT_ID, FIREBASE_CLIENT_EMAIL, FIREBASE_PRIVATE_KEY } = process.env;
+  if (!FIREBASE_PROJECT_ID || !FIREBASE_CLIENT_EMAIL || !FIREBASE_PRIVATE_KEY) {
+    console.warn('⚠️ Firebase credentials not configured, push notifications disabled');
+    disabled = true;
+    return null;
+  }
+
+  app = getApps()[0] || initializeApp({
+    credential: cert({
+      projectId: FIREBASE_PROJECT_ID,
+      clientEmail: FIREBASE_CLIENT_EMAIL,
+      privateKey: FIREBASE_PRIVATE_KEY.replace(/\\n/g, '\n'),
+    }),
+  });
+  return app;
+};
+
+export interface PushNotification {
+  title: string;
+  body: string;
+  data?: Record<string, string>;
+}
+
+export const pushService = {
+  async registerToken(userId: number, token: string, platform?: string) {
+    await db
+      .insert(userDeviceTokens)
+      .values({ userId, token, platform: platform || null })
+      .onConflictDoUpdate({
+        target: userDeviceTokens.token,
+        set: { userId, platform: platform || null, lastSeenAt: new Date() },
+      });
+  },
+
+  async removeToken(userId: number, token: string) {
+    await db.delete(userDeviceTokens).where(and(eq(userDeviceTokens.userId, userId), eq(userDeviceTokens.token, token)));
+  },
+
+  // Best effort: failures are logged, never thrown, so callers don't need to guard the request they are serving
+  async sendToUsers(userIds: number[], notification: PushNotification) {
+    if (userIds.length === 0) return;
+
+    try {
+      const firebase = getApp();
+      if (!firebase) return;
+
+      const rows = await db
+        .select({ token: userDeviceTokens.token })
+        .from(userDeviceTokens)
+        .where(inArray(userDeviceTokens.userId, userIds));
+      if (rows.length === 0) return;
+
+      const tokens = rows.map(row => row.token);
+      const messaging = getMessaging(firebase);
+      const result = await sendInBatches(tokens, batch => messaging.sendEachForMulticast({
+        tokens: batch,
+        notification: { title: notification.title, body: notification.body },
+        data: notification.data,
+      }));
+
+      if (result.deadTokens.length > 0) {
+        await db.delete(userDeviceTokens).where(inArray(userDeviceTokens.token, result.deadTokens));
+      }
+
+      console.log(`🔔 Push sent to ${result.successCount}/${tokens.length} devices${result.failedBatches ? `, ${result.failedBatches} batch(es) failed` : ''}`);
+    } catch (error) {
+      console.error('❌ Push notification error:', error);
+    }
+  },
+};
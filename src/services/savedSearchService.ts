@@ -0,0 +1,201 @@
+import { z } from 'zod';
+import { db, dbTx } from '../config/database';
+import { properties } from '../models/property';
+import { users } from '../models/user';
+import { savedSearches, savedSearchAlerts } from '../models/savedSearch';
+import { eq, and, asc, desc, gte, inArray, sql, SQL } from 'drizzle-orm';
+import { SavedSearchCriteria, hasCriteria, matchesSavedSearch } from '../utils/savedSearch';
+import { formatInr, toPrice } from '../utils/propertyPrice';
+import { emitSavedSearchMatch } from './socketService';
+import { pushService } from './pushService';
+
+const MAX_SAVED_SEARCHES = 20;
+// New-listing alerts per customer in any 24 hours; matches beyond it are not sent later
+export const DAILY_ALERT_LIMIT = 5;
+
+// First key of the per-customer advisory locks taken while alerts are counted and inserted
+const ALERT_LOCK_NAMESPACE = 23;
+
+const listField = z.array(z.string().trim().min(1).max(100)).max(20);
+
+export const savedSearchCriteriaSchema = z.strictObject({
+  categories: listField.optional(),
+  amenities: listField.optional(),
+  location: z.string().trim().min(1).max(100).optional(),
+  minPrice: z.number().min(0).optional(),
+  maxPrice: z.number().min(0).optional(),
+}).refine(
+  criteria => criteria.minPrice === undefined || criteria.maxPrice === undefined || criteria.minPrice <= criteria.maxPrice,
+  { message: 'minPrice cannot be greater than maxPrice', path: ['minPrice'] }
+).refine(hasCriteria, { message: 'Choose at least one search criterion' });
+
+const findSearch = async (userId: number, searchId: number) => {
+  const [search] = await db
+    .select()
+    .from(savedSearches)
+    .where(and(eq(savedSearches.id, searchId), eq(savedSearches.userId, userId)))
+    .limit(1);
+  return search;
+};
+
+// Narrows saved searches to those whose categories, location and price range can match the listing, so only
+// plausible candidates are loaded; matchesSavedSearch still has the final say (and checks amenities)
+const candidateConditions = (listing: { location: string; price: unknown; categories: unknown }): SQL[] => {
+  const criterion = (field: keyof SavedSearchCriteria) => sql`${savedSearches.criteria}->>${field}`;
+  const noCategories = sql`COALESCE(jsonb_array_length(${savedSearches.criteria}->'categories'), 0) = 0`;
+  const categories = Array.isArray(listing.categories) ? listing.categories.map(String) : [];
+  const price = toPrice(listing.price);
+
+  return [
+    categories.length
+      ? sql`(${noCategories} OR ${savedSearches.criteria}->'categories' ?| ARRAY[${sql.join(categories.map(category => sql`${category}`), sql`, `)}]::text[])`
+      : noCategories,
+    sql`(${criterion('location')} IS NULL OR strpos(lower(${listing.location}), lower(${criterion('location')})) > 0)`,
+    price === null
+      ? sql`(${criterion('minPrice')} IS NULL AND ${criterion('maxPrice')} IS NULL)`
+      : sql`(COALESCE((${criterion('minPrice')})::numeric <= ${price}, true) AND COALESCE((${criterion('maxPrice')})::numeric >= ${price}, true))`,
+  ];
+};
+
+export const savedSearchService = {
+  async list(userId: number) {
+    return db
+      .select()
+      .from(savedSearches)
+      .where(eq(savedSearches.userId, userId))
+      .orderBy(desc(savedSearches.createdAt));
+  },
+
+  async create(userId: number, input: { name: string; criteria: SavedSearchCriteria; notify?: boolean }) {
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(savedSearches)
+      .where(eq(savedSearches.userId, userId));
+    if (count >= MAX_SAVED_SEARCHES) {
+      return { error: 'invalid' as const, message: `You can save at most ${MAX_SAVED_SEARCHES} searches` };
+    }
+
+    const [search] = await db.insert(savedSearches).values({
+      userId,
+      name: input.name,
+      criteria: input.criteria,
+      notify: input.notify ?? true,
+    }).returning();
+    return { search };
+  },
+
+  async update(userId: number, searchId: number, input: { name?: string; criteria?: SavedSearchCriteria; notify?: boolean }) {
+    if (!(await findSearch(userId, searchId))) return { error: 'not_found' as const, message: 'Saved search not found' };
+
+    const [search] = await db
+      .update(savedSearches)
+      .set({ ...input, updatedAt: new Date() })
+      .where(eq(savedSearches.id, searchId))
+      .returning();
+    return { search };
+  },
+
+  async remove(userId: number, searchId: number) {
+    const [removed] = await db
+      .delete(savedSearches)
+      .where(and(eq(savedSearches.id, searchId), eq(savedSearches.userId, userId)))
+      .returning({ id: savedSearches.id });
+    return !!removed;
+  },
+
+  // Alerts customers whose saved searches match a newly published property. Each customer is alerted at most
+  // once per property (for their oldest matching search) and at most DAILY_ALERT_LIMIT times a day.
+  async notifyNewProperty(propertyId: string) {
+    const [property] = await db
+      .select({
+        id: properties.id,
+        title: properties.title,
+        location: properties.location,
+        price: properties.price,
+        categories: properties.categories,
+        amenities: properties.amenities,
+      })
+      .from(properties)
+      .where(and(eq(properties.id, propertyId), eq(properties.deleted, false)))
+      .limit(1);
+    if (!property) return;
+
+    const searches = await db
+      .select({ id: savedSearches.id, userId: savedSearches.userId, criteria: savedSearches.criteria })
+      .from(savedSearches)
+      .innerJoin(users, eq(savedSearches.userId, users.id))
+      .where(and(
+        eq(savedSearches.notify, true),
+        eq(users.role, 'customer'),
+        eq(users.deleted, false),
+        ...candidateConditions(property)
+      ))
+      .orderBy(asc(savedSearches.id));
+
+    const searchByUser = new Map<number, number>();
+    for (const search of searches) {
+      if (!searchByUser.has(search.userId) && matchesSavedSearch(search.criteria, property)) {
+        searchByUser.set(search.userId, search.id);
+      }
+    }
+    if (searchByUser.size === 0) return;
+
+    const sent = await dbTx.transaction(async (tx) => {
+      // Locking each customer first makes counting today's alerts and inserting the new one atomic, so two
+      // listings published together can't both slip under the daily limit
+      await tx.execute(sql`
+        SELECT pg_advisory_xact_lock(${ALERT_LOCK_NAMESPACE}, ${users.id})
+        FROM ${users}
+        WHERE ${inArray(users.id, [...searchByUser.keys()])}
+        ORDER BY ${users.id}
+      `);
+
+      const recent = await tx
+        .select({ userId: savedSearchAlerts.userId, count: sql<number>`count(*)::int` })
+        .from(savedSearchAlerts)
+        .where(and(
+          inArray(savedSearchAlerts.userId, [...searchByUser.keys()]),
+          gte(savedSearchAlerts.sentAt, sql`NOW() - INTERVAL '24 hours'`)
+        ))
+        .groupBy(savedSearchAlerts.userId);
+      for (const { userId, count } of recent) {
+        if (count >= DAILY_ALERT_LIMIT) searchByUser.delete(userId);
+      }
+      if (searchByUser.size === 0) return [];
+
+      // The unique (user, property) index drops customers already alerted about this property
+      const inserted = await tx
+        .insert(savedSearchAlerts)
+        .values([...searchByUser].map(([userId, savedSearchId]) => ({ userId, propertyId, savedSearchId })))
+        .onConflictDoNothing()
+        .returning({ userId: savedSearchAlerts.userId, savedSearchId: savedSearchAlerts.savedSearchId });
+      if (inserted.length === 0) return [];
+
+      await tx
+        .update(savedSearches)
+        .set({ lastNotifiedAt: new Date() })
+        .where(inArray(savedSearches.id, [...new Set(inserted.map(alert => alert.savedSearchId!))]));
+      return inserted;
+    });
+    if (sent.length === 0) return;
+
+    const userIds = sent.map(alert => alert.userId);
+    const price = toPrice(property.price);
+    emitSavedSearchMatch(userIds, property);
+    await pushService.sendToUsers(userIds, {
+      title: 'New listing for your saved search',
+      body: `${property.title} in ${property.location}${price === null ? '' : ` for ${formatInr(price)}`}`,
+      data: { type: 'saved_search_match', propertyId },
+    });
+
+    console.log(`📋 New property ${propertyId} matched saved searches of ${userIds.length} customers`);
+  },
+
+  // Sends the alerts after the publishing request has been answered; they are best effort
+  queueNewPropertyAlerts(propertyId: string) {
+    setImmediate(() => {
+      this.notifyNewProperty(propertyId)
+        .catch(error => console.error(`❌ Saved search alerts failed for property ${propertyId}:`, error));
+    });
+  },
+};
@@ -0,0 +1,146 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { db } from '../config/database';
+import { userSessions } from '../models/userSession';
+import { users } from '../models/user';
+import { eq, and, isNull, gt, ne, desc } from 'drizzle-orm';
+
+const ACCESS_TOKEN_TTL = process.env.ACCESS_TOKEN_TTL || '15m';
+const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30;
+
+interface SessionMeta {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+type SessionUser = typeof users.$inferSelect;
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+// Refresh tokens are "<sessionId>.<secret>" so the session row can be found without scanning hashes
+const newRefreshToken = (sessionId: string) => `${sessionId}.${crypto.randomBytes(32).toString('hex')}`;
+
+const signAccessToken = (user: SessionUser, sessionId: string) => jwt.sign(
+  {
+    userId: user.id,
+    phone: user.phone,
+    role: user.role,
+    sid: sessionId,
+  },
+  process.env.JWT_SECRET!,
+  { expiresIn: ACCESS_TOKEN_TTL as jwt.SignOptions['expiresIn'] }
+);
+
+export const sessionService = {
+  async issue(user: SessionUser, meta: SessionMeta = {}) {
+    const sessionId = crypto.randomUUID();
+    const refreshToken = newRefreshToken(sessionId);
+    const expiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+    await db.insert(userSessions).values({
+      id: sessionId,
+      userId: user.id,
+      refreshTokenHash: hashToken(refreshToken),
+      userAgent: meta.userAgent || null,
+      ipAddress: meta.ipAddress || null,
+      expiresAt,
+    });
+
+    return { token: signAccessToken(user, sessionId), refreshToken, sessionId };
+  },
+
+  // Rotates the refresh token; presenting an already-rotated token revokes the whole session
+  async refresh(refreshToken: string, meta: SessionMeta = {}) {
+    const [sessionId] = refreshToken.split('.');
+    if (!sessionId || !/^[0-9a-f-]{36}$/i.test(sessionId)) {
+      return { error: 'invalid_refresh_token' as const };
+    }
+
+    const [session] = await db.select().from(userSessions).where(eq(userSessions.id, sessionId)).limit(1);
+    if (!session || session.revokedAt || session.expiresAt < new Date()) {
+      return { error: 'invalid_refresh_token' as const };
+    }
+
+    const presentedHash = hashToken(refreshToken);
+    if (presentedHash !== session.refreshTokenHash) {
+      if (presentedHash === session.previousTokenHash) {
+        console.log(`⚠️  Refresh token reuse detected for session ${sessionId}, revoking`);
+        await this.revoke(sessionId, 'refresh_token_reuse');
+      }
+      return { error: 'invalid_refresh_token' as const };
+    }
+
+    const [user] = await db.select().from(users).where(eq(users.id, session.userId)).limit(1);
+    if (!user || user.deleted) {
+      await this.revoke(sessionId, 'account_deleted');
+      return { error: 'account_deleted' as const };
+    }
+    if (!user.active) {
+      await this.revoke(sessionId, 'account_deactivated');
+      return { error: 'account_deactivated' as const };
+    }
+
+    const nextRefreshToken = newRefreshToken(sessionId);
+    const [rotated] = await db.update(userSessions)
+      .set({
+        refreshTokenHash: hashToken(nextRefreshToken),
+        previousTokenHash: session.refreshTokenHash,
+        lastUsedAt: new Date(),
+        userAgent: meta.userAgent || session.userAgent,
+        ipAddress: meta.ipAddress || session.ipAddress,
+      })
+      .where(and(eq(userSessions.id, sessionId), eq(userSessions.refreshTokenHash, session.refreshTokenHash)))
+      .returning();
+
+    // A concurrent refresh already rotated this token
+    if (!rotated) {
+      return { error: 'invalid_refresh_token' as const };
+    }
+
+    return { token: signAccessToken(user, sessionId), refreshToken: nextRefreshToken, user };
+  },
+
+  async isActive(sessionId: string) {
+    const [session] = await db.select({ id: userSessions.id })
+      .from(userSessions)
+      .where(and(eq(userSessions.id, sessionId), isNull(userSessions.revokedAt), gt(userSessions.expiresAt, new Date())))
+      .limit(1);
+    return Boolean(session);
+  },
+
+  async list(userId: number) {
+    return db.select({
+      id: userSessions.id,
+      userAgent: userSessions.userAgent,
+      ipAddress: userSessions.ipAddress,
+      createdAt: userSessions.createdAt,
+      lastUsedAt: userSessions.lastUsedAt,
+      expiresAt: userSessions.expiresAt,
+    })
+      .from(userSessions)
+      .where(and(eq(userSessions.userId, userId), isNull(userSessions.revokedAt), gt(userSessions.expiresAt, new Date())))
+      .orderBy(desc(userSessions.lastUsedAt));
+  },
+
+  async revoke(sessionId: string, reason: string, revokedById?: number, userId?: number) {
+    const conditions = [eq(userSessions.id, sessionId), isNull(userSessions.revokedAt)];
+    if (userId !== undefined) conditions.push(eq(userSessions.userId, userId));
+
+    const revoked = await db.update(userSessions)
+      .set({ revokedAt: new Date(), revokedReason: reason, revokedById: revokedById || null })
+      .where(and(...conditions))
+      .returning({ id: userSessions.id });
+    return revoked.length;
+  },
+
+  async revokeAll(userId: number, reason: string, revokedById?: number, exceptSessionId?: string) {
+    const conditions = [eq(userSessions.userId, userId), isNull(userSessions.revokedAt)];
+    if (exceptSessionId) conditions.push(ne(userSessions.id, exceptSessionId));
+
+    const revoked = await db.update(userSessions)
+      .set({ revokedAt: new Date(), revokedReason: reason, revokedById: revokedById || null })
+      .where(and(...conditions))
+      .returning({ id: userSessions.id });
+    return revoked.length;
+  },
+};
@@ -0,0 +1,434 @@
+import { db } from '../config/database';
+import { properties } from '../models/property';
+import { users } from '../models/user';
+import { siteVisits } from '../models/siteVisit';
+import { propertyAgentAssignments, propertyEmployeeAssignments } from '../models/propertyAssignment';
+import { eq, and, ne, gte, lt, lte, inArray, isNull, sql, SQL, getTableColumns } from 'drizzle-orm';
+import { KeysetSort, keyset, toPage } from '../utils/pagination';
+import { buildCalendar, CalendarEvent } from '../utils/ics';
+import {
+  SITE_VISIT_STATUS_LABELS,
+  SITE_VISIT_TRANSITIONS,
+  SiteVisitAction,
+  SiteVisitActor,
+  SiteVisitStatus,
+  checkVisitAction,
+  getAvailableVisitActions,
+  slotEnd,
+  slotsOverlap,
+  validateSlot,
+} from '../config/siteVisits';
+import { agentVisiblePropertyIds } from './propertySearchService';
+import { emitSiteVisitUpdated } from './socketService';
+import { pushService } from './pushService';
+
+const REMINDER_INTERVAL_MS = Number(process.env.SITE_VISIT_REMINDER_INTERVAL_MS ?? 5 * 60 * 1000);
+const REMINDER_LEAD_HOURS = Number(process.env.SITE_VISIT_REMINDER_LEAD_HOURS ?? 24);
+const CALENDAR_PAST_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type SiteVisitRow = typeof siteVisits.$inferSelect;
+
+// The agent or employee acting on a visit
+export interface VisitStaff {
+  userId: number;
+  role?: string | null;
+}
+
+export interface VisitActionInput {
+  scheduledAt?: Date;
+  durationMinutes?: number;
+  reason?: string;
+}
+
+let reminderTimer: NodeJS.Timeout | null = null;
+let sendingReminders = false;
+
+const upcomingSort: KeysetSort = { name: 'upcoming', key: siteVisits.scheduledAt, keyType: 'timestamp', id: siteVisits.id, direction: 'asc' };
+const latestSort: KeysetSort = { name: 'latest', key: siteVisits.scheduledAt, keyType: 'timestamp', id: siteVisits.id, direction: 'desc' };
+
+const propertySummary = {
+  id: properties.id,
+  title: properties.title,
+  location: properties.location,
+  images: properties.images,
+  map: properties.map,
+};
+
+const formatSlot = (date: Date) =>
+  date.toLocaleString('en-IN', { timeZone: 'Asia/Kolkata', dateStyle: 'medium', timeStyle: 'short' });
+
+const isUniqueViolation = (error: any) => error?.code === '23505';
+
+// Properties the agent or employee handles visits for
+const managedPropertyIds = async (staff: VisitStaff) => {
+  if (staff.role === 'agent') return agentVisiblePropertyIds(staff.userId);
+
+  const assignments = await db
+    .select({ propertyId: propertyEmployeeAssignments.propertyId })
+    .from(propertyEmployeeAssignments)
+    .where(eq(propertyEmployeeAssignments.employeeId, staff.userId));
+  return assignments.map(assignment => assignment.propertyId);
+};
+
+const canManage = async (staff: VisitStaff, propertyId: string) => {
+  if (staff.role === 'agent') return (await agentVisiblePropertyIds(staff.userId)).includes(propertyId);
+
+  const [assignment] = await db
+    .select({ id: propertyEmployeeAssignments.id })
+    .from(propertyEmployeeAssignments)
+    .where(and(eq(propertyEmployeeAssignments.propertyId, propertyId), eq(propertyEmployeeAssignments.employeeId, staff.userId)))
+    .limit(1);
+  return !!assignment;
+};
+
+// Agents and employees currently assigned to the property
+const propertyStaffIds = async (propertyId: string) => {
+  const [agents, employees] = await Promise.all([
+    db.select({ userId: propertyAgentAssignments.agentId }).from(propertyAgentAssignments).where(eq(propertyAgentAssignments.propertyId, propertyId)),
+    db.select({ userId: propertyEmployeeAssignments.employeeId }).from(propertyEmployeeAssignments).where(eq(propertyEmployeeAssignments.propertyId, propertyId)),
+  ]);
+  return [...new Set([...agents, ...employees].map(assignment => assignment.userId))];
+};
+
+// Another open visit the staff member is handling at the same time
+const findClash = async (staffId: number, visitId: string, slot: { start: Date; durationMinutes: number }) => {
+  const candidates = await db
+    .select({ id: siteVisits.id, scheduledAt: siteVisits.scheduledAt, durationMinutes: siteVisits.durationMinutes })
+    .from(siteVisits)
+    .where(and(
+      eq(siteVisits.handledById, staffId),
+      ne(siteVisits.id, visitId),
+      inArray(siteVisits.status, ['confirmed', 'checked_in']),
+      lt(siteVisits.scheduledAt, slotEnd(slot.start, slot.durationMinutes)),
+      gte(siteVisits.scheduledAt, new Date(slot.start.getTime() - DAY_MS))
+    ));
+  return candidates.find(visit => slotsOverlap(slot, { start: visit.scheduledAt, durationMinutes: visit.durationMinutes }));
+};
+
+export const siteVisitService = {
+  async request(customerId: number, input: { propertyId: string; scheduledAt: Date; durationMinutes: number; note?: string | null }) {
+    const [property] = await db
+      .select({ id: properties.id, title: properties.title })
+      .from(properties)
+      .where(and(eq(properties.id, input.propertyId), eq(properties.deleted, false)))
+      .limit(1);
+    if (!property) return { error: 'not_found' as const, message: 'Property not found' };
+
+    const slotError = validateSlot(input.scheduledAt, input.durationMinutes);
+    if (slotError) return { error: 'invalid' as const, message: slotError };
+
+    let visit: SiteVisitRow;
+    try {
+      [visit] = await db.insert(siteVisits).values({
+        propertyId: input.propertyId,
+        customerId,
+        scheduledAt: input.scheduledAt,
+        durationMinutes: input.durationMinutes,
+        customerNote: input.note || null,
+      }).returning();
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return { error: 'conflict' as const, message: 'You already have an open visit request for this property' };
+      }
+      throw error;
+    }
+
+    const staffIds = await propertyStaffIds(input.propertyId);
+    emitSiteVisitUpdated(staffIds, visit);
+    await pushService.sendToUsers(staffIds, {
+      title: 'New site visit request',
+      body: `${property.title} on ${formatSlot(visit.scheduledAt)}`,
+      data: { type: 'site_visit_requested', siteVisitId: visit.id, propertyId: property.id },
+    });
+
+    console.log(`📋 Site visit ${visit.id} requested by customer ${customerId} for property ${property.id}`);
+    return { visit };
+  },
+
+  async listForCustomer(customerId: number, options: { status?: SiteVisitStatus; cursor?: string; limit: number }) {
+    const page = keyset(latestSort, options.cursor);
+    if (page.error) return { error: 'invalid' as const, message: page.error };
+
+    const conditions: SQL[] = [eq(siteVisits.customerId, customerId)];
+    if (options.status) conditions.push(eq(siteVisits.status, options.status));
+    if (page.where) conditions.push(page.where);
+
+    const rows = await db
+      .select({ ...getTableColumns(siteVisits), property: propertySummary, cursorKey: page.cursorKey })
+      .from(siteVisits)
+      .innerJoin(properties, eq(siteVisits.propertyId, properties.id))
+      .where(and(...conditions))
+      .orderBy(...page.orderBy)
+      .limit(options.limit + 1);
+
+    const { data, nextCursor, hasMore } = toPage(rows, options.limit, latestSort);
+    return {
+      data: data.map(visit => ({ ...visit, availableActions: getAvailableVisitActions(visit, 'customer') })),
+      nextCursor,
+      hasMore,
+    };
+  },
+
+  async getForCustomer(customerId: number, visitId: string) {
+    const [visit] = await db
+      .select({ ...getTableColumns(siteVisits), property: propertySummary })
+      .from(siteVisits)
+      .innerJoin(properties, eq(siteVisits.propertyId, properties.id))
+      .where(and(eq(siteVisits.id, visitId), eq(siteVisits.customerId, customerId)))
+      .limit(1);
+    return visit ? { ...visit, availableActions: getAvailableVisitActions(visit, 'customer') } : null;
+  },
+
+  // Visits on the staff member's properties, soonest first. `from`/`to` bound the scheduled time.
+  async listAssigned(staff: VisitStaff, options: { status?: SiteVisitStatus; propertyId?: string; from?: Date; to?: Date; cursor?: string; limit: number }) {
+    const page = keyset(upcomingSort, options.cursor);
+    if (page.error) return { error: 'invalid' as const, message: page.error };
+
+    const propertyIds = await managedPropertyIds(staff);
+    if (propertyIds.length === 0) return { data: [], nextCursor: null, hasMore: false };
+
+    const conditions: SQL[] = [inArray(siteVisits.propertyId, propertyIds)];
+    if (options.status) conditions.push(eq(siteVisits.status, options.status));
+    if (options.propertyId) conditions.push(eq(siteVisits.propertyId, options.propertyId));
+    if (options.from) conditions.push(gte(siteVisits.scheduledAt, options.from));
+    if (options.to) conditions.push(lte(siteVisits.scheduledAt, options.to));
+    if (page.where) conditions.push(page.where);
+
+    const rows = await db
+      .select({
+        ...getTableColumns(siteVisits),
+        property: propertySummary,
+        customer: { id: users.id, name: users.name, phone: users.phone },
+        cursorKey: page.cursorKey,
+      })
+      .from(siteVisits)
+      .innerJoin(properties, eq(siteVisits.propertyId, properties.id))
+      .innerJoin(users, eq(siteVisits.customerId, users.id))
+      .where(and(...conditions))
+      .orderBy(...page.orderBy)
+      .limit(options.limit + 1);
+
+    const { data, nextCursor, hasMore } = toPage(rows, options.limit, upcomingSort);
+    return {
+      data: data.map(visit => ({ ...visit, availableActions: getAvailableVisitActions(visit, 'staff') })),
+      nextCursor,
+      hasMore,
+    };
+  },
+
+  // Applies a workflow action. The status in the WHERE clause makes concurrent actions on the same visit
+  // fail with a conflict instead of overwriting each other.
+  async act(visitId: string, action: SiteVisitAction, actor: { kind: SiteVisitActor } & VisitStaff, input: VisitActionInput = {}) {
+    const [existing] = await db.select().from(siteVisits).where(eq(siteVisits.id, visitId)).limit(1);
+    const visible = existing && (actor.kind === 'customer'
+      ? existing.customerId === actor.userId
+      : await canManage(actor, existing.propertyId));
+    if (!visible) return { error: 'not_found' as const, message: 'Site visit not found' };
+
+    const check = checkVisitAction(action, existing, actor.kind);
+    if (!check.allowed) return { error: 'invalid' as const, message: check.message };
+
+    const now = new Date();
+    const transition = SITE_VISIT_TRANSITIONS[action];
+    const changes: Partial<typeof siteVisits.$inferInsert> = { status: transition.to, updatedAt: now };
+    if (transition.stamp) changes[transition.stamp] = now;
+    if (actor.kind === 'staff') changes.handledById = actor.userId;
+
+    if (action === 'cancel') {
+      if (actor.kind === 'staff' && !input.reason?.trim()) {
+        return { error: 'invalid' as const, message: 'A reason is required to cancel a visit' };
+      }
+      changes.cancelReason = input.reason?.trim() || null;
+      changes.cancelledById = actor.userId;
+    }
+
+    const slot = action === 'reschedule'
+      ? { start: input.scheduledAt!, durationMinutes: input.durationMinutes ?? existing.durationMinutes }
+      : { start: existing.scheduledAt, durationMinutes: existing.durationMinutes };
+
+    if (action === 'reschedule') {
+      const slotError = input.scheduledAt ? validateSlot(slot.start, slot.durationMinutes, now) : 'scheduledAt is required to reschedule';
+      if (slotError) return { error: 'invalid' as const, message: slotError };
+
+      Object.assign(changes, {
+        scheduledAt: slot.start,
+        durationMinutes: slot.durationMinutes,
+        rescheduledFrom: existing.scheduledAt,
+        rescheduleCount: existing.rescheduleCount + 1,
+        rescheduleReason: input.reason?.trim() || null,
+        reminderSentAt: null,
+      });
+    }
+
+    if ((action === 'confirm' || action === 'reschedule') && await findClash(actor.userId, existing.id, slot)) {
+      return { error: 'conflict' as const, message: 'You already have a visit at this time' };
+    }
+
+    const [visit] = await db
+      .update(siteVisits)
+      .set(changes)
+      .where(and(eq(siteVisits.id, existing.id), eq(siteVisits.status, existing.status)))
+      .returning();
+    if (!visit) return { error: 'conflict' as const, message: 'The visit was changed by someone else, reload and try again' };
+
+    await this.notifyAction(existing, visit, action, actor)
+      .catch(error => console.error(`❌ Site visit notification failed for ${visit.id}:`, error));
+
+    console.log(`📋 Site visit ${visit.id} ${action} by ${actor.kind} ${actor.userId}: ${existing.status} → ${visit.status}`);
+    return { visit };
+  },
+
+  // Staff actions are sent to the customer; customer cancellations to the property's staff
+  async notifyAction(before: SiteVisitRow, after: SiteVisitRow, action: SiteVisitAction, actor: { kind: SiteVisitActor; userId: number }) {
+    const [property] = await db.select({ title: properties.title }).from(properties).where(eq(properties.id, after.propertyId)).limit(1);
+    const title = property?.title || 'the property';
+
+    const recipients = actor.kind === 'customer'
+      ? (await propertyStaffIds(after.propertyId)).filter(userId => userId !== actor.userId)
+      : [after.customerId];
+    emitSiteVisitUpdated(recipients, after, { from: before.status, action });
+
+    const body = action === 'reschedule'
+      ? `Your visit to ${title} moved to ${formatSlot(after.scheduledAt)}`
+      : action === 'confirm'
+        ? `Your visit to ${title} on ${formatSlot(after.scheduledAt)} is confirmed`
+        : actor.kind === 'customer'
+          ? `The visit to ${title} on ${formatSlot(after.scheduledAt)} was cancelled by the customer`
+          : `Your visit to ${title}: ${SITE_VISIT_STATUS_LABELS[after.status as SiteVisitStatus] || after.status}`;
+
+    // Check-in and completion happen with the customer on site; only booking changes are pushed
+    if (action === 'confirm' || action === 'reschedule' || action === 'cancel') {
+      await pushService.sendToUsers(recipients, {
+        title: 'Site visit update',
+        body,
+        data: { type: 'site_visit_updated', siteVisitId: after.id, status: after.status },
+      });
+    }
+  },
+
+  async leaveFeedback(customerId: number, visitId: string, input: { rating: number; comment?: string | null }) {
+    const [visit] = await db
+      .update(siteVisits)
+      .set({ feedbackRating: input.rating, feedbackComment: input.comment || null, feedbackAt: new Date(), updatedAt: new Date() })
+      .where(and(
+        eq(siteVisits.id, visitId),
+        eq(siteVisits.customerId, customerId),
+        eq(siteVisits.status, 'completed'),
+        isNull(siteVisits.feedbackAt)
+      ))
+      .returning();
+    if (visit) return { visit };
+
+    const existing = await this.getForCustomer(customerId, visitId);
+    if (!existing) return { error: 'not_found' as const, message: 'Site visit not found' };
+    if (existing.feedbackAt) return { error: 'conflict' as const, message: 'Feedback was already given for this visit' };
+    return { error: 'invalid' as const, message: 'Feedback can be given once the visit is completed' };
+  },
+
+  // ICS feed of the staff member's visits from the last 30 days on; cancelled visits stay in the feed so
+  // subscribed calendars remove them
+  async calendar(staff: VisitStaff) {
+    const propertyIds = await managedPropertyIds(staff);
+    const rows = propertyIds.length === 0 ? [] : await db
+      .select({
+        ...getTableColumns(siteVisits),
+        property: { title: properties.title, location: properties.location },
+        customer: { name: users.name, phone: users.phone },
+      })
+      .from(siteVisits)
+      .innerJoin(properties, eq(siteVisits.propertyId, properties.id))
+      .innerJoin(users, eq(siteVisits.customerId, users.id))
+      .where(and(
+        inArray(siteVisits.propertyId, propertyIds),
+        gte(siteVisits.scheduledAt, new Date(Date.now() - CALENDAR_PAST_DAYS * DAY_MS))
+      ))
+      .orderBy(siteVisits.scheduledAt);
+
+    const events: CalendarEvent[] = rows.map(visit => ({
+      uid: `site-visit-${visit.id}@maruthi`,
+      start: visit.scheduledAt,
+      end: slotEnd(visit.scheduledAt, visit.durationMinutes),
+      summary: `Site visit: ${visit.property.title}`,
+      description: [
+        `Customer: ${visit.customer.name || 'Customer'} (${visit.customer.phone})`,
+        `Status: ${SITE_VISIT_STATUS_LABELS[visit.status as SiteVisitStatus] || visit.status}`,
+        visit.customerNote ? `Note: ${visit.customerNote}` : null,
+      ].filter(Boolean).join('\n'),
+      location: visit.property.location,
+      status: visit.status === 'cancelled' ? 'CANCELLED' : visit.status === 'requested' ? 'TENTATIVE' : 'CONFIRMED',
+      updatedAt: visit.updatedAt,
+    }));
+
+    return buildCalendar('Site visits', events);
+  },
+
+  // Reminds customers and the handling staff of confirmed visits starting within the lead time
+  async sendDueReminders() {
+    if (sendingReminders) return 0;
+    sendingReminders = true;
+
+    try {
+      const now = new Date();
+      const due = await db
+        .select({ ...getTableColumns(siteVisits), title: properties.title })
+        .from(siteVisits)
+        .innerJoin(properties, eq(siteVisits.propertyId, properties.id))
+        .where(and(
+          eq(siteVisits.status, 'confirmed'),
+          isNull(siteVisits.reminderSentAt),
+          gte(siteVisits.scheduledAt, now),
+          lte(siteVisits.scheduledAt, new Date(now.getTime() + REMINDER_LEAD_HOURS * 60 * 60 * 1000))
+        ));
+
+      for (const visit of due) {
+        // Claim the reminder first so a visit is never reminded twice
+        const [claimed] = await db
+          .update(siteVisits)
+          .set({ reminderSentAt: now })
+          .where(and(eq(siteVisits.id, visit.id), isNull(siteVisits.reminderSentAt)))
+          .returning({ id: siteVisits.id });
+        if (!claimed) continue;
+
+        const when = formatSlot(visit.scheduledAt);
+        await pushService.sendToUsers([visit.customerId], {
+          title: 'Upcoming site visit',
+          body: `Your visit to ${visit.title} is on ${when}`,
+          data: { type: 'site_visit_reminder', siteVisitId: visit.id },
+        });
+        if (visit.handledById) {
+          await pushService.sendToUsers([visit.handledById], {
+            title: 'Upcoming site visit',
+            body: `${visit.title} on ${when}`,
+            data: { type: 'site_visit_reminder', siteVisitId: visit.id },
+          });
+        }
+      }
+
+      if (due.length > 0) {
+        console.log(`⏰ Sent reminders for ${due.length} upcoming site visit(s)`);
+      }
+      return due.length;
+    } finally {
+      sendingReminders = false;
+    }
+  },
+
+  startReminders() {
+    if (reminderTimer || REMINDER_INTERVAL_MS <= 0) return;
+
+    reminderTimer = setInterval(() => {
+      this.sendDueReminders().catch(error => console.error('❌ Site visit reminder error:', error));
+    }, REMINDER_INTERVAL_MS);
+    reminderTimer.unref();
+
+    console.log(`⏰ Site visit reminders running every ${Math.round(REMINDER_INTERVAL_MS / 1000)}s`);
+  },
+
+  stopReminders() {
+    if (reminderTimer) {
+      clearInterval(reminderTimer);
+      reminderTimer = null;
+    }
+  },
+};
@@ -0,0 +1,135 @@
+import { db } from '../config/database';
+import { loanRequests, loanRequestAuditLogs } from '../models/loanRequest';
+import { loanSlaPolicies, slaCalendars } from '../models/slaPolicy';
+import { adminSlaConfigs } from '../models/exportJob';
+import { eq, and, isNull, isNotNull, lt, sql } from 'drizzle-orm';
+import { cacheService } from './cacheService';
+import { emitToEmployee } from './socketService';
+import { resolveSlaPolicy } from '../utils/slaCalendar';
+import { LoanStatus, getSlaDueAt } from '../config/loanWorkflow';
+
+const DEFAULT_SLA_HOURS = 24;
+const POLICY_CACHE_KEY = 'sla:policies';
+const SWEEP_INTERVAL_MS = Number(process.env.LOAN_SLA_SWEEP_INTERVAL_MS ?? 5 * 60 * 1000);
+
+type SlaPolicy = typeof loanSlaPolicies.$inferSelect;
+type SlaCalendar = typeof slaCalendars.$inferSelect;
+
+interface SlaSubject {
+  priority?: string | null;
+  loanType: string;
+}
+
+let sweepTimer: NodeJS.Timeout | null = null;
+let sweeping = false;
+
+export const slaService = {
+  async getDefaultHours() {
+    const [config] = await db.select().from(adminSlaConfigs).where(eq(adminSlaConfigs.configKey, 'loan_request_sla_hours')).limit(1);
+    const hours = Number((config?.configValue as { hours?: number } | undefined)?.hours);
+    return hours > 0 ? hours : DEFAULT_SLA_HOURS;
+  },
+
+  async loadPolicies(): Promise<{ policies: SlaPolicy[]; calendars: SlaCalendar[] }> {
+    const cached = cacheService.get(POLICY_CACHE_KEY);
+    if (cached) return cached;
+
+    const policies = await db.select().from(loanSlaPolicies).where(eq(loanSlaPolicies.active, true));
+    const calendars = await db.select().from(slaCalendars);
+    const result = { policies, calendars };
+    cacheService.set(POLICY_CACHE_KEY, result, 60);
+    return result;
+  },
+
+  invalidatePolicies() {
+    cacheService.invalidate(POLICY_CACHE_KEY);
+  },
+
+  // Response hours and working calendar of the policy matching the request, or the default wall-clock window
+  async resolveSla(subject: SlaSubject): Promise<{ hours: number; calendar: SlaCalendar | null }> {
+    const { policies, calendars } = await this.loadPolicies();
+    const policy = resolveSlaPolicy<SlaPolicy>(policies, subject);
+
+    if (!policy) return { hours: await this.getDefaultHours(), calendar: null };
+    return { hours: policy.responseHours, calendar: calendars.find(c => c.id === policy.calendarId) || null };
+  },
+
+  // Due date for a request entering `to`; finished requests have none
+  async computeDueAt(subject: SlaSubject, from: Date = new Date(), to: LoanStatus = 'received') {
+    const { hours, calendar } = await this.resolveSla(subject);
+    return getSlaDueAt(to, from, hours, calendar);
+  },
+
+  // Marks open requests past their due date as breached, escalates them and tells the assignee
+  async sweep() {
+    if (sweeping) return 0;
+    sweeping = true;
+
+    try {
+      const now = new Date();
+      const breached = await db
+        .update(loanRequests)
+        .set({
+          slaBreachedAt: now,
+          isEscalated: true,
+          priority: 'high',
+          escalationReason: sql`COALESCE(${loanRequests.escalationReason}, 'SLA breached')`,
+          version: sql`${loanRequests.version} + 1`,
+          updatedAt: now,
+        })
+        .where(and(
+          isNotNull(loanRequests.slaDueAt),
+          lt(loanRequests.slaDueAt, now),
+          isNull(loanRequests.slaBreachedAt),
+          isNull(loanRequests.deletedAt),
+          sql`${loanRequests.status} NOT IN ('closed', 'rejected', 'withdrawn')`
+        ))
+        .returning({ id: loanRequests.id, assigneeId: loanRequests.assigneeId, slaDueAt: loanRequests.slaDueAt, status: loanRequests.status });
+
+      for (const ticket of breached) {
+        await db.insert(loanRequestAuditLogs).values({
+          loanRequestId: ticket.id,
+          actorId: null,
+          action: 'sla_breached',
+          oldValue: ticket.slaDueAt?.toISOString() || null,
+          newValue: 'high',
+          comment: 'Auto-escalated by SLA sweeper',
+        });
+
+        if (ticket.assigneeId) {
+          emitToEmployee(ticket.assigneeId, 'loan_request_sla_breached', {
+            loanRequestId: ticket.id,
+            status: ticket.status,
+            slaDueAt: ticket.slaDueAt,
+            timestamp: now.toISOString(),
+          });
+        }
+      }
+
+      if (breached.length > 0) {
+        console.log(`⏰ SLA sweeper escalated ${breached.length} overdue loan request(s)`);
+      }
+      return breached.length;
+    } finally {
+      sweeping = false;
+    }
+  },
+
+  startSweeper() {
+    if (sweepTimer || SWEEP_INTERVAL_MS <= 0) return;
+
+    sweepTimer = setInterval(() => {
+      this.sweep().catch(error => console.error('❌ SLA sweep error:', error));
+    }, SWEEP_INTERVAL_MS);
+    sweepTimer.unref();
+
+    console.log(`⏰ SLA sweeper running every ${Math.round(SWEEP_INTERVAL_MS / 1000)}s`);
+  },
+
+  stopSweeper() {
+    if (sweepTimer) {
+      clearInterval(sweepTimer);
+      sweepTimer = null;
+    }
+  },
+};
@@ -42,7 +42,7 @@ export const initializeSocket = (server: HTTPServer) => {
     // Join role-specific room
     if (socket.userRole === 'employee') {
       socket.join(`employee:${socket.userId}`);
-    } else if (socket.userRole === 'agent' || socket.userRole === 'Agent') {
+    } else if (socket.userRole === 'agent') {
       socket.join(`agent:${socket.userId}`);
     }
 
@@ -146,4 +146,96 @@ export const emitTypingIndicator = (conversationId: string, userId: number, isTy
       timestamp: new Date().toISOString()
     });
   }
-};
\ No newline at end of file
+};
+export const emitLoanRequestUpdated = (userIds: number[], loanRequest: { id: string; status: string }, change: { from: string; to: string }) => {
+  if (io && userIds.length > 0) {
+    io.to(userIds.map(userId => `user:${userId}`)).emit('loan_request_updated', {
+      loanRequestId: loanRequest.id,
+      status: loanRequest.status,
+      change,
+      timestamp: new Date().toISOString()
+    });
+  }
+};
+
+export const emitExportJobUpdated = (userId: number, job: { id: string; status: string; jobType: string; errorMessage?: string | null }) => {
+  if (io) {
+    io.to(`user:${userId}`).emit('export_job_updated', {
+      jobId: job.id,
+      jobType: job.jobType,
+      status: job.status,
+      errorMessage: job.errorMessage || null,
+      timestamp: new Date().toISOString()
+    });
+  }
+};
+
+export const emitLoanRequestComment = (userIds: number[], loanRequestId: string, comment: { id: string; text: string; authorId: number; createdAt: Date }) => {
+  if (io && userIds.length > 0) {
+    io.to(userIds.map(userId => `user:${userId}`)).emit('loan_request_comment', {
+      loanRequestId,
+      comment,
+      timestamp: new Date().toISOString()
+    });
+  }
+};
+
+export const emitLoanDocumentReviewed = (userId: number, loanRequestId: string, document: { id: string; documentType: string; status: string; rejectionReason?: string | null }) => {
+  if (io) {
+    io.to(`user:${userId}`).emit('loan_document_reviewed', {
+      loanRequestId,
+      documentId: document.id,
+      documentType: document.documentType,
+      status: document.status,
+      rejectionReason: document.rejectionReason || null,
+      timestamp: new Date().toISOString()
+    });
+  }
+};
+
+export const emitPropertyPriceDropped = (userIds: number[], property: { id: string; title: string }, change: { oldPrice: number; newPrice: number }) => {
+  if (io && userIds.length > 0) {
+    io.to(userIds.map(userId => `user:${userId}`)).emit('property_price_dropped', {
+      propertyId: property.id,
+      title: property.title,
+      ...change,
+      timestamp: new Date().toISOString()
+    });
+  }
+};
+
+export const emitSavedSearchMatch = (userIds: number[], property: { id: string; title: string; location: string }) => {
+  if (io && userIds.length > 0) {
+    io.to(userIds.map(userId => `user:${userId}`)).emit('saved_search_match', {
+      propertyId: property.id,
+      title: property.title,
+      location: property.location,
+      timestamp: new Date().toISOString()
+    });
+  }
+};
+
+export const emitSiteVisitUpdated = (userIds: number[], visit: { id: string; propertyId: string; status: string; scheduledAt: Date }, change?: { from: string; action: string }) => {
+  if (io && userIds.length > 0) {
+    io.to(userIds.map(userId => `user:${userId}`)).emit('site_visit_updated', {
+      siteVisitId: visit.id,
+      propertyId: visit.propertyId,
+      status: visit.status,
+      scheduledAt: visit.scheduledAt,
+      ...change,
+      timestamp: new Date().toISOString()
+    });
+  }
+};
+
+export const emitLeadAssigned = (userId: number, lead: { id: string; propertyId: string | null; source: string; stage: string }) => {
+  if (io) {
+    io.to(`user:${userId}`).emit('lead_assigned', {
+      leadId: lead.id,
+      propertyId: lead.propertyId,
+      source: lead.source,
+      stage: lead.stage,
+      timestamp: new Date().toISOString()
+    });
+  }
+};
@@ -1,21 +1,32 @@
+import { OtpProvider, OtpSendResult, OtpVerifyResult } from './otpService';
+
 interface TwoFactorResponse {
   Status: string;
   Details: string;
   OTP?: string;
 }
 
-class TwoFactorService {
+class TwoFactorService implements OtpProvider {
+  readonly name = '2factor';
   private apiKey: string;
   private baseUrl = 'https://2factor.in/API/V1';
 
   constructor() {
     this.apiKey = process.env.TWO_FACTOR_API_KEY!;
-    if (!this.apiKey) {
-      throw new Error('TWO_FACTOR_API_KEY is required');
-    }
   }
 
-  async sendOTP(phone: string): Promise<{ success: boolean; sessionId?: string; message: string }> {
+  isConfigured(): boolean {
+    return Boolean(this.apiKey);
+  }
+
+  async sendOTP(phone: string): Promise<OtpSendResult> {
+    if (!this.isConfigured()) {
+      return {
+        success: false,
+        message: 'TWO_FACTOR_API_KEY is required'
+      };
+    }
+
     try {
       const templateName = process.env.TWO_FACTOR_TEMPLATE || 'AUTOGEN';
       let url: string;
@@ -58,7 +69,14 @@ class TwoFactorService {
     }
   }
 
-  async verifyOTP(sessionId: string, otp: string): Promise<{ success: boolean; message: string }> {
+  async verifyOTP(sessionId: string, otp: string): Promise<OtpVerifyResult> {
+    if (!this.isConfigured()) {
+      return {
+        success: false,
+        message: 'TWO_FACTOR_API_KEY is required'
+      };
+    }
+
     try {
       const url = `${this.baseUrl}/${this.apiKey}/SMS/VERIFY/${sessionId}/${otp}`;
       
@@ -1,3 +1,22 @@
+import { z } from 'zod';
+
+// Canonical values stored in users.role / users.department (Postgres enums user_role / user_department)
+export const USER_ROLES = ['customer', 'agent', 'employee', 'admin'] as const;
+export type UserRole = typeof USER_ROLES[number];
+
+export const DEPARTMENTS = ['finance', 'sales', 'operations', 'marketing', 'other'] as const;
+export type Department = typeof DEPARTMENTS[number];
+
+// Accepts any casing from clients ("Finance", " finance ") and yields the canonical value
+export const departmentSchema = z.preprocess(
+  (value) => (typeof value === 'string' ? value.trim().toLowerCase() : value),
+  z.enum(DEPARTMENTS, { message: 'Invalid department' })
+);
+
+// Loan products customers can apply for (loan_requests.loan_type)
+export const LOAN_TYPES = ['Home Loan', 'Plot Loan', 'Construction Loan', 'Home Improvement Loan', 'Balance Transfer', 'Top-Up Loan'] as const;
+export type LoanType = typeof LOAN_TYPES[number];
+
 export interface User {
   id: number;
   phone: string;
@@ -7,7 +26,7 @@ export interface User {
   dateOfBirth?: Date;
   profileImgUrl?: string;
   profileCompleted: boolean;
-  role: string;
+  role: UserRole;
   createdAt: Date;
   lastLogin: Date;
 }
@@ -16,4 +35,4 @@ export interface AuthResponse {
   token: string;
   user: User;
   profileCompleted: boolean;
-}
\ No newline at end of file
+}
@@ -1,7 +1,7 @@
-import { S3Client, PutObjectCommand } from '@aws-sdk/client-s3';
+import { S3Client, PutObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 
-const s3Client = new S3Client({
+export const s3Client = new S3Client({
   region: 'auto',
   endpoint: `https://${process.env.R2_ACCOUNT_ID}.r2.cloudflarestorage.com`,
   credentials: {
@@ -10,6 +10,18 @@ const s3Client = new S3Client({
   },
 });
 
+// Public objects (property images, banners) are served from R2_PUBLIC_URL. Private objects (identity and
+// income proofs) live in a bucket with no public access and are only read through short-lived signed links.
+export type StorageVisibility = 'public' | 'private';
+
+export const PRIVATE_UPLOAD_PURPOSES: readonly string[] = ['loan_document'];
+
+export const visibilityForPurpose = (purpose: string): StorageVisibility =>
+  PRIVATE_UPLOAD_PURPOSES.includes(purpose) ? 'private' : 'public';
+
+export const bucketFor = (visibility: StorageVisibility) =>
+  visibility === 'private' ? process.env.R2_PRIVATE_BUCKET_NAME! : process.env.R2_BUCKET_NAME!;
+
 export const generateUploadUrl = async (fileName: string, contentType: string, purpose: string = 'profile') => {
   const folder = purpose === 'property_image' ? 'properties' : 
                  purpose === 'brochure' ? 'brochures' : 
@@ -27,4 +39,34 @@ export const generateUploadUrl = async (fileName: string, contentType: string, p
   const publicUrl = `${process.env.R2_PUBLIC_URL}/${key}`;
   
   return { uploadUrl, publicUrl, key };
-};
\ No newline at end of file
+};
+
+// Server-side upload for files the API generates itself (e.g. exports). Private objects get no public URL.
+export const uploadObject = async (key: string, body: Buffer, contentType: string, visibility: StorageVisibility = 'public') => {
+  await s3Client.send(new PutObjectCommand({
+    Bucket: bucketFor(visibility),
+    Key: key,
+    Body: body,
+    ContentType: contentType,
+  }));
+
+  return { key, publicUrl: visibility === 'public' ? `${process.env.R2_PUBLIC_URL}/${key}` : null };
+};
+
+// Attachment header for a user-supplied file name: an ASCII-only quoted fallback plus the exact name as an
+// RFC 5987 filename*, so quotes, semicolons or line breaks in the name cannot break out of the header
+export const attachmentDisposition = (fileName: string) => {
+  const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  const encoded = encodeURIComponent(fileName).replace(/['()*!]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+};
+
+export const generateDownloadUrl = async (key: string, fileName: string, expiresIn: number = 900, visibility: StorageVisibility = 'public') => {
+  const command = new GetObjectCommand({
+    Bucket: bucketFor(visibility),
+    Key: key,
+    ResponseContentDisposition: attachmentDisposition(fileName),
+  });
+
+  return getSignedUrl(s3Client, command, { expiresIn });
+};
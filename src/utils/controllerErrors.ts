@@ -0,0 +1,17 @@
+import { Response } from 'express';
+import { z } from 'zod';
+
+// Error kinds services return as `{ error, message }` instead of throwing
+export type ServiceError = 'not_found' | 'conflict' | 'invalid';
+
+export const statusFor = (error: ServiceError) =>
+  error === 'not_found' ? 404 : error === 'conflict' ? 409 : 400;
+
+// Catch-all for controller handlers: validation errors become 400s with the first issue, anything else a logged 500
+export const handleError = (res: Response, error: any, message: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: error.issues[0].message });
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({ message });
+};
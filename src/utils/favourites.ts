@@ -0,0 +1,26 @@
+import { sql } from 'drizzle-orm';
+import { properties } from '../models/property';
+import { propertyFavourites } from '../models/propertyFavourite';
+import { KeysetSort } from './pagination';
+
+// Number of customers who favourited the property in the surrounding query
+export const favouriteCountSql = sql<number>`(SELECT count(*)::int FROM ${propertyFavourites} WHERE ${propertyFavourites.propertyId} = ${properties.id})`;
+
+// Most favourited first, for staff property lists
+export const popularPropertySort: KeysetSort = { name: 'popular', key: favouriteCountSql, keyType: 'number', id: properties.id, direction: 'desc' };
+
+export interface FavouriteEdit {
+  collectionId?: number | null;
+  note?: string | null;
+}
+
+// Columns an add or update sets: undefined leaves a field alone, null (or an empty note) clears it
+export const favouriteChanges = (input: FavouriteEdit) => ({
+  ...(input.collectionId !== undefined && { collectionId: input.collectionId }),
+  ...(input.note !== undefined && { note: input.note || null }),
+});
+
+// Favourites can only be filed under the customer's own collections (or none). `collection` is the row found
+// for `collectionId`, whoever owns it, so other customers' collections are treated as missing.
+export const canUseCollection = (userId: number, collectionId: number | null | undefined, collection?: { userId: number } | null) =>
+  !collectionId || collection?.userId === userId;
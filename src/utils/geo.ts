@@ -0,0 +1,150 @@
+// Coordinate helpers for property map search
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface Bounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+export const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+export const isValidCoordinates = (latitude: number, longitude: number) =>
+  Number.isFinite(latitude) && Number.isFinite(longitude) &&
+  Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180 &&
+  // 0,0 is what broken geocoders and empty map pins produce, never a real listing
+  !(latitude === 0 && longitude === 0);
+
+const toCoordinates = (latText: string, lngText: string): Coordinates | null => {
+  const latitude = parseFloat(latText);
+  const longitude = parseFloat(lngText);
+  return isValidCoordinates(latitude, longitude) ? { latitude, longitude } : null;
+};
+
+const PAIR = '(-?\\d{1,3}(?:\\.\\d+)?)\\s*,\\s*(-?\\d{1,3}(?:\\.\\d+)?)';
+const PLACE_PIN = /!3d(-?\d{1,3}(?:\.\d+)?)!4d(-?\d{1,3}(?:\.\d+)?)/;
+const VIEWPORT = new RegExp(`@${PAIR}`);
+const QUERY_PARAMS = ['q', 'query', 'll', 'sll', 'center', 'destination', 'daddr'];
+const PLAIN_PAIR = new RegExp(`^${PAIR}$`);
+
+// Coordinates from a Google Maps style link or a bare "lat,lng" string. The place pin (!3d..!4d..) wins over
+// the viewport centre (@lat,lng); short links (maps.app.goo.gl) have to be expanded before they can be parsed.
+export const parseMapLink = (value: string | null | undefined): Coordinates | null => {
+  if (!value) return null;
+  const text = value.trim();
+
+  const plain = text.match(PLAIN_PAIR);
+  if (plain) return toCoordinates(plain[1], plain[2]);
+
+  let decoded = text;
+  try {
+    decoded = decodeURIComponent(text.replace(/\+/g, ' '));
+  } catch {
+    // Malformed escapes: parse the raw text
+  }
+
+  const pin = decoded.match(PLACE_PIN);
+  if (pin) return toCoordinates(pin[1], pin[2]);
+
+  try {
+    const url = new URL(text);
+    for (const param of QUERY_PARAMS) {
+      const match = url.searchParams.get(param)?.trim().match(PLAIN_PAIR);
+      if (match) return toCoordinates(match[1], match[2]);
+    }
+  } catch {
+    // Not a URL; fall through to the viewport pattern
+  }
+
+  const viewport = decoded.match(VIEWPORT);
+  return viewport ? toCoordinates(viewport[1], viewport[2]) : null;
+};
+
+// Great-circle distance
+export const haversineKm = (from: Coordinates, to: Coordinates) => {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+// Box that contains the circle, used to narrow rows with the lat/lng index before computing exact distances
+export const boundingBox = (center: Coordinates, radiusKm: number): Bounds => {
+  const angular = radiusKm / EARTH_RADIUS_KM;
+  const latDelta = angular * 180 / Math.PI;
+  // Widest longitude offset of the circle, which lies slightly poleward of the centre's parallel
+  const ratio = Math.sin(angular) / Math.cos(toRadians(center.latitude));
+  const lngDelta = ratio >= 1 ? 180 : Math.asin(ratio) * 180 / Math.PI;
+
+  const wrap = (longitude: number) => longitude > 180 ? longitude - 360 : longitude < -180 ? longitude + 360 : longitude;
+  return {
+    north: Math.min(90, center.latitude + latDelta),
+    south: Math.max(-90, center.latitude - latDelta),
+    east: lngDelta >= 180 ? 180 : wrap(center.longitude + lngDelta),
+    west: lngDelta >= 180 ? -180 : wrap(center.longitude - lngDelta),
+  };
+};
+
+// Map tiles are 256px at zoom 0 and double per level; pins closer than CLUSTER_CELL_PX on screen are merged
+export const MIN_ZOOM = 0;
+export const MAX_ZOOM = 22;
+const TILE_PX = 256;
+const CLUSTER_CELL_PX = 60;
+
+// Side of a clustering grid cell in degrees for a map zoom level
+export const clusterCellSize = (zoom: number) => {
+  const level = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, Math.round(zoom)));
+  return 360 / (TILE_PX * 2 ** level) * CLUSTER_CELL_PX;
+};
+
+const isSet = (value: unknown) => value !== undefined && value !== null && value !== '';
+
+type CoordinateInput = { latitude?: unknown; longitude?: unknown; map?: string | null };
+
+// Coordinates for a saved property: an explicit latitude/longitude pair wins, otherwise they are read from
+// the map link. `coordinates` is null when neither gives a location.
+export const resolveCoordinates = (input: CoordinateInput) => {
+  if (isSet(input.latitude) || isSet(input.longitude)) {
+    const latitude = Number(input.latitude);
+    const longitude = Number(input.longitude);
+    if (!isSet(input.latitude) || !isSet(input.longitude) || !isValidCoordinates(latitude, longitude)) {
+      return { error: 'Latitude and longitude must be a valid coordinate pair' };
+    }
+    return { coordinates: { latitude, longitude } };
+  }
+  return { coordinates: parseMapLink(input.map) };
+};
+
+// numeric(9, 6) column values
+export const coordinateColumns = (coordinates: Coordinates) => ({
+  latitude: coordinates.latitude.toFixed(6),
+  longitude: coordinates.longitude.toFixed(6),
+});
+
+// Coordinate columns an update sets. A given pair is resolved as on create, so an emptied pair falls back to the
+// map link and clears the columns when that gives no location either; a changed map link that can't be read
+// clears them too. Untouched coordinates and an unchanged map link leave the stored values alone.
+export const coordinateChanges = (input: CoordinateInput, storedMap?: string | null) => {
+  const pairGiven = input.latitude !== undefined || input.longitude !== undefined;
+  const mapChanged = input.map !== undefined && input.map !== storedMap;
+  if (!pairGiven && !mapChanged) return { columns: {} };
+
+  const location = resolveCoordinates({ ...input, map: input.map !== undefined ? input.map : storedMap });
+  if (location.error) return { error: location.error };
+  return { columns: location.coordinates ? coordinateColumns(location.coordinates) : { latitude: null, longitude: null } };
+};
+
+// Property payload with latitude/longitude filled from its coordinate pair or map link. An invalid pair is
+// dropped rather than saved; when nothing resolves, stored coordinates are left as they are.
+export const withCoordinates = <T extends CoordinateInput>(payload: T): T => {
+  const { coordinates } = resolveCoordinates(payload);
+  const { latitude, longitude, ...rest } = payload;
+  return (coordinates ? { ...rest, ...coordinateColumns(coordinates) } : rest) as T;
+};
@@ -0,0 +1,64 @@
+import { loanLenderSubmissions } from '../models/lender';
+
+export const SUBMISSION_STATUSES = ['submitted', 'sanctioned', 'disbursed', 'declined'] as const;
+export type SubmissionStatus = typeof SUBMISSION_STATUSES[number];
+
+// A lender decision only moves forward; declined and disbursed are final
+const SUBMISSION_TRANSITIONS: Record<string, SubmissionStatus[]> = {
+  submitted: ['sanctioned', 'declined'],
+  sanctioned: ['disbursed', 'declined'],
+};
+
+type SubmissionRow = typeof loanLenderSubmissions.$inferSelect;
+
+export interface SubmissionDecision {
+  status: SubmissionStatus;
+  lenderReference?: string;
+  sanctionedAmount?: number;
+  sanctionedRate?: number; // percent p.a.
+  disbursedAmount?: number;
+  declineReason?: string;
+}
+
+export const allowedSubmissionStatuses = (status: string) => SUBMISSION_TRANSITIONS[status] || [];
+
+// Columns to set for a lender decision, or why it is refused
+export const submissionStatusChanges = (submission: Pick<SubmissionRow, 'status' | 'sanctionedAmount'>, update: SubmissionDecision, now: Date) => {
+  if (!allowedSubmissionStatuses(submission.status).includes(update.status)) {
+    return { error: 'invalid_transition' as const, message: `Cannot move a ${submission.status} submission to ${update.status}` };
+  }
+
+  const changes: Partial<SubmissionRow> = { status: update.status, updatedAt: now };
+  if (update.lenderReference) changes.lenderReference = update.lenderReference;
+
+  if (update.status === 'sanctioned') {
+    if (!update.sanctionedAmount) return { error: 'invalid' as const, message: 'Sanctioned amount is required' };
+    changes.sanctionedAmount = update.sanctionedAmount;
+    changes.sanctionedRateBps = update.sanctionedRate ? Math.round(update.sanctionedRate * 100) : null;
+    changes.sanctionedAt = now;
+  } else if (update.status === 'disbursed') {
+    changes.disbursedAmount = update.disbursedAmount || submission.sanctionedAmount;
+    changes.disbursedAt = now;
+  } else if (update.status === 'declined') {
+    if (!update.declineReason?.trim()) return { error: 'invalid' as const, message: 'A decline reason is required' };
+    changes.declineReason = update.declineReason;
+    changes.declinedAt = now;
+  }
+
+  return { changes };
+};
+
+export interface LenderFunnel {
+  submitted: number;
+  pending: number;
+  sanctioned: number;
+  disbursed: number;
+}
+
+const rate = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 1000) / 10 : null);
+
+// Sanction rate is over cases the lender has decided; disbursal rate is over everything submitted
+export const conversionRates = (funnel: LenderFunnel) => ({
+  sanctionRate: rate(funnel.sanctioned, funnel.submitted - funnel.pending),
+  disbursalRate: rate(funnel.disbursed, funnel.submitted),
+});
@@ -0,0 +1,169 @@
+import { isTerminalStatus } from '../config/loanWorkflow';
+
+export interface AnalyticsLoanRow {
+  id: string;
+  loanType: string;
+  city: string | null;
+  status: string;
+  assigneeId: number | null;
+  createdAt: Date;
+  underReviewAt: Date | null;
+  contactedAt: Date | null;
+  closedAt: Date | null;
+}
+
+// A status_change audit entry
+export interface StatusEvent {
+  loanRequestId: string;
+  from: string | null;
+  to: string | null;
+  at: Date;
+}
+
+export const FUNNEL_STAGES = ['received', 'under_review', 'contacted', 'closed'] as const;
+export type FunnelStage = typeof FUNNEL_STAGES[number];
+
+export const AGING_BUCKETS: { label: string; maxDays: number | null }[] = [
+  { label: '0-1d', maxDays: 1 },
+  { label: '1-3d', maxDays: 3 },
+  { label: '3-7d', maxDays: 7 },
+  { label: '7-14d', maxDays: 14 },
+  { label: '14-30d', maxDays: 30 },
+  { label: '30d+', maxDays: null },
+];
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// Percentage with one decimal, null when there is nothing to divide by
+export const percent = (part: number, whole: number) => whole > 0 ? round1(part / whole * 100) : null;
+
+export const median = (values: number[]) => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const hoursBetween = (from: Date, to: Date) => (to.getTime() - from.getTime()) / HOUR;
+
+// Buckets items by key, appending to each bucket in place; rows without a key (null) are skipped
+const groupBy = <K, T>(items: T[], key: (item: T) => K | null) => {
+  const groups = new Map<K, T[]>();
+  for (const item of items) {
+    const name = key(item);
+    if (name === null) continue;
+    const group = groups.get(name);
+    if (group) group.push(item);
+    else groups.set(name, [item]);
+  }
+  return groups;
+};
+
+// Index in FUNNEL_STAGES of the furthest stage the request has reached; stage timestamps survive later moves
+export const furthestStage = (row: AnalyticsLoanRow) => {
+  if (row.status === 'closed' || row.closedAt) return 3;
+  if (row.status === 'contacted' || row.contactedAt) return 2;
+  if (row.status === 'under_review' || row.underReviewAt) return 1;
+  return 0;
+};
+
+export const buildFunnel = (rows: AnalyticsLoanRow[]) => {
+  const reached = FUNNEL_STAGES.map((_, index) => rows.filter(row => furthestStage(row) >= index).length);
+
+  return FUNNEL_STAGES.map((stage, index) => ({
+    stage,
+    count: reached[index],
+    fromPrevious: index === 0 ? null : percent(reached[index], reached[index - 1]),
+    fromReceived: percent(reached[index], reached[0]),
+  }));
+};
+
+// Closed (won) share per group, largest groups first
+export const conversionBy = (rows: AnalyticsLoanRow[], key: (row: AnalyticsLoanRow) => string) => {
+  return [...groupBy(rows, key)].map(([name, members]) => {
+    const closed = members.filter(row => row.status === 'closed').length;
+    const lost = members.filter(row => row.status === 'rejected' || row.status === 'withdrawn').length;
+    return {
+      name,
+      total: members.length,
+      closed,
+      lost,
+      open: members.length - closed - lost,
+      conversionRate: percent(closed, members.length),
+    };
+  }).sort((a, b) => b.total - a.total || a.name.localeCompare(b.name));
+};
+
+// Hours spent in each status, per completed stay. A request starts in 'received' at createdAt and every
+// status change ends the stay in the status it leaves; the current (unfinished) stay is not counted.
+export const stageDurations = (rows: Pick<AnalyticsLoanRow, 'id' | 'createdAt'>[], events: StatusEvent[]) => {
+  const eventsByRequest = groupBy(events, event => event.loanRequestId);
+
+  const durations: Record<string, number[]> = {};
+  for (const row of rows) {
+    let status = 'received';
+    let since = row.createdAt;
+
+    const ordered = (eventsByRequest.get(row.id) || []).sort((a, b) => a.at.getTime() - b.at.getTime());
+    for (const event of ordered) {
+      const left = event.from || status;
+      (durations[left] ||= []).push(hoursBetween(since, event.at));
+      status = event.to || status;
+      since = event.at;
+    }
+  }
+
+  return durations;
+};
+
+export const medianTimeInStage = (rows: Pick<AnalyticsLoanRow, 'id' | 'createdAt'>[], events: StatusEvent[]) => {
+  const durations = stageDurations(rows, events);
+  return Object.entries(durations).map(([stage, hours]) => ({
+    stage,
+    samples: hours.length,
+    medianHours: round1(median(hours)!),
+  }));
+};
+
+// Requests count once their SLA outcome is known: they were breached at some point, or finished without one
+export const slaHitRate = (rows: AnalyticsLoanRow[], breachedIds: Set<string>) => {
+  const breached = rows.filter(row => breachedIds.has(row.id)).length;
+  const met = rows.filter(row => !breachedIds.has(row.id) && isTerminalStatus(row.status)).length;
+  return { evaluated: breached + met, met, breached, hitRate: percent(met, breached + met) };
+};
+
+// Age of the still-open requests
+export const agingBuckets = (rows: AnalyticsLoanRow[], now: Date) => {
+  const counts = AGING_BUCKETS.map(bucket => ({ bucket: bucket.label, count: 0 }));
+
+  for (const row of rows) {
+    if (isTerminalStatus(row.status)) continue;
+    const ageDays = (now.getTime() - row.createdAt.getTime()) / DAY;
+    const index = AGING_BUCKETS.findIndex(bucket => bucket.maxDays === null || ageDays < bucket.maxDays);
+    counts[index].count++;
+  }
+
+  return counts;
+};
+
+// Per assignee: workload, outcomes and median hours from submission to review start
+export const employeePerformance = (rows: AnalyticsLoanRow[]) => {
+  return [...groupBy(rows, row => row.assigneeId || null)].map(([assigneeId, members]) => {
+    const responseHours = members.filter(row => row.underReviewAt).map(row => hoursBetween(row.createdAt, row.underReviewAt!));
+    const firstResponse = median(responseHours);
+    const closed = members.filter(row => row.status === 'closed').length;
+
+    return {
+      assigneeId,
+      assigned: members.length,
+      open: members.filter(row => !isTerminalStatus(row.status)).length,
+      closed,
+      rejected: members.filter(row => row.status === 'rejected').length,
+      conversionRate: percent(closed, members.length),
+      medianFirstResponseHours: firstResponse === null ? null : round1(firstResponse),
+    };
+  }).sort((a, b) => b.closed - a.closed || b.assigned - a.assigned);
+};
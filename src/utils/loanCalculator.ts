@@ -0,0 +1,122 @@
+// EMI, LTV and FOIR (fixed obligations to income ratio) arithmetic for loan estimates.
+// Amounts are whole rupees; rates are annual percentages.
+
+export interface LtvSlab {
+  upTo: number | null; // loan amount ceiling for this slab, null = no ceiling
+  percent: number;
+}
+
+export interface RateTable {
+  loanType: string;
+  interestRateBps: number; // 850 = 8.50% p.a.
+  maxFoirPercent: number;
+  maxTenureYears: number;
+  ltvSlabs: LtvSlab[];
+}
+
+export interface EstimateInput {
+  propertyValue: number;
+  loanAmountNeeded: number;
+  monthlyIncome: number;
+  tenureYears: number;
+  existingLoans?: boolean;
+  existingEmi?: number;
+}
+
+export const STANDARD_TENURE_YEARS = [5, 10, 15, 20, 25, 30];
+
+const monthlyRate = (annualRatePercent: number) => annualRatePercent / 12 / 100;
+
+export const computeEmi = (principal: number, annualRatePercent: number, months: number) => {
+  if (principal <= 0 || months <= 0) return 0;
+  const r = monthlyRate(annualRatePercent);
+  if (r === 0) return principal / months;
+  const growth = Math.pow(1 + r, months);
+  return (principal * r * growth) / (growth - 1);
+};
+
+// Largest principal whose EMI fits in `emi`
+export const maxPrincipalForEmi = (emi: number, annualRatePercent: number, months: number) => {
+  if (emi <= 0 || months <= 0) return 0;
+  const r = monthlyRate(annualRatePercent);
+  if (r === 0) return emi * months;
+  return (emi * (1 - Math.pow(1 + r, -months))) / r;
+};
+
+const sortSlabs = (slabs: LtvSlab[]) =>
+  [...slabs].sort((a, b) => (a.upTo ?? Infinity) - (b.upTo ?? Infinity));
+
+// LTV cap that applies to a given loan amount (slabs are by loan size, as RBI housing loan norms are)
+export const ltvPercentFor = (slabs: LtvSlab[], loanAmount: number) => {
+  const slab = sortSlabs(slabs).find(s => s.upTo === null || loanAmount <= s.upTo);
+  return slab ? slab.percent : 0;
+};
+
+// Highest loan amount the LTV slabs allow against a property value
+export const maxLoanByLtv = (slabs: LtvSlab[], propertyValue: number) => {
+  let best = 0;
+  let lowerBound = 0;
+
+  for (const slab of sortSlabs(slabs)) {
+    const amount = Math.min(slab.upTo ?? Infinity, (propertyValue * slab.percent) / 100);
+    if (amount > lowerBound) best = Math.max(best, amount);
+    lowerBound = slab.upTo ?? Infinity;
+  }
+
+  return Math.floor(best);
+};
+
+export const estimateLoan = (input: EstimateInput, table: RateTable) => {
+  const rate = table.interestRateBps / 100;
+  const existingEmi = Math.max(0, input.existingEmi || 0);
+  const maxEmi = (input.monthlyIncome * table.maxFoirPercent) / 100;
+  const availableEmi = Math.max(0, maxEmi - existingEmi);
+  const ltvMaxAmount = maxLoanByLtv(table.ltvSlabs, input.propertyValue);
+  const ltvPercent = ltvPercentFor(table.ltvSlabs, input.loanAmountNeeded);
+
+  const forTenure = (years: number) => {
+    const months = years * 12;
+    const emi = computeEmi(input.loanAmountNeeded, rate, months);
+    const totalPayment = emi * months;
+
+    return {
+      years,
+      emi: Math.round(emi),
+      totalInterest: Math.round(totalPayment - input.loanAmountNeeded),
+      totalPayment: Math.round(totalPayment),
+      foirPercent: input.monthlyIncome > 0 ? Math.round(((emi + existingEmi) / input.monthlyIncome) * 1000) / 10 : null,
+      affordable: emi <= availableEmi,
+      maxEligibleAmount: Math.floor(Math.min(ltvMaxAmount, maxPrincipalForEmi(availableEmi, rate, months))),
+    };
+  };
+
+  const tenureYears = Math.min(input.tenureYears, table.maxTenureYears);
+  const requested = forTenure(tenureYears);
+  const withinLtv = input.loanAmountNeeded <= ltvMaxAmount;
+
+  return {
+    loanType: table.loanType,
+    interestRate: rate,
+    ltv: {
+      maxPercent: ltvPercent,
+      maxAmount: ltvMaxAmount,
+      requestedPercent: input.propertyValue > 0 ? Math.round((input.loanAmountNeeded / input.propertyValue) * 1000) / 10 : null,
+      withinLimit: withinLtv,
+    },
+    foir: {
+      maxPercent: table.maxFoirPercent,
+      existingEmi,
+      maxEmi: Math.round(maxEmi),
+      availableEmi: Math.round(availableEmi),
+    },
+    requested,
+    tenureCapped: tenureYears !== input.tenureYears,
+    tenures: STANDARD_TENURE_YEARS.filter(years => years <= table.maxTenureYears).map(forTenure),
+    eligibleAmount: requested.maxEligibleAmount,
+    affordable: withinLtv && requested.affordable,
+    // Existing loans without their EMI are estimated as if nothing were being repaid
+    incomplete: Boolean(input.existingLoans) && input.existingEmi === undefined,
+  };
+};
+
+export type LoanEstimate = ReturnType<typeof estimateLoan>;
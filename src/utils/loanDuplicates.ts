@@ -0,0 +1,53 @@
+// Flags a new loan request as a resubmission of an earlier open one from the same customer
+
+export interface DuplicateRule {
+  windowDays: number;
+  amountTolerancePercent: number;
+}
+
+export interface DuplicateSubject {
+  id?: string;
+  userId: number;
+  loanType: string;
+  loanAmountNeeded: number;
+  createdAt: Date;
+}
+
+export const DEFAULT_DUPLICATE_RULE: DuplicateRule = {
+  windowDays: Number(process.env.LOAN_DUPLICATE_WINDOW_DAYS ?? 30),
+  amountTolerancePercent: Number(process.env.LOAN_DUPLICATE_AMOUNT_TOLERANCE_PERCENT ?? 10),
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Amounts within the tolerance of the larger one count as similar (10% => 45L and 50L match, 40L and 50L don't)
+export const isSimilarAmount = (a: number, b: number, tolerancePercent: number) =>
+  Math.abs(a - b) <= Math.max(a, b) * tolerancePercent / 100;
+
+export const isDuplicateOf = (subject: DuplicateSubject, earlier: DuplicateSubject, rule: DuplicateRule = DEFAULT_DUPLICATE_RULE) =>
+  earlier.id !== subject.id &&
+  earlier.userId === subject.userId &&
+  earlier.loanType === subject.loanType &&
+  earlier.createdAt <= subject.createdAt &&
+  subject.createdAt.getTime() - earlier.createdAt.getTime() <= rule.windowDays * DAY &&
+  isSimilarAmount(subject.loanAmountNeeded, earlier.loanAmountNeeded, rule.amountTolerancePercent);
+
+// Earliest matching request, so a chain of resubmissions all link to the original
+export const findDuplicate = <T extends DuplicateSubject>(subject: DuplicateSubject, earlier: T[], rule: DuplicateRule = DEFAULT_DUPLICATE_RULE): T | null =>
+  earlier
+    .filter(candidate => isDuplicateOf(subject, candidate, rule))
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())[0] || null;
+
+// Requests whose history shows on `targetId`: itself and every request merged into it, directly or through a
+// request that was later merged into it as well. `merged` holds the customer's merged requests.
+export const mergedHistoryIds = (targetId: string, merged: { id: string; mergedIntoId: string | null }[]) => {
+  const ids = [targetId];
+
+  for (let i = 0; i < ids.length; i++) {
+    for (const row of merged) {
+      if (row.mergedIntoId === ids[i] && !ids.includes(row.id)) ids.push(row.id);
+    }
+  }
+
+  return ids;
+};
@@ -0,0 +1,79 @@
+// Picks a finance employee for a loan request under a routing rule.
+// Pure so the selection rules can be unit tested; loading candidates and writing the assignment live in loanRoutingService.
+
+export const ROUTING_STRATEGIES = ['round_robin', 'least_open'] as const;
+export type RoutingStrategy = typeof ROUTING_STRATEGIES[number];
+
+export interface RoutingRule {
+  id: number | null; // null for the built-in fallback used by manual auto-assign
+  strategy: RoutingStrategy;
+  loanType: string | null;
+  city: string | null;
+  useSkills: boolean;
+  employeeIds: number[]; // empty = every finance employee
+}
+
+export interface RoutingCandidate {
+  userId: number;
+  openRequests: number;
+  lastAssignedAt: Date | null;
+  acceptsAutoAssign: boolean;
+  maxOpenRequests: number | null;
+  outOfOfficeFrom: Date | null;
+  outOfOfficeUntil: Date | null;
+  loanTypes: string[]; // empty = any loan type
+  cities: string[]; // empty = any city
+}
+
+export interface RoutingSubject {
+  loanType: string;
+  city: string | null;
+}
+
+export type SkipReason = 'not_in_pool' | 'opted_out' | 'out_of_office' | 'at_capacity' | 'skill_mismatch';
+
+const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export const ruleMatches = (rule: RoutingRule, subject: RoutingSubject) =>
+  (!rule.loanType || rule.loanType === subject.loanType) &&
+  (!rule.city || (subject.city !== null && sameText(rule.city, subject.city)));
+
+export const isOutOfOffice = (candidate: RoutingCandidate, now: Date) =>
+  Boolean(candidate.outOfOfficeUntil && candidate.outOfOfficeUntil > now &&
+    (!candidate.outOfOfficeFrom || candidate.outOfOfficeFrom <= now));
+
+export const skipReason = (rule: RoutingRule, candidate: RoutingCandidate, subject: RoutingSubject, now: Date): SkipReason | null => {
+  if (rule.employeeIds.length > 0 && !rule.employeeIds.includes(candidate.userId)) return 'not_in_pool';
+  if (!candidate.acceptsAutoAssign) return 'opted_out';
+  if (isOutOfOffice(candidate, now)) return 'out_of_office';
+  if (candidate.maxOpenRequests !== null && candidate.openRequests >= candidate.maxOpenRequests) return 'at_capacity';
+
+  if (rule.useSkills) {
+    const handlesLoanType = candidate.loanTypes.length === 0 || candidate.loanTypes.includes(subject.loanType);
+    const handlesCity = candidate.cities.length === 0 || (subject.city !== null && candidate.cities.some(city => sameText(city, subject.city!)));
+    if (!handlesLoanType || !handlesCity) return 'skill_mismatch';
+  }
+
+  return null;
+};
+
+const assignedTime = (candidate: RoutingCandidate) => candidate.lastAssignedAt?.getTime() ?? 0;
+
+// Round robin: whoever was assigned longest ago. Least open: fewest open requests, then longest ago.
+export const selectAssignee = (rule: RoutingRule, candidates: RoutingCandidate[], subject: RoutingSubject, now: Date = new Date()) => {
+  const skipped: { userId: number; reason: SkipReason }[] = [];
+  const eligible: RoutingCandidate[] = [];
+
+  for (const candidate of candidates) {
+    const reason = skipReason(rule, candidate, subject, now);
+    if (reason) skipped.push({ userId: candidate.userId, reason });
+    else eligible.push(candidate);
+  }
+
+  eligible.sort((a, b) => {
+    if (rule.strategy === 'least_open' && a.openRequests !== b.openRequests) return a.openRequests - b.openRequests;
+    return assignedTime(a) - assignedTime(b) || a.userId - b.userId;
+  });
+
+  return { assignee: eligible[0] || null, eligibleCount: eligible.length, skipped };
+};
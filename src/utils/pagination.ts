@@ -0,0 +1,93 @@
+import { sql, SQL, SQLWrapper, AnyColumn } from 'drizzle-orm';
+
+// Keyset (seek) pagination over a (sort key, id) pair.
+// The cursor is opaque to clients: base64url JSON of the last row's sort key, id and the sort it belongs to.
+// Nullable sort keys must be wrapped in COALESCE by the caller, since NULLs never compare.
+
+export type SortDirection = 'asc' | 'desc';
+
+// What the sort key's ::text form looks like, so a tampered cursor is rejected instead of failing the cast
+export type SortKeyType = 'number' | 'timestamp' | 'text';
+
+export interface KeysetSort {
+  name: string;
+  key: SQLWrapper;
+  keyType: SortKeyType;
+  id: AnyColumn;
+  direction: SortDirection;
+}
+
+interface CursorPayload {
+  s: string;
+  k: string;
+  i: string | number;
+}
+
+export const encodeCursor = (sortName: string, key: string, id: string | number) =>
+  Buffer.from(JSON.stringify({ s: sortName, k: key, i: id })).toString('base64url');
+
+export const decodeCursor = (cursor: string): CursorPayload | null => {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof payload?.s !== 'string' || typeof payload?.k !== 'string') return null;
+    if (typeof payload.i !== 'string' && typeof payload.i !== 'number') return null;
+    return payload;
+  } catch {
+    return null;
+  }
+};
+
+const KEY_PATTERNS: Record<SortKeyType, RegExp> = {
+  // NaN and Infinity come from COALESCE fallbacks and float keys
+  number: /^(-?\d+(\.\d+)?(e[+-]?\d+)?|NaN|-?Infinity)$/i,
+  timestamp: /^(\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}:\d{2}(\.\d{1,6})?|-?infinity)$/,
+  text: /^/,
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const isValidCursorFor = (sort: KeysetSort, payload: CursorPayload) => {
+  if (payload.s !== sort.name || !KEY_PATTERNS[sort.keyType].test(payload.k)) return false;
+  if (sort.id.dataType === 'number') return Number.isSafeInteger(Number(payload.i)) && String(payload.i).trim() !== '';
+  if (sort.id.columnType === 'PgUUID') return typeof payload.i === 'string' && UUID_PATTERN.test(payload.i);
+  return true;
+};
+
+export interface Keyset {
+  error?: string;
+  where?: SQL;
+  orderBy: SQL[];
+  cursorKey: SQL<string>;
+}
+
+// Builds the seek condition, ORDER BY and the cursor-key column to add to the select list as `cursorKey`
+export const keyset = (sort: KeysetSort, cursor?: string | null): Keyset => {
+  const dir = sql.raw(sort.direction === 'asc' ? 'ASC' : 'DESC');
+  const orderBy = [sql`${sort.key} ${dir}`, sql`${sort.id} ${dir}`];
+  // Text keeps full timestamp precision (JS Dates drop microseconds)
+  const cursorKey = sql<string>`(${sort.key})::text`;
+
+  if (!cursor) return { orderBy, cursorKey };
+
+  const payload = decodeCursor(cursor);
+  if (!payload || !isValidCursorFor(sort, payload)) {
+    return { error: 'Invalid cursor', orderBy, cursorKey };
+  }
+
+  const op = sql.raw(sort.direction === 'asc' ? '>' : '<');
+  const where = sql`(${sort.key}, ${sort.id}) ${op} (${payload.k}, ${payload.i})`;
+  return { where, orderBy, cursorKey };
+};
+
+// Trims the extra look-ahead row, strips cursorKey from the rows and encodes the next cursor
+export const toPage = <T extends { cursorKey: string; id: string | number }>(rows: T[], limit: number, sort: KeysetSort) => {
+  const hasMore = rows.length > limit;
+  const pageRows = hasMore ? rows.slice(0, limit) : rows;
+  const last = pageRows[pageRows.length - 1];
+
+  return {
+    data: pageRows.map(({ cursorKey, ...row }) => row),
+    nextCursor: hasMore && last ? encodeCursor(sort.name, last.cursorKey, last.id) : null,
+    hasMore,
+  };
+};
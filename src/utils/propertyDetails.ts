@@ -0,0 +1,53 @@
+import { z } from 'zod';
+import { PROPERTY_ATTRIBUTE_SCHEMAS, PROPERTY_KINDS, PropertyUnitInput, isPropertyKind, propertyUnitsSchema } from '../config/propertyAttributes';
+import { properties } from '../models/property';
+
+const issueMessage = (field: string, error: z.ZodError) => {
+  const issue = error.issues[0];
+  const path = issue.path.length ? `${field}.${issue.path.join('.')}` : field;
+  return `${path}: ${issue.message}`;
+};
+
+// Fields of a property payload whose shape depends on the property kind. Proposed payloads are untyped
+// JSON (see propertyPendingChanges.proposedPayload), so they are validated here rather than trusted.
+export interface PropertyDetailsInput {
+  propertyKind?: unknown;
+  attributes?: unknown;
+  units?: unknown;
+}
+
+// A proposed payload as the pending change endpoints accept it: property columns plus units
+export type ProposedPropertyPayload = typeof properties.$inferInsert & PropertyDetailsInput;
+
+// Validates the typed details of a property payload (propertyKind, attributes, units) against the kind the
+// property has now. Returns the payload without `units` and with parsed attributes, plus the parsed units
+// (undefined when the payload leaves them alone). Switching kind without new attributes clears the old ones.
+export const preparePropertyDetails = <T extends PropertyDetailsInput>(payload: T, currentKind?: string | null) => {
+  const { units, ...rest } = payload;
+
+  const kindGiven = rest.propertyKind !== undefined;
+  if (kindGiven && rest.propertyKind !== null && !isPropertyKind(rest.propertyKind)) {
+    return { error: `propertyKind must be one of: ${PROPERTY_KINDS.join(', ')}` };
+  }
+  const kind = kindGiven ? rest.propertyKind : currentKind ?? null;
+
+  let attributes: Record<string, unknown> | undefined;
+  if (rest.attributes !== undefined && rest.attributes !== null) {
+    if (!isPropertyKind(kind)) return { error: 'Set propertyKind before adding attributes' };
+    const parsed = PROPERTY_ATTRIBUTE_SCHEMAS[kind].safeParse(rest.attributes);
+    if (!parsed.success) return { error: issueMessage('attributes', parsed.error) };
+    attributes = parsed.data;
+  } else if (rest.attributes === null || (kindGiven && kind !== currentKind)) {
+    attributes = {};
+  }
+
+  let parsedUnits: PropertyUnitInput[] | undefined;
+  if (units !== undefined) {
+    const parsed = propertyUnitsSchema.safeParse(units ?? []);
+    if (!parsed.success) return { error: issueMessage('units', parsed.error) };
+    parsedUnits = parsed.data;
+  }
+
+  const prepared = attributes === undefined ? rest : { ...rest, attributes };
+  return { payload: prepared as Omit<T, 'units'>, units: parsedUnits };
+};
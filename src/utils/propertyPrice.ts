@@ -0,0 +1,25 @@
+// properties.price is numeric, so it comes back from Postgres as a string. Payloads send strings, numbers,
+// '' or null; '' and null both mean "price on request".
+export const toPrice = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const price = Number(value);
+  return Number.isFinite(price) ? price : null;
+};
+
+export const isPriceChange = (before: unknown, after: unknown) => toPrice(before) !== toPrice(after);
+
+export const isPriceDrop = (before: unknown, after: unknown) => {
+  const oldPrice = toPrice(before);
+  const newPrice = toPrice(after);
+  return oldPrice !== null && newPrice !== null && newPrice < oldPrice;
+};
+
+// Signed change with one decimal, null unless both prices are known
+export const priceChangePercent = (before: unknown, after: unknown) => {
+  const oldPrice = toPrice(before);
+  const newPrice = toPrice(after);
+  if (oldPrice === null || newPrice === null || oldPrice === 0) return null;
+  return Math.round((newPrice - oldPrice) / oldPrice * 1000) / 10;
+};
+
+export const formatInr = (value: number) => `₹${value.toLocaleString('en-IN', { maximumFractionDigits: 0 })}`;
@@ -0,0 +1,29 @@
+// Query-string helpers and price buckets for GET /api/properties/search
+
+// Price facet buckets in rupees; `max` is exclusive
+export const PRICE_BUCKETS: { label: string; min: number; max: number | null }[] = [
+  { label: 'Under 25L', min: 0, max: 2500000 },
+  { label: '25L-50L', min: 2500000, max: 5000000 },
+  { label: '50L-1Cr', min: 5000000, max: 10000000 },
+  { label: '1Cr-2Cr', min: 10000000, max: 20000000 },
+  { label: '2Cr+', min: 20000000, max: null },
+];
+
+export const PROPERTY_SEARCH_SORTS = ['relevance', 'price_asc', 'price_desc', 'newest'] as const;
+export type PropertySearchSort = typeof PROPERTY_SEARCH_SORTS[number];
+
+// Accepts ?amenities=Gym,Pool as well as ?amenities=Gym&amenities=Pool; trims, drops blanks and repeats
+export const toList = (value: unknown): string[] => {
+  const raw = Array.isArray(value) ? value : value === undefined || value === null ? [] : [value];
+  const items = raw.flatMap(item => String(item).split(',')).map(item => item.trim()).filter(Boolean);
+  return [...new Set(items)];
+};
+
+// Relevance only means something with a text query; without one the newest listings come first
+export const resolveSort = (sort: PropertySearchSort | undefined, hasQuery: boolean): PropertySearchSort => {
+  if (!sort) return hasQuery ? 'relevance' : 'newest';
+  return sort === 'relevance' && !hasQuery ? 'newest' : sort;
+};
+
+// Escapes LIKE wildcards so user text is matched literally
+export const likePattern = (text: string) => `%${text.replace(/[\\%_]/g, match => `\\${match}`)}%`;
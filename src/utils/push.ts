@@ -0,0 +1,36 @@
+// FCM rejects a multicast with more than 500 tokens
+export const MAX_MULTICAST_TOKENS = 500;
+
+// FCM error codes meaning the token will never work again
+const DEAD_TOKEN_CODES = ['messaging/registration-token-not-registered', 'messaging/invalid-registration-token'];
+
+export interface MulticastResult {
+  successCount: number;
+  responses: { error?: { code: string } }[];
+}
+
+export interface PushBatchResult {
+  successCount: number;
+  failedBatches: number;
+  deadTokens: string[];
+}
+
+// Sends `tokens` in multicasts of at most MAX_MULTICAST_TOKENS. A batch that fails as a whole is counted and
+// skipped so the remaining batches still go out; dead tokens are collected from each batch response.
+export const sendInBatches = async (tokens: string[], send: (batch: string[]) => Promise<MulticastResult>): Promise<PushBatchResult> => {
+  const result: PushBatchResult = { successCount: 0, failedBatches: 0, deadTokens: [] };
+
+  for (let start = 0; start < tokens.length; start += MAX_MULTICAST_TOKENS) {
+    const batch = tokens.slice(start, start + MAX_MULTICAST_TOKENS);
+    try {
+      const response = await send(batch);
+      result.successCount += response.successCount;
+      result.deadTokens.push(...batch.filter((_, i) => DEAD_TOKEN_CODES.includes(response.responses[i]?.error?.code)));
+    } catch (error) {
+      console.error('❌ Push batch error:', error);
+      result.failedBatches++;
+    }
+  }
+
+  return result;
+};
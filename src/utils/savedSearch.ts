@@ -0,0 +1,45 @@
+import { toPrice } from './propertyPrice';
+
+// Criteria a customer saves to be told about new listings. Same semantics as GET /api/properties/search:
+// any of the categories, all of the amenities, location as a case-insensitive substring, prices inclusive.
+export interface SavedSearchCriteria {
+  categories?: string[];
+  amenities?: string[];
+  location?: string;
+  minPrice?: number;
+  maxPrice?: number;
+}
+
+export interface ListingForMatch {
+  location?: string | null;
+  price?: unknown;
+  categories?: unknown;
+  amenities?: unknown;
+}
+
+const asList = (value: unknown): string[] => Array.isArray(value) ? value.map(String) : [];
+
+export const matchesSavedSearch = (criteria: SavedSearchCriteria, listing: ListingForMatch) => {
+  const categories = asList(listing.categories);
+  if (criteria.categories?.length && !criteria.categories.some(category => categories.includes(category))) return false;
+
+  const amenities = asList(listing.amenities);
+  if (criteria.amenities?.length && !criteria.amenities.every(amenity => amenities.includes(amenity))) return false;
+
+  if (criteria.location && !(listing.location || '').toLowerCase().includes(criteria.location.toLowerCase())) return false;
+
+  // A listing without a price can't be shown to match a price range
+  if (criteria.minPrice !== undefined || criteria.maxPrice !== undefined) {
+    const price = toPrice(listing.price);
+    if (price === null) return false;
+    if (criteria.minPrice !== undefined && price < criteria.minPrice) return false;
+    if (criteria.maxPrice !== undefined && price > criteria.maxPrice) return false;
+  }
+
+  return true;
+};
+
+// Empty criteria would match every listing
+export const hasCriteria = (criteria: SavedSearchCriteria) =>
+  !!(criteria.categories?.length || criteria.amenities?.length || criteria.location ||
+    criteria.minPrice !== undefined || criteria.maxPrice !== undefined);
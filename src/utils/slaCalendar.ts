@@ -0,0 +1,76 @@
+export interface BusinessCalendar {
+  utcOffsetMinutes: number;
+  workDays: number[]; // 0 = Sunday ... 6 = Saturday, in the calendar's local time
+  startTime: string; // "HH:MM"
+  endTime: string; // "HH:MM"
+  holidays: string[]; // "YYYY-MM-DD", local dates
+}
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const MAX_DAYS_SCANNED = 366 * 2;
+
+export const parseTimeOfDay = (value: string) => {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(value);
+  if (!match) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+};
+
+// Adds `hours` of working time to `start`, skipping nights, non-working days and holidays.
+// All arithmetic is done on a "local" clock shifted by the calendar's UTC offset.
+export const addBusinessHours = (start: Date, hours: number, calendar: BusinessCalendar): Date => {
+  const offset = calendar.utcOffsetMinutes * MINUTE;
+  const dayStart = parseTimeOfDay(calendar.startTime);
+  const dayEnd = parseTimeOfDay(calendar.endTime);
+
+  // A calendar with no usable working window falls back to wall-clock time
+  if (dayStart === null || dayEnd === null || dayEnd <= dayStart || calendar.workDays.length === 0) {
+    return new Date(start.getTime() + hours * 60 * MINUTE);
+  }
+
+  const holidays = new Set(calendar.holidays);
+  let remaining = hours * 60 * MINUTE;
+  let cursor = start.getTime() + offset;
+
+  for (let i = 0; i < MAX_DAYS_SCANNED; i++) {
+    const midnight = Math.floor(cursor / DAY) * DAY;
+    const date = new Date(midnight);
+    const isWorkingDay = calendar.workDays.includes(date.getUTCDay())
+      && !holidays.has(date.toISOString().slice(0, 10));
+
+    if (isWorkingDay) {
+      const windowStart = midnight + dayStart * MINUTE;
+      const windowEnd = midnight + dayEnd * MINUTE;
+      if (cursor < windowStart) cursor = windowStart;
+
+      if (cursor < windowEnd) {
+        const available = windowEnd - cursor;
+        if (remaining <= available) {
+          return new Date(cursor + remaining - offset);
+        }
+        remaining -= available;
+      }
+    }
+
+    cursor = midnight + DAY;
+  }
+
+  return new Date(start.getTime() + hours * 60 * MINUTE);
+};
+
+export interface SlaPolicyMatch {
+  id: number;
+  priority: string | null;
+  loanType: string | null;
+}
+
+// Most specific match wins: priority + loan type, then loan type, then priority, then a catch-all policy.
+// Requests without a priority count as normal; ties go to the oldest policy.
+export const resolveSlaPolicy = <T extends SlaPolicyMatch>(policies: T[], subject: { priority?: string | null; loanType: string }): T | null => {
+  const priority = subject.priority || 'normal';
+  const score = (policy: T) => (policy.loanType ? 2 : 0) + (policy.priority ? 1 : 0);
+
+  return policies
+    .filter(p => (!p.priority || p.priority === priority) && (!p.loanType || p.loanType === subject.loanType))
+    .sort((a, b) => score(b) - score(a) || a.id - b.id)[0] || null;
+};